@@ -1,8 +1,9 @@
 // Service Worker for Exam Space PWA
-const CACHE_NAME = 'exam-space-v3'; // bump when changing caching strategy - v3 for live streaming fixes
+const CACHE_NAME = 'exam-space-v4'; // bump when changing caching strategy - v4 keeps the exam shell offline
 const urlsToCache = [
   '/',
   '/index.html',
+  '/offline.html',
   '/logo.png',
   '/favicon.png',
   '/manifest.json'
@@ -80,10 +81,21 @@ self.addEventListener('fetch', (event) => {
   if (/supabase\.co/.test(url.host)) return;
   if (event.request.headers.get('upgrade') === 'websocket') return;
 
-  // Always network-first for SPA navigations (ensures newest app code)
+  // Always network-first for SPA navigations (ensures newest app code). The
+  // latest shell is kept so a reload during an outage still opens the exam
   if (event.request.mode === 'navigate') {
     event.respondWith(
-      fetch(event.request).catch(() => caches.match('/index.html'))
+      fetch(event.request)
+        .then((resp) => {
+          if (resp && resp.status === 200 && resp.type === 'basic') {
+            const copy = resp.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy));
+          }
+          return resp;
+        })
+        .catch(() =>
+          caches.match('/index.html').then((cached) => cached || caches.match('/offline.html'))
+        )
     );
     return;
   }
@@ -122,14 +134,12 @@ self.addEventListener('fetch', (event) => {
   }
 });
 
-// Background sync for exam data (currently a no-op)
+// Background sync for answers journaled while offline. The open exam page
+// holds the session and the Supabase client, so it does the replay
 self.addEventListener('sync', (event) => {
-  if (event.tag === 'exam-sync') {
-    console.log('Service Worker: Background sync for exam data');
-    event.waitUntil(
-      // Handle exam data synchronization
-      syncExamData()
-    );
+  if (event.tag === 'answer-sync') {
+    console.log('Service Worker: Background sync for answers');
+    event.waitUntil(syncAnswers());
   }
 });
 
@@ -178,14 +188,8 @@ self.addEventListener('notificationclick', (event) => {
   }
 });
 
-// Helper function for exam data sync
-async function syncExamData() {
-  try {
-    // Implement exam data synchronization logic here
-    console.log('Service Worker: Syncing exam data');
-    return Promise.resolve();
-  } catch (error) {
-    console.log('Service Worker: Sync failed', error);
-    return Promise.reject(error);
-  }
+// Asks every open exam page to replay its answer journal
+async function syncAnswers() {
+  const windows = await clients.matchAll({ type: 'window' });
+  windows.forEach((client) => client.postMessage({ type: 'sync-answers' }));
 }
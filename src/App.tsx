@@ -15,8 +15,15 @@ import ExamSessions from "./pages/ExamSessions";
 import Submissions from "./pages/Submissions";
 import CandidateRegister from "./pages/CandidateRegister";
 import CandidateExam from "./pages/CandidateExam";
+import CandidateSystemCheck from "./pages/CandidateSystemCheck";
+import CandidateIdentity from "./pages/CandidateIdentity";
 import CandidateExamComplete from "./pages/CandidateExamComplete";
 import SessionReview from "./pages/SessionReview";
+import GradeSession from "./pages/GradeSession";
+import GradingQueue from "./pages/GradingQueue";
+import QuestionBank from "./pages/QuestionBank";
+import ExamCalendar from "./pages/ExamCalendar";
+import ExamRoster from "./pages/ExamRoster";
 
 const queryClient = new QueryClient();
 
@@ -39,10 +46,17 @@ const App = () => (
           <Route path="/admin/create-exam" element={<CreateExam />} />
           <Route path="/admin/exam/:examId/edit" element={<EditExam />} />
           <Route path="/admin/manage-exams" element={<ManageExams />} />
+          <Route path="/admin/question-bank" element={<QuestionBank />} />
+          <Route path="/admin/calendar" element={<ExamCalendar />} />
           <Route path="/admin/exam/:examId/sessions" element={<ExamSessions />} />
+          <Route path="/admin/exam/:examId/roster" element={<ExamRoster />} />
           <Route path="/admin/submissions" element={<Submissions />} />
+          <Route path="/admin/grading" element={<GradingQueue />} />
           <Route path="/admin/session/:sessionId/review" element={<SessionReview />} />
+          <Route path="/admin/session/:sessionId/grade" element={<GradeSession />} />
           <Route path="/candidate/register" element={<CandidateRegister />} />
+          <Route path="/candidate/exam/:sessionId/identity" element={<CandidateIdentity />} />
+          <Route path="/candidate/exam/:sessionId/system-check" element={<CandidateSystemCheck />} />
           <Route path="/candidate/exam/:sessionId" element={<CandidateExam />} />
           <Route path="/candidate/exam-complete" element={<CandidateExamComplete />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
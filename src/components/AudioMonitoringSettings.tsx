@@ -0,0 +1,47 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { AudioMonitoring } from "@/lib/audioMonitor";
+import { AudioLines } from "lucide-react";
+
+interface AudioMonitoringSettingsProps {
+  settings: AudioMonitoring;
+  onChange: (settings: AudioMonitoring) => void;
+}
+
+const AudioMonitoringSettings = ({ settings, onChange }: AudioMonitoringSettingsProps) => {
+  return (
+    <div className="space-y-3 p-3 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <AudioLines className="h-4 w-4 text-muted-foreground" />
+          <Label htmlFor="audio-monitoring">Speech detection</Label>
+        </div>
+        <Switch
+          id="audio-monitoring"
+          checked={settings.audio_monitoring}
+          onCheckedChange={(checked) => onChange({ ...settings, audio_monitoring: checked })}
+        />
+      </div>
+
+      {settings.audio_monitoring && (
+        <div className="space-y-2">
+          <Label htmlFor="audio-speech-seconds" className="text-sm font-normal">Flag talking longer than (seconds)</Label>
+          <Input
+            id="audio-speech-seconds"
+            type="number"
+            min="1"
+            value={settings.audio_speech_seconds}
+            onChange={(e) => onChange({ ...settings, audio_speech_seconds: Math.max(1, parseInt(e.target.value) || 1) })}
+          />
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        The candidate's browser listens for sustained speech and for more than one voice, and logs each talking interval as an integrity flag.
+      </p>
+    </div>
+  );
+};
+
+export default AudioMonitoringSettings;
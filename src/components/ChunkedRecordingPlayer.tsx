@@ -0,0 +1,175 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import TimelineVideo from "@/components/TimelineVideo";
+import type { TimelineMarker } from "@/lib/timeline";
+import { assembleSegment, loadRecordingSegments, type AssembledSegment, type RecordingSegment } from "@/lib/recordingUpload";
+import { AlertTriangle, Download, Play } from "lucide-react";
+
+interface ChunkedRecordingPlayerProps {
+  sessionId: string;
+  candidateName: string;
+  markers?: TimelineMarker[];
+  onAddNote?: (notedAt: string, note: string) => Promise<void>;
+}
+
+interface LoadedSegment extends AssembledSegment {
+  segment: number;
+  started_at: string;
+  url: string;
+}
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+
+/**
+ * Plays a recording uploaded in chunks, one segment (recorder run) at a time.
+ * Works for sessions that ended abnormally: whatever was uploaded is playable.
+ */
+const ChunkedRecordingPlayer = ({ sessionId, candidateName, markers = [], onAddNote }: ChunkedRecordingPlayerProps) => {
+  const [segments, setSegments] = useState<RecordingSegment[]>([]);
+  const [loaded, setLoaded] = useState<LoadedSegment | null>(null);
+  const [assembling, setAssembling] = useState<{ segment: number; done: number; total: number } | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSegments();
+  }, [sessionId]);
+
+  // Release the assembled video when another segment replaces it or the player closes
+  useEffect(() => {
+    return () => {
+      if (loaded) URL.revokeObjectURL(loaded.url);
+    };
+  }, [loaded]);
+
+  const loadSegments = async () => {
+    try {
+      setSegments(await loadRecordingSegments(sessionId));
+    } catch (error) {
+      console.error("Error loading recording chunks:", error);
+      toast.error("Failed to load recording chunks");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const playSegment = async (segment: RecordingSegment) => {
+    try {
+      setAssembling({ segment: segment.segment, done: 0, total: segment.chunks.length });
+      const assembled = await assembleSegment(segment, (done, total) =>
+        setAssembling({ segment: segment.segment, done, total })
+      );
+      if (assembled.failed.length > 0) {
+        toast.warning(`${assembled.failed.length} chunk(s) could not be verified and were skipped`);
+      }
+      setLoaded({
+        ...assembled,
+        segment: segment.segment,
+        started_at: segment.started_at,
+        url: URL.createObjectURL(assembled.blob)
+      });
+    } catch (error) {
+      console.error("Error assembling recording:", error);
+      toast.error("Failed to load recording");
+    } finally {
+      setAssembling(null);
+    }
+  };
+
+  const downloadSegment = () => {
+    if (!loaded) return;
+    const link = document.createElement('a');
+    link.href = loaded.url;
+    link.download = `exam-recording-${candidateName.replace(/\s+/g, '-')}-part-${loaded.segment}.webm`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+        <p className="text-muted-foreground">Loading recording...</p>
+      </div>
+    );
+  }
+
+  if (segments.length === 0) {
+    return <p className="text-center py-8 text-muted-foreground">No recording chunks were uploaded</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {segments.map(segment => (
+          <div key={segment.segment} className="flex items-center justify-between p-3 border rounded-lg">
+            <div className="space-y-1">
+              <p className="text-sm font-medium">
+                Part {segment.segment}
+                {segments.length > 1 && loaded?.segment === segment.segment && (
+                  <Badge variant="secondary" className="ml-2">Playing</Badge>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Started {new Date(segment.started_at).toLocaleString()} · {segment.chunks.length} chunk{segment.chunks.length !== 1 ? 's' : ''} · {formatSize(segment.size_bytes)}
+              </p>
+              {segment.missing.length > 0 && (
+                <p className="text-xs text-destructive flex items-center gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  {segment.missing.length} chunk{segment.missing.length !== 1 ? 's' : ''} never uploaded; playback may stop early
+                </p>
+              )}
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => playSegment(segment)}
+              disabled={assembling !== null}
+            >
+              <Play className="mr-2 h-4 w-4" />
+              Play
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {assembling && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span>Downloading and verifying part {assembling.segment}</span>
+            <span>{assembling.done}/{assembling.total}</span>
+          </div>
+          <Progress value={(assembling.done / assembling.total) * 100} className="h-2" />
+        </div>
+      )}
+
+      {loaded && (
+        <div className="space-y-2">
+          <TimelineVideo
+            key={loaded.url}
+            src={loaded.url}
+            origin={loaded.started_at}
+            markers={markers}
+            onAddNote={onAddNote}
+          />
+          {loaded.failed.length > 0 && (
+            <p className="text-xs text-destructive">
+              Chunks {loaded.failed.join(', ')} failed checksum verification or download and were left out
+            </p>
+          )}
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={downloadSegment}>
+              <Download className="mr-2 h-4 w-4" />
+              Download Part {loaded.segment}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChunkedRecordingPlayer;
@@ -0,0 +1,50 @@
+import { useMemo } from "react";
+import CodeMirror, { EditorView, type Extension } from "@uiw/react-codemirror";
+import { javascript } from "@codemirror/lang-javascript";
+import { python } from "@codemirror/lang-python";
+import { cn } from "@/lib/utils";
+
+interface CodeEditorProps {
+  value: string;
+  language: string | null;
+  onChange?: (value: string) => void;
+  readOnly?: boolean;
+  placeholder?: string;
+  minHeight?: string;
+  className?: string;
+}
+
+// Unknown or missing languages fall back to plain text with line numbers only
+const languageExtension = (language: string | null): Extension[] => {
+  switch (language) {
+    case 'javascript': return [javascript()];
+    case 'typescript': return [javascript({ typescript: true })];
+    case 'python': return [python()];
+    default: return [];
+  }
+};
+
+const CodeEditor = ({ value, language, onChange, readOnly = false, placeholder, minHeight = "240px", className }: CodeEditorProps) => {
+  const extensions = useMemo(() => [...languageExtension(language), EditorView.lineWrapping], [language]);
+
+  return (
+    <CodeMirror
+      value={value}
+      onChange={onChange}
+      extensions={extensions}
+      readOnly={readOnly}
+      editable={!readOnly}
+      placeholder={placeholder}
+      minHeight={readOnly ? undefined : minHeight}
+      basicSetup={{
+        highlightActiveLine: !readOnly,
+        highlightActiveLineGutter: !readOnly,
+        foldGutter: false,
+        autocompletion: false
+      }}
+      className={cn("overflow-hidden rounded-md border border-input text-sm", className)}
+    />
+  );
+};
+
+export default CodeEditor;
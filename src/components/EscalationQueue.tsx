@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { claimEscalation, getEscalationStatusLabel, resolveEscalation, type Escalation } from "@/lib/proctorAssignment";
+import { CheckCircle2, Eye, Flag, Hand } from "lucide-react";
+
+interface EscalationQueueProps {
+  escalations: Escalation[];
+  currentUserId: string | null;
+  isSupervisor: boolean;
+  onChanged: () => void;
+}
+
+/**
+ * Sessions a proctor flagged for a second pair of eyes. Any proctor can claim
+ * an open escalation; the claimed session then joins their monitoring grid
+ * until they resolve it.
+ */
+const EscalationQueue = ({ escalations, currentUserId, isSupervisor, onChanged }: EscalationQueueProps) => {
+  const navigate = useNavigate();
+  const [resolving, setResolving] = useState<Escalation | null>(null);
+  const [resolution, setResolution] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  if (escalations.length === 0) return null;
+
+  const handleClaim = async (escalation: Escalation) => {
+    try {
+      await claimEscalation(escalation.id);
+      toast.success(`You are now watching ${escalation.session.full_name}`);
+      onChanged();
+    } catch (error) {
+      console.error("Error claiming escalation:", error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Failed to claim escalation: ${message}`);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!resolving || !resolution.trim()) return;
+    setSaving(true);
+    try {
+      await resolveEscalation(resolving.id, resolution);
+      toast.success("Escalation resolved");
+      setResolving(null);
+      setResolution("");
+      onChanged();
+    } catch (error) {
+      console.error("Error resolving escalation:", error);
+      toast.error("Failed to resolve escalation");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 border border-orange-300 rounded-lg p-3 bg-orange-50/50">
+      <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+        <Flag className="h-4 w-4 text-orange-600" />
+        Escalations
+        <Badge variant="secondary" className="text-xs">{escalations.length}</Badge>
+      </h3>
+      <div className="space-y-2">
+        {escalations.map((escalation) => {
+          const mine = escalation.claimed_by === currentUserId;
+          return (
+            <div
+              key={escalation.id}
+              className="flex items-center justify-between p-2 rounded-lg bg-background"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium">{escalation.session.full_name}</p>
+                  <Badge variant={escalation.status === 'open' ? "destructive" : "outline"} className="text-xs">
+                    {mine ? 'Claimed by you' : getEscalationStatusLabel(escalation.status)}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {escalation.session.exam.title} · {new Date(escalation.created_at).toLocaleTimeString()}
+                </p>
+                <p className="text-xs mt-1 truncate">{escalation.reason}</p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {escalation.status === 'open' && escalation.raised_by !== currentUserId && (
+                  <Button size="sm" variant="outline" onClick={() => handleClaim(escalation)}>
+                    <Hand className="h-4 w-4 mr-2" />
+                    Claim
+                  </Button>
+                )}
+                {(mine || isSupervisor) && (
+                  <Button size="sm" variant="outline" onClick={() => setResolving(escalation)}>
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                    Resolve
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => navigate(`/admin/session/${escalation.session_id}/review`)}
+                >
+                  <Eye className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Resolve Escalation</DialogTitle>
+            <DialogDescription>
+              {resolving ? `Raised for ${resolving.session.full_name}: ${resolving.reason}` : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="escalation-resolution">Outcome (required)</Label>
+            <Textarea
+              id="escalation-resolution"
+              value={resolution}
+              onChange={(e) => setResolution(e.target.value)}
+              placeholder="e.g. Reviewed the stream, no issue found"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)}>Cancel</Button>
+            <Button onClick={handleResolve} disabled={saving || !resolution.trim()}>
+              {saving ? "Saving..." : "Resolve"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EscalationQueue;
@@ -0,0 +1,106 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getTimezoneOptions, utcToZonedInput, zonedInputToUtc, type ExamSchedule } from "@/lib/schedule";
+import { CalendarClock } from "lucide-react";
+
+interface ExamScheduleSettingsProps {
+  schedule: ExamSchedule;
+  onChange: (schedule: ExamSchedule) => void;
+}
+
+const parseOptionalInt = (value: string) => (value === "" ? null : Math.max(0, parseInt(value) || 0));
+
+const ExamScheduleSettings = ({ schedule, onChange }: ExamScheduleSettingsProps) => {
+  const opensInput = utcToZonedInput(schedule.opens_at, schedule.timezone);
+  const closesInput = utcToZonedInput(schedule.closes_at, schedule.timezone);
+
+  // Changing the timezone keeps the wall-clock times the author entered
+  const changeTimezone = (timezone: string) => {
+    onChange({
+      ...schedule,
+      timezone,
+      opens_at: opensInput ? zonedInputToUtc(opensInput, timezone) : null,
+      closes_at: closesInput ? zonedInputToUtc(closesInput, timezone) : null
+    });
+  };
+
+  return (
+    <div className="space-y-3 p-3 border rounded-lg">
+      <div className="flex items-center gap-2">
+        <CalendarClock className="h-4 w-4 text-muted-foreground" />
+        <Label>Sitting Window</Label>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="exam-timezone" className="text-sm font-normal">Timezone</Label>
+        <Select value={schedule.timezone} onValueChange={changeTimezone}>
+          <SelectTrigger id="exam-timezone">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {getTimezoneOptions(schedule.timezone).map(timezone => (
+              <SelectItem key={timezone} value={timezone}>{timezone}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="exam-opens-at" className="text-sm font-normal">Opens</Label>
+          <Input
+            id="exam-opens-at"
+            type="datetime-local"
+            value={opensInput}
+            onChange={(e) => onChange({ ...schedule, opens_at: zonedInputToUtc(e.target.value, schedule.timezone) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="exam-closes-at" className="text-sm font-normal">Closes</Label>
+          <Input
+            id="exam-closes-at"
+            type="datetime-local"
+            value={closesInput}
+            onChange={(e) => onChange({ ...schedule, closes_at: zonedInputToUtc(e.target.value, schedule.timezone) })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="exam-late-entry" className="text-sm font-normal">Late entry (minutes)</Label>
+          <Input
+            id="exam-late-entry"
+            type="number"
+            min="0"
+            value={schedule.late_entry_minutes ?? ""}
+            onChange={(e) => onChange({ ...schedule, late_entry_minutes: parseOptionalInt(e.target.value) })}
+            placeholder="Until close"
+            disabled={!schedule.opens_at}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="exam-max-attempts" className="text-sm font-normal">Max attempts per email</Label>
+          <Input
+            id="exam-max-attempts"
+            type="number"
+            min="1"
+            value={schedule.max_attempts ?? ""}
+            onChange={(e) => {
+              const attempts = parseOptionalInt(e.target.value);
+              onChange({ ...schedule, max_attempts: attempts === 0 ? 1 : attempts });
+            }}
+            placeholder="Unlimited"
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Candidates are routed to the active exam whose window is open. Leave the times empty to keep the exam open while it is active.
+      </p>
+    </div>
+  );
+};
+
+export default ExamScheduleSettings;
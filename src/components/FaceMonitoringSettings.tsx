@@ -0,0 +1,72 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { FaceMonitoring } from "@/lib/faceMonitor";
+import { ScanFace } from "lucide-react";
+
+interface FaceMonitoringSettingsProps {
+  settings: FaceMonitoring;
+  onChange: (settings: FaceMonitoring) => void;
+}
+
+const parseSeconds = (value: string) => Math.max(1, parseInt(value) || 1);
+
+const FaceMonitoringSettings = ({ settings, onChange }: FaceMonitoringSettingsProps) => {
+  return (
+    <div className="space-y-3 p-3 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ScanFace className="h-4 w-4 text-muted-foreground" />
+          <Label htmlFor="face-monitoring">Face presence monitoring</Label>
+        </div>
+        <Switch
+          id="face-monitoring"
+          checked={settings.face_monitoring}
+          onCheckedChange={(checked) => onChange({ ...settings, face_monitoring: checked })}
+        />
+      </div>
+
+      {settings.face_monitoring && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="face-absent-seconds" className="text-sm font-normal">No face after (seconds)</Label>
+              <Input
+                id="face-absent-seconds"
+                type="number"
+                min="1"
+                value={settings.face_absent_seconds}
+                onChange={(e) => onChange({ ...settings, face_absent_seconds: parseSeconds(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="face-away-seconds" className="text-sm font-normal">Looking away after (seconds)</Label>
+              <Input
+                id="face-away-seconds"
+                type="number"
+                min="1"
+                value={settings.face_away_seconds}
+                onChange={(e) => onChange({ ...settings, face_away_seconds: parseSeconds(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="face-warn-candidate" className="text-sm font-normal">Warn the candidate on screen</Label>
+            <Switch
+              id="face-warn-candidate"
+              checked={settings.face_warn_candidate}
+              onCheckedChange={(checked) => onChange({ ...settings, face_warn_candidate: checked })}
+            />
+          </div>
+        </>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        The candidate's browser checks the webcam once a second and logs missing faces, extra faces and looking away as integrity flags. No video leaves the device for this check.
+      </p>
+    </div>
+  );
+};
+
+export default FaceMonitoringSettings;
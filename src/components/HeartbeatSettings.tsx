@@ -0,0 +1,51 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ConnectionSettings } from "@/lib/heartbeat";
+import { Wifi } from "lucide-react";
+
+interface HeartbeatSettingsProps {
+  settings: ConnectionSettings;
+  onChange: (settings: ConnectionSettings) => void;
+}
+
+const HeartbeatSettings = ({ settings, onChange }: HeartbeatSettingsProps) => {
+  return (
+    <div className="space-y-3 p-3 border rounded-lg">
+      <div className="flex items-center gap-2">
+        <Wifi className="h-4 w-4 text-muted-foreground" />
+        <Label>Connection loss</Label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="disconnect-after-seconds" className="text-sm font-normal">Disconnected after (seconds)</Label>
+          <Input
+            id="disconnect-after-seconds"
+            type="number"
+            min="30"
+            value={settings.disconnect_after_seconds}
+            onChange={(e) => onChange({ ...settings, disconnect_after_seconds: parseInt(e.target.value) || 0 })}
+            // Clamped on blur so typing a number below the minimum is still possible
+            onBlur={() => onChange({ ...settings, disconnect_after_seconds: Math.max(30, settings.disconnect_after_seconds) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="abandon-after-minutes" className="text-sm font-normal">Abandoned after (minutes)</Label>
+          <Input
+            id="abandon-after-minutes"
+            type="number"
+            min="1"
+            value={settings.abandon_after_minutes}
+            onChange={(e) => onChange({ ...settings, abandon_after_minutes: Math.max(1, parseInt(e.target.value) || 1) })}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        A session that stops sending heartbeats is shown as disconnected to its proctor, and closed as abandoned if the candidate does not come back in time.
+      </p>
+    </div>
+  );
+};
+
+export default HeartbeatSettings;
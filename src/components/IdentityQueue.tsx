@@ -0,0 +1,165 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { getIdentityPhotoUrls, reviewIdentity, type IdentityPhotoUrls, type PendingIdentity } from "@/lib/identity";
+import { Check, Eye, IdCard, X } from "lucide-react";
+
+interface IdentityQueueProps {
+  identities: PendingIdentity[];
+  onChanged: () => void;
+}
+
+/**
+ * Identity photos waiting for a proctor. Candidates may already be writing
+ * the exam while they wait; a rejection lets them submit new photos.
+ */
+const IdentityQueue = ({ identities, onChanged }: IdentityQueueProps) => {
+  const navigate = useNavigate();
+  const [photoUrls, setPhotoUrls] = useState<Record<string, IdentityPhotoUrls>>({});
+  const [rejecting, setRejecting] = useState<PendingIdentity | null>(null);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Links are signed once per submission
+  useEffect(() => {
+    identities
+      .filter(identity => !photoUrls[identity.id])
+      .forEach(identity => {
+        getIdentityPhotoUrls(identity)
+          .then(urls => setPhotoUrls(prev => ({ ...prev, [identity.id]: urls })))
+          .catch(error => console.error("Error loading identity photos:", error));
+      });
+  }, [identities]);
+
+  if (identities.length === 0) return null;
+
+  const handleApprove = async (identity: PendingIdentity) => {
+    try {
+      await reviewIdentity(identity.session_id, true);
+      toast.success(`Identity of ${identity.session.full_name} approved`);
+      onChanged();
+    } catch (error) {
+      console.error("Error approving identity:", error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Failed to approve identity: ${message}`);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting || !reason.trim()) return;
+    setSaving(true);
+    try {
+      await reviewIdentity(rejecting.session_id, false, reason);
+      toast.success(`Identity of ${rejecting.session.full_name} rejected`);
+      setRejecting(null);
+      setReason("");
+      onChanged();
+    } catch (error) {
+      console.error("Error rejecting identity:", error);
+      toast.error("Failed to reject identity");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 border border-blue-300 rounded-lg p-3 bg-blue-50/50">
+      <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+        <IdCard className="h-4 w-4 text-blue-600" />
+        Identity Checks
+        <Badge variant="secondary" className="text-xs">{identities.length}</Badge>
+      </h3>
+      <div className="space-y-2">
+        {identities.map((identity) => {
+          const urls = photoUrls[identity.id];
+          return (
+            <div
+              key={identity.id}
+              className="flex items-center justify-between gap-3 p-2 rounded-lg bg-background"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                {[urls?.face, urls?.id_document].map((url, index) => (
+                  <a
+                    key={index}
+                    href={url ?? undefined}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="block h-16 w-24 shrink-0 rounded bg-muted overflow-hidden"
+                  >
+                    {url && (
+                      <img
+                        src={url}
+                        alt={index === 0 ? "Face photo" : "ID card photo"}
+                        className="h-full w-full object-cover"
+                      />
+                    )}
+                  </a>
+                ))}
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{identity.session.full_name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {identity.session.exam.title} · {identity.session.email}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Submitted {new Date(identity.submitted_at).toLocaleTimeString()}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Button size="sm" variant="outline" onClick={() => handleApprove(identity)}>
+                  <Check className="h-4 w-4 mr-2" />
+                  Approve
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setRejecting(identity)}>
+                  <X className="h-4 w-4 mr-2" />
+                  Reject
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => navigate(`/admin/session/${identity.session_id}/review`)}
+                >
+                  <Eye className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject Identity</DialogTitle>
+            <DialogDescription>
+              {rejecting ? `The reason is shown to ${rejecting.session.full_name} on the identity page, where they can submit new photos.` : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="identity-reject-reason">Reason (required)</Label>
+            <Textarea
+              id="identity-reject-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. The name on the ID card is not readable"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleReject} disabled={saving || !reason.trim()}>
+              {saving ? "Saving..." : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default IdentityQueue;
@@ -0,0 +1,64 @@
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  formatExamOffset,
+  getIntegrityEventLabel,
+  getIntegrityEventSeverity,
+  getIntegritySeverityColor,
+  type IntegrityEvent,
+  type IntegrityEventType
+} from "@/lib/integrity";
+
+interface IntegrityEventLogProps {
+  events: IntegrityEvent[];
+}
+
+const IntegrityEventLog = ({ events }: IntegrityEventLogProps) => {
+  if (events.length === 0) {
+    return <p className="text-center py-8 text-muted-foreground">No integrity events were recorded</p>;
+  }
+
+  const counts = events.reduce<Partial<Record<IntegrityEventType, number>>>((totals, event) => {
+    totals[event.type] = (totals[event.type] || 0) + 1;
+    return totals;
+  }, {});
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {(Object.entries(counts) as [IntegrityEventType, number][]).map(([type, count]) => (
+          <Badge key={type} className={getIntegritySeverityColor(getIntegrityEventSeverity(type))}>
+            {getIntegrityEventLabel(type)}: {count}
+          </Badge>
+        ))}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Exam Time</TableHead>
+            <TableHead>Event</TableHead>
+            <TableHead>Detail</TableHead>
+            <TableHead>Time</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {events.map((event, index) => (
+            <TableRow key={index}>
+              <TableCell className="font-mono">{formatExamOffset(event.exam_seconds)}</TableCell>
+              <TableCell>
+                <Badge className={getIntegritySeverityColor(getIntegrityEventSeverity(event.type))}>
+                  {getIntegrityEventLabel(event.type)}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">{event.detail || '-'}</TableCell>
+              <TableCell className="text-sm text-muted-foreground">{new Date(event.at).toLocaleTimeString()}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default IntegrityEventLog;
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -6,6 +6,15 @@ import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 import LiveVideoStream from "@/components/LiveVideoStream";
 import LiveStreamProbe from "@/components/LiveStreamProbe";
+import ProctorActionsMenu from "@/components/ProctorActionsMenu";
+import ProctorMessageDialog, { type MessageRecipient } from "@/components/ProctorMessageDialog";
+import RoomScanDialog, { type RoomScanClip } from "@/components/RoomScanDialog";
+import EscalationQueue from "@/components/EscalationQueue";
+import IdentityQueue from "@/components/IdentityQueue";
+import { isCurrentUserSupervisor, loadUnresolvedEscalations, watchEscalations, type Escalation } from "@/lib/proctorAssignment";
+import { loadApprovedFaceUrls, loadPendingIdentities, watchIdentityVerifications, type PendingIdentity } from "@/lib/identity";
+import { sweepStaleSessions, watchConnectionEvents, type ConnectionEvent } from "@/lib/heartbeat";
+import { toast } from "sonner";
 import { 
   Users, 
   Clock, 
@@ -14,16 +23,26 @@ import {
   AlertCircle,
   CheckCircle2,
   Radio,
-  Monitor
+  Monitor,
+  MessageSquare,
+  Flag,
+  WifiOff,
+  ScanLine
 } from "lucide-react";
 
 interface ActiveSession {
   id: string;
+  exam_id: string;
   full_name: string;
   email: string;
-  status: 'in_progress' | 'completed' | 'abandoned';
+  status: 'in_progress' | 'completed' | 'abandoned' | 'terminated';
   started_at: string;
   recording_started_at: string | null;
+  paused_at: string | null;
+  proctor_id: string | null;
+  disconnected_at: string | null;
+  room_scan_path: string | null;
+  room_scan_uploaded_at: string | null;
   exam: {
     title: string;
   };
@@ -36,6 +55,70 @@ const LiveMonitoring = () => {
   const [showVideoGrid, setShowVideoGrid] = useState(true);
   // Track which sessions are actually streaming frames right now
   const [streamingMap, setStreamingMap] = useState<Record<string, boolean>>({});
+  const [messageRecipient, setMessageRecipient] = useState<MessageRecipient | null>(null);
+  const [roomScanClip, setRoomScanClip] = useState<RoomScanClip | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isSupervisor, setIsSupervisor] = useState(false);
+  // Supervisors can look beyond their own group
+  const [showAllSessions, setShowAllSessions] = useState(false);
+  const [escalations, setEscalations] = useState<Escalation[]>([]);
+  const [pendingIdentities, setPendingIdentities] = useState<PendingIdentity[]>([]);
+  // Approved face photos by session, shown next to the live feed
+  const [identityPhotos, setIdentityPhotos] = useState<Record<string, string>>({});
+  // The connection watcher outlives renders, so it calls the latest handler through this ref
+  const connectionEventRef = useRef<(event: ConnectionEvent) => void>(() => {});
+
+  useEffect(() => {
+    loadProctor();
+    return watchEscalations(loadEscalations);
+  }, []);
+
+  useEffect(() => {
+    return watchIdentityVerifications(loadIdentities);
+  }, []);
+
+  // An approved photo does not change, so each is only signed once
+  useEffect(() => {
+    const missing = activeSessions.map(s => s.id).filter(id => !identityPhotos[id]);
+    if (missing.length === 0) return;
+    loadApprovedFaceUrls(missing)
+      .then(urls => setIdentityPhotos(prev => ({ ...prev, ...urls })))
+      .catch(error => console.error('Error loading identity photos:', error));
+  }, [activeSessions, pendingIdentities]);
+
+  useEffect(() => {
+    connectionEventRef.current = handleConnectionEvent;
+  });
+
+  useEffect(() => {
+    return watchConnectionEvents((event) => connectionEventRef.current(event));
+  }, []);
+
+  const loadProctor = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setCurrentUserId(user?.id ?? null);
+      setIsSupervisor(await isCurrentUserSupervisor());
+    } catch (error) {
+      console.error('Error loading proctor:', error);
+    }
+  };
+
+  const loadIdentities = async () => {
+    try {
+      setPendingIdentities(await loadPendingIdentities());
+    } catch (error) {
+      console.error('Error loading identity checks:', error);
+    }
+  };
+
+  const loadEscalations = async () => {
+    try {
+      setEscalations(await loadUnresolvedEscalations());
+    } catch (error) {
+      console.error('Error loading escalations:', error);
+    }
+  };
 
   useEffect(() => {
     loadActiveSessions();
@@ -58,8 +141,8 @@ const LiveMonitoring = () => {
       )
       .subscribe();
 
-    // Refresh every 10 seconds as backup
-    const interval = setInterval(loadActiveSessions, 10000);
+    // Refresh every 10 seconds as backup, catching sessions whose heartbeat stopped
+    const interval = setInterval(refreshSessions, 10000);
 
     return () => {
       supabase.removeChannel(channel);
@@ -67,6 +150,16 @@ const LiveMonitoring = () => {
     };
   }, []);
 
+  const refreshSessions = async () => {
+    try {
+      // A scheduled job normally does this; sweeping here covers setups without one
+      await sweepStaleSessions();
+    } catch (error) {
+      console.error('Error sweeping stale sessions:', error);
+    }
+    await loadActiveSessions();
+  };
+
   const loadActiveSessions = async () => {
     try {
       // Only fetch sessions with 'in_progress' status
@@ -75,32 +168,31 @@ const LiveMonitoring = () => {
         .from('candidate_sessions')
         .select(`
           id,
+          exam_id,
           full_name,
           email,
           status,
           started_at,
           recording_started_at,
+          paused_at,
+          proctor_id,
+          disconnected_at,
+          room_scan_path,
+          room_scan_uploaded_at,
           exam:exams(title)
         `)
         .eq('status', 'in_progress')
         .order('started_at', { ascending: false });
 
       if (error) throw error;
-      
-      // Filter out any sessions that might have been closed/completed
-      // Also remove sessions that have been running for more than 24 hours (likely abandoned)
-      const now = new Date();
-      const filteredData = (data || []).filter(session => {
-        const startTime = new Date(session.started_at);
-        const hoursElapsed = (now.getTime() - startTime.getTime()) / (1000 * 60 * 60);
-        return hoursElapsed < 24; // Remove sessions older than 24 hours
-      });
-      
-      setActiveSessions(filteredData);
+
+      // Sessions whose candidate went away are marked abandoned by the heartbeat sweep
+      const sessions = data || [];
+      setActiveSessions(sessions);
       // Reset streaming map for sessions that no longer exist
       setStreamingMap((prev) => {
         const next: Record<string, boolean> = {};
-        filteredData.forEach(s => { next[s.id] = prev[s.id] || false; });
+        sessions.forEach(s => { next[s.id] = prev[s.id] || false; });
         return next;
       });
     } catch (error) {
@@ -110,6 +202,46 @@ const LiveMonitoring = () => {
     }
   };
 
+  // A proctor's group: sessions assigned to them, escalations they claimed, and
+  // sessions nobody was assigned to (the exam has no proctor pool, or it was full)
+  const escalatedToMe = new Set(
+    escalations.filter(e => e.status === 'claimed' && e.claimed_by === currentUserId).map(e => e.session_id)
+  );
+  const isInGroup = (session: ActiveSession) =>
+    showAllSessions || !session.proctor_id || session.proctor_id === currentUserId || escalatedToMe.has(session.id);
+
+  const handleConnectionEvent = (event: ConnectionEvent) => {
+    const session = activeSessions.find(s => s.id === event.session_id);
+    loadActiveSessions();
+    if (!session || !isInGroup(session)) return;
+
+    if (event.event === 'disconnected') {
+      toast.warning(`${session.full_name} lost connection`);
+    } else if (event.event === 'reconnected') {
+      toast.success(`${session.full_name} reconnected after ${event.gap_seconds ?? 0}s`);
+    } else if (event.event === 'abandoned') {
+      toast.error(`${session.full_name}'s session was closed as abandoned`);
+    }
+  };
+
+  const messageSession = (session: ActiveSession) => {
+    setMessageRecipient({
+      sessionId: session.id,
+      candidateName: session.full_name,
+      examId: session.exam_id,
+      examTitle: session.exam.title
+    });
+  };
+
+  const watchRoomScan = (session: ActiveSession) => {
+    if (!session.room_scan_path) return;
+    setRoomScanClip({
+      candidateName: session.full_name,
+      path: session.room_scan_path,
+      uploadedAt: session.room_scan_uploaded_at
+    });
+  };
+
   const getElapsedTime = (startedAt: string) => {
     const start = new Date(startedAt);
     const now = new Date();
@@ -137,8 +269,24 @@ const LiveMonitoring = () => {
     );
   }
 
+  const groupSessions = activeSessions.filter(isInGroup);
+
   // Only consider sessions that are actively streaming frames in the last few seconds
-  const liveSessions = activeSessions.filter(s => streamingMap[s.id]);
+  const liveSessions = groupSessions.filter(s => streamingMap[s.id]);
+  const disconnectedSessions = groupSessions.filter(s => s.disconnected_at && !streamingMap[s.id]);
+
+  const getAssignmentBadge = (session: ActiveSession) => {
+    if (escalatedToMe.has(session.id)) {
+      return <Badge variant="outline" className="text-xs border-orange-400 text-orange-700"><Flag className="h-3 w-3 mr-1" />Escalated</Badge>;
+    }
+    if (!session.proctor_id) {
+      return <Badge variant="outline" className="text-xs">Unassigned</Badge>;
+    }
+    if (session.proctor_id !== currentUserId) {
+      return <Badge variant="outline" className="text-xs">Other proctor</Badge>;
+    }
+    return null;
+  };
 
   return (
     <Card>
@@ -156,20 +304,39 @@ const LiveMonitoring = () => {
               Real-time view of candidates currently taking exams
             </CardDescription>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setShowVideoGrid(!showVideoGrid)}
-          >
-            <Monitor className="h-4 w-4 mr-2" />
-            {showVideoGrid ? 'Hide Video' : 'Show Video'}
-          </Button>
+          <div className="flex items-center gap-2">
+            {isSupervisor && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowAllSessions(!showAllSessions)}
+              >
+                <Users className="h-4 w-4 mr-2" />
+                {showAllSessions ? 'My Group' : 'All Sessions'}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowVideoGrid(!showVideoGrid)}
+            >
+              <Monitor className="h-4 w-4 mr-2" />
+              {showVideoGrid ? 'Hide Video' : 'Show Video'}
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
-        {/* Invisible probes subscribe to all sessions and update streamingMap */}
+        <IdentityQueue identities={pendingIdentities} onChanged={loadIdentities} />
+        <EscalationQueue
+          escalations={escalations}
+          currentUserId={currentUserId}
+          isSupervisor={isSupervisor}
+          onChanged={loadEscalations}
+        />
+        {/* Invisible probes subscribe to the group's sessions and update streamingMap */}
         <div className="hidden">
-          {activeSessions.map((s) => (
+          {groupSessions.map((s) => (
             <LiveStreamProbe
               key={`probe-${s.id}`}
               sessionId={s.id}
@@ -191,7 +358,9 @@ const LiveMonitoring = () => {
                   key={session.id}
                   sessionId={session.id}
                   candidateName={session.full_name}
+                  identityPhotoUrl={identityPhotos[session.id]}
                   isActive={true}
+                  onSendMessage={() => messageSession(session)}
                   onStreamStatusChange={(id, isStreaming) => {
                     setStreamingMap((prev) => ({ ...prev, [id]: isStreaming }));
                   }}
@@ -216,9 +385,42 @@ const LiveMonitoring = () => {
                       </div>
                     </div>
                     <div className="flex items-center gap-3">
+                      {getAssignmentBadge(session)}
+                      {session.disconnected_at && (
+                        <Badge variant="destructive" className="text-xs">Disconnected</Badge>
+                      )}
+                      {session.paused_at && (
+                        <Badge variant="secondary" className="text-xs">Paused</Badge>
+                      )}
                       <div className="text-xs text-muted-foreground">
                         {getElapsedTime(session.started_at)}
                       </div>
+                      <ProctorActionsMenu
+                        sessionId={session.id}
+                        examId={session.exam_id}
+                        candidateName={session.full_name}
+                        paused={!!session.paused_at}
+                        canReassign={isSupervisor}
+                        onApplied={loadActiveSessions}
+                      />
+                      {session.room_scan_path && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => watchRoomScan(session)}
+                          title="Watch room scan"
+                        >
+                          <ScanLine className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => messageSession(session)}
+                        title="Message candidate"
+                      >
+                        <MessageSquare className="h-4 w-4" />
+                      </Button>
                       <Button
                         size="sm"
                         variant="ghost"
@@ -245,8 +447,9 @@ const LiveMonitoring = () => {
                       <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
                       <h3 className="font-semibold">{session.full_name}</h3>
                       <Badge variant="secondary" className="text-xs">
-                        LIVE
+                        {session.paused_at ? 'PAUSED' : 'LIVE'}
                       </Badge>
+                      {getAssignmentBadge(session)}
                     </div>
                     <p className="text-sm text-muted-foreground mb-2">{session.email}</p>
                     <p className="text-sm font-medium text-primary mb-2">{session.exam.title}</p>
@@ -280,6 +483,34 @@ const LiveMonitoring = () => {
                       <Eye className="h-4 w-4 mr-2" />
                       View Details
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => messageSession(session)}
+                    >
+                      <MessageSquare className="h-4 w-4 mr-2" />
+                      Message
+                    </Button>
+                    {session.room_scan_path && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => watchRoomScan(session)}
+                      >
+                        <ScanLine className="h-4 w-4 mr-2" />
+                        Room Scan
+                      </Button>
+                    )}
+                    <div className="self-end">
+                      <ProctorActionsMenu
+                        sessionId={session.id}
+                        examId={session.exam_id}
+                        candidateName={session.full_name}
+                        paused={!!session.paused_at}
+                        canReassign={isSupervisor}
+                        onApplied={loadActiveSessions}
+                      />
+                    </div>
                   </div>
                 </div>
               </div>
@@ -287,19 +518,60 @@ const LiveMonitoring = () => {
           </div>
         )}
         
-        {activeSessions.length > 0 && (
+        {disconnectedSessions.length > 0 && (
+          <div className="mt-4 pt-4 border-t">
+            <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+              <WifiOff className="h-4 w-4 text-orange-600" />
+              Lost Connection
+            </h3>
+            <div className="space-y-2">
+              {disconnectedSessions.map((session) => (
+                <div
+                  key={`disconnected-${session.id}`}
+                  className="flex items-center justify-between p-2 rounded-lg bg-muted/50"
+                >
+                  <div>
+                    <p className="text-sm font-medium">{session.full_name}</p>
+                    <p className="text-xs text-muted-foreground">{session.exam.title}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <div className="text-xs text-muted-foreground">
+                      Last seen {getElapsedTime(session.disconnected_at!)} ago
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => navigate(`/admin/session/${session.id}/review`)}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {groupSessions.length > 0 && (
           <div className="mt-4 pt-4 border-t">
             <div className="flex items-center justify-between text-sm text-muted-foreground">
               <div className="flex items-center gap-2">
                 <CheckCircle2 className="h-4 w-4 text-green-500" />
                 <span>Auto-refreshing every 10 seconds</span>
               </div>
-              <Button variant="ghost" size="sm" onClick={loadActiveSessions}>
+              <Button variant="ghost" size="sm" onClick={refreshSessions}>
                 Refresh Now
               </Button>
             </div>
           </div>
         )}
+
+        <ProctorMessageDialog
+          recipient={messageRecipient}
+          onClose={() => setMessageRecipient(null)}
+        />
+
+        <RoomScanDialog clip={roomScanClip} onClose={() => setRoomScanClip(null)} />
       </CardContent>
     </Card>
   );
@@ -3,34 +3,43 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
-import { Video, VideoOff, Maximize2, Eye, AlertCircle } from "lucide-react";
+import { createRtcViewer, type RtcViewer, type RtcViewerState } from "@/lib/liveRtc";
+import { Video, VideoOff, Maximize2, Eye, AlertCircle, Mic, Volume2, VolumeX, MessageSquare } from "lucide-react";
 import { toast } from "sonner";
 
 interface LiveVideoStreamProps {
   sessionId: string;
   candidateName: string;
+  // Face photo a proctor approved, to compare with who is on camera
+  identityPhotoUrl?: string | null;
   isActive: boolean;
   onStreamStatusChange?: (sessionId: string, isStreaming: boolean) => void;
+  onSendMessage?: () => void;
 }
 
 /**
  * LiveVideoStream Component
  * 
  * This component enables real-time video monitoring of candidates during exams.
- * It uses Supabase Realtime to establish a live connection and streams video frames.
- * 
- * Note: For production, consider using WebRTC with TURN/STUN servers for better
- * peer-to-peer video streaming. This implementation uses a simplified approach
- * with periodic frame updates via Supabase Realtime channels.
+ * Video (and audio on request) arrives over WebRTC, with Supabase Realtime used
+ * for signaling. Until the peer connection is up, or when it cannot be
+ * established, it falls back to JPEG frames broadcast once a second.
  */
-const LiveVideoStream = ({ sessionId, candidateName, isActive, onStreamStatusChange }: LiveVideoStreamProps) => {
+const LiveVideoStream = ({ sessionId, candidateName, identityPhotoUrl, isActive, onStreamStatusChange, onSendMessage }: LiveVideoStreamProps) => {
   const [isStreaming, setIsStreaming] = useState(false);
   const [lastFrameUpdate, setLastFrameUpdate] = useState<Date | null>(null);
   const [streamHealth, setStreamHealth] = useState<'good' | 'fair' | 'poor'>('good');
   const [error, setError] = useState<string | null>(null);
+  const [audioLevel, setAudioLevel] = useState<{ level: number; speaking: boolean } | null>(null);
+  const [rtcState, setRtcState] = useState<RtcViewerState | null>(null);
+  const [audioOn, setAudioOn] = useState(false);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
   const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const rtcViewerRef = useRef<RtcViewer | null>(null);
+  // Read by the health check interval, which would otherwise see stale state
+  const rtcConnectedRef = useRef(false);
   const healthCheckIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
@@ -71,20 +80,49 @@ const LiveVideoStream = ({ sessionId, candidateName, isActive, onStreamStatusCha
             }
           }
         })
-        .subscribe((status) => {
-          if (status === 'SUBSCRIBED') {
-            console.log(`Subscribed to live video stream for session ${sessionId}`);
-            // Do not mark as streaming until frames arrive
-          } else if (status === 'CHANNEL_ERROR') {
-            console.error('Channel subscription error');
-            setError('Failed to connect to live stream');
-            if (isStreaming) {
-              setIsStreaming(false);
-              onStreamStatusChange?.(sessionId, false);
-            }
+        // Microphone level from the candidate's voice-activity detector
+        .on('broadcast', { event: 'audio-level' }, (payload) => {
+          if (typeof payload.payload?.level === 'number') {
+            setAudioLevel({ level: payload.payload.level, speaking: !!payload.payload.speaking });
           }
         });
 
+      // WebRTC signaling shares the channel; frames above remain the fallback
+      const viewer = createRtcViewer(
+        channel,
+        (stream) => {
+          if (videoRef.current && videoRef.current.srcObject !== stream) {
+            videoRef.current.srcObject = stream;
+          }
+        },
+        (state) => {
+          rtcConnectedRef.current = state === 'connected';
+          setRtcState(state);
+          if (state === 'connected') {
+            setError(null);
+            setStreamHealth('good');
+            setIsStreaming(true);
+            onStreamStatusChange?.(sessionId, true);
+          }
+        }
+      );
+      rtcViewerRef.current = viewer;
+
+      channel.subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          console.log(`Subscribed to live video stream for session ${sessionId}`);
+          viewer.start();
+          // Do not mark as streaming until frames arrive
+        } else if (status === 'CHANNEL_ERROR') {
+          console.error('Channel subscription error');
+          setError('Failed to connect to live stream');
+          if (isStreaming) {
+            setIsStreaming(false);
+            onStreamStatusChange?.(sessionId, false);
+          }
+        }
+      });
+
       channelRef.current = channel;
 
       // Monitor stream health
@@ -100,6 +138,17 @@ const LiveVideoStream = ({ sessionId, candidateName, isActive, onStreamStatusCha
   };
 
   const cleanupStream = () => {
+    if (rtcViewerRef.current) {
+      rtcViewerRef.current.close();
+      rtcViewerRef.current = null;
+    }
+    rtcConnectedRef.current = false;
+    setRtcState(null);
+    setAudioOn(false);
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+
     if (channelRef.current) {
       supabase.removeChannel(channelRef.current);
       channelRef.current = null;
@@ -114,6 +163,7 @@ const LiveVideoStream = ({ sessionId, candidateName, isActive, onStreamStatusCha
       onStreamStatusChange?.(sessionId, false);
     }
     setIsStreaming(false);
+    setAudioLevel(null);
   };
 
   const renderFrame = (frameData: string) => {
@@ -134,6 +184,11 @@ const LiveVideoStream = ({ sessionId, candidateName, isActive, onStreamStatusCha
   };
 
   const checkStreamHealth = () => {
+    if (rtcConnectedRef.current) {
+      setStreamHealth('good');
+      return;
+    }
+
     if (!lastFrameUpdate) {
       setStreamHealth('poor');
       if (isStreaming) {
@@ -161,9 +216,17 @@ const LiveVideoStream = ({ sessionId, candidateName, isActive, onStreamStatusCha
   };
 
   const requestFullScreen = () => {
-    if (canvasRef.current) {
-      canvasRef.current.requestFullscreen();
+    const element = rtcState === 'connected' ? videoRef.current : canvasRef.current;
+    element?.requestFullscreen();
+  };
+
+  const toggleAudio = () => {
+    const enabled = !audioOn;
+    rtcViewerRef.current?.setAudio(enabled);
+    if (videoRef.current) {
+      videoRef.current.muted = !enabled;
     }
+    setAudioOn(enabled);
   };
 
   const getHealthColor = () => {
@@ -203,6 +266,27 @@ const LiveVideoStream = ({ sessionId, candidateName, isActive, onStreamStatusCha
               </>
             )}
             
+            {onSendMessage && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={onSendMessage}
+                title="Message candidate"
+              >
+                <MessageSquare className="h-4 w-4" />
+              </Button>
+            )}
+
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={toggleAudio}
+              disabled={rtcState !== 'connected'}
+              title={audioOn ? 'Mute candidate audio' : 'Listen to candidate audio'}
+            >
+              {audioOn ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+            </Button>
+
             <Button
               size="sm"
               variant="ghost"
@@ -233,17 +317,45 @@ const LiveVideoStream = ({ sessionId, candidateName, isActive, onStreamStatusCha
             ref={canvasRef}
             width={480}
             height={270}
-            className="w-full h-full object-cover"
+            className={`w-full h-full object-cover ${rtcState === 'connected' ? 'hidden' : ''}`}
+          />
+
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            className={`w-full h-full object-cover ${rtcState === 'connected' ? '' : 'hidden'}`}
           />
           
-          {isStreaming && lastFrameUpdate && (
+          {identityPhotoUrl && (
+            <div className="absolute top-2 right-2 w-16 rounded overflow-hidden border-2 border-white/80 bg-black" title="Approved identity photo">
+              <img src={identityPhotoUrl} alt={`${candidateName} identity photo`} className="w-full aspect-square object-cover" />
+              <div className="bg-black/70 text-white text-[10px] text-center">ID</div>
+            </div>
+          )}
+
+          {isStreaming && (rtcState === 'connected' || lastFrameUpdate) && (
             <div className="absolute bottom-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded flex items-center gap-1">
               <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
-              LIVE
+              LIVE{rtcState !== 'connected' && ' · 1 fps'}
             </div>
           )}
         </div>
         
+        {audioLevel && (
+          <div className="mt-2 flex items-center gap-2" title={audioLevel.speaking ? 'Speech detected' : 'Microphone level'}>
+            <Mic className={`h-3 w-3 ${audioLevel.speaking ? 'text-red-500' : 'text-muted-foreground'}`} />
+            <div className="h-1.5 flex-1 bg-muted rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all ${audioLevel.speaking ? 'bg-red-500' : 'bg-green-500'}`}
+                style={{ width: `${Math.round(audioLevel.level * 100)}%` }}
+              />
+            </div>
+            {audioLevel.speaking && <span className="text-xs text-red-500">Talking</span>}
+          </div>
+        )}
+
         {isStreaming && (
           <div className="mt-2 text-xs text-muted-foreground text-center">
             Session ID: {sessionId.slice(0, 8)}...
@@ -0,0 +1,44 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { Lockdown } from "@/lib/lockdown";
+import { Lock } from "lucide-react";
+
+interface LockdownSettingsProps {
+  settings: Lockdown;
+  onChange: (settings: Lockdown) => void;
+}
+
+const LockdownSettings = ({ settings, onChange }: LockdownSettingsProps) => {
+  return (
+    <div className="space-y-3 p-3 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Lock className="h-4 w-4 text-muted-foreground" />
+          <Label htmlFor="lockdown-mode">Lockdown mode</Label>
+        </div>
+        <Switch
+          id="lockdown-mode"
+          checked={settings.lockdown_mode}
+          onCheckedChange={(checked) => onChange({ ...settings, lockdown_mode: checked })}
+        />
+      </div>
+
+      {settings.lockdown_mode && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="lockdown-allow-clipboard" className="text-sm font-normal">Allow copy and paste</Label>
+          <Switch
+            id="lockdown-allow-clipboard"
+            checked={settings.lockdown_allow_clipboard}
+            onCheckedChange={(checked) => onChange({ ...settings, lockdown_allow_clipboard: checked })}
+          />
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Questions are only shown while the candidate's browser is fullscreen. Print, find, save and developer tools shortcuts are blocked and logged as integrity flags, and question text cannot be selected.
+      </p>
+    </div>
+  );
+};
+
+export default LockdownSettings;
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { applyProctorAction, type ProctorActionType } from "@/lib/proctorActions";
+import { loadExamProctors, raiseEscalation, reassignSession, type ExamProctor } from "@/lib/proctorAssignment";
+import { ArrowRightLeft, Ban, Clock, Flag, Gavel, Pause, Play, Send } from "lucide-react";
+
+interface ProctorActionsMenuProps {
+  sessionId: string;
+  examId: string;
+  candidateName: string;
+  paused: boolean;
+  // Only supervisors may move a session to another proctor
+  canReassign?: boolean;
+  onApplied?: () => void;
+}
+
+// Escalating and reassigning change who watches the session, not the candidate's exam
+type MenuAction = ProctorActionType | 'escalate' | 'reassign';
+
+const getActionTitle = (action: MenuAction) => {
+  switch (action) {
+    case 'pause': return 'Pause Exam';
+    case 'resume': return 'Resume Exam';
+    case 'extend_time': return 'Add Time';
+    case 'force_submit': return 'Force Submit';
+    case 'terminate': return 'Terminate Session';
+    case 'escalate': return 'Escalate';
+    case 'reassign': return 'Reassign Session';
+  }
+};
+
+const getActionDescription = (action: MenuAction, candidateName: string) => {
+  switch (action) {
+    case 'pause': return `${candidateName}'s section timer stops and the exam is blocked until you resume it.`;
+    case 'resume': return `${candidateName} continues with the time that was left when the exam was paused.`;
+    case 'extend_time': return `The minutes are added to the section ${candidateName} is working on.`;
+    case 'force_submit': return `${candidateName}'s answers are saved and the exam is submitted now.`;
+    case 'terminate': return `${candidateName}'s session ends immediately and is marked as terminated. This cannot be undone.`;
+    case 'escalate': return `${candidateName}'s session is added to the escalation queue for a second proctor to review.`;
+    case 'reassign': return `${candidateName}'s session moves to the chosen proctor's monitoring grid.`;
+  }
+};
+
+/**
+ * Pause, resume, extend, force-submit and terminate controls for one live
+ * session, plus escalation and reassignment. Every action asks for a reason,
+ * which is audited on the server.
+ */
+const ProctorActionsMenu = ({ sessionId, examId, candidateName, paused, canReassign, onApplied }: ProctorActionsMenuProps) => {
+  const [action, setAction] = useState<MenuAction | null>(null);
+  const [reason, setReason] = useState("");
+  const [minutes, setMinutes] = useState(5);
+  const [proctors, setProctors] = useState<ExamProctor[]>([]);
+  const [proctorId, setProctorId] = useState("");
+  const [applying, setApplying] = useState(false);
+
+  const openAction = async (next: MenuAction) => {
+    setReason("");
+    setMinutes(5);
+    setProctorId("");
+    setAction(next);
+
+    if (next === 'reassign') {
+      try {
+        setProctors(await loadExamProctors(examId));
+      } catch (error) {
+        console.error("Error loading proctors:", error);
+        toast.error("Failed to load proctors");
+      }
+    }
+  };
+
+  const handleApply = async () => {
+    if (!action || !reason.trim()) return;
+    if (action === 'reassign' && !proctorId) return;
+    setApplying(true);
+    try {
+      if (action === 'escalate') {
+        await raiseEscalation(sessionId, reason);
+      } else if (action === 'reassign') {
+        await reassignSession(sessionId, proctorId, reason);
+      } else {
+        await applyProctorAction(sessionId, action, reason, action === 'extend_time' ? minutes : undefined);
+      }
+      toast.success(`${getActionTitle(action)}: ${candidateName}`);
+      setAction(null);
+      onApplied?.();
+    } catch (error) {
+      console.error("Error applying proctor action:", error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Failed to apply action: ${message}`);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const destructive = action === 'terminate' || action === 'force_submit';
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="ghost" title="Proctor actions">
+            <Gavel className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {paused ? (
+            <DropdownMenuItem onClick={() => openAction('resume')}>
+              <Play className="mr-2 h-4 w-4" />
+              Resume exam
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem onClick={() => openAction('pause')}>
+              <Pause className="mr-2 h-4 w-4" />
+              Pause exam
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => openAction('extend_time')}>
+            <Clock className="mr-2 h-4 w-4" />
+            Add time
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => openAction('escalate')}>
+            <Flag className="mr-2 h-4 w-4" />
+            Escalate
+          </DropdownMenuItem>
+          {canReassign && (
+            <DropdownMenuItem onClick={() => openAction('reassign')}>
+              <ArrowRightLeft className="mr-2 h-4 w-4" />
+              Reassign
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => openAction('force_submit')}>
+            <Send className="mr-2 h-4 w-4" />
+            Force submit
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => openAction('terminate')} className="text-destructive">
+            <Ban className="mr-2 h-4 w-4" />
+            Terminate session
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent className="max-w-md">
+          {action && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{getActionTitle(action)}</DialogTitle>
+                <DialogDescription>{getActionDescription(action, candidateName)}</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                {action === 'extend_time' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="extend-minutes">Minutes to add</Label>
+                    <Input
+                      id="extend-minutes"
+                      type="number"
+                      min="1"
+                      max="600"
+                      value={minutes}
+                      onChange={(e) => setMinutes(Math.min(600, Math.max(1, parseInt(e.target.value) || 1)))}
+                    />
+                  </div>
+                )}
+                {action === 'reassign' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="reassign-proctor">Proctor</Label>
+                    <Select value={proctorId} onValueChange={setProctorId}>
+                      <SelectTrigger id="reassign-proctor">
+                        <SelectValue placeholder={proctors.length === 0 ? "No proctors for this exam" : "Choose a proctor"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {proctors.map(proctor => (
+                          <SelectItem key={proctor.proctor_id} value={proctor.proctor_id}>
+                            {proctor.full_name || proctor.email} ({proctor.active_sessions}{proctor.capacity ? `/${proctor.capacity}` : ''} live)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="action-reason">Reason (required)</Label>
+                  <Textarea
+                    id="action-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Recorded in the audit log with your name"
+                    rows={3}
+                  />
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setAction(null)}>Cancel</Button>
+                <Button
+                  variant={destructive ? "destructive" : "default"}
+                  onClick={handleApply}
+                  disabled={applying || !reason.trim() || (action === 'reassign' && !proctorId)}
+                >
+                  {applying ? "Applying..." : getActionTitle(action)}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ProctorActionsMenu;
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { sendProctorMessage, type ProctorMessageKind } from "@/lib/proctorMessages";
+import { Send } from "lucide-react";
+
+export interface MessageRecipient {
+  sessionId: string;
+  candidateName: string;
+  examId: string;
+  examTitle: string;
+}
+
+interface ProctorMessageDialogProps {
+  recipient: MessageRecipient | null;
+  onClose: () => void;
+}
+
+/**
+ * Lets a proctor send a warning or instruction to one candidate, or to every
+ * candidate taking the same exam.
+ */
+const ProctorMessageDialog = ({ recipient, onClose }: ProctorMessageDialogProps) => {
+  const [kind, setKind] = useState<ProctorMessageKind>('warning');
+  const [audience, setAudience] = useState<'candidate' | 'exam'>('candidate');
+  const [body, setBody] = useState("");
+  const [sending, setSending] = useState(false);
+
+  const handleClose = () => {
+    setKind('warning');
+    setAudience('candidate');
+    setBody("");
+    onClose();
+  };
+
+  const handleSend = async () => {
+    if (!recipient || !body.trim()) return;
+    setSending(true);
+    try {
+      await sendProctorMessage(
+        recipient.examId,
+        audience === 'candidate' ? recipient.sessionId : null,
+        kind,
+        body
+      );
+      toast.success(audience === 'candidate'
+        ? `Message sent to ${recipient.candidateName}`
+        : `Message sent to everyone taking ${recipient.examTitle}`);
+      handleClose();
+    } catch (error) {
+      console.error("Error sending proctor message:", error);
+      toast.error("Failed to send message");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!recipient} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Message Candidate</DialogTitle>
+          <DialogDescription>
+            The message blocks the candidate's exam until they acknowledge it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {recipient && (
+          <div className="space-y-4">
+            <RadioGroup value={audience} onValueChange={(value) => setAudience(value as 'candidate' | 'exam')}>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="candidate" id="audience-candidate" />
+                <Label htmlFor="audience-candidate" className="font-normal">Only {recipient.candidateName}</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="exam" id="audience-exam" />
+                <Label htmlFor="audience-exam" className="font-normal">Everyone taking {recipient.examTitle}</Label>
+              </div>
+            </RadioGroup>
+
+            <div className="space-y-2">
+              <Label htmlFor="message-kind">Type</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as ProctorMessageKind)}>
+                <SelectTrigger id="message-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="warning">Warning</SelectItem>
+                  <SelectItem value="instruction">Instruction</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="message-body">Message</Label>
+              <Textarea
+                id="message-body"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder={kind === 'warning' ? "e.g. Please keep your eyes on your own screen." : "e.g. You have 10 minutes left."}
+                rows={4}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          <Button onClick={handleSend} disabled={sending || !body.trim()}>
+            <Send className="mr-2 h-4 w-4" />
+            {sending ? "Sending..." : "Send"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProctorMessageDialog;
@@ -0,0 +1,96 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { AlertDialog, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { acknowledgeMessage, getMessageKindLabel, loadPendingMessages, watchProctorMessages, type PendingProctorMessage } from "@/lib/proctorMessages";
+import { AlertTriangle, Info } from "lucide-react";
+
+interface ProctorMessageModalProps {
+  examId: string;
+  sessionId: string;
+}
+
+// Backup for notifications missed while the realtime connection was down
+const POLL_INTERVAL_MS = 30000;
+
+/**
+ * Shows proctor messages to the candidate one at a time. The dialog cannot be
+ * dismissed; it only closes once the candidate acknowledges every message.
+ */
+const ProctorMessageModal = ({ examId, sessionId }: ProctorMessageModalProps) => {
+  const [pending, setPending] = useState<PendingProctorMessage[]>([]);
+  const [acknowledging, setAcknowledging] = useState(false);
+  const loadingRef = useRef(false);
+
+  useEffect(() => {
+    const refresh = async () => {
+      if (loadingRef.current) return;
+      loadingRef.current = true;
+      try {
+        setPending(await loadPendingMessages(sessionId));
+      } catch (error) {
+        console.error("Error loading proctor messages:", error);
+      } finally {
+        loadingRef.current = false;
+      }
+    };
+
+    const stopWatching = watchProctorMessages(examId, sessionId, refresh);
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => {
+      stopWatching();
+      clearInterval(interval);
+    };
+  }, [examId, sessionId]);
+
+  const current = pending[0];
+
+  const handleAcknowledge = async () => {
+    if (!current) return;
+    setAcknowledging(true);
+    try {
+      await acknowledgeMessage(current.id, sessionId);
+      setPending(prev => prev.filter(message => message.id !== current.id));
+    } catch (error) {
+      console.error("Error acknowledging message:", error);
+      toast.error("Failed to acknowledge the message. Please try again.");
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!current}>
+      <AlertDialogContent onEscapeKeyDown={(e) => e.preventDefault()}>
+        {current && (
+          <>
+            <AlertDialogHeader>
+              <AlertDialogTitle className="flex items-center gap-2">
+                {current.kind === 'warning' ? (
+                  <AlertTriangle className="h-5 w-5 text-destructive" />
+                ) : (
+                  <Info className="h-5 w-5 text-primary" />
+                )}
+                {getMessageKindLabel(current.kind)} from your proctor
+              </AlertDialogTitle>
+              <AlertDialogDescription className="whitespace-pre-wrap text-foreground">
+                {current.body}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <p className="text-xs text-muted-foreground">
+              Sent at {new Date(current.sent_at).toLocaleTimeString()}
+              {pending.length > 1 && ` · ${pending.length - 1} more message${pending.length > 2 ? 's' : ''} waiting`}
+            </p>
+            <AlertDialogFooter>
+              <Button onClick={handleAcknowledge} disabled={acknowledging}>
+                {acknowledging ? "Acknowledging..." : "I understand"}
+              </Button>
+            </AlertDialogFooter>
+          </>
+        )}
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ProctorMessageModal;
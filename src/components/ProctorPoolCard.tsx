@@ -0,0 +1,183 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import {
+  addExamProctor,
+  getAssignmentModeDescription,
+  getAssignmentModeLabel,
+  loadExamProctors,
+  removeExamProctor,
+  setAssignmentMode,
+  type AssignmentMode,
+  type ExamProctor
+} from "@/lib/proctorAssignment";
+import { ShieldCheck, Trash2, UserPlus } from "lucide-react";
+
+interface ProctorPoolCardProps {
+  examId: string;
+  mode: AssignmentMode;
+  onModeChange: (mode: AssignmentMode) => void;
+}
+
+const MODES: AssignmentMode[] = ['round_robin', 'location', 'capacity'];
+
+/**
+ * Proctors who watch this exam's live sessions, and how new sessions are
+ * split between them.
+ */
+const ProctorPoolCard = ({ examId, mode, onModeChange }: ProctorPoolCardProps) => {
+  const [proctors, setProctors] = useState<ExamProctor[]>([]);
+  const [email, setEmail] = useState("");
+  const [location, setLocation] = useState("");
+  const [capacity, setCapacity] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    refresh();
+  }, [examId]);
+
+  const refresh = async () => {
+    try {
+      setProctors(await loadExamProctors(examId));
+    } catch (error) {
+      console.error("Error loading proctors:", error);
+      toast.error("Failed to load proctors");
+    }
+  };
+
+  const changeMode = async (next: AssignmentMode) => {
+    try {
+      await setAssignmentMode(examId, next);
+      onModeChange(next);
+      toast.success(`New sessions are assigned ${getAssignmentModeLabel(next).toLowerCase()}`);
+    } catch (error) {
+      console.error("Error updating assignment mode:", error);
+      toast.error("Failed to update assignment mode");
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!email.trim()) return;
+    setAdding(true);
+    try {
+      await addExamProctor(examId, email, location, capacity ? parseInt(capacity) : null);
+      setEmail("");
+      setLocation("");
+      setCapacity("");
+      await refresh();
+    } catch (error) {
+      console.error("Error adding proctor:", error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Failed to add proctor: ${message}`);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async (poolId: string) => {
+    try {
+      await removeExamProctor(poolId);
+      setProctors(prev => prev.filter(proctor => proctor.id !== poolId));
+    } catch (error) {
+      console.error("Error removing proctor:", error);
+      toast.error("Failed to remove proctor");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Proctors
+        </CardTitle>
+        <CardDescription>Each proctor's live monitoring shows only the sessions assigned to them</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="assignment-mode">Assign new sessions</Label>
+          <Select value={mode} onValueChange={(value) => changeMode(value as AssignmentMode)}>
+            <SelectTrigger id="assignment-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MODES.map(option => (
+                <SelectItem key={option} value={option}>{getAssignmentModeLabel(option)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{getAssignmentModeDescription(mode)}</p>
+        </div>
+
+        {proctors.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No proctors yet. Sessions stay unassigned and every proctor sees them.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Proctor</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Load</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {proctors.map(proctor => (
+                <TableRow key={proctor.id}>
+                  <TableCell>
+                    <p className="font-medium">{proctor.full_name || proctor.email}</p>
+                    {proctor.full_name && <p className="text-xs text-muted-foreground">{proctor.email}</p>}
+                  </TableCell>
+                  <TableCell>{proctor.location || 'Any'}</TableCell>
+                  <TableCell>
+                    {proctor.active_sessions}{proctor.capacity ? ` / ${proctor.capacity}` : ''}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" onClick={() => handleRemove(proctor.id)} title="Remove">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            className="col-span-2"
+            type="email"
+            placeholder="Proctor's account email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <Input
+            placeholder={mode === 'location' ? "Location, e.g. school" : "Location (optional)"}
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+          />
+          <Input
+            type="number"
+            min="1"
+            placeholder={mode === 'capacity' ? "Capacity" : "Capacity (optional)"}
+            value={capacity}
+            onChange={(e) => setCapacity(e.target.value)}
+          />
+        </div>
+        <Button onClick={handleAdd} disabled={adding || !email.trim()}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          {adding ? "Adding..." : "Add Proctor"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProctorPoolCard;
@@ -0,0 +1,34 @@
+import { Badge } from "@/components/ui/badge";
+import { getRecordingVerificationColor, getRecordingVerificationLabel } from "@/lib/recordingVerification";
+import { ShieldAlert, ShieldCheck, ShieldQuestion, ShieldX } from "lucide-react";
+
+interface RecordingVerificationBadgeProps {
+  status: string | null;
+  verifiedAt: string | null;
+  detail: string | null;
+}
+
+const getIcon = (status: string | null) => {
+  switch (status) {
+    case 'verified': return <ShieldCheck className="h-3 w-3" />;
+    case 'mismatch': return <ShieldX className="h-3 w-3" />;
+    case 'missing': return <ShieldAlert className="h-3 w-3" />;
+    default: return <ShieldQuestion className="h-3 w-3" />;
+  }
+};
+
+/** Result of the server re-hashing the recording; what it found is in the tooltip */
+const RecordingVerificationBadge = ({ status, verifiedAt, detail }: RecordingVerificationBadgeProps) => {
+  const title = verifiedAt
+    ? `${detail ?? getRecordingVerificationLabel(status)} (checked ${new Date(verifiedAt).toLocaleString()})`
+    : 'The stored recording has not been checked against its checksum yet';
+
+  return (
+    <Badge className={`${getRecordingVerificationColor(status)} flex items-center gap-1 w-fit`} title={title}>
+      {getIcon(status)}
+      {getRecordingVerificationLabel(status)}
+    </Badge>
+  );
+};
+
+export default RecordingVerificationBadge;
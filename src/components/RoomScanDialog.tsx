@@ -0,0 +1,63 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { getRoomScanUrl } from "@/lib/roomScan";
+import { ScanLine } from "lucide-react";
+
+export interface RoomScanClip {
+  candidateName: string;
+  path: string;
+  uploadedAt: string | null;
+}
+
+interface RoomScanDialogProps {
+  clip: RoomScanClip | null;
+  onClose: () => void;
+}
+
+/** Plays the room scan a candidate recorded before the exam */
+const RoomScanDialog = ({ clip, onClose }: RoomScanDialogProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    setError(null);
+    if (!clip) return;
+
+    let cancelled = false;
+    getRoomScanUrl(clip.path)
+      .then(signed => !cancelled && setUrl(signed))
+      .catch((error) => {
+        console.error("Error loading room scan:", error);
+        if (!cancelled) setError("The room scan could not be loaded");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [clip]);
+
+  return (
+    <Dialog open={!!clip} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5" />
+            Room Scan - {clip?.candidateName}
+          </DialogTitle>
+          <DialogDescription>
+            {clip?.uploadedAt ? `Uploaded ${new Date(clip.uploadedAt).toLocaleString()}` : 'Recorded before the exam started'}
+          </DialogDescription>
+        </DialogHeader>
+        {url ? (
+          <video src={url} controls autoPlay playsInline className="w-full aspect-video rounded-lg bg-black" />
+        ) : (
+          <div className="w-full aspect-video rounded-lg bg-muted flex items-center justify-center">
+            <p className="text-sm text-muted-foreground">{error ?? "Loading room scan..."}</p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RoomScanDialog;
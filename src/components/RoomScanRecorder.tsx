@@ -0,0 +1,173 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import { openMediaDevices } from "@/lib/systemCheck";
+import { recordRoomScan, ROOM_SCAN_SECONDS, ROOM_SCAN_STEPS, uploadRoomScan } from "@/lib/roomScan";
+import { RotateCcw, ScanLine, Upload } from "lucide-react";
+
+interface RoomScanRecorderProps {
+  sessionId: string;
+  cameraId?: string | null;
+  microphoneId?: string | null;
+  onUploaded: (path: string) => void;
+}
+
+type Phase = 'ready' | 'recording' | 'review' | 'uploading';
+
+/**
+ * Guided room scan before the exam: the candidate follows the instructions
+ * while the webcam records, watches the clip back, and uploads it.
+ */
+const RoomScanRecorder = ({ sessionId, cameraId, microphoneId, onUploaded }: RoomScanRecorderProps) => {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [phase, setPhase] = useState<Phase>('ready');
+  const [step, setStep] = useState(0);
+  const [clip, setClip] = useState<{ blob: Blob; url: string } | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
+  const clipUrlRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    let opened: MediaStream | null = null;
+    let cancelled = false;
+
+    // The devices from the system check may have been unplugged since; fall back to the defaults
+    openMediaDevices(cameraId ?? null, microphoneId ?? null)
+      .catch(() => openMediaDevices(null, null))
+      .then((media) => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        opened = media;
+        setStream(media);
+      })
+      .catch((error) => {
+        console.error("Failed to open camera for room scan:", error);
+        setCameraError("Your camera could not be opened. Allow camera access and reload the page.");
+      });
+
+    return () => {
+      cancelled = true;
+      cancelRef.current?.();
+      opened?.getTracks().forEach(track => track.stop());
+      if (clipUrlRef.current) URL.revokeObjectURL(clipUrlRef.current);
+    };
+  }, [cameraId, microphoneId]);
+
+  // The live picture is shown while preparing and recording, the clip while reviewing
+  useEffect(() => {
+    if (videoRef.current && phase !== 'review' && phase !== 'uploading') {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream, phase]);
+
+  const replaceClip = (next: { blob: Blob; url: string } | null) => {
+    if (clipUrlRef.current) URL.revokeObjectURL(clipUrlRef.current);
+    clipUrlRef.current = next?.url ?? null;
+    setClip(next);
+  };
+
+  const startScan = async () => {
+    if (!stream) return;
+    replaceClip(null);
+    setStep(0);
+    setPhase('recording');
+
+    const recording = recordRoomScan(stream, setStep);
+    cancelRef.current = recording.cancel;
+    try {
+      const blob = await recording.result;
+      replaceClip({ blob, url: URL.createObjectURL(blob) });
+      setPhase('review');
+    } catch (error) {
+      console.error("Room scan recording failed:", error);
+      toast.error("The room scan could not be recorded. Please try again.");
+      setPhase('ready');
+    } finally {
+      cancelRef.current = null;
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!clip) return;
+    setPhase('uploading');
+    try {
+      const path = await uploadRoomScan(sessionId, clip.blob);
+      toast.success("Room scan uploaded");
+      onUploaded(path);
+    } catch (error) {
+      console.error("Error uploading room scan:", error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Failed to upload room scan: ${message}`);
+      setPhase('review');
+    }
+  };
+
+  const elapsed = ROOM_SCAN_STEPS.slice(0, step).reduce((total, s) => total + s.seconds, 0);
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex items-center gap-2">
+        <ScanLine className="h-5 w-5 text-primary" />
+        <h4 className="font-semibold">Room Scan</h4>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        This exam requires a {ROOM_SCAN_SECONDS} second recording of the room around you. Follow the instructions on screen and turn your camera (or laptop) slowly all the way around. Your proctor watches the clip.
+      </p>
+
+      {phase === 'review' || phase === 'uploading' ? (
+        <video
+          key={clip?.url}
+          src={clip?.url}
+          controls
+          playsInline
+          className="w-full aspect-video rounded-lg bg-black object-cover"
+        />
+      ) : (
+        <video
+          ref={videoRef}
+          autoPlay
+          muted
+          playsInline
+          className="w-full aspect-video rounded-lg bg-black object-cover"
+        />
+      )}
+      {cameraError && <p className="text-sm text-destructive">{cameraError}</p>}
+
+      {phase === 'recording' && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            Step {step + 1} of {ROOM_SCAN_STEPS.length}: {ROOM_SCAN_STEPS[step].instruction}
+          </p>
+          <Progress value={((elapsed + ROOM_SCAN_STEPS[step].seconds) / ROOM_SCAN_SECONDS) * 100} />
+        </div>
+      )}
+
+      {phase === 'ready' && (
+        <Button className="w-full" onClick={startScan} disabled={!stream}>
+          <ScanLine className="mr-2 h-4 w-4" />
+          Start Room Scan
+        </Button>
+      )}
+
+      {(phase === 'review' || phase === 'uploading') && (
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Button variant="outline" className="flex-1" onClick={startScan} disabled={phase === 'uploading'}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Record Again
+          </Button>
+          <Button className="flex-1" onClick={handleUpload} disabled={phase === 'uploading'}>
+            <Upload className="mr-2 h-4 w-4" />
+            {phase === 'uploading' ? "Uploading..." : "Upload Room Scan"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoomScanRecorder;
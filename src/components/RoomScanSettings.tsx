@@ -0,0 +1,33 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { RoomScan } from "@/lib/roomScan";
+import { ScanLine } from "lucide-react";
+
+interface RoomScanSettingsProps {
+  settings: RoomScan;
+  onChange: (settings: RoomScan) => void;
+}
+
+const RoomScanSettings = ({ settings, onChange }: RoomScanSettingsProps) => {
+  return (
+    <div className="space-y-3 p-3 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ScanLine className="h-4 w-4 text-muted-foreground" />
+          <Label htmlFor="room-scan-required">Room scan</Label>
+        </div>
+        <Switch
+          id="room-scan-required"
+          checked={settings.room_scan_required}
+          onCheckedChange={(checked) => onChange({ ...settings, room_scan_required: checked })}
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Before the first section, candidates record a short guided 360° clip of their room with the webcam. The exam cannot start until it is uploaded, and proctors can watch it live or on the session review.
+      </p>
+    </div>
+  );
+};
+
+export default RoomScanSettings;
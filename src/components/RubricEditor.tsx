@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { rubricTotal, type RubricCriterion } from "@/lib/grading";
+import { Plus, Trash2, AlertTriangle } from "lucide-react";
+
+interface RubricEditorProps {
+  rubric: RubricCriterion[];
+  maxPoints: number;
+  onChange: (rubric: RubricCriterion[]) => void;
+}
+
+const RubricEditor = ({ rubric, maxPoints, onChange }: RubricEditorProps) => {
+  const total = rubricTotal(rubric);
+
+  const updateCriterion = (index: number, field: keyof RubricCriterion, value: string | number) => {
+    onChange(rubric.map((criterion, i) => i === index ? { ...criterion, [field]: value } : criterion));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Grading Rubric</Label>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => onChange([...rubric, { criterion: "", points: 1 }])}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Criterion
+        </Button>
+      </div>
+
+      {rubric.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No rubric. Graders will award up to {maxPoints} point{maxPoints !== 1 ? 's' : ''} directly.
+        </p>
+      ) : (
+        <>
+          {rubric.map((criterion, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={criterion.criterion}
+                onChange={(e) => updateCriterion(index, "criterion", e.target.value)}
+                placeholder="What the answer should cover"
+              />
+              <Input
+                type="number"
+                min="0"
+                value={criterion.points}
+                onChange={(e) => updateCriterion(index, "points", parseFloat(e.target.value) || 0)}
+                className="w-20"
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => onChange(rubric.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <p className={`text-sm flex items-center gap-2 ${total !== maxPoints ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {total !== maxPoints && <AlertTriangle className="h-4 w-4" />}
+            Criteria total {total} of {maxPoints} point{maxPoints !== 1 ? 's' : ''}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RubricEditor;
@@ -0,0 +1,143 @@
+import { useState, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { DIFFICULTIES, formatTags, parseTags } from "@/lib/questionBank";
+import type { SectionType } from "@/lib/examPaper";
+import { Library, AlertTriangle } from "lucide-react";
+
+export interface SectionPool {
+  pool_draw_count: number | null;
+  pool_tags: string[];
+  pool_difficulty: string | null;
+  pool_topic: string | null;
+}
+
+interface SectionPoolSettingsProps {
+  sectionId: string;
+  sectionType: SectionType;
+  pool: SectionPool;
+  onChange: <K extends keyof SectionPool>(field: K, value: SectionPool[K]) => void;
+}
+
+const ANY_DIFFICULTY = "any";
+
+const SectionPoolSettings = ({ sectionId, sectionType, pool, onChange }: SectionPoolSettingsProps) => {
+  const [tagsInput, setTagsInput] = useState(formatTags(pool.pool_tags));
+  const [matchingCount, setMatchingCount] = useState<number | null>(null);
+  const enabled = pool.pool_draw_count !== null;
+
+  useEffect(() => {
+    setTagsInput(formatTags(pool.pool_tags));
+  }, [pool.pool_tags]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setMatchingCount(null);
+      return;
+    }
+
+    const countMatchingQuestions = async () => {
+      let query = supabase
+        .from("exam_questions")
+        .select("*", { count: "exact", head: true })
+        .is("section_id", null)
+        .eq("section_type", sectionType)
+        .contains("tags", pool.pool_tags);
+
+      if (pool.pool_difficulty) query = query.eq("difficulty", pool.pool_difficulty);
+      if (pool.pool_topic) query = query.eq("topic", pool.pool_topic);
+
+      const { count, error } = await query;
+      if (error) {
+        console.error("Error counting bank questions:", error);
+        return;
+      }
+      setMatchingCount(count || 0);
+    };
+
+    countMatchingQuestions();
+  }, [enabled, sectionType, pool.pool_tags, pool.pool_difficulty, pool.pool_topic]);
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Library className="h-4 w-4" />
+          <Label htmlFor={`pool-enabled-${sectionId}`}>Draw questions from the question bank</Label>
+        </div>
+        <Switch
+          id={`pool-enabled-${sectionId}`}
+          checked={enabled}
+          onCheckedChange={(checked) => onChange("pool_draw_count", checked ? 10 : null)}
+        />
+      </div>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`pool-count-${sectionId}`}>Questions per candidate</Label>
+              <Input
+                id={`pool-count-${sectionId}`}
+                type="number"
+                min="1"
+                value={pool.pool_draw_count ?? ""}
+                onChange={(e) => onChange("pool_draw_count", Math.max(1, parseInt(e.target.value) || 1))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`pool-tags-${sectionId}`}>Required tags</Label>
+              <Input
+                id={`pool-tags-${sectionId}`}
+                value={tagsInput}
+                onChange={(e) => setTagsInput(e.target.value)}
+                onBlur={() => onChange("pool_tags", parseTags(tagsInput))}
+                placeholder="e.g. sql, joins"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <Select
+                value={pool.pool_difficulty || ANY_DIFFICULTY}
+                onValueChange={(value) => onChange("pool_difficulty", value === ANY_DIFFICULTY ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_DIFFICULTY}>Any difficulty</SelectItem>
+                  {DIFFICULTIES.map(difficulty => (
+                    <SelectItem key={difficulty} value={difficulty} className="capitalize">
+                      {difficulty}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`pool-topic-${sectionId}`}>Topic</Label>
+              <Input
+                id={`pool-topic-${sectionId}`}
+                value={pool.pool_topic || ""}
+                onChange={(e) => onChange("pool_topic", e.target.value.trim() ? e.target.value : null)}
+                placeholder="Any topic"
+              />
+            </div>
+          </div>
+
+          {matchingCount !== null && (
+            <p className={`text-sm flex items-center gap-2 ${matchingCount < (pool.pool_draw_count || 0) ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {matchingCount < (pool.pool_draw_count || 0) && <AlertTriangle className="h-4 w-4" />}
+              {matchingCount} matching {sectionType.toUpperCase()} question{matchingCount !== 1 ? 's' : ''} in the bank
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SectionPoolSettings;
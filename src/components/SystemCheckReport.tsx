@@ -0,0 +1,40 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  getSystemCheckLabel,
+  getSystemCheckStatusColor,
+  type SystemCheckItem
+} from "@/lib/systemCheck";
+import { AlertTriangle, CheckCircle, XCircle } from "lucide-react";
+
+interface SystemCheckReportProps {
+  checks: SystemCheckItem[];
+}
+
+const getStatusIcon = (status: SystemCheckItem['status']) => {
+  switch (status) {
+    case 'pass': return <CheckCircle className="h-4 w-4 text-green-600" />;
+    case 'warn': return <AlertTriangle className="h-4 w-4 text-yellow-600" />;
+    case 'fail': return <XCircle className="h-4 w-4 text-red-600" />;
+  }
+};
+
+const SystemCheckReport = ({ checks }: SystemCheckReportProps) => {
+  return (
+    <div className="space-y-2">
+      {checks.map(check => (
+        <div key={check.id} className="flex items-start gap-3 p-3 border rounded-lg">
+          <div className="mt-0.5">{getStatusIcon(check.status)}</div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-sm">{getSystemCheckLabel(check.id)}</span>
+              <Badge className={getSystemCheckStatusColor(check.status)}>{check.status.toUpperCase()}</Badge>
+            </div>
+            <p className="text-sm text-muted-foreground break-words">{check.detail}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SystemCheckReport;
@@ -0,0 +1,88 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { TestCase } from "@/lib/codeRunner";
+import { Plus, Trash2, EyeOff } from "lucide-react";
+
+interface TestCaseEditorProps {
+  testCases: TestCase[];
+  onChange: (testCases: TestCase[]) => void;
+}
+
+const TestCaseEditor = ({ testCases, onChange }: TestCaseEditorProps) => {
+  const updateTestCase = <K extends keyof TestCase>(index: number, field: K, value: TestCase[K]) => {
+    onChange(testCases.map((testCase, i) => i === index ? { ...testCase, [field]: value } : testCase));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Test Cases</Label>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => onChange([...testCases, { input: "", expected_output: "", is_hidden: false }])}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Test
+        </Button>
+      </div>
+
+      {testCases.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No tests. Answers to this question will be graded by hand.
+        </p>
+      ) : (
+        testCases.map((testCase, index) => (
+          <div key={index} className="space-y-2 p-3 border rounded-lg">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Test {index + 1}</span>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <EyeOff className="h-4 w-4 text-muted-foreground" />
+                  <Label htmlFor={`test-hidden-${index}`} className="text-sm">Hidden</Label>
+                  <Switch
+                    id={`test-hidden-${index}`}
+                    checked={testCase.is_hidden}
+                    onCheckedChange={(checked) => updateTestCase(index, "is_hidden", checked)}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onChange(testCases.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Textarea
+                value={testCase.input}
+                onChange={(e) => updateTestCase(index, "input", e.target.value)}
+                placeholder="Input (stdin)"
+                className="font-mono text-sm"
+                rows={3}
+              />
+              <Textarea
+                value={testCase.expected_output}
+                onChange={(e) => updateTestCase(index, "expected_output", e.target.value)}
+                placeholder="Expected output (stdout)"
+                className="font-mono text-sm"
+                rows={3}
+              />
+            </div>
+          </div>
+        ))
+      )}
+      <p className="text-xs text-muted-foreground">
+        Candidates can run the visible tests while answering. Hidden tests are only used for grading.
+      </p>
+    </div>
+  );
+};
+
+export default TestCaseEditor;
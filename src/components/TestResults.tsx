@@ -0,0 +1,33 @@
+import type { TestResult } from "@/lib/codeRunner";
+import { CheckCircle, XCircle } from "lucide-react";
+
+interface TestResultsProps {
+  results: TestResult[];
+}
+
+const TestResults = ({ results }: TestResultsProps) => {
+  return (
+    <div className="space-y-2">
+      {results.map((result, index) => (
+        <div key={result.test_id} className="p-2 border rounded text-sm space-y-1">
+          <div className="flex items-center gap-2">
+            {result.passed ? (
+              <CheckCircle className="h-4 w-4 text-green-600" />
+            ) : (
+              <XCircle className="h-4 w-4 text-red-600" />
+            )}
+            <span>Test {index + 1}{result.hidden && ' (hidden)'}</span>
+            <span className="text-xs text-muted-foreground">{result.duration_ms} ms</span>
+          </div>
+          {!result.passed && (result.error || !result.hidden) && (
+            <pre className="text-xs bg-muted p-2 rounded whitespace-pre-wrap">
+              {result.error || `Expected:\n${result.expected_output}\n\nGot:\n${result.actual_output}`}
+            </pre>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TestResults;
@@ -0,0 +1,199 @@
+import { useState, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { toast } from "sonner";
+import { formatExamOffset } from "@/lib/integrity";
+import {
+  TIMELINE_MARKER_KINDS,
+  getMarkerColor,
+  getMarkerKindLabel,
+  markerOffset,
+  offsetToTimestamp,
+  type TimelineMarker,
+  type TimelineMarkerKind
+} from "@/lib/timeline";
+import { StickyNote } from "lucide-react";
+
+interface TimelineVideoProps {
+  src: string;
+  // Session time at which the video starts
+  origin: string;
+  markers: TimelineMarker[];
+  onAddNote?: (notedAt: string, note: string) => Promise<void>;
+  maxHeight?: string;
+}
+
+/**
+ * A recording with a scrubber of session events underneath. Markers are placed
+ * by their offset from `origin`; clicking one seeks the video to it.
+ */
+const TimelineVideo = ({ src, origin, markers, onAddNote, maxHeight = '60vh' }: TimelineVideoProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [hiddenKinds, setHiddenKinds] = useState<Set<TimelineMarkerKind>>(new Set(['save']));
+  const [note, setNote] = useState("");
+  const [savingNote, setSavingNote] = useState(false);
+
+  // MediaRecorder files carry no duration; seeking past the end makes the browser work it out
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (Number.isFinite(video.duration)) {
+      setDuration(video.duration);
+    } else {
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+    }
+  };
+
+  const handleDurationChange = () => {
+    const video = videoRef.current;
+    if (!video || !Number.isFinite(video.duration) || duration > 0) return;
+    setDuration(video.duration);
+    video.currentTime = 0;
+  };
+
+  const seek = (seconds: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = Math.max(0, Math.min(seconds, duration || seconds));
+    setCurrentTime(videoRef.current.currentTime);
+  };
+
+  const handleTrackClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    seek(((event.clientX - rect.left) / rect.width) * duration);
+  };
+
+  const toggleKind = (kind: TimelineMarkerKind) => {
+    setHiddenKinds(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+  };
+
+  const saveNote = async () => {
+    if (!onAddNote || !note.trim()) return;
+    try {
+      setSavingNote(true);
+      await onAddNote(offsetToTimestamp(currentTime, origin), note);
+      setNote("");
+      toast.success("Note added");
+    } catch (error) {
+      console.error("Error adding note:", error);
+      toast.error("Failed to add note");
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const visibleMarkers = markers
+    .filter(marker => !hiddenKinds.has(marker.kind))
+    .map(marker => ({ ...marker, offset: markerOffset(marker.at, origin) }))
+    .filter(marker => marker.offset >= 0 && (!duration || marker.offset <= duration));
+
+  return (
+    <div className="space-y-3">
+      <video
+        ref={videoRef}
+        controls
+        className="w-full rounded-lg border"
+        style={{ maxHeight }}
+        src={src}
+        preload="metadata"
+        onLoadedMetadata={handleLoadedMetadata}
+        onDurationChange={handleDurationChange}
+        onTimeUpdate={() => setCurrentTime(videoRef.current?.currentTime ?? 0)}
+      >
+        Your browser does not support video playback.
+      </video>
+
+      {/* Scrubber */}
+      <div
+        className="relative h-8 bg-muted rounded cursor-pointer overflow-hidden"
+        onClick={handleTrackClick}
+      >
+        {duration > 0 && (
+          <div className="absolute inset-y-0 left-0 bg-primary/15" style={{ width: `${(currentTime / duration) * 100}%` }} />
+        )}
+        {duration > 0 && visibleMarkers.map(marker => (
+          <button
+            key={marker.id}
+            type="button"
+            className={`absolute inset-y-1 w-1.5 -ml-[3px] rounded-sm ${getMarkerColor(marker.kind)} hover:scale-x-150`}
+            style={{ left: `${(marker.offset / duration) * 100}%` }}
+            title={`${formatExamOffset(Math.floor(marker.offset))} ${marker.label}${marker.detail ? ` - ${marker.detail}` : ''}`}
+            onClick={(event) => {
+              event.stopPropagation();
+              seek(marker.offset);
+            }}
+          />
+        ))}
+        {duration > 0 && (
+          <div className="absolute inset-y-0 w-0.5 bg-primary" style={{ left: `${(currentTime / duration) * 100}%` }} />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          {TIMELINE_MARKER_KINDS.map(kind => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => toggleKind(kind)}
+              className={`flex items-center gap-1 text-xs px-2 py-1 border rounded ${hiddenKinds.has(kind) ? 'opacity-40' : ''}`}
+            >
+              <span className={`w-2 h-2 rounded-full ${getMarkerColor(kind)}`} />
+              {getMarkerKindLabel(kind)}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs font-mono text-muted-foreground">
+          {formatExamOffset(Math.floor(currentTime))}{duration > 0 && ` / ${formatExamOffset(Math.floor(duration))}`}
+        </span>
+      </div>
+
+      {onAddNote && (
+        <div className="flex gap-2">
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveNote()}
+            placeholder={`Note at ${formatExamOffset(Math.floor(currentTime))}`}
+          />
+          <Button variant="outline" onClick={saveNote} disabled={savingNote || !note.trim()}>
+            <StickyNote className="mr-2 h-4 w-4" />
+            Add Note
+          </Button>
+        </div>
+      )}
+
+      {visibleMarkers.length > 0 && (
+        <ScrollArea className="h-40 border rounded-lg">
+          <div className="divide-y">
+            {visibleMarkers.map(marker => (
+              <button
+                key={marker.id}
+                type="button"
+                onClick={() => seek(marker.offset)}
+                className="flex w-full items-start gap-3 px-3 py-2 text-left text-sm hover:bg-muted"
+              >
+                <span className="font-mono text-xs text-muted-foreground pt-0.5">{formatExamOffset(Math.floor(marker.offset))}</span>
+                <span className={`mt-1.5 w-2 h-2 shrink-0 rounded-full ${getMarkerColor(marker.kind)}`} />
+                <span>
+                  {marker.label}
+                  {marker.detail && <span className="block text-xs text-muted-foreground truncate max-w-md">{marker.detail}</span>}
+                </span>
+              </button>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+};
+
+export default TimelineVideo;
@@ -6,34 +6,47 @@ import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
 import { Play, Square, Camera, Mic, Monitor, AlertTriangle, Upload } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-// Prefer secure server-side upload via Supabase Edge Function
+import { AUDIO_BITRATE, createChunkUploader, pickRecordingMimeType, RECORDING_MIME_TYPES, VIDEO_BITRATE, type ChunkUploader, type UploadStatus } from "@/lib/recordingUpload";
+import { createAudioMonitor, DEFAULT_AUDIO_MONITORING, type AudioMonitor, type AudioMonitoring, type SpeechInterval } from "@/lib/audioMonitor";
+import { createRtcPublisher, type RtcPublisher } from "@/lib/liveRtc";
+import { createFaceMonitor, getFaceWarning, type FaceEvent, type FaceMonitor, type FaceMonitoring } from "@/lib/faceMonitor";
 
 // Configurable via .env (optional) - Optimized defaults for efficiency
 const RECORDING_FPS = Number(import.meta.env.VITE_RECORDING_FPS) || 24; // Reduced from 30 to 24 FPS
-const VIDEO_BITRATE = Number(import.meta.env.VITE_VIDEO_BITRATE) || 400_000; // Reduced from 500k to 400k bps
-const AUDIO_BITRATE = Number(import.meta.env.VITE_AUDIO_BITRATE) || 48_000; // Reduced from 64k to 48k bps
 const PIP_WIDTH_RATIO = Number(import.meta.env.VITE_PIP_WIDTH_RATIO) || 0.2; // 20% of width
-const CHUNK_DURATION_MS = Number(import.meta.env.VITE_CHUNK_DURATION_MS) || 60000; // 1 minute chunks
+const CHUNK_DURATION_MS = Number(import.meta.env.VITE_CHUNK_DURATION_MS) || 60000; // 1 minute chunks, each uploaded as it is produced
 const MAX_CANVAS_WIDTH = Number(import.meta.env.VITE_MAX_CANVAS_WIDTH) || 1280; // Max width for recording
+const AUDIO_LEVEL_BROADCAST_MS = 500; // How often the microphone level is sent to live monitoring
 
 interface VideoRecorderProps {
   sessionId: string;
-  candidateName?: string;
   onRecordingStart?: () => void;
-  onRecordingStop?: (blob: Blob, checksum: string) => void;
+  // Called once every chunk of the recording has been uploaded
+  onRecordingStop?: () => void;
+  // A capture track ended outside the recorder's control, e.g. the candidate stopped sharing
+  onStreamEnded?: (source: 'screen' | 'camera') => void;
+  // Face presence settings of the exam; detection only runs when enabled
+  faceMonitoring?: FaceMonitoring | null;
+  onFaceEvent?: (event: FaceEvent) => void;
+  // Voice-activity settings of the exam; the live level meter runs regardless
+  audioMonitoring?: AudioMonitoring | null;
+  onSpeechInterval?: (interval: SpeechInterval) => void;
+  // Chosen on the system check page; the browser's defaults are used when unset or unplugged
+  cameraId?: string | null;
+  microphoneId?: string | null;
   onError?: (error: string) => void;
   autoStart?: boolean;
   mandatory?: boolean;
 }
 
-const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecordingStop, onError, autoStart = false, mandatory = false }: VideoRecorderProps) => {
+const VideoRecorder = ({ sessionId, onRecordingStart, onRecordingStop, onStreamEnded, faceMonitoring, onFaceEvent, audioMonitoring, onSpeechInterval, cameraId, microphoneId, onError, autoStart = false, mandatory = false }: VideoRecorderProps) => {
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [hasPermissions, setHasPermissions] = useState(false);
   const [recordingProgress, setRecordingProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [faceWarning, setFaceWarning] = useState<string | null>(null);
+  const [uploadStatus, setUploadStatus] = useState<UploadStatus>({ uploaded: 0, pending: 0, retrying: false });
 
   const recorderRef = useRef<MediaRecorder | null>(null);
   const screenStreamRef = useRef<MediaStream | null>(null);
@@ -46,6 +59,10 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
   const animationFrameRef = useRef<number | null>(null);
   const broadcastIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const realtimeChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const rtcPublisherRef = useRef<RtcPublisher | null>(null);
+  const uploaderRef = useRef<ChunkUploader | null>(null);
+  const faceMonitorRef = useRef<FaceMonitor | null>(null);
+  const audioMonitorRef = useRef<AudioMonitor | null>(null);
 
   useEffect(() => {
     checkPermissions();
@@ -60,6 +77,7 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
         supabase.removeChannel(realtimeChannelRef.current);
       }
       stopAllStreams();
+      uploaderRef.current?.dispose();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -76,6 +94,18 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [autoStart, hasPermissions, isRecording, error]);
 
+  // Chunks still queued are lost if the tab closes, so ask before leaving
+  const hasPendingChunks = uploadStatus.pending > 0;
+  useEffect(() => {
+    if (!hasPendingChunks) return;
+    const warnBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warnBeforeUnload);
+    return () => window.removeEventListener('beforeunload', warnBeforeUnload);
+  }, [hasPendingChunks]);
+
   const checkPermissions = async () => {
     try {
       // Check camera permission
@@ -124,9 +154,9 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
         video: {
           width: { ideal: 1280 },
           height: { ideal: 720 },
-          facingMode: 'user'
+          ...(cameraId ? { deviceId: { ideal: cameraId } } : { facingMode: 'user' })
         },
-        audio: true
+        audio: microphoneId ? { deviceId: { ideal: microphoneId } } : true
       });
 
       console.log('[VideoRecorder] Webcam stream obtained:', {
@@ -337,12 +367,51 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
       // Start compositing loop immediately (independent of isRecording state)
       animationFrameRef.current = requestAnimationFrame(drawComposite);
 
+      // Voice activity is measured on the microphone alone, before it is mixed with screen audio
+      if (webcamStream.getAudioTracks().length > 0) {
+        let lastLevelBroadcast = 0;
+        audioMonitorRef.current = createAudioMonitor(
+          new MediaStream(webcamStream.getAudioTracks()),
+          audioMonitoring ?? DEFAULT_AUDIO_MONITORING,
+          ({ level, speaking }) => {
+            const now = Date.now();
+            if (now - lastLevelBroadcast < AUDIO_LEVEL_BROADCAST_MS || !realtimeChannelRef.current) return;
+            lastLevelBroadcast = now;
+            realtimeChannelRef.current.send({
+              type: 'broadcast',
+              event: 'audio-level',
+              payload: { sessionId, level, speaking }
+            });
+          },
+          (interval) => onSpeechInterval?.(interval)
+        );
+      }
+
+      // Face detection samples the same webcam feed; failing to load it must not stop the recording
+      if (faceMonitoring?.face_monitoring) {
+        createFaceMonitor(
+          webcamVideo,
+          faceMonitoring,
+          (event) => {
+            onFaceEvent?.(event);
+            if (faceMonitoring.face_warn_candidate) setFaceWarning(getFaceWarning(event.type));
+          },
+          () => setFaceWarning(null)
+        ).then(monitor => {
+          // Recording may have stopped while the detector was loading
+          if (webcamStreamRef.current) faceMonitorRef.current = monitor;
+          else monitor.stop();
+        }).catch(error => {
+          console.error('[VideoRecorder] Face detection unavailable:', error);
+        });
+      }
+
       // Capture canvas stream
       const compositeStream = canvas.captureStream(RECORDING_FPS);
       compositeStreamRef.current = compositeStream;
       
       // Initialize live streaming to admin dashboard
-      initializeLiveStreaming(canvas);
+      initializeLiveStreaming(canvas, compositeStream.getVideoTracks()[0], webcamStream.getAudioTracks()[0] ?? null);
       
       // Add audio tracks to composite stream
       const audioTracks = screenStream.getAudioTracks().length > 0 
@@ -354,14 +423,8 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
       });
 
       // Create recorder with optimized settings for smaller file sizes
-      // Try VP9 first (better compression), fall back to VP8
-      let mimeType = 'video/webm;codecs=vp9,opus';
-      if (!MediaRecorder.isTypeSupported(mimeType)) {
-        mimeType = 'video/webm;codecs=vp8,opus';
-        console.log('VP9 not supported, using VP8');
-      } else {
-        console.log('Using VP9 codec for better compression');
-      }
+      const mimeType = pickRecordingMimeType() ?? RECORDING_MIME_TYPES[RECORDING_MIME_TYPES.length - 1];
+      console.log(`Recording with ${mimeType}`);
       
       const recorder = new MediaRecorder(compositeStream, {
         mimeType: mimeType,
@@ -369,12 +432,14 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
         audioBitsPerSecond: AUDIO_BITRATE
       });
 
-      const chunks: BlobPart[] = [];
+      // Chunks continue numbering after anything uploaded earlier in this session
+      const uploader = await createChunkUploader(sessionId, setUploadStatus);
+      uploaderRef.current = uploader;
       let chunkCount = 0;
       
       recorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          chunks.push(event.data);
+          uploader.enqueue(event.data);
           chunkCount++;
           
           // Log chunk info for debugging (every 5 chunks to reduce spam)
@@ -386,35 +451,12 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
       };
 
       recorder.onstop = async () => {
-        const blob = new Blob(chunks, { type: 'video/webm' });
-        const checksum = await calculateChecksum(blob);
-        
-        // Upload recording to storage with retry mechanism
-        let uploadSuccess = false;
-        let retryCount = 0;
-        const maxRetries = 3;
-        
-        while (!uploadSuccess && retryCount < maxRetries) {
-          try {
-            await uploadRecording(blob, checksum);
-            uploadSuccess = true;
-          } catch (error) {
-            retryCount++;
-            console.error(`Upload attempt ${retryCount} failed:`, error);
-            
-            if (retryCount < maxRetries) {
-              toast.warning(`Upload failed, retrying... (${retryCount}/${maxRetries})`);
-              // Wait before retry
-              await new Promise(resolve => setTimeout(resolve, 2000 * retryCount));
-            } else {
-              toast.error("Failed to upload recording after multiple attempts. Recording saved locally.");
-              console.error('All upload attempts failed:', error);
-            }
-          }
-        }
+        // The final chunk is delivered before onstop, so this waits for the whole recording
+        await uploader.flush();
+        toast.success("Recording uploaded successfully");
         
         if (onRecordingStop) {
-          onRecordingStop(blob, checksum);
+          onRecordingStop();
         }
       };
 
@@ -428,6 +470,7 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
       screenStream.getTracks().forEach(track => {
         track.addEventListener('ended', () => {
           toast.warning("Screen sharing ended. Recording stopped.");
+          onStreamEnded?.('screen');
           stopRecording();
         });
       });
@@ -435,13 +478,13 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
       webcamStream.getTracks().forEach(track => {
         track.addEventListener('ended', () => {
           toast.warning("Camera access ended. Recording stopped.");
+          onStreamEnded?.('camera');
           stopRecording();
         });
       });
 
       recorderRef.current = recorder;
-      // Collect data in larger chunks (5 seconds) for better efficiency
-      recorder.start(5000); // Collect data every 5 seconds instead of 1 second
+      recorder.start(CHUNK_DURATION_MS);
       
       // isRecording already set to true earlier to render video element
       // setIsRecording(true); // Already done at start of function
@@ -498,18 +541,24 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
     }
   };
 
-  const initializeLiveStreaming = async (canvas: HTMLCanvasElement) => {
+  const initializeLiveStreaming = async (canvas: HTMLCanvasElement, videoTrack: MediaStreamTrack, micTrack: MediaStreamTrack | null) => {
     try {
-      // Create a Supabase Realtime channel for broadcasting video frames
+      // Create a Supabase Realtime channel for WebRTC signaling and fallback video frames
       const channel = supabase.channel(`live-video-${sessionId}`, {
         config: {
           broadcast: { self: false, ack: false },
           presence: { key: sessionId }
         }
       });
-      
-      const subscribeStatus = await channel.subscribe();
-      console.log('[VideoRecorder] Live streaming channel subscription status:', subscribeStatus);
+
+      // Proctors get the composite video over WebRTC; the microphone only when they ask for it
+      const publisher = createRtcPublisher(channel, videoTrack, micTrack);
+      rtcPublisherRef.current = publisher;
+
+      channel.subscribe((status) => {
+        console.log('[VideoRecorder] Live streaming channel subscription status:', status);
+        if (status === 'SUBSCRIBED') publisher.announce();
+      });
       
       realtimeChannelRef.current = channel;
       
@@ -517,9 +566,9 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
       
       let frameCount = 0;
       
-      // Broadcast frames every 1 second for more real-time updates
-      // For production, consider using WebRTC for better real-time performance
+      // Fallback: broadcast a JPEG frame every second while any proctor has no WebRTC connection
       broadcastIntervalRef.current = setInterval(() => {
+        if (!publisher.needsFallback()) return;
         // Don't check isRecording state - just check if canvas exists
         if (canvas && canvasRef.current) {
           try {
@@ -565,6 +614,17 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
   };
 
   const stopAllStreams = () => {
+    if (faceMonitorRef.current) {
+      faceMonitorRef.current.stop();
+      faceMonitorRef.current = null;
+    }
+    setFaceWarning(null);
+
+    if (audioMonitorRef.current) {
+      audioMonitorRef.current.stop();
+      audioMonitorRef.current = null;
+    }
+
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
       animationFrameRef.current = null;
@@ -575,6 +635,11 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
       broadcastIntervalRef.current = null;
     }
     
+    if (rtcPublisherRef.current) {
+      rtcPublisherRef.current.close();
+      rtcPublisherRef.current = null;
+    }
+
     if (realtimeChannelRef.current) {
       supabase.removeChannel(realtimeChannelRef.current);
       realtimeChannelRef.current = null;
@@ -601,74 +666,6 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
     }
   };
 
-  const calculateChecksum = async (blob: Blob): Promise<string> => {
-    const buffer = await blob.arrayBuffer();
-    const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  };
-
-  const uploadRecording = async (blob: Blob, checksum: string) => {
-    try {
-      setIsUploading(true);
-      setUploadProgress(0);
-
-      // Check file size before upload (5GB limit)
-      const maxSize = 5 * 1024 * 1024 * 1024; // 5GB in bytes
-      if (blob.size > maxSize) {
-        throw new Error(`Recording file is too large (${(blob.size / (1024 * 1024 * 1024)).toFixed(2)}GB). Maximum allowed size is 5GB.`);
-      }
-
-      console.log(`Uploading recording: ${sessionId}-${new Date().toISOString()}.webm, Size: ${(blob.size / (1024 * 1024)).toFixed(2)}MB`);
-
-      // Build file name using candidate name or session ID
-      const safeName = (candidateName || `session-${sessionId}`).trim().replace(/\s+/g, '-').replace(/[^a-zA-Z0-9-_]/g, '');
-      const fileName = `${safeName}-${new Date().toISOString()}.webm`;
-        
-      // Upload to Supabase storage
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('exam-recordings')
-        .upload(fileName, blob, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (uploadError) {
-        console.error('Storage upload error:', uploadError);
-        throw new Error(`Upload failed: ${uploadError.message}`);
-      }
-
-      console.log('Upload successful, storage path:', uploadData.path);
-
-      // Update session with JUST the storage path (not the full URL)
-      // This allows us to use .download() and .createSignedUrl() later
-      const { error: updateError } = await supabase
-        .from('candidate_sessions')
-        .update({ 
-          recording_url: uploadData.path,  // Store only the path
-          recording_checksum: checksum
-        })
-        .eq('id', sessionId);
-
-      if (updateError) {
-        console.error('Database update error:', updateError);
-        throw new Error(`Failed to update session: ${updateError.message}`);
-      }
-
-      toast.success(`Recording uploaded successfully (${(blob.size / (1024 * 1024)).toFixed(2)}MB)`);
-      return uploadData.path;
-
-    } catch (error) {
-      console.error('Upload error:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to upload recording';
-      toast.error(errorMessage);
-      throw error;
-    } finally {
-      setIsUploading(false);
-      setUploadProgress(0);
-    }
-  };
-
   const formatTime = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -759,16 +756,30 @@ const VideoRecorder = ({ sessionId, candidateName, onRecordingStart, onRecording
           </div>
         )}
 
-        {isUploading && (
-          <div className="space-y-2">
-            <div className="flex items-center justify-between text-sm">
-              <span className="flex items-center gap-2">
-                <Upload className="h-4 w-4" />
-                Uploading Recording
-              </span>
-              <span>{uploadProgress.toFixed(1)}%</span>
-            </div>
-            <Progress value={uploadProgress} className="h-2" />
+        {faceWarning && (
+          <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-destructive" />
+            <p className="text-sm text-destructive">{faceWarning}</p>
+          </div>
+        )}
+
+        {(uploadStatus.uploaded > 0 || uploadStatus.pending > 0) && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2">
+              <Upload className="h-4 w-4" />
+              {uploadStatus.pending > 0
+                ? `Uploading recording (${uploadStatus.pending} chunk${uploadStatus.pending !== 1 ? 's' : ''} pending)`
+                : 'Recording uploaded'}
+            </span>
+            <span className="text-muted-foreground">{uploadStatus.uploaded} uploaded</span>
+          </div>
+        )}
+
+        {uploadStatus.retrying && (
+          <div className="p-3 bg-warning/10 border border-warning/20 rounded-lg">
+            <p className="text-sm text-warning-foreground">
+              Connection problem - recording chunks are kept and will upload when the connection returns. Keep this tab open.
+            </p>
           </div>
         )}
 
@@ -14,12 +14,135 @@ export type Database = {
   }
   public: {
     Tables: {
+      answer_grades: {
+        Row: {
+          answer_id: string
+          comment: string | null
+          created_at: string
+          criterion_points: Json
+          grader_id: string | null
+          id: string
+          is_moderation: boolean
+          points_awarded: number
+          updated_at: string
+        }
+        Insert: {
+          answer_id: string
+          comment?: string | null
+          created_at?: string
+          criterion_points?: Json
+          grader_id?: string | null
+          id?: string
+          is_moderation?: boolean
+          points_awarded: number
+          updated_at?: string
+        }
+        Update: {
+          answer_id?: string
+          comment?: string | null
+          created_at?: string
+          criterion_points?: Json
+          grader_id?: string | null
+          id?: string
+          is_moderation?: boolean
+          points_awarded?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_grades_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_answers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      answer_revisions: {
+        Row: {
+          answer_text: string | null
+          changed_at: string
+          id: string
+          question_id: string
+          selected_option: string | null
+          session_id: string
+        }
+        Insert: {
+          answer_text?: string | null
+          changed_at?: string
+          id?: string
+          question_id: string
+          selected_option?: string | null
+          session_id: string
+        }
+        Update: {
+          answer_text?: string | null
+          changed_at?: string
+          id?: string
+          question_id?: string
+          selected_option?: string | null
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_revisions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "exam_questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "answer_revisions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      answer_saves: {
+        Row: {
+          answer_count: number
+          changed_count: number
+          id: string
+          saved_at: string
+          session_id: string
+          transaction_id: number
+        }
+        Insert: {
+          answer_count?: number
+          changed_count?: number
+          id?: string
+          saved_at?: string
+          session_id: string
+          transaction_id: number
+        }
+        Update: {
+          answer_count?: number
+          changed_count?: number
+          id?: string
+          saved_at?: string
+          session_id?: string
+          transaction_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_saves_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       candidate_answers: {
         Row: {
           answer_text: string | null
+          client_changed_at: string | null
           code_submission: Json | null
           id: string
           is_auto_saved: boolean
+          is_late: boolean
           question_id: string
           selected_option: string | null
           session_id: string
@@ -27,9 +150,11 @@ export type Database = {
         }
         Insert: {
           answer_text?: string | null
+          client_changed_at?: string | null
           code_submission?: Json | null
           id?: string
           is_auto_saved?: boolean
+          is_late?: boolean
           question_id: string
           selected_option?: string | null
           session_id: string
@@ -37,9 +162,11 @@ export type Database = {
         }
         Update: {
           answer_text?: string | null
+          client_changed_at?: string | null
           code_submission?: Json | null
           id?: string
           is_auto_saved?: boolean
+          is_late?: boolean
           question_id?: string
           selected_option?: string | null
           session_id?: string
@@ -64,9 +191,11 @@ export type Database = {
       }
       candidate_sessions: {
         Row: {
+          answers_synced_at: string | null
           consent_given: boolean
           contact: string
           custom_location: string | null
+          disconnected_at: string | null
           email: string
           exam_id: string
           exam_location: string
@@ -74,17 +203,34 @@ export type Database = {
           full_name: string
           gender: string | null
           id: string
+          last_heartbeat_at: string | null
+          paused_at: string | null
+          proctor_id: string | null
+          question_set: Json | null
+          recording_chunk_count: number
           recording_url: string | null
           recording_started_at: string | null
           recording_required: boolean
+          recording_verification: string | null
+          recording_verification_detail: string | null
+          recording_verified_at: string | null
+          room_scan_path: string | null
+          room_scan_uploaded_at: string | null
+          roster_entry_id: string | null
+          shuffle_seed: number
           started_at: string
           status: Database["public"]["Enums"]["session_status"]
+          status_reason: string | null
           submitted_at: string | null
+          system_check: Json | null
+          system_checked_at: string | null
         }
         Insert: {
+          answers_synced_at?: string | null
           consent_given?: boolean
           contact: string
           custom_location?: string | null
+          disconnected_at?: string | null
           email: string
           exam_id: string
           exam_location: string
@@ -92,17 +238,34 @@ export type Database = {
           full_name: string
           gender?: string | null
           id?: string
+          last_heartbeat_at?: string | null
+          paused_at?: string | null
+          proctor_id?: string | null
+          question_set?: Json | null
+          recording_chunk_count?: number
           recording_url?: string | null
           recording_started_at?: string | null
           recording_required?: boolean
+          recording_verification?: string | null
+          recording_verification_detail?: string | null
+          recording_verified_at?: string | null
+          room_scan_path?: string | null
+          room_scan_uploaded_at?: string | null
+          roster_entry_id?: string | null
+          shuffle_seed?: number
           started_at?: string
           status?: Database["public"]["Enums"]["session_status"]
+          status_reason?: string | null
           submitted_at?: string | null
+          system_check?: Json | null
+          system_checked_at?: string | null
         }
         Update: {
+          answers_synced_at?: string | null
           consent_given?: boolean
           contact?: string
           custom_location?: string | null
+          disconnected_at?: string | null
           email?: string
           exam_id?: string
           exam_location?: string
@@ -110,12 +273,27 @@ export type Database = {
           full_name?: string
           gender?: string | null
           id?: string
+          last_heartbeat_at?: string | null
+          paused_at?: string | null
+          proctor_id?: string | null
+          question_set?: Json | null
+          recording_chunk_count?: number
           recording_url?: string | null
           recording_started_at?: string | null
           recording_required?: boolean
+          recording_verification?: string | null
+          recording_verification_detail?: string | null
+          recording_verified_at?: string | null
+          room_scan_path?: string | null
+          room_scan_uploaded_at?: string | null
+          roster_entry_id?: string | null
+          shuffle_seed?: number
           started_at?: string
           status?: Database["public"]["Enums"]["session_status"]
+          status_reason?: string | null
           submitted_at?: string | null
+          system_check?: Json | null
+          system_checked_at?: string | null
         }
         Relationships: [
           {
@@ -125,38 +303,110 @@ export type Database = {
             referencedRelation: "exams"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "candidate_sessions_roster_entry_id_fkey"
+            columns: ["roster_entry_id"]
+            isOneToOne: true
+            referencedRelation: "exam_roster"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_proctors: {
+        Row: {
+          capacity: number | null
+          created_at: string
+          exam_id: string
+          id: string
+          last_assigned_at: string | null
+          location: string | null
+          proctor_id: string
+        }
+        Insert: {
+          capacity?: number | null
+          created_at?: string
+          exam_id: string
+          id?: string
+          last_assigned_at?: string | null
+          location?: string | null
+          proctor_id: string
+        }
+        Update: {
+          capacity?: number | null
+          created_at?: string
+          exam_id?: string
+          id?: string
+          last_assigned_at?: string | null
+          location?: string | null
+          proctor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_proctors_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
         ]
       }
       exam_questions: {
         Row: {
           correct_answer: string | null
           created_at: string
+          created_by: string | null
+          difficulty: string | null
           id: string
+          language: string | null
           options: Json | null
           points: number
           question_order: number
           question_text: string
-          section_id: string
+          rubric: Json
+          section_id: string | null
+          section_type: Database["public"]["Enums"]["section_type"]
+          starter_code: string | null
+          tags: string[]
+          topic: string | null
+          updated_at: string
         }
         Insert: {
           correct_answer?: string | null
           created_at?: string
+          created_by?: string | null
+          difficulty?: string | null
           id?: string
+          language?: string | null
           options?: Json | null
           points?: number
           question_order: number
           question_text: string
-          section_id: string
+          rubric?: Json
+          section_id?: string | null
+          section_type: Database["public"]["Enums"]["section_type"]
+          starter_code?: string | null
+          tags?: string[]
+          topic?: string | null
+          updated_at?: string
         }
         Update: {
           correct_answer?: string | null
           created_at?: string
+          created_by?: string | null
+          difficulty?: string | null
           id?: string
+          language?: string | null
           options?: Json | null
           points?: number
           question_order?: number
           question_text?: string
-          section_id?: string
+          rubric?: Json
+          section_id?: string | null
+          section_type?: Database["public"]["Enums"]["section_type"]
+          starter_code?: string | null
+          tags?: string[]
+          topic?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
@@ -168,11 +418,53 @@ export type Database = {
           },
         ]
       }
+      exam_roster: {
+        Row: {
+          access_code: string
+          contact: string
+          created_at: string
+          email: string
+          exam_id: string
+          full_name: string
+          id: string
+        }
+        Insert: {
+          access_code?: string
+          contact: string
+          created_at?: string
+          email: string
+          exam_id: string
+          full_name: string
+          id?: string
+        }
+        Update: {
+          access_code?: string
+          contact?: string
+          created_at?: string
+          email?: string
+          exam_id?: string
+          full_name?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_roster_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exam_sections: {
         Row: {
           created_at: string
           exam_id: string
           id: string
+          pool_difficulty: string | null
+          pool_draw_count: number | null
+          pool_tags: string[]
+          pool_topic: string | null
           section_order: number
           section_type: Database["public"]["Enums"]["section_type"]
           timer_minutes: number
@@ -182,6 +474,10 @@ export type Database = {
           created_at?: string
           exam_id: string
           id?: string
+          pool_difficulty?: string | null
+          pool_draw_count?: number | null
+          pool_tags?: string[]
+          pool_topic?: string | null
           section_order: number
           section_type: Database["public"]["Enums"]["section_type"]
           timer_minutes: number
@@ -191,6 +487,10 @@ export type Database = {
           created_at?: string
           exam_id?: string
           id?: string
+          pool_difficulty?: string | null
+          pool_draw_count?: number | null
+          pool_tags?: string[]
+          pool_topic?: string | null
           section_order?: number
           section_type?: Database["public"]["Enums"]["section_type"]
           timer_minutes?: number
@@ -208,37 +508,273 @@ export type Database = {
       }
       exams: {
         Row: {
+          abandon_after_minutes: number
+          audio_monitoring: boolean
+          audio_speech_seconds: number
+          closes_at: string | null
           created_at: string
           created_by: string | null
           description: string | null
+          disconnect_after_seconds: number
+          face_absent_seconds: number
+          face_away_seconds: number
+          face_monitoring: boolean
+          face_warn_candidate: boolean
+          grading_threshold: number
           id: string
           is_active: boolean
+          late_entry_minutes: number | null
+          lockdown_allow_clipboard: boolean
+          lockdown_mode: boolean
+          max_attempts: number | null
+          opens_at: string | null
+          proctor_assignment: string
+          requires_access_code: boolean
+          room_scan_required: boolean
           rotation_slot: number
+          shuffle_options: boolean
+          shuffle_questions: boolean
+          timezone: string
           title: string
           updated_at: string
         }
         Insert: {
+          abandon_after_minutes?: number
+          audio_monitoring?: boolean
+          audio_speech_seconds?: number
+          closes_at?: string | null
           created_at?: string
           created_by?: string | null
           description?: string | null
+          disconnect_after_seconds?: number
+          face_absent_seconds?: number
+          face_away_seconds?: number
+          face_monitoring?: boolean
+          face_warn_candidate?: boolean
+          grading_threshold?: number
           id?: string
           is_active?: boolean
+          late_entry_minutes?: number | null
+          lockdown_allow_clipboard?: boolean
+          lockdown_mode?: boolean
+          max_attempts?: number | null
+          opens_at?: string | null
+          proctor_assignment?: string
+          requires_access_code?: boolean
+          room_scan_required?: boolean
           rotation_slot?: number
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          timezone?: string
           title: string
           updated_at?: string
         }
         Update: {
+          abandon_after_minutes?: number
+          audio_monitoring?: boolean
+          audio_speech_seconds?: number
+          closes_at?: string | null
           created_at?: string
           created_by?: string | null
           description?: string | null
+          disconnect_after_seconds?: number
+          face_absent_seconds?: number
+          face_away_seconds?: number
+          face_monitoring?: boolean
+          face_warn_candidate?: boolean
+          grading_threshold?: number
           id?: string
           is_active?: boolean
+          late_entry_minutes?: number | null
+          lockdown_allow_clipboard?: boolean
+          lockdown_mode?: boolean
+          max_attempts?: number | null
+          opens_at?: string | null
+          proctor_assignment?: string
+          requires_access_code?: boolean
+          room_scan_required?: boolean
           rotation_slot?: number
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          timezone?: string
           title?: string
           updated_at?: string
         }
         Relationships: []
       }
+      identity_verifications: {
+        Row: {
+          face_path: string
+          id: string
+          id_document_path: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          session_id: string
+          status: string
+          submitted_at: string
+        }
+        Insert: {
+          face_path: string
+          id?: string
+          id_document_path: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          session_id: string
+          status?: string
+          submitted_at?: string
+        }
+        Update: {
+          face_path?: string
+          id?: string
+          id_document_path?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          session_id?: string
+          status?: string
+          submitted_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "identity_verifications_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: true
+            referencedRelation: "candidate_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      proctor_actions: {
+        Row: {
+          action: string
+          assigned_to: string | null
+          created_at: string
+          id: string
+          minutes: number | null
+          proctor_id: string
+          reason: string
+          section_id: string | null
+          session_id: string
+        }
+        Insert: {
+          action: string
+          assigned_to?: string | null
+          created_at?: string
+          id?: string
+          minutes?: number | null
+          proctor_id: string
+          reason: string
+          section_id?: string | null
+          session_id: string
+        }
+        Update: {
+          action?: string
+          assigned_to?: string | null
+          created_at?: string
+          id?: string
+          minutes?: number | null
+          proctor_id?: string
+          reason?: string
+          section_id?: string | null
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proctor_actions_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "exam_sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proctor_actions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      proctor_message_acks: {
+        Row: {
+          acknowledged_at: string
+          message_id: string
+          session_id: string
+        }
+        Insert: {
+          acknowledged_at?: string
+          message_id: string
+          session_id: string
+        }
+        Update: {
+          acknowledged_at?: string
+          message_id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proctor_message_acks_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "proctor_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proctor_message_acks_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      proctor_messages: {
+        Row: {
+          body: string
+          exam_id: string
+          id: string
+          kind: string
+          sender_id: string | null
+          sent_at: string
+          session_id: string | null
+        }
+        Insert: {
+          body: string
+          exam_id: string
+          id?: string
+          kind?: string
+          sender_id?: string | null
+          sent_at?: string
+          session_id?: string | null
+        }
+        Update: {
+          body?: string
+          exam_id?: string
+          id?: string
+          kind?: string
+          sender_id?: string | null
+          sent_at?: string
+          session_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proctor_messages_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proctor_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -263,12 +799,295 @@ export type Database = {
         }
         Relationships: []
       }
-      user_roles: {
+      question_test_cases: {
         Row: {
           created_at: string
+          expected_output: string
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          input: string
+          is_hidden: boolean
+          question_id: string
+          test_order: number
+        }
+        Insert: {
+          created_at?: string
+          expected_output: string
+          id?: string
+          input?: string
+          is_hidden?: boolean
+          question_id: string
+          test_order?: number
+        }
+        Update: {
+          created_at?: string
+          expected_output?: string
+          id?: string
+          input?: string
+          is_hidden?: boolean
+          question_id?: string
+          test_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_test_cases_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "exam_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recording_chunks: {
+        Row: {
+          id: string
+          recorded_at: string
+          segment: number
+          sequence: number
+          session_id: string
+          sha256: string
+          size_bytes: number
+          storage_path: string
+          uploaded_at: string
+        }
+        Insert: {
+          id?: string
+          recorded_at: string
+          segment: number
+          sequence: number
+          session_id: string
+          sha256: string
+          size_bytes: number
+          storage_path: string
+          uploaded_at?: string
+        }
+        Update: {
+          id?: string
+          recorded_at?: string
+          segment?: number
+          sequence?: number
+          session_id?: string
+          sha256?: string
+          size_bytes?: number
+          storage_path?: string
+          uploaded_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recording_chunks_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      registration_attempts: {
+        Row: {
+          access_code: string | null
+          client_ip: string | null
+          created_at: string
+          exam_id: string | null
+          id: string
+          reason: string
+          roster_entry_id: string | null
+        }
+        Insert: {
+          access_code?: string | null
+          client_ip?: string | null
+          created_at?: string
+          exam_id?: string | null
+          id?: string
+          reason: string
+          roster_entry_id?: string | null
+        }
+        Update: {
+          access_code?: string | null
+          client_ip?: string | null
+          created_at?: string
+          exam_id?: string | null
+          id?: string
+          reason?: string
+          roster_entry_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registration_attempts_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "registration_attempts_roster_entry_id_fkey"
+            columns: ["roster_entry_id"]
+            isOneToOne: false
+            referencedRelation: "exam_roster"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_notes: {
+        Row: {
+          author_id: string | null
+          created_at: string
+          id: string
+          note: string
+          noted_at: string
+          session_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          created_at?: string
+          id?: string
+          note: string
+          noted_at: string
+          session_id: string
+        }
+        Update: {
+          author_id?: string | null
+          created_at?: string
+          id?: string
+          note?: string
+          noted_at?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_notes_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_connection_events: {
+        Row: {
+          event: string
+          gap_seconds: number | null
+          id: string
+          occurred_at: string
+          session_id: string
+        }
+        Insert: {
+          event: string
+          gap_seconds?: number | null
+          id?: string
+          occurred_at?: string
+          session_id: string
+        }
+        Update: {
+          event?: string
+          gap_seconds?: number | null
+          id?: string
+          occurred_at?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_connection_events_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_escalations: {
+        Row: {
+          claimed_at: string | null
+          claimed_by: string | null
+          created_at: string
+          id: string
+          raised_by: string | null
+          reason: string
+          resolution: string | null
+          resolved_at: string | null
+          session_id: string
+          status: string
+        }
+        Insert: {
+          claimed_at?: string | null
+          claimed_by?: string | null
+          created_at?: string
+          id?: string
+          raised_by?: string | null
+          reason: string
+          resolution?: string | null
+          resolved_at?: string | null
+          session_id: string
+          status?: string
+        }
+        Update: {
+          claimed_at?: string | null
+          claimed_by?: string | null
+          created_at?: string
+          id?: string
+          raised_by?: string | null
+          reason?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          session_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_escalations_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_section_progress: {
+        Row: {
+          completed_at: string | null
+          deadline_at: string
+          id: string
+          section_id: string
+          session_id: string
+          started_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          deadline_at: string
+          id?: string
+          section_id: string
+          session_id: string
+          started_at?: string
+        }
+        Update: {
+          completed_at?: string | null
+          deadline_at?: string
+          id?: string
+          section_id?: string
+          session_id?: string
+          started_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_section_progress_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "exam_sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_section_progress_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
         }
         Insert: {
           created_at?: string
@@ -289,6 +1108,142 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      acknowledge_proctor_message: {
+        Args: {
+          _message_id: string
+          _session_id: string
+        }
+        Returns: string
+      }
+      add_exam_proctor: {
+        Args: {
+          _capacity?: number
+          _email: string
+          _exam_id: string
+          _location?: string
+        }
+        Returns: string
+      }
+      answer_grade_outcome: {
+        Args: {
+          _answer_id: string
+        }
+        Returns: {
+          final_points: number
+          grade_count: number
+          status: string
+        }[]
+      }
+      apply_proctor_action: {
+        Args: {
+          _action: string
+          _minutes?: number
+          _reason: string
+          _session_id: string
+        }
+        Returns: Json
+      }
+      begin_recording_segment: {
+        Args: {
+          _session_id: string
+        }
+        Returns: Json
+      }
+      can_add_recording_chunk: {
+        Args: {
+          _session_id: string
+          _storage_path: string
+        }
+        Returns: boolean
+      }
+      check_exam_registration: {
+        Args: {
+          _email: string
+          _exam_id: string
+        }
+        Returns: undefined
+      }
+      claim_escalation: {
+        Args: {
+          _escalation_id: string
+        }
+        Returns: undefined
+      }
+      complete_session_section: {
+        Args: {
+          _section_id: string
+          _session_id: string
+        }
+        Returns: undefined
+      }
+      draw_session_questions: {
+        Args: {
+          _session_id: string
+        }
+        Returns: Json
+      }
+      get_answer_results: {
+        Args: {
+          _answer_ids: string[]
+        }
+        Returns: Json
+      }
+      get_exam_proctors: {
+        Args: {
+          _exam_id: string
+        }
+        Returns: {
+          active_sessions: number
+          capacity: number | null
+          email: string | null
+          full_name: string | null
+          id: string
+          location: string | null
+          proctor_id: string
+        }[]
+      }
+      get_grading_agreement: {
+        Args: {
+          _exam_id?: string
+        }
+        Returns: Json
+      }
+      get_grading_queue: {
+        Args: never
+        Returns: Json
+      }
+      get_identity_status: {
+        Args: {
+          _session_id: string
+        }
+        Returns: {
+          review_note: string | null
+          status: string
+        }[]
+      }
+      get_open_exam: {
+        Args: {
+          _email: string
+        }
+        Returns: string
+      }
+      get_pending_proctor_messages: {
+        Args: {
+          _session_id: string
+        }
+        Returns: {
+          body: string
+          id: string
+          kind: string
+          sent_at: string
+        }[]
+      }
+      get_session_progress: {
+        Args: {
+          _session_id: string
+        }
+        Returns: Json
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -296,11 +1251,116 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_current_user_supervisor: {
+        Args: never
+        Returns: boolean
+      }
+      log_integrity_events: {
+        Args: {
+          _events: Json
+          _session_id: string
+        }
+        Returns: number
+      }
+      pick_session_proctor: {
+        Args: {
+          _exam_id: string
+          _location: string
+        }
+        Returns: string
+      }
+      reassign_session: {
+        Args: {
+          _proctor_id: string
+          _reason: string
+          _session_id: string
+        }
+        Returns: undefined
+      }
+      record_heartbeat: {
+        Args: {
+          _session_id: string
+        }
+        Returns: undefined
+      }
+      record_recording_verification: {
+        Args: {
+          _detail?: string
+          _session_id: string
+          _status: string
+        }
+        Returns: undefined
+      }
+      register_with_access_code: {
+        Args: {
+          _access_code: string
+          _consent_given: boolean
+          _custom_location?: string
+          _exam_location: string
+          _gender: string
+        }
+        Returns: Json
+      }
+      resolve_escalation: {
+        Args: {
+          _escalation_id: string
+          _resolution: string
+        }
+        Returns: undefined
+      }
+      review_identity: {
+        Args: {
+          _approve: boolean
+          _note?: string
+          _session_id: string
+        }
+        Returns: undefined
+      }
+      save_room_scan: {
+        Args: {
+          _path: string
+          _session_id: string
+        }
+        Returns: undefined
+      }
+      save_system_check: {
+        Args: {
+          _results: Json
+          _session_id: string
+        }
+        Returns: undefined
+      }
+      start_session_section: {
+        Args: {
+          _section_id: string
+          _session_id: string
+        }
+        Returns: Json
+      }
+      submit_identity: {
+        Args: {
+          _face_path: string
+          _id_document_path: string
+          _session_id: string
+        }
+        Returns: undefined
+      }
+      sweep_stale_sessions: {
+        Args: never
+        Returns: number
+      }
+      sync_answers: {
+        Args: {
+          _answers: Json
+          _session_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
-      app_role: "admin"
+      app_role: "admin" | "supervisor"
       section_type: "mcq" | "theoretical" | "practical"
-      session_status: "in_progress" | "completed" | "abandoned"
+      session_status: "in_progress" | "completed" | "abandoned" | "terminated"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -428,9 +1488,9 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin"],
+      app_role: ["admin", "supervisor"],
       section_type: ["mcq", "theoretical", "practical"],
-      session_status: ["in_progress", "completed", "abandoned"],
+      session_status: ["in_progress", "completed", "abandoned", "terminated"],
     },
   },
 } as const
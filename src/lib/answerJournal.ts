@@ -0,0 +1,229 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export type SaveStatus = 'saved' | 'pending' | 'offline';
+
+export interface JournalAnswer {
+  question_id: string;
+  answer_text?: string | null;
+  selected_option?: string | null;
+}
+
+/** An answer as kept in IndexedDB until the server has it */
+interface JournalEntry extends JournalAnswer {
+  session_id: string;
+  changed_at: string;
+}
+
+interface SyncResult {
+  question_id: string;
+  // closed: changed after the session ended, so the server did not take it
+  status: 'saved' | 'stale' | 'closed';
+  answer_text?: string | null;
+  selected_option?: string | null;
+  changed_at?: string;
+}
+
+const DB_NAME = 'exam-answers';
+const STORE = 'answers';
+// Typing is batched into one save; a failed save is retried with backoff
+const SYNC_DELAY_MS = 3000;
+const RETRY_MIN_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+// Lets the service worker wake the page for a retry once the browser is back online
+const requestBackgroundSync = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    // Not registered in development unless enabled, see PWAInstaller
+    const registration = await navigator.serviceWorker.getRegistration();
+    const sync = (registration as (ServiceWorkerRegistration & { sync?: { register: (tag: string) => Promise<void> } }) | undefined)?.sync;
+    await sync?.register('answer-sync');
+  } catch (error) {
+    console.error("[answerJournal] Failed to register background sync:", error);
+  }
+};
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDatabase = () => {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => {
+    const store = req.result.createObjectStore(STORE, { keyPath: ['session_id', 'question_id'] });
+    store.createIndex('session_id', 'session_id');
+  };
+  return request(req);
+};
+
+/**
+ * Journals every answer change in IndexedDB and replays the journal to the
+ * server through `sync_answers`, batched and retried until it lands. The
+ * server refuses replays older than what it has; the stored version is then
+ * reported through `onConflict` for the page to show instead.
+ */
+export const createAnswerJournal = (
+  sessionId: string,
+  onStatus: (status: SaveStatus) => void,
+  onConflict: (answer: JournalAnswer) => void
+) => {
+  const dbPromise = openDatabase();
+  let syncTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryMs = RETRY_MIN_MS;
+  let syncing: Promise<boolean> | null = null;
+  let disposed = false;
+
+  // Without IndexedDB (private windows, quota) the journal only lives as long as the page
+  const memory = new Map<string, JournalEntry>();
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await dbPromise;
+    return request(run(db.transaction(STORE, mode).objectStore(STORE)));
+  };
+
+  const entries = async () => {
+    const stored = await withStore('readonly', store =>
+      store.index('session_id').getAll(sessionId) as IDBRequest<JournalEntry[]>).catch(() => []);
+    return [...stored.filter(entry => !memory.has(entry.question_id)), ...memory.values()];
+  };
+
+  const get = async (questionId: string) =>
+    memory.get(questionId) ?? await withStore('readonly', store =>
+      store.get([sessionId, questionId]) as IDBRequest<JournalEntry | undefined>).catch(() => undefined);
+
+  const put = (entry: JournalEntry) =>
+    withStore('readwrite', store => store.put(entry))
+      .then(() => { memory.delete(entry.question_id); })
+      .catch(error => {
+        console.error("[answerJournal] Failed to journal answer, keeping it in memory:", error);
+        memory.set(entry.question_id, entry);
+      });
+
+  const remove = (questionId: string) => {
+    memory.delete(questionId);
+    return withStore('readwrite', store => store.delete([sessionId, questionId])).catch(() => undefined);
+  };
+
+  const report = (failed = false) => {
+    entries().then(all => {
+      if (all.length === 0) onStatus('saved');
+      else onStatus(failed || !navigator.onLine ? 'offline' : 'pending');
+    });
+  };
+
+  const schedule = (delay: number) => {
+    if (disposed) return;
+    if (syncTimer) clearTimeout(syncTimer);
+    syncTimer = setTimeout(() => { sync(); }, delay);
+  };
+
+  const replay = async () => {
+    const pending = await entries();
+    if (pending.length === 0) return true;
+
+    const { data, error } = await supabase.rpc("sync_answers", {
+      _session_id: sessionId,
+      _answers: pending.map(({ question_id, answer_text, selected_option, changed_at }) => ({
+        question_id,
+        answer_text: answer_text ?? null,
+        selected_option: selected_option ?? null,
+        changed_at
+      })) as unknown as Json
+    });
+    if (error) throw error;
+
+    // Delivered answers leave the journal; the server copy is the answer of record
+    const sent = new Map(pending.map(entry => [entry.question_id, entry.changed_at]));
+    for (const result of (data as unknown as SyncResult[]) || []) {
+      const current = await get(result.question_id);
+      // Changed again while the batch was in flight; the newer version goes next time
+      if (!current || current.changed_at !== sent.get(result.question_id)) continue;
+
+      await remove(result.question_id);
+      if (result.status === 'stale') {
+        onConflict({
+          question_id: result.question_id,
+          answer_text: result.answer_text ?? null,
+          selected_option: result.selected_option ?? null
+        });
+      }
+    }
+
+    return (await entries()).length === 0;
+  };
+
+  /** Sends unsynced answers now; resolves to whether everything is on the server */
+  const sync = (): Promise<boolean> => {
+    if (syncTimer) {
+      clearTimeout(syncTimer);
+      syncTimer = null;
+    }
+    if (syncing) return syncing.then(() => sync());
+
+    syncing = replay()
+      .then(done => {
+        retryMs = RETRY_MIN_MS;
+        if (!done) schedule(SYNC_DELAY_MS);
+        report();
+        return done;
+      })
+      .catch(error => {
+        console.error("[answerJournal] Failed to sync answers:", error);
+        schedule(retryMs);
+        retryMs = Math.min(retryMs * 2, RETRY_MAX_MS);
+        report(true);
+        requestBackgroundSync();
+        return false;
+      })
+      .finally(() => {
+        syncing = null;
+      });
+    return syncing;
+  };
+
+  const onOnline = () => {
+    retryMs = RETRY_MIN_MS;
+    sync();
+  };
+  const onOffline = () => report(true);
+  const onWorkerMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'sync-answers') onOnline();
+  };
+
+  window.addEventListener('online', onOnline);
+  window.addEventListener('offline', onOffline);
+  navigator.serviceWorker?.addEventListener('message', onWorkerMessage);
+
+  return {
+    /** Journals a changed answer and schedules it for the server */
+    record: async (answer: JournalAnswer) => {
+      await put({ ...answer, session_id: sessionId, changed_at: new Date().toISOString() });
+      onStatus(navigator.onLine ? 'pending' : 'offline');
+      schedule(SYNC_DELAY_MS);
+    },
+    /** Answers this browser has not delivered yet, e.g. from before a reload */
+    unsynced: async (): Promise<JournalAnswer[]> =>
+      (await entries()).map(({ question_id, answer_text, selected_option }) => ({ question_id, answer_text, selected_option })),
+    sync,
+    dispose: () => {
+      disposed = true;
+      if (syncTimer) clearTimeout(syncTimer);
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+      navigator.serviceWorker?.removeEventListener('message', onWorkerMessage);
+    }
+  };
+};
+
+export type AnswerJournal = ReturnType<typeof createAnswerJournal>;
+
+export const getSaveStatusLabel = (status: SaveStatus) => {
+  switch (status) {
+    case 'saved': return 'All answers saved';
+    case 'pending': return 'Saving...';
+    case 'offline': return 'Offline - answers kept on this device';
+  }
+};
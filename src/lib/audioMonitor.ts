@@ -0,0 +1,185 @@
+/** Audio activity settings of an exam, as stored on the `exams` row */
+export interface AudioMonitoring {
+  audio_monitoring: boolean;
+  audio_speech_seconds: number;
+}
+
+export interface SpeechInterval {
+  type: 'speech' | 'multiple_speakers';
+  started_at: string;
+  duration_seconds: number;
+}
+
+export interface AudioLevel {
+  // 0-1, from -60 dBFS to 0 dBFS
+  level: number;
+  speaking: boolean;
+}
+
+export const DEFAULT_AUDIO_MONITORING: AudioMonitoring = {
+  audio_monitoring: false,
+  audio_speech_seconds: 5
+};
+
+const FRAME_MS = 100;
+// A pause shorter than this does not end a talking interval
+const HANGOVER_MS = 800;
+// Speech must be this much louder than the running noise floor
+const SPEECH_TO_NOISE = 3;
+const MIN_SPEECH_RMS = 0.008;
+// Share of spectral energy that must fall in the voice band
+const VOICE_BAND_RATIO = 0.55;
+const VOICE_BAND_HZ = [300, 3400];
+const PITCH_RANGE_HZ = [70, 400];
+// Two pitch clusters this far apart (relative) suggest two different voices
+const SPEAKER_PITCH_SPLIT = 0.35;
+const MIN_CLUSTER_SHARE = 0.25;
+
+export const pickAudioMonitoring = (exam: AudioMonitoring): AudioMonitoring => ({
+  audio_monitoring: exam.audio_monitoring,
+  audio_speech_seconds: exam.audio_speech_seconds
+});
+
+const rms = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+};
+
+// Share of the spectrum's energy between the voice band limits
+const voiceBandRatio = (spectrumDb: Float32Array, binHz: number) => {
+  let voice = 0;
+  let total = 0;
+  for (let i = 1; i < spectrumDb.length; i++) {
+    const energy = 10 ** (spectrumDb[i] / 10);
+    total += energy;
+    const hz = i * binHz;
+    if (hz >= VOICE_BAND_HZ[0] && hz <= VOICE_BAND_HZ[1]) voice += energy;
+  }
+  return total > 0 ? voice / total : 0;
+};
+
+// Fundamental frequency by autocorrelation, or null when the frame is not voiced
+const estimatePitch = (samples: Float32Array, sampleRate: number) => {
+  const minLag = Math.floor(sampleRate / PITCH_RANGE_HZ[1]);
+  const maxLag = Math.min(samples.length - 1, Math.floor(sampleRate / PITCH_RANGE_HZ[0]));
+  let energy = 0;
+  for (let i = 0; i < samples.length; i++) energy += samples[i] * samples[i];
+  if (energy === 0) return null;
+
+  let bestLag = 0;
+  let bestCorrelation = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let correlation = 0;
+    for (let i = 0; i + lag < samples.length; i++) correlation += samples[i] * samples[i + lag];
+    correlation /= energy;
+    if (correlation > bestCorrelation) {
+      bestCorrelation = correlation;
+      bestLag = lag;
+    }
+  }
+  return bestCorrelation > 0.5 && bestLag > 0 ? sampleRate / bestLag : null;
+};
+
+/**
+ * Heuristic: splits the voiced pitches of an interval at their median and
+ * reports two speakers when both halves are well populated and far apart.
+ */
+const hasMultipleSpeakers = (pitches: number[]) => {
+  if (pitches.length < 10) return false;
+  const sorted = [...pitches].sort((a, b) => a - b);
+  // Find the widest relative gap between neighbouring pitches
+  let splitAt = 0;
+  let widestGap = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = (sorted[i] - sorted[i - 1]) / sorted[i - 1];
+    if (gap > widestGap) {
+      widestGap = gap;
+      splitAt = i;
+    }
+  }
+  const lowShare = splitAt / sorted.length;
+  if (lowShare < MIN_CLUSTER_SHARE || lowShare > 1 - MIN_CLUSTER_SHARE) return false;
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const low = mean(sorted.slice(0, splitAt));
+  const high = mean(sorted.slice(splitAt));
+  return (high - low) / low > SPEAKER_PITCH_SPLIT;
+};
+
+/**
+ * Runs a voice-activity detector over the microphone with the Web Audio API.
+ * `onLevel` receives the input level every frame; `onInterval` receives each
+ * talking interval that lasted at least `settings.audio_speech_seconds`.
+ */
+export const createAudioMonitor = (
+  stream: MediaStream,
+  settings: AudioMonitoring,
+  onLevel: (level: AudioLevel) => void,
+  onInterval: (interval: SpeechInterval) => void
+) => {
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  analyser.smoothingTimeConstant = 0;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const spectrum = new Float32Array(analyser.frequencyBinCount);
+  const binHz = context.sampleRate / analyser.fftSize;
+
+  let noiseFloor = MIN_SPEECH_RMS / SPEECH_TO_NOISE;
+  let intervalStart: number | null = null;
+  let lastSpeech = 0;
+  let pitches: number[] = [];
+
+  const endInterval = (endedAt: number) => {
+    if (intervalStart === null) return;
+    const duration = (endedAt - intervalStart) / 1000;
+    if (settings.audio_monitoring && duration >= settings.audio_speech_seconds) {
+      onInterval({
+        type: hasMultipleSpeakers(pitches) ? 'multiple_speakers' : 'speech',
+        started_at: new Date(intervalStart).toISOString(),
+        duration_seconds: Math.round(duration)
+      });
+    }
+    intervalStart = null;
+    pitches = [];
+  };
+
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    analyser.getFloatFrequencyData(spectrum);
+
+    const level = rms(samples);
+    const speaking = level > Math.max(MIN_SPEECH_RMS, noiseFloor * SPEECH_TO_NOISE)
+      && voiceBandRatio(spectrum, binHz) > VOICE_BAND_RATIO;
+    const now = Date.now();
+
+    if (speaking) {
+      intervalStart ??= now;
+      lastSpeech = now;
+      const pitch = estimatePitch(samples, context.sampleRate);
+      if (pitch) pitches.push(pitch);
+    } else {
+      // The floor only learns from silence, so steady talking cannot raise it
+      noiseFloor = noiseFloor * 0.95 + level * 0.05;
+      if (intervalStart !== null && now - lastSpeech > HANGOVER_MS) endInterval(lastSpeech);
+    }
+
+    const decibels = 20 * Math.log10(Math.max(level, 1e-6));
+    onLevel({ level: Math.min(1, Math.max(0, (decibels + 60) / 60)), speaking });
+  }, FRAME_MS);
+
+  return {
+    stop: () => {
+      clearInterval(timer);
+      endInterval(lastSpeech);
+      source.disconnect();
+      context.close();
+    }
+  };
+};
+
+export type AudioMonitor = ReturnType<typeof createAudioMonitor>;
@@ -0,0 +1,65 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export const LANGUAGES = [
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'typescript', label: 'TypeScript' },
+  { value: 'python', label: 'Python' }
+] as const;
+
+export type CodeLanguage = typeof LANGUAGES[number]['value'];
+
+export const getLanguageLabel = (language: string | null | undefined) =>
+  LANGUAGES.find(l => l.value === language)?.label || 'Plain text';
+
+// The program reads `input` on stdin and must print `expected_output`
+export interface TestCase {
+  input: string;
+  expected_output: string;
+  is_hidden: boolean;
+}
+
+export interface TestResult {
+  test_id: string;
+  hidden: boolean;
+  passed: boolean;
+  duration_ms: number;
+  input?: string;
+  expected_output?: string;
+  actual_output?: string;
+  error?: string;
+}
+
+export interface TestRun {
+  passed: number;
+  total: number;
+  results: TestResult[];
+}
+
+/** Test results written to `candidate_answers.code_submission` when a section closes */
+export interface CodeSubmission extends TestRun {
+  language: CodeLanguage;
+  score: number;
+  graded_at: string;
+}
+
+export const parseCodeSubmission = (value: Json | null | undefined): CodeSubmission | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value) || !('results' in value)) return null;
+  return value as unknown as CodeSubmission;
+};
+
+const invokeRunCode = async <T>(body: Record<string, string>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke("run-code", { body });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as T;
+};
+
+// Runs unsaved code against the question's visible tests
+export const runVisibleTests = (sessionId: string, questionId: string, code: string) =>
+  invokeRunCode<TestRun>({ session_id: sessionId, question_id: questionId, mode: "run", code });
+
+// Grades the saved answer against every test, including hidden ones, once its
+// section has closed. Candidates only learn that it was graded, not the results
+export const gradeCodeAnswer = (sessionId: string, questionId: string) =>
+  invokeRunCode<{ graded: boolean }>({ session_id: sessionId, question_id: questionId, mode: "submit" });
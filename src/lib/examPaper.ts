@@ -0,0 +1,152 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { parseRubric, type RubricCriterion } from "@/lib/grading";
+
+export type SectionType = 'mcq' | 'theoretical' | 'practical';
+
+/**
+ * An MCQ option with a stable identity. `key` is the letter of the option in
+ * authored order and is what `selected_option` and `correct_answer` store, so
+ * answers stay gradable whatever order the candidate saw the options in.
+ */
+export interface PaperOption {
+  key: string;
+  text: string;
+}
+
+export interface PaperQuestion {
+  id: string;
+  question_text: string;
+  question_order: number;
+  options?: string[];
+  choices: PaperOption[];
+  correct_answer?: string;
+  points: number;
+  rubric: RubricCriterion[];
+  section_type: SectionType;
+  language: string | null;
+  starter_code: string | null;
+}
+
+export interface PaperSection {
+  id: string;
+  section_type: SectionType;
+  title: string;
+  timer_minutes: number;
+  section_order: number;
+  pool_draw_count: number | null;
+  questions: PaperQuestion[];
+}
+
+/** Section id -> ids of the bank questions drawn for one candidate session */
+export type QuestionSet = Record<string, string[]>;
+
+// Options are stored as a JSON-encoded string inside the JSONB column
+export const parseOptions = (options: Json | null | undefined): string[] | undefined => {
+  if (!options) return undefined;
+  if (Array.isArray(options)) return options as string[];
+  try {
+    return JSON.parse(options as string);
+  } catch {
+    return undefined;
+  }
+};
+
+export const optionKey = (index: number) => String.fromCharCode(65 + index);
+
+export const toChoices = (options: string[] | undefined): PaperOption[] =>
+  (options || []).map((text, index) => ({ key: optionKey(index), text }));
+
+// Renders a stored option key as "B. option text" for answer views
+export const describeOption = (options: Json | null | undefined, key: string | null | undefined) => {
+  if (!key) return null;
+  const text = parseOptions(options)?.[key.charCodeAt(0) - 65];
+  return text !== undefined ? `${key}. ${text}` : key;
+};
+
+const toPaperQuestion = (q: Tables<"exam_questions">): PaperQuestion => {
+  const options = parseOptions(q.options);
+  return {
+    ...q,
+    correct_answer: q.correct_answer ?? undefined,
+    options,
+    choices: toChoices(options),
+    rubric: parseRubric(q.rubric)
+  };
+};
+
+/**
+ * Loads the exact paper a candidate session sits: authored questions for fixed
+ * sections and the session's own random draw for pool sections. The draw happens
+ * server-side on first call and is stored on the session, so reloading the exam
+ * or reviewing it later always yields the same questions. Reviewers pass
+ * `readOnly`: they only read the stored draw, and a session without one has no
+ * pool questions.
+ */
+export const loadSessionPaper = async (sessionId: string, examId: string, readOnly = false): Promise<PaperSection[]> => {
+  const { data: sectionsData, error: sectionsError } = await supabase
+    .from("exam_sections")
+    .select(`
+      *,
+      exam_questions(*)
+    `)
+    .eq("exam_id", examId)
+    .order("section_order");
+
+  if (sectionsError) throw sectionsError;
+
+  let questionSet: QuestionSet = {};
+  const bankQuestions: Record<string, PaperQuestion> = {};
+
+  if (sectionsData.some(section => section.pool_draw_count !== null)) {
+    if (readOnly) {
+      const { data: sessionData, error: sessionError } = await supabase
+        .from("candidate_sessions")
+        .select("question_set")
+        .eq("id", sessionId)
+        .single();
+
+      if (sessionError) throw sessionError;
+      questionSet = (sessionData.question_set as QuestionSet | null) || {};
+    } else {
+      const { data: drawData, error: drawError } = await supabase
+        .rpc("draw_session_questions", { _session_id: sessionId });
+
+      if (drawError) throw drawError;
+      questionSet = (drawData as QuestionSet) || {};
+    }
+
+    const drawnIds = Object.values(questionSet).flat();
+    if (drawnIds.length > 0) {
+      const { data: bankData, error: bankError } = await supabase
+        .from("exam_questions")
+        .select("*")
+        .in("id", drawnIds);
+
+      if (bankError) throw bankError;
+      bankData.forEach(q => {
+        bankQuestions[q.id] = toPaperQuestion(q);
+      });
+    }
+  }
+
+  return sectionsData.map(section => {
+    const questions = section.pool_draw_count !== null
+      ? (questionSet[section.id] || [])
+          .map((id, index) => bankQuestions[id] && { ...bankQuestions[id], question_order: index + 1 })
+          .filter(Boolean)
+      : section.exam_questions
+          .map(toPaperQuestion)
+          .sort((a, b) => a.question_order - b.question_order);
+
+    return {
+      id: section.id,
+      section_type: section.section_type,
+      title: section.title,
+      timer_minutes: section.timer_minutes,
+      section_order: section.section_order,
+      pool_draw_count: section.pool_draw_count,
+      questions
+    };
+  });
+};
@@ -0,0 +1,144 @@
+import type { FaceDetector } from "@mediapipe/tasks-vision";
+
+/** Face presence settings of an exam, as stored on the `exams` row */
+export interface FaceMonitoring {
+  face_monitoring: boolean;
+  face_absent_seconds: number;
+  face_away_seconds: number;
+  face_warn_candidate: boolean;
+}
+
+export type FaceEventType = 'no_face' | 'multiple_faces' | 'looking_away';
+
+export interface FaceEvent {
+  type: FaceEventType;
+  detail: string;
+}
+
+export const DEFAULT_FACE_MONITORING: FaceMonitoring = {
+  face_monitoring: false,
+  face_absent_seconds: 5,
+  face_away_seconds: 10,
+  face_warn_candidate: true
+};
+
+// The detector runs on the CPU in a WebAssembly runtime; both assets can be self-hosted
+const WASM_URL = import.meta.env.VITE_FACE_WASM_URL || 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.35/wasm';
+const MODEL_URL = import.meta.env.VITE_FACE_MODEL_URL
+  || 'https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite';
+const SAMPLE_INTERVAL_MS = Number(import.meta.env.VITE_FACE_SAMPLE_INTERVAL_MS) || 1000;
+// Consecutive samples with more than one face before it counts; filters one-frame false positives
+const MULTIPLE_FACE_SAMPLES = 3;
+// Nose offset from the eye midpoint, relative to the distance between the eyes
+const LOOKING_AWAY_YAW = 0.6;
+
+export const pickFaceMonitoring = (exam: FaceMonitoring): FaceMonitoring => ({
+  face_monitoring: exam.face_monitoring,
+  face_absent_seconds: exam.face_absent_seconds,
+  face_away_seconds: exam.face_away_seconds,
+  face_warn_candidate: exam.face_warn_candidate
+});
+
+export const getFaceWarning = (type: FaceEventType) => {
+  switch (type) {
+    case 'no_face': return 'We cannot see your face. Please stay in front of the camera.';
+    case 'multiple_faces': return 'More than one person is visible. Only the candidate may be in view.';
+    case 'looking_away': return 'Please keep your eyes on the exam screen.';
+  }
+};
+
+type Keypoint = { x: number; y: number };
+
+// BlazeFace keypoints: right eye, left eye, nose tip, mouth, right ear, left ear
+const isLookingAway = (keypoints: Keypoint[]) => {
+  if (keypoints.length < 3) return false;
+  const [rightEye, leftEye, nose] = keypoints;
+  const eyeDistance = Math.abs(leftEye.x - rightEye.x);
+  if (eyeDistance === 0) return true;
+  const yaw = (nose.x - (leftEye.x + rightEye.x) / 2) / eyeDistance;
+  return Math.abs(yaw) > LOOKING_AWAY_YAW;
+};
+
+/**
+ * Samples the webcam once per interval and reports face presence episodes.
+ * Each episode is reported once, when it has lasted longer than its threshold;
+ * it must end before the same event can be reported again.
+ */
+export const createFaceMonitor = async (
+  video: HTMLVideoElement,
+  settings: FaceMonitoring,
+  onEvent: (event: FaceEvent) => void,
+  onClear?: () => void
+) => {
+  // Loaded on demand so exams without face monitoring never download the runtime
+  const { FaceDetector, FilesetResolver } = await import("@mediapipe/tasks-vision");
+  const fileset = await FilesetResolver.forVisionTasks(WASM_URL);
+  const detector: FaceDetector = await FaceDetector.createFromOptions(fileset, {
+    baseOptions: { modelAssetPath: MODEL_URL, delegate: 'CPU' },
+    runningMode: 'VIDEO',
+    minDetectionConfidence: 0.6
+  });
+
+  let absentSince: number | null = null;
+  let awaySince: number | null = null;
+  let multipleSamples = 0;
+  const reported = new Set<FaceEventType>();
+
+  const report = (type: FaceEventType, detail: string) => {
+    if (reported.has(type)) return;
+    reported.add(type);
+    onEvent({ type, detail });
+  };
+
+  const clear = (type: FaceEventType) => {
+    if (reported.delete(type) && reported.size === 0) onClear?.();
+  };
+
+  const sample = () => {
+    if (video.readyState < 2) return;
+    const now = performance.now();
+    const { detections } = detector.detectForVideo(video, now);
+
+    if (detections.length === 0) {
+      absentSince ??= now;
+      const seconds = Math.round((now - absentSince) / 1000);
+      if (seconds >= settings.face_absent_seconds) report('no_face', `No face for ${seconds} seconds`);
+    } else {
+      absentSince = null;
+      clear('no_face');
+    }
+
+    multipleSamples = detections.length > 1 ? multipleSamples + 1 : 0;
+    if (multipleSamples >= MULTIPLE_FACE_SAMPLES) {
+      report('multiple_faces', `${detections.length} faces visible`);
+    } else if (multipleSamples === 0) {
+      clear('multiple_faces');
+    }
+
+    if (detections.length === 1 && isLookingAway(detections[0].keypoints)) {
+      awaySince ??= now;
+      const seconds = Math.round((now - awaySince) / 1000);
+      if (seconds >= settings.face_away_seconds) report('looking_away', `Looking away for ${seconds} seconds`);
+    } else {
+      awaySince = null;
+      clear('looking_away');
+    }
+  };
+
+  const timer = setInterval(() => {
+    try {
+      sample();
+    } catch (error) {
+      console.error('[faceMonitor] Detection failed:', error);
+    }
+  }, SAMPLE_INTERVAL_MS);
+
+  return {
+    stop: () => {
+      clearInterval(timer);
+      detector.close();
+    }
+  };
+};
+
+export type FaceMonitor = Awaited<ReturnType<typeof createFaceMonitor>>;
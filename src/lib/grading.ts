@@ -0,0 +1,139 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { PaperSection } from "@/lib/examPaper";
+import { parseCodeSubmission } from "@/lib/codeRunner";
+
+// A type alias rather than an interface so rubrics can be written to JSONB columns directly
+export type RubricCriterion = {
+  criterion: string;
+  points: number;
+};
+
+export interface AnswerGrade {
+  id: string;
+  answer_id: string;
+  grader_id: string | null;
+  points_awarded: number;
+  criterion_points: number[];
+  comment: string | null;
+  is_moderation: boolean;
+  updated_at: string;
+}
+
+export type GradeStatus = 'ungraded' | 'awaiting_second' | 'agreed' | 'conflict' | 'resolved';
+
+/**
+ * Outcome of the blind double marking of one answer. Individual grades are never
+ * returned; `final_points` is only set once two graders agreed within the exam's
+ * threshold or a third grader resolved their conflict.
+ */
+export interface AnswerResult {
+  answer_id: string;
+  status: GradeStatus;
+  final_points: number | null;
+  grade_count: number;
+  graded_by_me: boolean;
+  comments: string[];
+}
+
+interface ScoredAnswer {
+  id: string;
+  question_id: string;
+  selected_option: string | null;
+  code_submission: Json | null;
+  is_late: boolean;
+}
+
+export const parseRubric = (rubric: Json | null | undefined): RubricCriterion[] =>
+  Array.isArray(rubric) ? (rubric as RubricCriterion[]) : [];
+
+export const rubricTotal = (rubric: RubricCriterion[]) =>
+  rubric.reduce((sum, criterion) => sum + (criterion.points || 0), 0);
+
+// Drops criteria the author left blank before the rubric is saved
+export const cleanRubric = (rubric: RubricCriterion[]) =>
+  rubric.filter(criterion => criterion.criterion.trim());
+
+export const isManuallyGraded = (sectionType: string) =>
+  sectionType === 'theoretical' || sectionType === 'practical';
+
+// Practical answers graded against test cases take their mark from the tests, not from graders
+export const isAutoGraded = (answer: { code_submission: Json | null }) =>
+  (parseCodeSubmission(answer.code_submission)?.total ?? 0) > 0;
+
+export const getGradeStatusLabel = (status: GradeStatus) => {
+  switch (status) {
+    case 'ungraded': return 'Awaiting first grade';
+    case 'awaiting_second': return 'Awaiting second grade';
+    case 'agreed': return 'Graders agreed';
+    case 'conflict': return 'Graders disagree, awaiting third grade';
+    case 'resolved': return 'Resolved by third grader';
+  }
+};
+
+export const getGradeStatusColor = (status: GradeStatus) => {
+  switch (status) {
+    case 'agreed':
+    case 'resolved': return 'bg-green-100 text-green-800';
+    case 'conflict': return 'bg-red-100 text-red-800';
+    default: return 'bg-yellow-100 text-yellow-800';
+  }
+};
+
+// Graders see sessions by this code instead of the candidate's name
+export const candidateCode = (sessionId: string) => sessionId.slice(0, 8).toUpperCase();
+
+export const loadAnswerResults = async (answerIds: string[]): Promise<AnswerResult[]> => {
+  if (answerIds.length === 0) return [];
+  const { data, error } = await supabase.rpc("get_answer_results", { _answer_ids: answerIds });
+  if (error) throw error;
+  return (data as unknown as AnswerResult[]) || [];
+};
+
+/**
+ * Scores a session from its paper: MCQ answers and practical answers with test
+ * results are marked automatically, and the remaining theoretical and practical
+ * answers take their final mark from the graders.
+ * Answers without a final mark yet count as zero and are reported as `pending`.
+ */
+export const calculateScore = (paper: PaperSection[], answers: ScoredAnswer[], results: AnswerResult[]) => {
+  let totalPoints = 0;
+  let earnedPoints = 0;
+  let pending = 0;
+
+  const answersByQuestion = new Map(answers.map(answer => [answer.question_id, answer]));
+  const resultsByAnswer = new Map(results.map(result => [result.answer_id, result]));
+  const questions = paper.flatMap(section => section.questions);
+
+  questions.forEach(question => {
+    const answer = answersByQuestion.get(question.id);
+    totalPoints += question.points;
+    // Answers written after their section closed are not counted
+    if (!answer || answer.is_late) return;
+
+    if (question.section_type === 'mcq') {
+      if (answer.selected_option === question.correct_answer) earnedPoints += question.points;
+      return;
+    }
+
+    const codeSubmission = parseCodeSubmission(answer.code_submission);
+    if (codeSubmission && codeSubmission.total > 0) {
+      earnedPoints += Math.min(codeSubmission.score, question.points);
+      return;
+    }
+
+    const result = resultsByAnswer.get(answer.id);
+    if (result && result.final_points !== null) {
+      earnedPoints += Math.min(result.final_points, question.points);
+    } else {
+      pending += 1;
+    }
+  });
+
+  return {
+    earned: earnedPoints,
+    total: totalPoints,
+    percentage: totalPoints > 0 ? (earnedPoints / totalPoints) * 100 : 0,
+    pending
+  };
+};
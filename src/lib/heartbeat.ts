@@ -0,0 +1,90 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/** Connection thresholds of an exam, as stored on the `exams` row */
+export interface ConnectionSettings {
+  disconnect_after_seconds: number;
+  abandon_after_minutes: number;
+}
+
+export type ConnectionEventType = 'disconnected' | 'reconnected' | 'abandoned';
+
+export type ConnectionEvent = Tables<"session_connection_events">;
+
+export const DEFAULT_CONNECTION_SETTINGS: ConnectionSettings = {
+  disconnect_after_seconds: 45,
+  abandon_after_minutes: 15
+};
+
+// Well below the smallest disconnect threshold the server accepts (30 seconds)
+const HEARTBEAT_MS = 10000;
+
+export const pickConnectionSettings = (exam: ConnectionSettings): ConnectionSettings => ({
+  disconnect_after_seconds: exam.disconnect_after_seconds,
+  abandon_after_minutes: exam.abandon_after_minutes
+});
+
+export const getConnectionEventLabel = (event: string) => {
+  switch (event) {
+    case 'disconnected': return 'Disconnected';
+    case 'reconnected': return 'Reconnected';
+    case 'abandoned': return 'Abandoned';
+    default: return event;
+  }
+};
+
+/**
+ * Tells the server the candidate's exam is still open, every few seconds and
+ * as soon as the browser is back online or the tab is shown again. Returns a
+ * function that stops the heartbeat.
+ */
+export const startHeartbeat = (sessionId: string) => {
+  const beat = async () => {
+    const { error } = await supabase.rpc("record_heartbeat", { _session_id: sessionId });
+    if (error) console.error("[heartbeat] Failed to record heartbeat:", error);
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') beat();
+  };
+
+  beat();
+  const timer = setInterval(beat, HEARTBEAT_MS);
+  window.addEventListener('online', beat);
+  document.addEventListener('visibilitychange', onVisibilityChange);
+
+  return () => {
+    clearInterval(timer);
+    window.removeEventListener('online', beat);
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+  };
+};
+
+/**
+ * Marks sessions without a recent heartbeat disconnected or abandoned. A
+ * scheduled job normally does this; proctor dashboards call it as a fallback.
+ */
+export const sweepStaleSessions = async () => {
+  const { data, error } = await supabase.rpc("sweep_stale_sessions");
+  if (error) throw error;
+  return data ?? 0;
+};
+
+/**
+ * Calls `onEvent` for every drop, reconnect and abandonment as it is logged.
+ * Returns a function that stops watching.
+ */
+export const watchConnectionEvents = (onEvent: (event: ConnectionEvent) => void) => {
+  const channel = supabase
+    .channel('session-connection-events')
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'session_connection_events' },
+      (payload) => onEvent(payload.new as ConnectionEvent)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
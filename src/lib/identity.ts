@@ -0,0 +1,188 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const IDENTITY_BUCKET = 'identity-photos';
+
+export type IdentityStatus = 'pending' | 'approved' | 'rejected';
+
+export interface IdentityVerification {
+  id: string;
+  session_id: string;
+  face_path: string;
+  id_document_path: string;
+  status: IdentityStatus;
+  submitted_at: string;
+  reviewed_at: string | null;
+  review_note: string | null;
+}
+
+export interface PendingIdentity extends IdentityVerification {
+  session: {
+    full_name: string;
+    email: string;
+    exam: { title: string };
+  };
+}
+
+export interface IdentityPhotoUrls {
+  face: string | null;
+  id_document: string | null;
+}
+
+// Signed photo links last a proctoring shift; the live grid signs each photo only once
+const PHOTO_URL_SECONDS = 6 * 60 * 60;
+// How often the queue is re-read in case a notification was missed
+const IDENTITY_POLL_MS = 20000;
+const PHOTO_QUALITY = 0.9;
+
+export const getIdentityStatusLabel = (status: string) => {
+  switch (status) {
+    case 'pending': return 'Awaiting review';
+    case 'approved': return 'Approved';
+    case 'rejected': return 'Rejected';
+    default: return status;
+  }
+};
+
+export const getIdentityStatusColor = (status: string) => {
+  switch (status) {
+    case 'pending': return 'bg-yellow-100 text-yellow-800';
+    case 'approved': return 'bg-green-100 text-green-800';
+    case 'rejected': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+/** Takes a JPEG snapshot of what the video element currently shows */
+export const captureFrame = (video: HTMLVideoElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || canvas.width === 0) {
+      reject(new Error('Camera has no picture yet'));
+      return;
+    }
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Snapshot failed'))),
+      'image/jpeg',
+      PHOTO_QUALITY
+    );
+  });
+
+const uploadPhoto = async (sessionId: string, kind: 'face' | 'id', photo: Blob) => {
+  const path = `${sessionId}/${kind}-${Date.now()}.jpg`;
+  const { error } = await supabase.storage
+    .from(IDENTITY_BUCKET)
+    .upload(path, photo, { contentType: photo.type || 'image/jpeg', upsert: false });
+  if (error) throw error;
+  return path;
+};
+
+/** Uploads both photos and puts the session in the proctors' review queue */
+export const submitIdentity = async (sessionId: string, face: Blob, idDocument: Blob) => {
+  const [facePath, idDocumentPath] = await Promise.all([
+    uploadPhoto(sessionId, 'face', face),
+    uploadPhoto(sessionId, 'id', idDocument)
+  ]);
+  const { error } = await supabase.rpc("submit_identity", {
+    _session_id: sessionId,
+    _face_path: facePath,
+    _id_document_path: idDocumentPath
+  });
+  if (error) throw error;
+};
+
+/** The candidate's own view of their verification; null before anything was submitted */
+export const getIdentityStatus = async (sessionId: string) => {
+  const { data, error } = await supabase.rpc("get_identity_status", { _session_id: sessionId });
+  if (error) throw error;
+  return data?.[0] ?? null;
+};
+
+export const reviewIdentity = async (sessionId: string, approve: boolean, note?: string) => {
+  const { error } = await supabase.rpc("review_identity", {
+    _session_id: sessionId,
+    _approve: approve,
+    _note: note?.trim() || undefined
+  });
+  if (error) throw error;
+};
+
+export const loadIdentityVerification = async (sessionId: string): Promise<IdentityVerification | null> => {
+  const { data, error } = await supabase
+    .from("identity_verifications")
+    .select("*")
+    .eq("session_id", sessionId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as IdentityVerification | null;
+};
+
+export const loadPendingIdentities = async (): Promise<PendingIdentity[]> => {
+  const { data, error } = await supabase
+    .from("identity_verifications")
+    .select(`
+      *,
+      session:candidate_sessions(full_name, email, exam:exams(title))
+    `)
+    .eq("status", "pending")
+    .order("submitted_at");
+  if (error) throw error;
+  return (data as unknown as PendingIdentity[]) || [];
+};
+
+export const getIdentityPhotoUrls = async (verification: IdentityVerification): Promise<IdentityPhotoUrls> => {
+  const { data, error } = await supabase.storage
+    .from(IDENTITY_BUCKET)
+    .createSignedUrls([verification.face_path, verification.id_document_path], PHOTO_URL_SECONDS);
+  if (error) throw error;
+  return {
+    face: data?.[0]?.signedUrl ?? null,
+    id_document: data?.[1]?.signedUrl ?? null
+  };
+};
+
+/** Links to the face photos proctors approved, by session, for comparing with the live feed */
+export const loadApprovedFaceUrls = async (sessionIds: string[]): Promise<Record<string, string>> => {
+  if (sessionIds.length === 0) return {};
+  const { data, error } = await supabase
+    .from("identity_verifications")
+    .select("session_id, face_path")
+    .eq("status", "approved")
+    .in("session_id", sessionIds);
+  if (error) throw error;
+  if (!data || data.length === 0) return {};
+
+  const { data: urls, error: urlError } = await supabase.storage
+    .from(IDENTITY_BUCKET)
+    .createSignedUrls(data.map(row => row.face_path), PHOTO_URL_SECONDS);
+  if (urlError) throw urlError;
+  return Object.fromEntries(
+    data.flatMap((row, index) => urls?.[index]?.signedUrl ? [[row.session_id, urls[index].signedUrl]] : [])
+  );
+};
+
+/**
+ * Calls `onChange` whenever photos are submitted or reviewed, and on
+ * (re)subscribe and a slow poll. Returns a function that stops watching.
+ */
+export const watchIdentityVerifications = (onChange: () => void) => {
+  const channel = supabase
+    .channel('identity-verifications')
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'identity_verifications' },
+      () => onChange()
+    )
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') onChange();
+    });
+  const interval = setInterval(onChange, IDENTITY_POLL_MS);
+
+  return () => {
+    clearInterval(interval);
+    supabase.removeChannel(channel);
+  };
+};
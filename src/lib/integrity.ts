@@ -0,0 +1,221 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export type IntegrityEventType =
+  | 'visibility_hidden'
+  | 'visibility_visible'
+  | 'window_blur'
+  | 'window_focus'
+  | 'fullscreen_exit'
+  | 'copy'
+  | 'cut'
+  | 'paste'
+  | 'context_menu'
+  | 'devtools_open'
+  | 'screen_share_ended'
+  | 'camera_ended'
+  | 'no_face'
+  | 'multiple_faces'
+  | 'looking_away'
+  | 'speech'
+  | 'multiple_speakers'
+  | 'blocked_shortcut';
+
+export type IntegritySeverity = 'info' | 'warning' | 'critical';
+
+/** An entry of `candidate_sessions.flags`, as stamped by `log_integrity_events` */
+export interface IntegrityEvent {
+  type: IntegrityEventType;
+  at: string;
+  detail: string | null;
+  // Set for events that span an interval, such as talking; `at` is when it started
+  duration_seconds?: number | null;
+  received_at: string;
+  exam_seconds: number;
+}
+
+interface PendingEvent {
+  type: IntegrityEventType;
+  at: string;
+  detail: string | null;
+  duration_seconds?: number;
+}
+
+const FLUSH_INTERVAL_MS = 5000;
+// Docked devtools shrink the viewport by at least this much
+const DEVTOOLS_THRESHOLD_PX = 160;
+
+export const parseIntegrityEvents = (flags: Json | null | undefined): IntegrityEvent[] =>
+  Array.isArray(flags)
+    ? (flags as unknown as IntegrityEvent[]).filter(event => event && typeof event === 'object' && 'type' in event)
+    : [];
+
+export const getIntegrityEventLabel = (type: IntegrityEventType) => {
+  switch (type) {
+    case 'visibility_hidden': return 'Left the exam tab';
+    case 'visibility_visible': return 'Returned to the exam tab';
+    case 'window_blur': return 'Window lost focus';
+    case 'window_focus': return 'Window regained focus';
+    case 'fullscreen_exit': return 'Left fullscreen';
+    case 'copy': return 'Copied text';
+    case 'cut': return 'Cut text';
+    case 'paste': return 'Pasted text';
+    case 'context_menu': return 'Opened context menu';
+    case 'devtools_open': return 'Developer tools opened';
+    case 'screen_share_ended': return 'Screen sharing ended';
+    case 'camera_ended': return 'Camera ended';
+    case 'no_face': return 'No face visible';
+    case 'multiple_faces': return 'Multiple faces visible';
+    case 'looking_away': return 'Looking away';
+    case 'speech': return 'Talking';
+    case 'multiple_speakers': return 'Multiple speakers';
+    case 'blocked_shortcut': return 'Blocked shortcut';
+  }
+};
+
+export const getIntegrityEventSeverity = (type: IntegrityEventType): IntegritySeverity => {
+  switch (type) {
+    case 'visibility_visible':
+    case 'window_focus':
+      return 'info';
+    case 'visibility_hidden':
+    case 'paste':
+    case 'devtools_open':
+    case 'screen_share_ended':
+    case 'camera_ended':
+    case 'multiple_faces':
+    case 'multiple_speakers':
+      return 'critical';
+    default:
+      return 'warning';
+  }
+};
+
+export const getIntegritySeverityColor = (severity: IntegritySeverity) => {
+  switch (severity) {
+    case 'info': return 'bg-gray-100 text-gray-800';
+    case 'warning': return 'bg-yellow-100 text-yellow-800';
+    case 'critical': return 'bg-red-100 text-red-800';
+  }
+};
+
+// Events that return the candidate to the exam are context, not flags
+export const countFlaggedEvents = (events: IntegrityEvent[]) =>
+  events.filter(event => getIntegrityEventSeverity(event.type) !== 'info').length;
+
+// Talking intervals picked up by the microphone, in the order they started
+export const getTalkingIntervals = (events: IntegrityEvent[]) =>
+  events.filter(event => (event.type === 'speech' || event.type === 'multiple_speakers') && event.duration_seconds);
+
+export const countSessionFlags = (flags: Json | null | undefined) =>
+  countFlaggedEvents(parseIntegrityEvents(flags));
+
+export const formatExamOffset = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const mmss = `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+/**
+ * Buffers integrity events and appends them to the session in batches. A batch
+ * that fails to send is kept and retried with the next flush.
+ */
+export const createIntegrityLogger = (sessionId: string) => {
+  let pending: PendingEvent[] = [];
+  let sending: Promise<void> | null = null;
+
+  const flush = async () => {
+    if (sending) await sending;
+    if (pending.length === 0) return;
+
+    const batch = pending;
+    pending = [];
+    sending = (async () => {
+      const { error } = await supabase.rpc("log_integrity_events", {
+        _session_id: sessionId,
+        _events: batch as unknown as Json
+      });
+      if (error) {
+        console.error("[integrity] Failed to log events:", error);
+        pending = [...batch, ...pending];
+      }
+    })();
+
+    try {
+      await sending;
+    } finally {
+      sending = null;
+    }
+  };
+
+  const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+
+  return {
+    log: (type: IntegrityEventType, detail: string | null = null, interval?: { at: string; duration_seconds: number }) => {
+      pending.push({ type, at: new Date().toISOString(), detail, ...interval });
+    },
+    flush,
+    dispose: () => {
+      clearInterval(timer);
+      flush();
+    }
+  };
+};
+
+export type IntegrityLogger = ReturnType<typeof createIntegrityLogger>;
+
+const clipboardDetail = (event: ClipboardEvent) => {
+  const length = event.type === 'paste'
+    ? event.clipboardData?.getData('text').length ?? 0
+    : window.getSelection()?.toString().length ?? 0;
+  return `${length} characters`;
+};
+
+/**
+ * Listens for browser events that suggest the candidate left the exam or used
+ * outside material. Returns a function that removes every listener.
+ */
+export const watchIntegrityEvents = (log: IntegrityLogger['log']) => {
+  let devtoolsOpen = false;
+
+  const onVisibilityChange = () =>
+    log(document.visibilityState === 'hidden' ? 'visibility_hidden' : 'visibility_visible');
+  const onBlur = () => log('window_blur');
+  const onFocus = () => log('window_focus');
+  const onFullscreenChange = () => {
+    if (!document.fullscreenElement) log('fullscreen_exit');
+  };
+  const onClipboard = (event: ClipboardEvent) => log(event.type as 'copy' | 'cut' | 'paste', clipboardDetail(event));
+  const onContextMenu = () => log('context_menu');
+
+  // Heuristic: docked devtools make the outer window much larger than the viewport
+  const devtoolsTimer = setInterval(() => {
+    const open = window.outerWidth - window.innerWidth > DEVTOOLS_THRESHOLD_PX
+      || window.outerHeight - window.innerHeight > DEVTOOLS_THRESHOLD_PX;
+    if (open && !devtoolsOpen) log('devtools_open');
+    devtoolsOpen = open;
+  }, 1000);
+
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  window.addEventListener('blur', onBlur);
+  window.addEventListener('focus', onFocus);
+  document.addEventListener('fullscreenchange', onFullscreenChange);
+  document.addEventListener('copy', onClipboard);
+  document.addEventListener('cut', onClipboard);
+  document.addEventListener('paste', onClipboard);
+  document.addEventListener('contextmenu', onContextMenu);
+
+  return () => {
+    clearInterval(devtoolsTimer);
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+    window.removeEventListener('blur', onBlur);
+    window.removeEventListener('focus', onFocus);
+    document.removeEventListener('fullscreenchange', onFullscreenChange);
+    document.removeEventListener('copy', onClipboard);
+    document.removeEventListener('cut', onClipboard);
+    document.removeEventListener('paste', onClipboard);
+    document.removeEventListener('contextmenu', onContextMenu);
+  };
+};
@@ -0,0 +1,245 @@
+import type { RealtimeChannel } from "@supabase/supabase-js";
+
+/**
+ * WebRTC live view for proctors. Media flows peer to peer (or through TURN);
+ * the session's `live-video-<id>` Realtime channel only carries signaling:
+ *
+ *   rtc-ready    candidate -> all      the candidate started publishing
+ *   rtc-request  viewer -> candidate   a proctor wants a connection
+ *   rtc-offer    candidate -> viewer
+ *   rtc-answer   viewer -> candidate
+ *   rtc-ice      either way
+ *   rtc-audio    viewer -> candidate   start or stop sending the microphone
+ *   rtc-hangup   viewer -> candidate
+ */
+
+export type RtcViewerState = 'connecting' | 'connected' | 'failed';
+
+const PUBLISHER_ID = 'candidate';
+// How long a viewer waits before asking again after a connection failed
+const RETRY_MS = 10000;
+
+const splitUrls = (value: string | undefined) =>
+  (value || '').split(',').map(url => url.trim()).filter(Boolean);
+
+/**
+ * ICE servers from .env. STUN defaults to a public server; TURN is only used
+ * when configured, e.g. a local coturn: VITE_TURN_URLS=turn:localhost:3478
+ */
+export const getRtcConfiguration = (): RTCConfiguration => {
+  const stunUrls = splitUrls(import.meta.env.VITE_STUN_URLS);
+  const turnUrls = splitUrls(import.meta.env.VITE_TURN_URLS);
+  const iceServers: RTCIceServer[] = [
+    { urls: stunUrls.length > 0 ? stunUrls : ['stun:stun.l.google.com:19302'] }
+  ];
+  if (turnUrls.length > 0) {
+    iceServers.push({
+      urls: turnUrls,
+      username: import.meta.env.VITE_TURN_USERNAME,
+      credential: import.meta.env.VITE_TURN_CREDENTIAL
+    });
+  }
+  return { iceServers };
+};
+
+const sendSignal = (channel: RealtimeChannel, event: string, payload: Record<string, unknown>) =>
+  channel.send({ type: 'broadcast', event, payload }).catch(error => {
+    console.error(`[liveRtc] Failed to send ${event}:`, error);
+  });
+
+// Candidates can arrive before the remote description they belong to
+const addCandidate = (connection: RTCPeerConnection, pending: RTCIceCandidateInit[], candidate: RTCIceCandidateInit) => {
+  if (!connection.remoteDescription) {
+    pending.push(candidate);
+    return;
+  }
+  connection.addIceCandidate(candidate).catch(error => {
+    console.error('[liveRtc] Failed to add ICE candidate:', error);
+  });
+};
+
+const flushCandidates = (connection: RTCPeerConnection, pending: RTCIceCandidateInit[]) => {
+  pending.splice(0).forEach(candidate => addCandidate(connection, pending, candidate));
+};
+
+interface Peer {
+  connection: RTCPeerConnection;
+  audioSender: RTCRtpSender;
+  pending: RTCIceCandidateInit[];
+}
+
+/**
+ * Candidate side: offers `video` to every proctor that asks for it. The
+ * microphone is negotiated with each offer but only sent once that proctor
+ * turns audio on. Handlers are attached here, so call this before subscribing.
+ */
+export const createRtcPublisher = (
+  channel: RealtimeChannel,
+  video: MediaStreamTrack,
+  audio: MediaStreamTrack | null
+) => {
+  const peers = new Map<string, Peer>();
+  let closed = false;
+
+  const closePeer = (viewerId: string) => {
+    peers.get(viewerId)?.connection.close();
+    peers.delete(viewerId);
+  };
+
+  const connect = async (viewerId: string) => {
+    closePeer(viewerId);
+    const connection = new RTCPeerConnection(getRtcConfiguration());
+    connection.addTransceiver(video, { direction: 'sendonly' });
+    const audioSender = connection.addTransceiver('audio', { direction: 'sendonly' }).sender;
+    const peer = { connection, audioSender, pending: [] };
+    peers.set(viewerId, peer);
+
+    connection.onicecandidate = ({ candidate }) => {
+      if (candidate) sendSignal(channel, 'rtc-ice', { from: PUBLISHER_ID, to: viewerId, candidate: candidate.toJSON() });
+    };
+    connection.onconnectionstatechange = () => {
+      if (connection.connectionState === 'failed' && peers.get(viewerId) === peer) closePeer(viewerId);
+    };
+
+    try {
+      await connection.setLocalDescription(await connection.createOffer());
+      sendSignal(channel, 'rtc-offer', { to: viewerId, sdp: connection.localDescription?.toJSON() });
+    } catch (error) {
+      console.error('[liveRtc] Failed to create offer:', error);
+      closePeer(viewerId);
+    }
+  };
+
+  channel
+    .on('broadcast', { event: 'rtc-request' }, ({ payload }) => {
+      if (!closed && payload?.from) connect(payload.from);
+    })
+    .on('broadcast', { event: 'rtc-answer' }, async ({ payload }) => {
+      const peer = peers.get(payload?.from);
+      if (!peer || !payload.sdp) return;
+      try {
+        await peer.connection.setRemoteDescription(payload.sdp);
+        flushCandidates(peer.connection, peer.pending);
+      } catch (error) {
+        console.error('[liveRtc] Failed to apply answer:', error);
+      }
+    })
+    .on('broadcast', { event: 'rtc-ice' }, ({ payload }) => {
+      const peer = payload?.to === PUBLISHER_ID ? peers.get(payload.from) : undefined;
+      if (peer && payload.candidate) addCandidate(peer.connection, peer.pending, payload.candidate);
+    })
+    .on('broadcast', { event: 'rtc-audio' }, ({ payload }) => {
+      const peer = peers.get(payload?.from);
+      if (!peer) return;
+      peer.audioSender.replaceTrack(payload.enabled ? audio : null).catch(error => {
+        console.error('[liveRtc] Failed to switch audio:', error);
+      });
+    })
+    .on('broadcast', { event: 'rtc-hangup' }, ({ payload }) => {
+      if (payload?.from) closePeer(payload.from);
+    });
+
+  return {
+    // Lets proctors that opened the session first know they can connect
+    announce: () => sendSignal(channel, 'rtc-ready', {}),
+    // JPEG frames are still needed while any proctor lacks a working connection
+    needsFallback: () =>
+      peers.size === 0 || [...peers.values()].some(peer => peer.connection.connectionState !== 'connected'),
+    close: () => {
+      closed = true;
+      [...peers.keys()].forEach(closePeer);
+    }
+  };
+};
+
+/**
+ * Proctor side: asks the candidate for a connection and hands the remote
+ * stream to `onStream`. A failed connection is retried; the caller keeps
+ * showing the JPEG fallback until the state is `connected` again.
+ */
+export const createRtcViewer = (
+  channel: RealtimeChannel,
+  onStream: (stream: MediaStream) => void,
+  onState: (state: RtcViewerState) => void
+) => {
+  const viewerId = crypto.randomUUID();
+  let connection: RTCPeerConnection | null = null;
+  let pending: RTCIceCandidateInit[] = [];
+  let audioEnabled = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const request = () => {
+    if (closed) return;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    onState('connecting');
+    sendSignal(channel, 'rtc-request', { from: viewerId });
+  };
+
+  const answer = async (offer: RTCSessionDescriptionInit) => {
+    connection?.close();
+    const peer = new RTCPeerConnection(getRtcConfiguration());
+    connection = peer;
+    pending = [];
+    const stream = new MediaStream();
+
+    peer.ontrack = ({ track }) => {
+      stream.addTrack(track);
+      onStream(stream);
+    };
+    peer.onicecandidate = ({ candidate }) => {
+      if (candidate) sendSignal(channel, 'rtc-ice', { from: viewerId, to: PUBLISHER_ID, candidate: candidate.toJSON() });
+    };
+    peer.onconnectionstatechange = () => {
+      if (connection !== peer) return;
+      if (peer.connectionState === 'connected') {
+        onState('connected');
+      } else if (peer.connectionState === 'failed') {
+        onState('failed');
+        peer.close();
+        connection = null;
+        retryTimer = setTimeout(request, RETRY_MS);
+      }
+    };
+
+    await peer.setRemoteDescription(offer);
+    flushCandidates(peer, pending);
+    await peer.setLocalDescription(await peer.createAnswer());
+    sendSignal(channel, 'rtc-answer', { from: viewerId, sdp: peer.localDescription?.toJSON() });
+    if (audioEnabled) sendSignal(channel, 'rtc-audio', { from: viewerId, enabled: true });
+  };
+
+  channel
+    .on('broadcast', { event: 'rtc-ready' }, () => request())
+    .on('broadcast', { event: 'rtc-offer' }, ({ payload }) => {
+      if (closed || payload?.to !== viewerId || !payload.sdp) return;
+      answer(payload.sdp).catch(error => {
+        console.error('[liveRtc] Failed to answer offer:', error);
+        onState('failed');
+      });
+    })
+    .on('broadcast', { event: 'rtc-ice' }, ({ payload }) => {
+      if (payload?.to !== viewerId || !payload.candidate || !connection) return;
+      addCandidate(connection, pending, payload.candidate);
+    });
+
+  return {
+    // Call once the channel is subscribed
+    start: request,
+    setAudio: (enabled: boolean) => {
+      audioEnabled = enabled;
+      sendSignal(channel, 'rtc-audio', { from: viewerId, enabled });
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      sendSignal(channel, 'rtc-hangup', { from: viewerId });
+      connection?.close();
+      connection = null;
+    }
+  };
+};
+
+export type RtcPublisher = ReturnType<typeof createRtcPublisher>;
+export type RtcViewer = ReturnType<typeof createRtcViewer>;
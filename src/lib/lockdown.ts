@@ -0,0 +1,126 @@
+/** Lockdown policy of an exam, as stored on the `exams` row */
+export interface Lockdown {
+  lockdown_mode: boolean;
+  lockdown_allow_clipboard: boolean;
+}
+
+export const DEFAULT_LOCKDOWN: Lockdown = {
+  lockdown_mode: false,
+  lockdown_allow_clipboard: false
+};
+
+// Keys blocked together with Ctrl (Cmd on macOS), by what they would open
+const BLOCKED_KEYS: Record<string, string> = {
+  p: 'Print',
+  f: 'Find',
+  g: 'Find',
+  s: 'Save page',
+  u: 'View source',
+  o: 'Open file'
+};
+const CLIPBOARD_KEYS: Record<string, string> = {
+  c: 'Copy',
+  x: 'Cut',
+  v: 'Paste',
+  a: 'Select all'
+};
+// Ctrl+Shift combinations that open the developer tools
+const DEVTOOLS_KEYS = ['i', 'j', 'c', 'k'];
+
+export const pickLockdown = (exam: Lockdown): Lockdown => ({
+  lockdown_mode: exam.lockdown_mode,
+  lockdown_allow_clipboard: exam.lockdown_allow_clipboard
+});
+
+export const isFullscreen = () => document.fullscreenElement !== null;
+
+/** Must be called from a click or key press, browsers refuse it otherwise */
+export const enterFullscreen = async () => {
+  try {
+    await document.documentElement.requestFullscreen({ navigationUI: 'hide' });
+    return true;
+  } catch (error) {
+    console.error("[lockdown] Failed to enter fullscreen:", error);
+    return false;
+  }
+};
+
+export const exitFullscreen = () => {
+  if (isFullscreen()) document.exitFullscreen().catch(() => undefined);
+};
+
+const describeShortcut = (event: KeyboardEvent, action: string) => {
+  const keys = [
+    event.ctrlKey && 'Ctrl',
+    event.metaKey && 'Cmd',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    event.key.length === 1 ? event.key.toUpperCase() : event.key
+  ].filter(Boolean);
+  return `${keys.join('+')} (${action})`;
+};
+
+const blockedAction = (event: KeyboardEvent, settings: Lockdown) => {
+  if (event.key === 'F12') return 'Developer tools';
+  if (event.key === 'PrintScreen') return 'Screenshot';
+
+  const modifier = event.ctrlKey || event.metaKey;
+  if (!modifier) return null;
+
+  const key = event.key.toLowerCase();
+  if (event.shiftKey && DEVTOOLS_KEYS.includes(key)) return 'Developer tools';
+  // Cmd+Option+I/J/C on macOS
+  if (event.altKey && DEVTOOLS_KEYS.includes(event.code.replace('Key', '').toLowerCase())) return 'Developer tools';
+  if (BLOCKED_KEYS[key]) return BLOCKED_KEYS[key];
+  if (!settings.lockdown_allow_clipboard && CLIPBOARD_KEYS[key]) return CLIPBOARD_KEYS[key];
+  return null;
+};
+
+/**
+ * Enforces the lockdown policy on the page: blocks print, find, save and
+ * developer tools shortcuts, clipboard shortcuts unless the exam allows them,
+ * clipboard menu commands and the context menu. Every blocked shortcut is
+ * reported through `onBlocked`, and every fullscreen change through
+ * `onFullscreenChange`. Returns a function that lifts the lockdown.
+ */
+export const watchLockdown = (
+  settings: Lockdown,
+  onBlocked: (shortcut: string) => void,
+  onFullscreenChange: (fullscreen: boolean) => void
+) => {
+  const onKeyDown = (event: KeyboardEvent) => {
+    const action = blockedAction(event, settings);
+    if (!action) return;
+    event.preventDefault();
+    event.stopPropagation();
+    onBlocked(describeShortcut(event, action));
+  };
+  // Menu commands and drag and drop reach the clipboard without a shortcut
+  const onClipboard = (event: ClipboardEvent) => {
+    if (!settings.lockdown_allow_clipboard) event.preventDefault();
+  };
+  const onContextMenu = (event: MouseEvent) => event.preventDefault();
+  const onDrop = (event: DragEvent) => {
+    if (!settings.lockdown_allow_clipboard) event.preventDefault();
+  };
+  const onFullscreen = () => onFullscreenChange(isFullscreen());
+
+  // Capture phase, so editors inside the page cannot handle the keys first
+  window.addEventListener('keydown', onKeyDown, true);
+  document.addEventListener('copy', onClipboard, true);
+  document.addEventListener('cut', onClipboard, true);
+  document.addEventListener('paste', onClipboard, true);
+  document.addEventListener('contextmenu', onContextMenu, true);
+  document.addEventListener('drop', onDrop, true);
+  document.addEventListener('fullscreenchange', onFullscreen);
+
+  return () => {
+    window.removeEventListener('keydown', onKeyDown, true);
+    document.removeEventListener('copy', onClipboard, true);
+    document.removeEventListener('cut', onClipboard, true);
+    document.removeEventListener('paste', onClipboard, true);
+    document.removeEventListener('contextmenu', onContextMenu, true);
+    document.removeEventListener('drop', onDrop, true);
+    document.removeEventListener('fullscreenchange', onFullscreen);
+  };
+};
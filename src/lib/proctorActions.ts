@@ -0,0 +1,89 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { broadcastOnce } from "@/lib/realtime";
+
+export type ProctorActionType = 'pause' | 'resume' | 'extend_time' | 'force_submit' | 'terminate';
+
+export type ProctorAction = Tables<"proctor_actions">;
+
+/** Proctor-controlled state of a session, as the candidate's browser sees it */
+export interface SessionControl {
+  status: string;
+  paused_at: string | null;
+  status_reason: string | null;
+}
+
+// How often the candidate re-reads its session in case a notification was missed
+const CONTROL_POLL_MS = 15000;
+
+const controlChannelName = (sessionId: string) => `session-control-${sessionId}`;
+
+export const getProctorActionLabel = (action: string) => {
+  switch (action) {
+    case 'pause': return 'Paused';
+    case 'resume': return 'Resumed';
+    case 'extend_time': return 'Time extended';
+    case 'force_submit': return 'Force-submitted';
+    case 'terminate': return 'Terminated';
+    case 'reassign': return 'Reassigned';
+    default: return action;
+  }
+};
+
+/**
+ * Applies an action to a live session on the server, where it is audited with
+ * the signed-in proctor, then tells the candidate's browser to catch up.
+ */
+export const applyProctorAction = async (sessionId: string, action: ProctorActionType, reason: string, minutes?: number) => {
+  const { data, error } = await supabase.rpc("apply_proctor_action", {
+    _session_id: sessionId,
+    _action: action,
+    _reason: reason.trim(),
+    _minutes: minutes
+  });
+  if (error) throw error;
+
+  broadcastOnce(controlChannelName(sessionId), 'action', { action });
+  return data as unknown as ProctorAction;
+};
+
+const loadSessionControl = async (sessionId: string): Promise<SessionControl> => {
+  const { data, error } = await supabase
+    .from("candidate_sessions")
+    .select("status, paused_at, status_reason")
+    .eq("id", sessionId)
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Candidate side: calls `onControl` with the session's current state whenever a
+ * proctor acts on it (`fromAction`), and on (re)subscribe and a slow poll.
+ * Returns a function that stops watching.
+ */
+export const watchSessionControl = (
+  sessionId: string,
+  onControl: (control: SessionControl, fromAction: boolean) => void
+) => {
+  const refresh = async (fromAction = false) => {
+    try {
+      onControl(await loadSessionControl(sessionId), fromAction);
+    } catch (error) {
+      console.error("[proctorActions] Failed to load session state:", error);
+    }
+  };
+
+  const channel = supabase
+    .channel(controlChannelName(sessionId))
+    .on('broadcast', { event: 'action' }, () => refresh(true))
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') refresh();
+    });
+  const interval = setInterval(() => refresh(), CONTROL_POLL_MS);
+
+  return () => {
+    clearInterval(interval);
+    supabase.removeChannel(channel);
+  };
+};
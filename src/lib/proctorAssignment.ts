@@ -0,0 +1,165 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AssignmentMode = 'location' | 'round_robin' | 'capacity';
+
+export type ExamProctor = Database["public"]["Functions"]["get_exam_proctors"]["Returns"][number];
+
+export type EscalationStatus = 'open' | 'claimed' | 'resolved';
+
+export interface Escalation {
+  id: string;
+  session_id: string;
+  reason: string;
+  raised_by: string | null;
+  status: EscalationStatus;
+  claimed_by: string | null;
+  created_at: string;
+  session: {
+    full_name: string;
+    exam: { title: string };
+  };
+}
+
+// How often the queue is re-read in case a notification was missed
+const ESCALATION_POLL_MS = 20000;
+
+export const getAssignmentModeLabel = (mode: string) => {
+  switch (mode) {
+    case 'location': return 'By exam location';
+    case 'round_robin': return 'Round-robin';
+    case 'capacity': return 'By proctor capacity';
+    default: return mode;
+  }
+};
+
+export const getAssignmentModeDescription = (mode: string) => {
+  switch (mode) {
+    case 'location': return 'Candidates go to the least busy proctor of their location, or to anyone when no proctor covers it.';
+    case 'round_robin': return 'Candidates are dealt to the proctors in turn.';
+    case 'capacity': return 'Candidates go to the proctor with the most free seats; nobody gets more than their capacity.';
+    default: return '';
+  }
+};
+
+export const getEscalationStatusLabel = (status: string) => {
+  switch (status) {
+    case 'open': return 'Open';
+    case 'claimed': return 'Claimed';
+    case 'resolved': return 'Resolved';
+    default: return status;
+  }
+};
+
+export const isCurrentUserSupervisor = async () => {
+  const { data, error } = await supabase.rpc("is_current_user_supervisor");
+  if (error) throw error;
+  return !!data;
+};
+
+export const setAssignmentMode = async (examId: string, mode: AssignmentMode) => {
+  const { error } = await supabase
+    .from("exams")
+    .update({ proctor_assignment: mode })
+    .eq("id", examId);
+  if (error) throw error;
+};
+
+export const loadExamProctors = async (examId: string): Promise<ExamProctor[]> => {
+  const { data, error } = await supabase.rpc("get_exam_proctors", { _exam_id: examId });
+  if (error) throw error;
+  return data || [];
+};
+
+/** Adds a proctor account to the exam's pool, or updates its location and capacity */
+export const addExamProctor = async (examId: string, email: string, location: string, capacity: number | null) => {
+  const { error } = await supabase.rpc("add_exam_proctor", {
+    _exam_id: examId,
+    _email: email.trim(),
+    _location: location.trim() || undefined,
+    _capacity: capacity ?? undefined
+  });
+  if (error) throw error;
+};
+
+export const removeExamProctor = async (poolId: string) => {
+  const { error } = await supabase
+    .from("exam_proctors")
+    .delete()
+    .eq("id", poolId);
+  if (error) throw error;
+};
+
+/** Supervisor only: moves a live session to another proctor, audited with the reason */
+export const reassignSession = async (sessionId: string, proctorId: string, reason: string) => {
+  const { error } = await supabase.rpc("reassign_session", {
+    _session_id: sessionId,
+    _proctor_id: proctorId,
+    _reason: reason.trim()
+  });
+  if (error) throw error;
+};
+
+export const raiseEscalation = async (sessionId: string, reason: string) => {
+  // raised_by defaults to the signed-in proctor
+  const { error } = await supabase
+    .from("session_escalations")
+    .insert({ session_id: sessionId, reason: reason.trim() });
+  if (error) throw error;
+};
+
+export const claimEscalation = async (escalationId: string) => {
+  const { error } = await supabase.rpc("claim_escalation", { _escalation_id: escalationId });
+  if (error) throw error;
+};
+
+export const resolveEscalation = async (escalationId: string, resolution: string) => {
+  const { error } = await supabase.rpc("resolve_escalation", {
+    _escalation_id: escalationId,
+    _resolution: resolution.trim()
+  });
+  if (error) throw error;
+};
+
+/** Open and claimed escalations, oldest first */
+export const loadUnresolvedEscalations = async (): Promise<Escalation[]> => {
+  const { data, error } = await supabase
+    .from("session_escalations")
+    .select(`
+      id,
+      session_id,
+      reason,
+      raised_by,
+      status,
+      claimed_by,
+      created_at,
+      session:candidate_sessions(full_name, exam:exams(title))
+    `)
+    .neq("status", "resolved")
+    .order("created_at");
+  if (error) throw error;
+  return (data as unknown as Escalation[]) || [];
+};
+
+/**
+ * Calls `onChange` whenever an escalation is raised, claimed or resolved, and
+ * on (re)subscribe and a slow poll. Returns a function that stops watching.
+ */
+export const watchEscalations = (onChange: () => void) => {
+  const channel = supabase
+    .channel('session-escalations')
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'session_escalations' },
+      () => onChange()
+    )
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') onChange();
+    });
+  const interval = setInterval(onChange, ESCALATION_POLL_MS);
+
+  return () => {
+    clearInterval(interval);
+    supabase.removeChannel(channel);
+  };
+};
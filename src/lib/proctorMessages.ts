@@ -0,0 +1,78 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { broadcastOnce } from "@/lib/realtime";
+
+export type ProctorMessageKind = 'warning' | 'instruction';
+
+export type ProctorMessage = Tables<"proctor_messages">;
+export type ProctorMessageAck = Tables<"proctor_message_acks">;
+
+export interface PendingProctorMessage {
+  id: string;
+  kind: ProctorMessageKind;
+  body: string;
+  sent_at: string;
+}
+
+// Candidates cannot read the messages table, so the broadcast only tells them to fetch
+const messageChannelName = (examId: string) => `proctor-messages-${examId}`;
+
+export const getMessageKindLabel = (kind: string) => {
+  switch (kind) {
+    case 'warning': return 'Warning';
+    case 'instruction': return 'Instruction';
+    default: return 'Message';
+  }
+};
+
+/**
+ * Saves a message from the proctor and notifies the candidates of the exam.
+ * Without `sessionId` the message goes to everyone taking the exam.
+ */
+export const sendProctorMessage = async (examId: string, sessionId: string | null, kind: ProctorMessageKind, body: string) => {
+  const { data, error } = await supabase
+    .from("proctor_messages")
+    .insert({ exam_id: examId, session_id: sessionId, kind, body: body.trim() })
+    .select()
+    .single();
+  if (error) throw error;
+
+  // Candidates also poll, so a failed notification only delays delivery
+  broadcastOnce(messageChannelName(examId), 'message', { session_id: sessionId });
+
+  return data;
+};
+
+export const loadPendingMessages = async (sessionId: string): Promise<PendingProctorMessage[]> => {
+  const { data, error } = await supabase.rpc("get_pending_proctor_messages", { _session_id: sessionId });
+  if (error) throw error;
+  return (data || []) as PendingProctorMessage[];
+};
+
+export const acknowledgeMessage = async (messageId: string, sessionId: string) => {
+  const { error } = await supabase.rpc("acknowledge_proctor_message", {
+    _message_id: messageId,
+    _session_id: sessionId
+  });
+  if (error) throw error;
+};
+
+/**
+ * Calls `onNotify` whenever a proctor sends something to this session or to
+ * the whole exam. Returns a function that unsubscribes.
+ */
+export const watchProctorMessages = (examId: string, sessionId: string, onNotify: () => void) => {
+  const channel = supabase
+    .channel(messageChannelName(examId))
+    .on('broadcast', { event: 'message' }, ({ payload }) => {
+      if (!payload?.session_id || payload.session_id === sessionId) onNotify();
+    })
+    // Anything sent while disconnected is picked up on (re)subscribe
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') onNotify();
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
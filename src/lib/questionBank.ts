@@ -0,0 +1,23 @@
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export type Difficulty = typeof DIFFICULTIES[number];
+
+// Tags are matched exactly by the draw, so normalise them the same way everywhere
+export const parseTags = (input: string): string[] => {
+  const tags = input
+    .split(',')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+};
+
+export const formatTags = (tags: string[] | null | undefined): string => (tags || []).join(', ');
+
+export const getDifficultyColor = (difficulty: string | null) => {
+  switch (difficulty) {
+    case "easy": return "bg-green-100 text-green-800";
+    case "medium": return "bg-yellow-100 text-yellow-800";
+    case "hard": return "bg-red-100 text-red-800";
+    default: return "bg-gray-100 text-gray-800";
+  }
+};
@@ -0,0 +1,20 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Sends one broadcast on `topic` from a short-lived channel, for senders that
+ * do not otherwise listen on it. Receivers are expected to have a fallback
+ * (polling or refetch on subscribe), since delivery is not guaranteed.
+ */
+export const broadcastOnce = (topic: string, event: string, payload: Record<string, unknown>) => {
+  const channel = supabase.channel(topic);
+  channel.subscribe(async (status) => {
+    if (status !== 'SUBSCRIBED') return;
+    try {
+      await channel.send({ type: 'broadcast', event, payload });
+    } catch (error) {
+      console.error(`[realtime] Failed to broadcast ${event} on ${topic}:`, error);
+    } finally {
+      supabase.removeChannel(channel);
+    }
+  });
+};
@@ -0,0 +1,217 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export const RECORDING_BUCKET = 'exam-recordings';
+
+// Configurable via .env (optional) - Optimized defaults for efficiency
+export const VIDEO_BITRATE = Number(import.meta.env.VITE_VIDEO_BITRATE) || 400_000; // Reduced from 500k to 400k bps
+export const AUDIO_BITRATE = Number(import.meta.env.VITE_AUDIO_BITRATE) || 48_000; // Reduced from 64k to 48k bps
+
+// In order of preference: VP9 compresses better, VP8 is supported more widely
+export const RECORDING_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus'];
+
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export type RecordingChunk = Tables<"recording_chunks">;
+
+export interface UploadStatus {
+  uploaded: number;
+  pending: number;
+  retrying: boolean;
+}
+
+export interface RecordingSegment {
+  segment: number;
+  chunks: RecordingChunk[];
+  started_at: string;
+  size_bytes: number;
+  // Sequence numbers absent between the segment's first and last chunk
+  missing: number[];
+}
+
+export interface AssembledSegment {
+  blob: Blob;
+  // Chunks that could not be downloaded or whose bytes do not match the manifest
+  failed: number[];
+}
+
+interface QueuedChunk {
+  blob: Blob;
+  sequence: number;
+  // When the chunk began recording, so playback offsets map to session time
+  recorded_at: string;
+}
+
+/** The preferred recording format this browser can produce, if any */
+export const pickRecordingMimeType = () =>
+  RECORDING_MIME_TYPES.find(mimeType => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType)) ?? null;
+
+export const sha256Hex = async (blob: Blob) => {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const chunkPath = (sessionId: string, segment: number, sequence: number) =>
+  `${sessionId}/chunks/${segment}-${sequence.toString().padStart(5, '0')}.webm`;
+
+// Backs off exponentially, but retries at once when the browser comes back online
+const waitForRetry = (attempt: number) =>
+  new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', done);
+      resolve();
+    };
+    const timer = setTimeout(done, Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** attempt));
+    window.addEventListener('online', done);
+  });
+
+/**
+ * Uploads recorder chunks in order as they are produced. A chunk stays queued
+ * until both its file and its manifest row are stored, so a flaky connection
+ * only delays the upload. Retried uploads are idempotent: an object or row that
+ * already exists counts as uploaded.
+ */
+export const createChunkUploader = async (sessionId: string, onStatus: (status: UploadStatus) => void) => {
+  const { data, error } = await supabase.rpc("begin_recording_segment", { _session_id: sessionId });
+  if (error) throw error;
+  const { segment, next_sequence } = data as { segment: number; next_sequence: number };
+
+  const queue: QueuedChunk[] = [];
+  let nextSequence = next_sequence;
+  // The recorder starts right after the uploader is created
+  let chunkStartedAt = new Date().toISOString();
+  let uploaded = 0;
+  let retrying = false;
+  let running = false;
+  let disposed = false;
+  let draining: Promise<void> = Promise.resolve();
+
+  const report = () => onStatus({ uploaded, pending: queue.length, retrying });
+
+  const uploadChunk = async (chunk: QueuedChunk) => {
+    const path = chunkPath(sessionId, segment, chunk.sequence);
+    const sha256 = await sha256Hex(chunk.blob);
+
+    const { error: uploadError } = await supabase.storage
+      .from(RECORDING_BUCKET)
+      .upload(path, chunk.blob, { contentType: 'video/webm', upsert: false });
+    if (uploadError && !/already exists/i.test(uploadError.message)) throw uploadError;
+
+    const { error: manifestError } = await supabase
+      .from("recording_chunks")
+      .upsert({
+        session_id: sessionId,
+        segment,
+        sequence: chunk.sequence,
+        storage_path: path,
+        size_bytes: chunk.blob.size,
+        sha256,
+        recorded_at: chunk.recorded_at
+      }, { onConflict: "session_id,sequence", ignoreDuplicates: true });
+    if (manifestError) throw manifestError;
+  };
+
+  const drain = async () => {
+    running = true;
+    let attempt = 0;
+    try {
+      while (queue.length > 0 && !disposed) {
+        try {
+          await uploadChunk(queue[0]);
+          queue.shift();
+          uploaded++;
+          attempt = 0;
+          retrying = false;
+        } catch (error) {
+          console.error(`[recordingUpload] Chunk ${queue[0].sequence} upload failed:`, error);
+          attempt++;
+          retrying = true;
+          report();
+          await waitForRetry(attempt);
+        }
+        report();
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    segment,
+    enqueue: (blob: Blob) => {
+      queue.push({ blob, sequence: nextSequence++, recorded_at: chunkStartedAt });
+      chunkStartedAt = new Date().toISOString();
+      report();
+      if (!running && !disposed) draining = drain();
+    },
+    // Resolves once every queued chunk is stored
+    flush: () => draining,
+    // Stops retrying; chunks still queued are dropped
+    dispose: () => {
+      disposed = true;
+    }
+  };
+};
+
+export type ChunkUploader = Awaited<ReturnType<typeof createChunkUploader>>;
+
+export const loadRecordingSegments = async (sessionId: string): Promise<RecordingSegment[]> => {
+  const { data, error } = await supabase
+    .from("recording_chunks")
+    .select("*")
+    .eq("session_id", sessionId)
+    .order("sequence");
+  if (error) throw error;
+
+  const segments = new Map<number, RecordingChunk[]>();
+  (data || []).forEach(chunk => {
+    segments.set(chunk.segment, [...(segments.get(chunk.segment) || []), chunk]);
+  });
+
+  return Array.from(segments.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([segment, chunks]) => {
+      const sequences = new Set(chunks.map(chunk => chunk.sequence));
+      const first = chunks[0].sequence;
+      const last = chunks[chunks.length - 1].sequence;
+      const missing: number[] = [];
+      for (let sequence = first; sequence <= last; sequence++) {
+        if (!sequences.has(sequence)) missing.push(sequence);
+      }
+      return {
+        segment,
+        chunks,
+        started_at: chunks[0].recorded_at,
+        size_bytes: chunks.reduce((total, chunk) => total + chunk.size_bytes, 0),
+        missing
+      };
+    });
+};
+
+/**
+ * Downloads a segment's chunks in order, checks each against its manifest hash
+ * and joins them into one WebM file. Chunks that fail are left out and reported.
+ */
+export const assembleSegment = async (
+  segment: RecordingSegment,
+  onProgress?: (done: number, total: number) => void
+): Promise<AssembledSegment> => {
+  const parts: Blob[] = [];
+  const failed: number[] = [];
+
+  for (const [index, chunk] of segment.chunks.entries()) {
+    const { data, error } = await supabase.storage.from(RECORDING_BUCKET).download(chunk.storage_path);
+    if (error || !data) {
+      console.error(`[recordingUpload] Chunk ${chunk.sequence} download failed:`, error);
+      failed.push(chunk.sequence);
+    } else if ((await sha256Hex(data)) !== chunk.sha256) {
+      failed.push(chunk.sequence);
+    } else {
+      parts.push(data);
+    }
+    onProgress?.(index + 1, segment.chunks.length);
+  }
+
+  return { blob: new Blob(parts, { type: 'video/webm' }), failed };
+};
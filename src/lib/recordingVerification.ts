@@ -0,0 +1,53 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type RecordingVerificationStatus = 'verified' | 'mismatch' | 'missing';
+
+export interface RecordingVerificationResult {
+  session_id: string;
+  status?: RecordingVerificationStatus;
+  detail?: string;
+  // Set when the session could not be checked, e.g. storage was unreachable
+  error?: string;
+}
+
+// The edge function takes at most this many sessions per request
+const VERIFY_BATCH_SIZE = 10;
+
+export const getRecordingVerificationLabel = (status: string | null) => {
+  switch (status) {
+    case 'verified': return 'Verified';
+    case 'mismatch': return 'Checksum mismatch';
+    case 'missing': return 'Missing';
+    default: return 'Not verified';
+  }
+};
+
+export const getRecordingVerificationColor = (status: string | null) => {
+  switch (status) {
+    case 'verified': return 'bg-green-100 text-green-800';
+    case 'mismatch': return 'bg-red-100 text-red-800';
+    case 'missing': return 'bg-orange-100 text-orange-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+/**
+ * Has the server re-hash the stored recordings of these sessions, a batch at
+ * a time. `onProgress` is called with how many sessions are done so far.
+ */
+export const verifyRecordings = async (
+  sessionIds: string[],
+  onProgress?: (done: number, total: number) => void
+) => {
+  const results: RecordingVerificationResult[] = [];
+  for (let start = 0; start < sessionIds.length; start += VERIFY_BATCH_SIZE) {
+    const { data, error } = await supabase.functions.invoke("verify-recording", {
+      body: { session_ids: sessionIds.slice(start, start + VERIFY_BATCH_SIZE) }
+    });
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    results.push(...(data.results as RecordingVerificationResult[]));
+    onProgress?.(Math.min(start + VERIFY_BATCH_SIZE, sessionIds.length), sessionIds.length);
+  }
+  return results;
+};
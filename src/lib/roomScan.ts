@@ -0,0 +1,105 @@
+import { supabase } from "@/integrations/supabase/client";
+import { AUDIO_BITRATE, RECORDING_BUCKET, VIDEO_BITRATE, pickRecordingMimeType } from "@/lib/recordingUpload";
+
+/** Room scan policy of an exam, as stored on the `exams` row */
+export interface RoomScan {
+  room_scan_required: boolean;
+}
+
+export const DEFAULT_ROOM_SCAN: RoomScan = {
+  room_scan_required: false
+};
+
+export interface RoomScanStep {
+  instruction: string;
+  seconds: number;
+}
+
+// Shown one after another while the clip records; together they turn the camera all the way around
+export const ROOM_SCAN_STEPS: RoomScanStep[] = [
+  { instruction: 'Show your desk, keyboard and the area around them', seconds: 6 },
+  { instruction: 'Slowly turn the camera to your left', seconds: 6 },
+  { instruction: 'Keep turning until the camera faces the wall behind you', seconds: 6 },
+  { instruction: 'Keep turning to your right, back towards your desk', seconds: 6 },
+  { instruction: 'Show the floor around your chair and under your desk', seconds: 6 },
+  { instruction: 'Show your screen, then face the camera again', seconds: 6 }
+];
+
+export const ROOM_SCAN_SECONDS = ROOM_SCAN_STEPS.reduce((total, step) => total + step.seconds, 0);
+
+const ROOM_SCAN_URL_SECONDS = 3600;
+
+export const pickRoomScan = (exam: RoomScan): RoomScan => ({
+  room_scan_required: exam.room_scan_required
+});
+
+/**
+ * Records the guided scan with the exam's recording settings. `onStep` is
+ * called with the index of each instruction as it comes up. `cancel` stops
+ * early and rejects the result, so a half-finished scan is never uploaded.
+ */
+export const recordRoomScan = (stream: MediaStream, onStep: (step: number) => void) => {
+  const mimeType = pickRecordingMimeType();
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  let cancelled = false;
+  let recorder: MediaRecorder | null = null;
+
+  const result = new Promise<Blob>((resolve, reject) => {
+    if (!mimeType) {
+      reject(new Error('This browser cannot record video'));
+      return;
+    }
+
+    const parts: Blob[] = [];
+    recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: VIDEO_BITRATE,
+      audioBitsPerSecond: AUDIO_BITRATE
+    });
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) parts.push(event.data);
+    };
+    recorder.onstop = () => {
+      if (cancelled) reject(new Error('Room scan was cancelled'));
+      else resolve(new Blob(parts, { type: 'video/webm' }));
+    };
+    recorder.onerror = () => reject(new Error('Recording failed'));
+    recorder.start();
+
+    let elapsed = 0;
+    ROOM_SCAN_STEPS.forEach((step, index) => {
+      timers.push(setTimeout(() => onStep(index), elapsed * 1000));
+      elapsed += step.seconds;
+    });
+    timers.push(setTimeout(() => recorder?.state !== 'inactive' && recorder?.stop(), elapsed * 1000));
+  });
+
+  const cancel = () => {
+    cancelled = true;
+    timers.forEach(clearTimeout);
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+  };
+
+  return { result, cancel };
+};
+
+/** Uploads the clip next to, but apart from, the session's recording chunks */
+export const uploadRoomScan = async (sessionId: string, clip: Blob) => {
+  const path = `${sessionId}/room-scan/${Date.now()}.webm`;
+  const { error: uploadError } = await supabase.storage
+    .from(RECORDING_BUCKET)
+    .upload(path, clip, { contentType: 'video/webm', upsert: false });
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase.rpc("save_room_scan", { _session_id: sessionId, _path: path });
+  if (error) throw error;
+  return path;
+};
+
+export const getRoomScanUrl = async (path: string) => {
+  const { data, error } = await supabase.storage
+    .from(RECORDING_BUCKET)
+    .createSignedUrl(path, ROOM_SCAN_URL_SECONDS);
+  if (error) throw error;
+  return data.signedUrl;
+};
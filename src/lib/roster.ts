@@ -0,0 +1,141 @@
+export interface RosterCandidate {
+  full_name: string;
+  email: string;
+  contact: string;
+}
+
+export interface RosterParseResult {
+  candidates: RosterCandidate[];
+  errors: string[];
+}
+
+export type RosterStatus = 'not_started' | 'in_progress' | 'completed' | 'abandoned' | 'terminated';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Splits CSV text into rows of fields, honouring quoted fields with commas, quotes and newlines
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = "";
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  rows.push(row);
+  return rows.map(r => r.map(value => value.trim())).filter(r => r.some(value => value));
+};
+
+/**
+ * Reads a roster CSV with name, email and contact columns. A header row is
+ * optional; when present, columns are matched by name so they may be in any order.
+ */
+export const parseRosterCsv = (text: string): RosterParseResult => {
+  const rows = parseCsvRows(text);
+  const errors: string[] = [];
+  if (rows.length === 0) return { candidates: [], errors: ["The file is empty"] };
+
+  let columns = { full_name: 0, email: 1, contact: 2 };
+  const header = rows[0].map(value => value.toLowerCase());
+  const hasHeader = header.some(value => value.includes("email"));
+  if (hasHeader) {
+    columns = {
+      full_name: header.findIndex(value => value.includes("name")),
+      email: header.findIndex(value => value.includes("email")),
+      contact: header.findIndex(value => value.includes("contact") || value.includes("phone"))
+    };
+    if (columns.full_name < 0) errors.push("No name column found in the header");
+    if (columns.contact < 0) errors.push("No contact column found in the header");
+  }
+
+  const seen = new Set<string>();
+  const candidates: RosterCandidate[] = [];
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const candidate = {
+      full_name: row[columns.full_name] || "",
+      email: (row[columns.email] || "").toLowerCase(),
+      contact: columns.contact >= 0 ? row[columns.contact] || "" : ""
+    };
+
+    if (!candidate.full_name) {
+      errors.push(`Line ${line}: missing name`);
+    } else if (!EMAIL_PATTERN.test(candidate.email)) {
+      errors.push(`Line ${line}: invalid email "${candidate.email}"`);
+    } else if (!candidate.contact) {
+      errors.push(`Line ${line}: missing contact`);
+    } else if (seen.has(candidate.email)) {
+      errors.push(`Line ${line}: ${candidate.email} appears more than once`);
+    } else {
+      seen.add(candidate.email);
+      candidates.push(candidate);
+    }
+  });
+
+  return { candidates, errors };
+};
+
+const escapeCsv = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = (rows: string[][]) => rows.map(row => row.map(escapeCsv).join(",")).join("\n");
+
+// Opening this link pre-fills the access code on the registration page
+export const accessLink = (accessCode: string) =>
+  `${window.location.origin}/candidate/register?code=${encodeURIComponent(accessCode)}`;
+
+export const getRosterStatus = (sessionStatus: string | null | undefined): RosterStatus => {
+  switch (sessionStatus) {
+    case 'in_progress': return 'in_progress';
+    case 'completed': return 'completed';
+    case 'abandoned': return 'abandoned';
+    case 'terminated': return 'terminated';
+    default: return 'not_started';
+  }
+};
+
+export const getRosterStatusLabel = (status: RosterStatus) => {
+  switch (status) {
+    case 'not_started': return 'Not started';
+    case 'in_progress': return 'In progress';
+    case 'completed': return 'Completed';
+    case 'abandoned': return 'Abandoned';
+    case 'terminated': return 'Terminated';
+  }
+};
+
+export const getRosterStatusColor = (status: RosterStatus) => {
+  switch (status) {
+    case 'in_progress': return 'bg-blue-100 text-blue-800';
+    case 'completed': return 'bg-green-100 text-green-800';
+    case 'abandoned': return 'bg-red-100 text-red-800';
+    case 'terminated': return 'bg-red-200 text-red-900';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
@@ -0,0 +1,157 @@
+/** The sitting window of an exam, as stored on the `exams` row */
+export interface ExamSchedule {
+  opens_at: string | null;
+  closes_at: string | null;
+  timezone: string;
+  late_entry_minutes: number | null;
+  max_attempts: number | null;
+}
+
+export type WindowStatus = 'unscheduled' | 'upcoming' | 'open' | 'late_entry_closed' | 'closed';
+
+export const DEFAULT_SCHEDULE: ExamSchedule = {
+  opens_at: null,
+  closes_at: null,
+  timezone: 'UTC',
+  late_entry_minutes: null,
+  max_attempts: null
+};
+
+const COMMON_TIMEZONES = [
+  'UTC',
+  'Africa/Kigali',
+  'Africa/Nairobi',
+  'Africa/Lagos',
+  'Africa/Johannesburg',
+  'Africa/Cairo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+];
+
+export const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const getTimezoneOptions = (current?: string) =>
+  Array.from(new Set([...(current ? [current] : []), browserTimezone(), ...COMMON_TIMEZONES]));
+
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || '00';
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+};
+
+// Minutes the timezone is ahead of UTC at the given instant
+const zoneOffsetMinutes = (date: Date, timeZone: string) => {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute, +p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+/** Reads a `datetime-local` value as wall-clock time in `timeZone` and returns it as UTC ISO */
+export const zonedInputToUtc = (value: string, timeZone: string): string | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = zoneOffsetMinutes(new Date(wallClock), timeZone);
+  let utc = wallClock - offset * 60000;
+
+  // Near a DST change the offset at the guessed instant can differ from the real one
+  const correctedOffset = zoneOffsetMinutes(new Date(utc), timeZone);
+  if (correctedOffset !== offset) utc = wallClock - correctedOffset * 60000;
+
+  return new Date(utc).toISOString();
+};
+
+/** Formats a UTC timestamp as a `datetime-local` value in `timeZone` */
+export const utcToZonedInput = (iso: string | null, timeZone: string) => {
+  if (!iso) return '';
+  const p = zonedParts(new Date(iso), timeZone);
+  return `${p.year}-${p.month}-${p.day}T${p.hour}:${p.minute}`;
+};
+
+export const formatInTimezone = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat(undefined, { timeZone, dateStyle: 'medium', timeStyle: 'short' }).format(new Date(iso));
+
+export const getLateEntryCutoff = (schedule: ExamSchedule): Date | null =>
+  schedule.opens_at && schedule.late_entry_minutes !== null
+    ? new Date(new Date(schedule.opens_at).getTime() + schedule.late_entry_minutes * 60000)
+    : null;
+
+/**
+ * Where `now` falls in the exam's window. The server applies the same rules on
+ * registration, so this is for display only.
+ */
+export const getWindowStatus = (schedule: ExamSchedule, now = new Date()): WindowStatus => {
+  if (!schedule.opens_at && !schedule.closes_at) return 'unscheduled';
+  if (schedule.opens_at && now < new Date(schedule.opens_at)) return 'upcoming';
+  if (schedule.closes_at && now >= new Date(schedule.closes_at)) return 'closed';
+
+  const cutoff = getLateEntryCutoff(schedule);
+  return cutoff && now > cutoff ? 'late_entry_closed' : 'open';
+};
+
+export const getWindowStatusLabel = (status: WindowStatus) => {
+  switch (status) {
+    case 'unscheduled': return 'No window';
+    case 'upcoming': return 'Upcoming';
+    case 'open': return 'Open';
+    case 'late_entry_closed': return 'Late entry closed';
+    case 'closed': return 'Closed';
+  }
+};
+
+export const getWindowStatusColor = (status: WindowStatus) => {
+  switch (status) {
+    case 'open': return 'bg-green-100 text-green-800';
+    case 'upcoming': return 'bg-blue-100 text-blue-800';
+    case 'late_entry_closed': return 'bg-yellow-100 text-yellow-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export const pickSchedule = (exam: ExamSchedule): ExamSchedule => ({
+  opens_at: exam.opens_at,
+  closes_at: exam.closes_at,
+  timezone: exam.timezone,
+  late_entry_minutes: exam.late_entry_minutes,
+  max_attempts: exam.max_attempts
+});
+
+// Returns a message describing what is wrong with the schedule, or null when it is valid
+export const validateSchedule = (schedule: ExamSchedule) => {
+  if (schedule.opens_at && schedule.closes_at && new Date(schedule.closes_at) <= new Date(schedule.opens_at)) {
+    return "The exam must close after it opens";
+  }
+  if (schedule.late_entry_minutes !== null && !schedule.opens_at) {
+    return "Set an opening time to use a late-entry cutoff";
+  }
+  return null;
+};
@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { PaperSection } from "@/lib/examPaper";
+
+export interface SectionProgress {
+  section_id: string;
+  started_at: string;
+  deadline_at: string;
+  completed_at: string | null;
+}
+
+interface SessionProgress {
+  server_now: string;
+  sections: SectionProgress[];
+}
+
+/**
+ * Reads the server time through the browser's monotonic clock, so changing the
+ * device clock after `serverNow` was received has no effect on section timers.
+ */
+export const createServerClock = (serverNow: string) => {
+  const serverNowMs = new Date(serverNow).getTime();
+  const receivedAt = performance.now();
+  return () => serverNowMs + (performance.now() - receivedAt);
+};
+
+export type ServerClock = ReturnType<typeof createServerClock>;
+
+export const secondsUntil = (deadline: string, clock: ServerClock) =>
+  Math.max(0, Math.ceil((new Date(deadline).getTime() - clock()) / 1000));
+
+export const getSessionProgress = async (sessionId: string) => {
+  const { data, error } = await supabase.rpc("get_session_progress", { _session_id: sessionId });
+  if (error) throw error;
+  return data as unknown as SessionProgress;
+};
+
+// Idempotent: a section keeps the deadline it got when it was first started
+export const startSection = async (sessionId: string, sectionId: string) => {
+  const { data, error } = await supabase.rpc("start_session_section", {
+    _session_id: sessionId,
+    _section_id: sectionId
+  });
+  if (error) throw error;
+  return data as unknown as SectionProgress & { server_now: string };
+};
+
+export const completeSection = async (sessionId: string, sectionId: string) => {
+  const { error } = await supabase.rpc("complete_session_section", {
+    _session_id: sessionId,
+    _section_id: sectionId
+  });
+  if (error) throw error;
+};
+
+/**
+ * Index of the section a candidate should be on: the first one that was never
+ * started or is still open. Returns `sections.length` when every section has closed.
+ */
+export const findResumeSection = (sections: PaperSection[], progress: SessionProgress) => {
+  const clock = createServerClock(progress.server_now);
+  const bySection = new Map(progress.sections.map(p => [p.section_id, p]));
+
+  const index = sections.findIndex(section => {
+    const sectionProgress = bySection.get(section.id);
+    if (!sectionProgress) return true;
+    return !sectionProgress.completed_at && secondsUntil(sectionProgress.deadline_at, clock) > 0;
+  });
+
+  return index === -1 ? sections.length : index;
+};
@@ -0,0 +1,61 @@
+import type { PaperSection } from "@/lib/examPaper";
+
+export interface ShuffleSettings {
+  questions: boolean;
+  options: boolean;
+}
+
+// FNV-1a, used to derive an independent seed per question from the session seed
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small deterministic PRNG so the same seed always yields the same order
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const seededShuffle = <T>(items: T[], seed: number): T[] => {
+  const random = createRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Reorders questions within each section and MCQ choices within each question
+ * for one candidate. Sections keep their authored order. Every list is shuffled
+ * with a seed derived from the session seed and the section or question id, so
+ * the order survives reloads and does not change when other questions do.
+ */
+export const shuffleSessionPaper = (paper: PaperSection[], seed: number, settings: ShuffleSettings): PaperSection[] =>
+  paper.map(section => {
+    const questions = settings.questions
+      ? seededShuffle(section.questions, hashString(`${seed}:${section.id}`))
+      : section.questions;
+
+    return {
+      ...section,
+      questions: questions.map(question => ({
+        ...question,
+        choices: settings.options
+          ? seededShuffle(question.choices, hashString(`${seed}:${question.id}`))
+          : question.choices
+      }))
+    };
+  });
@@ -0,0 +1,218 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { AUDIO_BITRATE, pickRecordingMimeType, RECORDING_BUCKET, RECORDING_MIME_TYPES, VIDEO_BITRATE } from "@/lib/recordingUpload";
+
+export type SystemCheckId = 'camera' | 'microphone' | 'codec' | 'bandwidth' | 'upload' | 'storage';
+
+export type SystemCheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface SystemCheckItem {
+  id: SystemCheckId;
+  status: SystemCheckStatus;
+  detail: string;
+}
+
+export interface CheckedDevices {
+  camera_id: string | null;
+  camera_label: string | null;
+  microphone_id: string | null;
+  microphone_label: string | null;
+}
+
+/** `candidate_sessions.system_check`, as saved by `save_system_check` */
+export interface SystemCheckResult {
+  checks: SystemCheckItem[];
+  devices: CheckedDevices;
+  user_agent: string;
+  passed: boolean;
+}
+
+export interface MediaDeviceOption {
+  id: string;
+  label: string;
+}
+
+// Length of the test clip recorded and uploaded by the round trip check
+const TEST_RECORDING_MS = 3000;
+// A level the meter reaches when the candidate speaks normally (about -48 dBFS)
+const MIC_SPEECH_LEVEL = 0.2;
+// The recording needs this much headroom over its bitrate to keep up while answers are saved too
+const BANDWIDTH_HEADROOM = 2;
+const MIN_FREE_STORAGE_BYTES = 200 * 1024 * 1024;
+
+export const SYSTEM_CHECK_ORDER: SystemCheckId[] = ['camera', 'microphone', 'codec', 'bandwidth', 'upload', 'storage'];
+
+export const getSystemCheckLabel = (id: SystemCheckId) => {
+  switch (id) {
+    case 'camera': return 'Camera';
+    case 'microphone': return 'Microphone';
+    case 'codec': return 'Recording format';
+    case 'bandwidth': return 'Upload bandwidth';
+    case 'upload': return 'Test recording upload';
+    case 'storage': return 'Free storage';
+  }
+};
+
+export const getSystemCheckStatusColor = (status: SystemCheckStatus) => {
+  switch (status) {
+    case 'pass': return 'bg-green-100 text-green-800';
+    case 'warn': return 'bg-yellow-100 text-yellow-800';
+    case 'fail': return 'bg-red-100 text-red-800';
+  }
+};
+
+export const parseSystemCheck = (value: Json | null | undefined): SystemCheckResult | null =>
+  value && typeof value === 'object' && !Array.isArray(value) && Array.isArray(value.checks)
+    ? value as unknown as SystemCheckResult
+    : null;
+
+const formatMbps = (bitsPerSecond: number) => `${(bitsPerSecond / 1_000_000).toFixed(2)} Mbps`;
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : formatMegabytes(bytes);
+
+/** Cameras and microphones; labels are only filled in once the candidate granted access */
+export const listMediaDevices = async () => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const options = (kind: MediaDeviceKind) =>
+    devices
+      .filter(device => device.kind === kind && device.deviceId)
+      .map((device, index) => ({
+        id: device.deviceId,
+        label: device.label || `${kind === 'videoinput' ? 'Camera' : 'Microphone'} ${index + 1}`
+      }));
+  return { cameras: options('videoinput'), microphones: options('audioinput') };
+};
+
+/** Opens the chosen camera and microphone, or the browser's defaults */
+export const openMediaDevices = (cameraId: string | null, microphoneId: string | null) =>
+  navigator.mediaDevices.getUserMedia({
+    video: {
+      width: { ideal: 1280 },
+      height: { ideal: 720 },
+      ...(cameraId ? { deviceId: { exact: cameraId } } : { facingMode: 'user' })
+    },
+    audio: microphoneId ? { deviceId: { exact: microphoneId } } : true
+  });
+
+export const checkCamera = (video: HTMLVideoElement | null, stream: MediaStream | null): SystemCheckItem => {
+  const track = stream?.getVideoTracks()[0];
+  if (!track || track.readyState !== 'live') {
+    return { id: 'camera', status: 'fail', detail: 'No camera picture' };
+  }
+  if (!video || video.videoWidth === 0) {
+    return { id: 'camera', status: 'warn', detail: `${track.label || 'Camera'} is open but has not shown a picture yet` };
+  }
+  return { id: 'camera', status: 'pass', detail: `${track.label || 'Camera'} at ${video.videoWidth}x${video.videoHeight}` };
+};
+
+/** `peakLevel` is the loudest reading of the level meter while the check page was open */
+export const checkMicrophone = (stream: MediaStream | null, peakLevel: number): SystemCheckItem => {
+  const track = stream?.getAudioTracks()[0];
+  if (!track || track.readyState !== 'live') {
+    return { id: 'microphone', status: 'fail', detail: 'No microphone input' };
+  }
+  if (peakLevel < MIC_SPEECH_LEVEL) {
+    return { id: 'microphone', status: 'warn', detail: `${track.label || 'Microphone'} picked up no sound; speak to test it` };
+  }
+  return { id: 'microphone', status: 'pass', detail: `${track.label || 'Microphone'} picks up sound` };
+};
+
+export const checkCodec = (): SystemCheckItem => {
+  const mimeType = pickRecordingMimeType();
+  if (!mimeType) {
+    return { id: 'codec', status: 'fail', detail: 'This browser cannot record WebM video; use a current Chrome, Edge or Firefox' };
+  }
+  if (mimeType !== RECORDING_MIME_TYPES[0]) {
+    return { id: 'codec', status: 'warn', detail: `Falls back to ${mimeType}; recordings will be larger` };
+  }
+  return { id: 'codec', status: 'pass', detail: mimeType };
+};
+
+export const checkStorage = async (): Promise<SystemCheckItem> => {
+  if (!navigator.storage?.estimate) {
+    return { id: 'storage', status: 'warn', detail: 'This browser does not report its storage quota' };
+  }
+  const { quota = 0, usage = 0 } = await navigator.storage.estimate();
+  const free = quota - usage;
+  return {
+    id: 'storage',
+    status: free < MIN_FREE_STORAGE_BYTES ? 'warn' : 'pass',
+    detail: `${formatMegabytes(free)} free of ${formatMegabytes(quota)}`
+  };
+};
+
+const recordTestClip = (stream: MediaStream, mimeType: string) =>
+  new Promise<Blob>((resolve, reject) => {
+    const parts: Blob[] = [];
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: VIDEO_BITRATE,
+      audioBitsPerSecond: AUDIO_BITRATE
+    });
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) parts.push(event.data);
+    };
+    recorder.onstop = () => resolve(new Blob(parts, { type: 'video/webm' }));
+    recorder.onerror = () => reject(new Error('Recording failed'));
+    recorder.start();
+    setTimeout(() => recorder.state !== 'inactive' && recorder.stop(), TEST_RECORDING_MS);
+  });
+
+/**
+ * Records a few seconds from the camera and microphone with the exam's
+ * recording settings and uploads the clip where recordings go. Upload
+ * bandwidth is measured from the same upload, against what the recording needs.
+ */
+export const checkRecordingUpload = async (sessionId: string, stream: MediaStream | null): Promise<SystemCheckItem[]> => {
+  const mimeType = pickRecordingMimeType();
+  if (!mimeType || !stream) {
+    return [
+      { id: 'upload', status: 'fail', detail: stream ? 'Nothing to upload: recording is not supported' : 'Nothing to record: no camera or microphone' },
+      { id: 'bandwidth', status: 'fail', detail: 'Not measured' }
+    ];
+  }
+
+  try {
+    const clip = await recordTestClip(stream, mimeType);
+    const startedAt = performance.now();
+    const { error } = await supabase.storage
+      .from(RECORDING_BUCKET)
+      .upload(`${sessionId}/system-check/${Date.now()}.webm`, clip, { contentType: 'video/webm', upsert: false });
+    if (error) throw error;
+
+    const seconds = (performance.now() - startedAt) / 1000;
+    const measured = (clip.size * 8) / Math.max(seconds, 0.001);
+    const needed = VIDEO_BITRATE + AUDIO_BITRATE;
+    return [
+      { id: 'upload', status: 'pass', detail: `${formatSize(clip.size)} uploaded in ${seconds.toFixed(1)} s` },
+      {
+        id: 'bandwidth',
+        status: measured < needed ? 'fail' : measured < needed * BANDWIDTH_HEADROOM ? 'warn' : 'pass',
+        detail: `${formatMbps(measured)} up, recording needs ${formatMbps(needed)}`
+      }
+    ];
+  } catch (error) {
+    console.error("[systemCheck] Test recording upload failed:", error);
+    return [
+      { id: 'upload', status: 'fail', detail: error instanceof Error ? error.message : 'Upload failed' },
+      { id: 'bandwidth', status: 'fail', detail: 'Not measured' }
+    ];
+  }
+};
+
+export const saveSystemCheck = async (sessionId: string, checks: SystemCheckItem[], devices: CheckedDevices) => {
+  const result: SystemCheckResult = {
+    checks: [...checks].sort((a, b) => SYSTEM_CHECK_ORDER.indexOf(a.id) - SYSTEM_CHECK_ORDER.indexOf(b.id)),
+    devices,
+    user_agent: navigator.userAgent,
+    passed: checks.every(check => check.status !== 'fail')
+  };
+  const { error } = await supabase.rpc("save_system_check", {
+    _session_id: sessionId,
+    _results: result as unknown as Json
+  });
+  if (error) throw error;
+  return result;
+};
@@ -0,0 +1,224 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { getIntegrityEventLabel, getIntegrityEventSeverity, parseIntegrityEvents } from "@/lib/integrity";
+import type { PaperSection } from "@/lib/examPaper";
+import { getMessageKindLabel, type ProctorMessage, type ProctorMessageAck } from "@/lib/proctorMessages";
+import { getProctorActionLabel, type ProctorAction } from "@/lib/proctorActions";
+import { getConnectionEventLabel, type ConnectionEvent } from "@/lib/heartbeat";
+
+export type TimelineMarkerKind = 'flag' | 'connection' | 'section' | 'save' | 'answer' | 'proctor' | 'note';
+
+export const TIMELINE_MARKER_KINDS: TimelineMarkerKind[] = ['flag', 'connection', 'section', 'answer', 'save', 'proctor', 'note'];
+
+export interface TimelineMarker {
+  id: string;
+  kind: TimelineMarkerKind;
+  at: string;
+  label: string;
+  detail?: string;
+}
+
+export type ReviewNote = Tables<"review_notes">;
+
+interface SectionProgressRow {
+  section_id: string;
+  started_at: string;
+  completed_at: string | null;
+  section: { title: string } | null;
+}
+
+export interface TimelineData {
+  sections: SectionProgressRow[];
+  saves: Tables<"answer_saves">[];
+  revisions: Tables<"answer_revisions">[];
+  notes: ReviewNote[];
+  messages: ProctorMessage[];
+  acks: ProctorMessageAck[];
+  actions: ProctorAction[];
+  connection: ConnectionEvent[];
+}
+
+export const getMarkerKindLabel = (kind: TimelineMarkerKind) => {
+  switch (kind) {
+    case 'flag': return 'Integrity flags';
+    case 'connection': return 'Connection';
+    case 'section': return 'Sections';
+    case 'save': return 'Auto-saves';
+    case 'answer': return 'Answer changes';
+    case 'proctor': return 'Proctor';
+    case 'note': return 'Notes';
+  }
+};
+
+export const getMarkerColor = (kind: TimelineMarkerKind) => {
+  switch (kind) {
+    case 'flag': return 'bg-red-500';
+    case 'connection': return 'bg-orange-500';
+    case 'section': return 'bg-blue-500';
+    case 'save': return 'bg-gray-400';
+    case 'answer': return 'bg-green-500';
+    case 'proctor': return 'bg-purple-500';
+    case 'note': return 'bg-yellow-500';
+  }
+};
+
+// Seconds from the start of the recording to `at`
+export const markerOffset = (at: string, origin: string) =>
+  (new Date(at).getTime() - new Date(origin).getTime()) / 1000;
+
+export const offsetToTimestamp = (seconds: number, origin: string) =>
+  new Date(new Date(origin).getTime() + seconds * 1000).toISOString();
+
+interface TimelineSession {
+  id: string;
+  exam_id: string;
+  started_at: string;
+}
+
+export const loadTimelineData = async (session: TimelineSession): Promise<TimelineData> => {
+  const sessionId = session.id;
+  const [sections, saves, revisions, notes, messages, acks, actions, connection] = await Promise.all([
+    supabase
+      .from("session_section_progress")
+      .select("section_id, started_at, completed_at, section:exam_sections(title)")
+      .eq("session_id", sessionId)
+      .order("started_at"),
+    supabase.from("answer_saves").select("*").eq("session_id", sessionId).order("saved_at"),
+    supabase.from("answer_revisions").select("*").eq("session_id", sessionId).order("changed_at"),
+    supabase.from("review_notes").select("*").eq("session_id", sessionId).order("noted_at"),
+    // Messages to this candidate and exam-wide ones sent while the session was running
+    supabase
+      .from("proctor_messages")
+      .select("*")
+      .eq("exam_id", session.exam_id)
+      .or(`session_id.eq.${sessionId},and(session_id.is.null,sent_at.gte."${session.started_at}")`)
+      .order("sent_at"),
+    supabase.from("proctor_message_acks").select("*").eq("session_id", sessionId),
+    supabase.from("proctor_actions").select("*").eq("session_id", sessionId).order("created_at"),
+    supabase.from("session_connection_events").select("*").eq("session_id", sessionId).order("occurred_at")
+  ]);
+
+  const error = sections.error || saves.error || revisions.error || notes.error
+    || messages.error || acks.error || actions.error || connection.error;
+  if (error) throw error;
+
+  return {
+    sections: (sections.data as SectionProgressRow[]) || [],
+    saves: saves.data || [],
+    revisions: revisions.data || [],
+    notes: notes.data || [],
+    messages: messages.data || [],
+    acks: acks.data || [],
+    actions: actions.data || [],
+    connection: connection.data || []
+  };
+};
+
+/**
+ * Collects everything that happened during the session into one list of
+ * markers, ordered by time. Informational integrity events (returning to the
+ * tab) are left out; they are in the integrity log.
+ */
+export const buildTimelineMarkers = (flags: Json | null, data: TimelineData, paper: PaperSection[]): TimelineMarker[] => {
+  const questionLabels = new Map<string, string>();
+  paper.forEach(section => {
+    section.questions.forEach((question, index) => {
+      questionLabels.set(question.id, `${section.title} Q${index + 1}`);
+    });
+  });
+
+  const markers: TimelineMarker[] = [
+    ...parseIntegrityEvents(flags)
+      .filter(event => getIntegrityEventSeverity(event.type) !== 'info')
+      .map((event, index) => ({
+        id: `flag-${index}`,
+        kind: 'flag' as const,
+        at: event.at,
+        label: getIntegrityEventLabel(event.type),
+        detail: event.detail ?? undefined
+      })),
+    ...data.connection.map(event => ({
+      id: `connection-${event.id}`,
+      kind: 'connection' as const,
+      at: event.occurred_at,
+      label: getConnectionEventLabel(event.event),
+      detail: event.gap_seconds !== null ? `Gone for ${event.gap_seconds}s` : undefined
+    })),
+    ...data.sections.flatMap(progress => [
+      {
+        id: `section-start-${progress.section_id}`,
+        kind: 'section' as const,
+        at: progress.started_at,
+        label: `Started ${progress.section?.title ?? 'section'}`
+      },
+      ...(progress.completed_at ? [{
+        id: `section-end-${progress.section_id}`,
+        kind: 'section' as const,
+        at: progress.completed_at,
+        label: `Finished ${progress.section?.title ?? 'section'}`
+      }] : [])
+    ]),
+    ...data.saves.map(save => ({
+      id: `save-${save.id}`,
+      kind: 'save' as const,
+      at: save.saved_at,
+      label: 'Auto-save',
+      detail: `${save.answer_count} answer${save.answer_count !== 1 ? 's' : ''} saved, ${save.changed_count} changed`
+    })),
+    ...data.revisions.map(revision => ({
+      id: `answer-${revision.id}`,
+      kind: 'answer' as const,
+      at: revision.changed_at,
+      label: `Answer changed: ${questionLabels.get(revision.question_id) ?? 'question'}`,
+      detail: revision.selected_option ?? revision.answer_text?.slice(0, 120) ?? undefined
+    })),
+    ...data.messages.flatMap(message => {
+      const ack = data.acks.find(a => a.message_id === message.id);
+      const label = getMessageKindLabel(message.kind);
+      return [
+        {
+          id: `message-${message.id}`,
+          kind: 'proctor' as const,
+          at: message.sent_at,
+          label: `Proctor ${label.toLowerCase()}${message.session_id ? '' : ' to all candidates'}`,
+          detail: message.body
+        },
+        ...(ack ? [{
+          id: `message-ack-${message.id}`,
+          kind: 'proctor' as const,
+          at: ack.acknowledged_at,
+          label: `${label} acknowledged`,
+          detail: message.body
+        }] : [])
+      ];
+    }),
+    ...data.actions.map(action => ({
+      id: `action-${action.id}`,
+      kind: 'proctor' as const,
+      at: action.created_at,
+      label: action.minutes
+        ? `${getProctorActionLabel(action.action)} by ${action.minutes} min`
+        : getProctorActionLabel(action.action),
+      detail: action.reason
+    })),
+    ...data.notes.map(note => ({
+      id: `note-${note.id}`,
+      kind: 'note' as const,
+      at: note.noted_at,
+      label: 'Reviewer note',
+      detail: note.note
+    }))
+  ];
+
+  return markers.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+};
+
+export const addReviewNote = async (sessionId: string, notedAt: string, note: string) => {
+  const { data, error } = await supabase
+    .from("review_notes")
+    .insert({ session_id: sessionId, noted_at: notedAt, note: note.trim() })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+};
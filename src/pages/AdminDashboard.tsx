@@ -5,7 +5,7 @@ import { User } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast } from "sonner";
-import { LogOut, Plus, FileText, Users, BarChart } from "lucide-react";
+import { LogOut, Plus, FileText, Users, BarChart, Library, ClipboardCheck, CalendarDays } from "lucide-react";
 import LiveMonitoring from "@/components/LiveMonitoring";
 
 const AdminDashboard = () => {
@@ -104,6 +104,19 @@ const AdminDashboard = () => {
             </CardContent>
           </Card>
 
+          <Card 
+            className="cursor-pointer transition-all duration-300 hover:shadow-lg"
+            onClick={() => navigate("/admin/question-bank")}
+          >
+            <CardHeader>
+              <Library className="mb-2 h-8 w-8 text-primary" />
+              <CardTitle>Question Bank</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CardDescription>Tag reusable questions and draw them into exams</CardDescription>
+            </CardContent>
+          </Card>
+
           <Card 
             className="cursor-pointer transition-all duration-300 hover:shadow-lg"
             onClick={() => navigate("/admin/submissions")}
@@ -117,6 +130,32 @@ const AdminDashboard = () => {
             </CardContent>
           </Card>
 
+          <Card 
+            className="cursor-pointer transition-all duration-300 hover:shadow-lg"
+            onClick={() => navigate("/admin/grading")}
+          >
+            <CardHeader>
+              <ClipboardCheck className="mb-2 h-8 w-8 text-secondary" />
+              <CardTitle>Grading</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CardDescription>Blind-mark written answers and track grader agreement</CardDescription>
+            </CardContent>
+          </Card>
+
+          <Card 
+            className="cursor-pointer transition-all duration-300 hover:shadow-lg"
+            onClick={() => navigate("/admin/calendar")}
+          >
+            <CardHeader>
+              <CalendarDays className="mb-2 h-8 w-8 text-primary" />
+              <CardTitle>Exam Calendar</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CardDescription>See upcoming sittings and their opening windows</CardDescription>
+            </CardContent>
+          </Card>
+
           <Card className="cursor-pointer transition-all duration-300 hover:shadow-lg">
             <CardHeader>
               <BarChart className="mb-2 h-8 w-8 text-warning" />
@@ -13,31 +13,29 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import VideoRecorder from "@/components/VideoRecorder";
-import { Clock, Save, CheckCircle, AlertTriangle, Monitor, Camera, Mic } from "lucide-react";
-
-interface ExamSection {
-  id: string;
-  section_type: 'mcq' | 'theoretical' | 'practical';
-  title: string;
-  timer_minutes: number;
-  section_order: number;
-  questions: ExamQuestion[];
-}
-
-interface ExamQuestion {
-  id: string;
-  question_text: string;
-  question_order: number;
-  options?: string[];
-  correct_answer?: string;
-  points: number;
-}
+import TestResults from "@/components/TestResults";
+import CodeEditor from "@/components/CodeEditor";
+import ProctorMessageModal from "@/components/ProctorMessageModal";
+import RoomScanRecorder from "@/components/RoomScanRecorder";
+import { loadSessionPaper, optionKey, type PaperSection } from "@/lib/examPaper";
+import { shuffleSessionPaper } from "@/lib/shuffle";
+import { completeSection, createServerClock, findResumeSection, getSessionProgress, secondsUntil, startSection } from "@/lib/sectionTimer";
+import { getLanguageLabel, gradeCodeAnswer, runVisibleTests, type TestRun } from "@/lib/codeRunner";
+import { pickFaceMonitoring } from "@/lib/faceMonitor";
+import { pickAudioMonitoring } from "@/lib/audioMonitor";
+import { createIntegrityLogger, watchIntegrityEvents, type IntegrityLogger } from "@/lib/integrity";
+import { watchSessionControl, type SessionControl } from "@/lib/proctorActions";
+import { startHeartbeat } from "@/lib/heartbeat";
+import { parseSystemCheck } from "@/lib/systemCheck";
+import { getIdentityStatus } from "@/lib/identity";
+import { enterFullscreen, exitFullscreen, isFullscreen, pickLockdown, watchLockdown } from "@/lib/lockdown";
+import { createAnswerJournal, getSaveStatusLabel, type AnswerJournal, type SaveStatus } from "@/lib/answerJournal";
+import { Clock, Save, CheckCircle, AlertTriangle, Monitor, Camera, Mic, Play, Pause, Ban, Cloud, CloudOff, RefreshCw, Lock } from "lucide-react";
 
 interface CandidateAnswer {
   question_id: string;
   answer_text?: string;
   selected_option?: string;
-  code_submission?: any;
 }
 
 const CandidateExam = () => {
@@ -46,18 +44,27 @@ const CandidateExam = () => {
   
   const [session, setSession] = useState<any>(null);
   const [exam, setExam] = useState<any>(null);
-  const [sections, setSections] = useState<ExamSection[]>([]);
+  const [sections, setSections] = useState<PaperSection[]>([]);
   const [currentSection, setCurrentSection] = useState(0);
   const [answers, setAnswers] = useState<Record<string, CandidateAnswer>>({});
   const [timeRemaining, setTimeRemaining] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
-  const [recordingBlob, setRecordingBlob] = useState<Blob | null>(null);
-  const [recordingChecksum, setRecordingChecksum] = useState<string>("");
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [showSubmitDialog, setShowSubmitDialog] = useState(false);
   const [recordingRequired, setRecordingRequired] = useState(true);
+  const [testRuns, setTestRuns] = useState<Record<string, TestRun>>({});
+  const [runningTestsFor, setRunningTestsFor] = useState<string | null>(null);
   const [examStarted, setExamStarted] = useState(false);
+  // Set while a proctor has paused the exam; holds the proctor's reason
+  const [pauseReason, setPauseReason] = useState<string | null>(null);
+  const [terminatedReason, setTerminatedReason] = useState<string | null>(null);
+  // Set when the server closed the session after the candidate lost connection for too long
+  const [abandoned, setAbandoned] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+  const [fullscreen, setFullscreen] = useState(isFullscreen());
+  // Null until the candidate submitted identity photos
+  const [identityStatus, setIdentityStatus] = useState<string | null>(null);
   const [showPermissionDialog, setShowPermissionDialog] = useState(false);
   const [permissionStatus, setPermissionStatus] = useState({
     camera: false,
@@ -66,7 +73,31 @@ const CandidateExam = () => {
   });
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const autoSaveIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Read by callbacks that outlive the render that created them, such as the section timer
+  const answersRef = useRef(answers);
+  const integrityLoggerRef = useRef<IntegrityLogger | null>(null);
+  // Every answer change is journaled on this device before it goes to the server
+  const answerJournalRef = useRef<AnswerJournal | null>(null);
+  // The control watcher outlives renders, so it calls the latest handler through this ref
+  const sessionControlRef = useRef<(control: SessionControl, fromAction: boolean) => void>(() => {});
+  const pausedRef = useRef(false);
+  // Set once the exam is being submitted, so the completed status is not mistaken for a forced submission
+  const finishingRef = useRef(false);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const journal = createAnswerJournal(sessionId, setSaveStatus, (answer) => {
+      // The server has a newer version of this answer, e.g. from another tab
+      const adopted = { ...answer, answer_text: answer.answer_text ?? undefined, selected_option: answer.selected_option ?? undefined };
+      answersRef.current = { ...answersRef.current, [answer.question_id]: adopted };
+      setAnswers(prev => ({ ...prev, [answer.question_id]: adopted }));
+    });
+    answerJournalRef.current = journal;
+    return () => {
+      journal.dispose();
+      answerJournalRef.current = null;
+    };
+  }, [sessionId]);
 
   useEffect(() => {
     if (sessionId) {
@@ -74,28 +105,63 @@ const CandidateExam = () => {
     }
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
-      if (autoSaveIntervalRef.current) clearInterval(autoSaveIntervalRef.current);
     };
   }, [sessionId]);
 
   useEffect(() => {
-    if (sections.length > 0 && currentSection < sections.length) {
+    // The section clock starts on the server once the candidate is actually in the exam
+    if (examStarted && sections.length > 0 && currentSection < sections.length) {
       startSectionTimer();
     }
-  }, [currentSection, sections]);
+  }, [examStarted, currentSection, sections]);
 
   useEffect(() => {
-    // Auto-save answers every 30 seconds
-    autoSaveIntervalRef.current = setInterval(() => {
-      saveAnswers();
-    }, 30000);
+    answersRef.current = answers;
+  }, [answers]);
 
+  // Integrity events are logged from the moment the candidate is in the exam
+  useEffect(() => {
+    if (!examStarted || !sessionId) return;
+    const logger = createIntegrityLogger(sessionId);
+    integrityLoggerRef.current = logger;
+    const stopWatching = watchIntegrityEvents(logger.log);
     return () => {
-      if (autoSaveIntervalRef.current) {
-        clearInterval(autoSaveIntervalRef.current);
-      }
+      stopWatching();
+      logger.dispose();
+      integrityLoggerRef.current = null;
     };
-  }, [answers]);
+  }, [examStarted, sessionId]);
+
+  useEffect(() => {
+    sessionControlRef.current = handleSessionControl;
+  });
+
+  // The server marks the session disconnected, then abandoned, when heartbeats stop
+  useEffect(() => {
+    if (!examStarted || !sessionId || terminatedReason !== null) return;
+    return startHeartbeat(sessionId);
+  }, [examStarted, sessionId, terminatedReason]);
+
+  // Under lockdown questions are only shown fullscreen; leaving fullscreen is logged with the other integrity events
+  useEffect(() => {
+    if (!examStarted || !exam?.lockdown_mode || terminatedReason !== null) return;
+    setFullscreen(isFullscreen());
+    const stopLockdown = watchLockdown(
+      pickLockdown(exam),
+      (shortcut) => integrityLoggerRef.current?.log('blocked_shortcut', shortcut),
+      setFullscreen
+    );
+    return () => {
+      stopLockdown();
+      exitFullscreen();
+    };
+  }, [examStarted, exam, terminatedReason]);
+
+  // Proctors can pause, extend, force-submit or terminate the exam while it runs
+  useEffect(() => {
+    if (!examStarted || !sessionId) return;
+    return watchSessionControl(sessionId, (control, fromAction) => sessionControlRef.current(control, fromAction));
+  }, [examStarted, sessionId]);
 
   const loadExamData = async () => {
     try {
@@ -108,7 +174,12 @@ const CandidateExam = () => {
 
       if (sessionError) throw sessionError;
       setSession(sessionData);
+      if (sessionData.status === 'terminated' || sessionData.status === 'abandoned') {
+        setAbandoned(sessionData.status === 'abandoned');
+        setTerminatedReason(sessionData.status_reason ?? '');
+      }
       setRecordingRequired(sessionData.recording_required || true);
+      setIdentityStatus((await getIdentityStatus(sessionId!))?.status ?? null);
 
       // Load exam
       const { data: examData, error: examError } = await supabase
@@ -120,27 +191,21 @@ const CandidateExam = () => {
       if (examError) throw examError;
       setExam(examData);
 
-      // Load sections and questions
-      const { data: sectionsData, error: sectionsError } = await supabase
-        .from("exam_sections")
-        .select(`
-          *,
-          exam_questions(*)
-        `)
-        .eq("exam_id", examData.id)
-        .order("section_order");
-
-      if (sectionsError) throw sectionsError;
-
-      const formattedSections = sectionsData.map(section => ({
-        ...section,
-        questions: section.exam_questions.map((q: any) => ({
-          ...q,
-          options: q.options ? JSON.parse(q.options) : undefined
-        }))
-      }));
+      // Load sections and questions, including this session's draw from the question bank
+      const paper = shuffleSessionPaper(await loadSessionPaper(sessionData.id, examData.id), sessionData.shuffle_seed, {
+        questions: examData.shuffle_questions,
+        options: examData.shuffle_options
+      });
+      setSections(paper);
 
-      setSections(formattedSections);
+      // Resume at the section the server says is open; closed sections cannot be reopened
+      const resumeSection = findResumeSection(paper, await getSessionProgress(sessionData.id));
+      if (resumeSection < paper.length) {
+        setCurrentSection(resumeSection);
+      } else {
+        setCurrentSection(paper.length - 1);
+        setShowSubmitDialog(true);
+      }
 
       // Load existing answers
       const { data: answersData } = await supabase
@@ -154,11 +219,22 @@ const CandidateExam = () => {
           answersMap[answer.question_id] = {
             question_id: answer.question_id,
             answer_text: answer.answer_text,
-            selected_option: answer.selected_option,
-            code_submission: answer.code_submission
+            selected_option: answer.selected_option
+          };
+        });
+
+        // Answers typed before a reload or outage that never reached the server
+        const unsynced = await answerJournalRef.current?.unsynced() ?? [];
+        unsynced.forEach(answer => {
+          answersMap[answer.question_id] = {
+            question_id: answer.question_id,
+            answer_text: answer.answer_text ?? undefined,
+            selected_option: answer.selected_option ?? undefined
           };
         });
+        answersRef.current = answersMap;
         setAnswers(answersMap);
+        if (unsynced.length > 0) answerJournalRef.current?.sync();
       }
 
     } catch (error) {
@@ -170,29 +246,69 @@ const CandidateExam = () => {
     }
   };
 
-  const startSectionTimer = () => {
+  const startSectionTimer = async () => {
     if (intervalRef.current) clearInterval(intervalRef.current);
-    
+    if (!sessionId) return;
+
     const section = sections[currentSection];
-    setTimeRemaining(section.timer_minutes * 60);
 
-    intervalRef.current = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev <= 1) {
+    try {
+      // The deadline comes from the server, so reloading the page does not reset it
+      const progress = await startSection(sessionId, section.id);
+      if (progress.completed_at) {
+        // Every section has already closed; all that is left is submitting
+        setTimeRemaining(0);
+        setShowSubmitDialog(true);
+        return;
+      }
+
+      const clock = createServerClock(progress.server_now);
+      setTimeRemaining(secondsUntil(progress.deadline_at, clock));
+
+      intervalRef.current = setInterval(() => {
+        const remaining = secondsUntil(progress.deadline_at, clock);
+        setTimeRemaining(remaining);
+        if (remaining <= 0) {
+          if (intervalRef.current) clearInterval(intervalRef.current);
           handleSectionTimeout();
-          return 0;
         }
-        return prev - 1;
-      });
-    }, 1000);
+      }, 1000);
+    } catch (error) {
+      console.error("Error starting section timer:", error);
+      toast.error("Failed to start the section timer. Please reload the page.");
+    }
   };
 
-  const handleSectionTimeout = () => {
+  const handleSectionTimeout = async () => {
+    // A proctor may have added time after this timer started
+    if (sessionId) {
+      try {
+        const progress = await startSection(sessionId, sections[currentSection].id);
+        if (!progress.completed_at && secondsUntil(progress.deadline_at, createServerClock(progress.server_now)) > 0) {
+          startSectionTimer();
+          return;
+        }
+      } catch (error) {
+        console.error("Error checking section deadline:", error);
+      }
+    }
+
     toast.warning(`Time's up for ${sections[currentSection].title}! Moving to next section.`);
     nextSection();
   };
 
-  const nextSection = () => {
+  const nextSection = async () => {
+    if (!sessionId) return;
+
+    // Save before closing the section; later writes to it are marked late
+    await saveAnswers();
+    try {
+      await completeSection(sessionId, sections[currentSection].id);
+    } catch (error) {
+      console.error("Error completing section:", error);
+    }
+    gradeCodeAnswers(currentSection);
+
     if (currentSection < sections.length - 1) {
       setCurrentSection(prev => prev + 1);
     } else {
@@ -201,42 +317,48 @@ const CandidateExam = () => {
     }
   };
 
+  // Sends whatever the journal still holds; resolves to whether every answer reached the server
   const saveAnswers = async () => {
+    if (!answerJournalRef.current) return false;
+    return answerJournalRef.current.sync();
+  };
+
+  // Grades the saved code of a closed section; the results are stored on the answer for review
+  const gradeCodeAnswers = (sectionIndex: number) => {
     if (!sessionId) return;
 
-    try {
-      const answersToSave = Object.values(answers).filter(answer => 
-        answer.answer_text || answer.selected_option || answer.code_submission
-      );
-
-      for (const answer of answersToSave) {
-        const { error } = await supabase
-          .from("candidate_answers")
-          .upsert({
-            session_id: sessionId,
-            question_id: answer.question_id,
-            answer_text: answer.answer_text,
-            selected_option: answer.selected_option,
-            code_submission: answer.code_submission,
-            is_auto_saved: true
-          });
+    const section = sections[sectionIndex];
+    if (section.section_type !== 'practical') return;
 
-        if (error) throw error;
-      }
+    section.questions
+      .filter(question => question.language && answersRef.current[question.id]?.answer_text)
+      .forEach(question => {
+        gradeCodeAnswer(sessionId, question.id).catch(error => {
+          console.error("Error grading code answer:", error);
+        });
+      });
+  };
+
+  const handleRunTests = async (questionId: string, code: string) => {
+    if (!sessionId) return;
+
+    setRunningTestsFor(questionId);
+    try {
+      const run = await runVisibleTests(sessionId, questionId, code);
+      setTestRuns(prev => ({ ...prev, [questionId]: run }));
     } catch (error) {
-      console.error("Error saving answers:", error);
+      console.error("Error running tests:", error);
+      toast.error("Failed to run tests. Please try again.");
+    } finally {
+      setRunningTestsFor(null);
     }
   };
 
   const updateAnswer = (questionId: string, field: keyof CandidateAnswer, value: any) => {
-    setAnswers(prev => ({
-      ...prev,
-      [questionId]: {
-        ...prev[questionId],
-        question_id: questionId,
-        [field]: value
-      }
-    }));
+    const answer = { ...answersRef.current[questionId], question_id: questionId, [field]: value };
+    answersRef.current = { ...answersRef.current, [questionId]: answer };
+    setAnswers(prev => ({ ...prev, [questionId]: answer }));
+    answerJournalRef.current?.record(answer);
   };
 
   const handleRecordingStart = () => {
@@ -254,9 +376,7 @@ const CandidateExam = () => {
     toast.success("Recording started - Exam monitoring is now active");
   };
 
-  const handleRecordingStop = async (blob: Blob, checksum: string) => {
-    setRecordingBlob(blob);
-    setRecordingChecksum(checksum);
+  const handleRecordingStop = async () => {
     setIsRecording(false);
     toast.success("Recording completed and saved");
     
@@ -269,22 +389,13 @@ const CandidateExam = () => {
       console.log("Starting permission request process...");
       setShowPermissionDialog(true);
       
-      // Step 1: Request camera and microphone permissions
-      console.log("Requesting camera and microphone permissions...");
-      const userMediaStream = await navigator.mediaDevices.getUserMedia({
-        video: true,
-        audio: true
-      });
-      
+      // Step 1: Camera and microphone were opened and tested by the system check
       setPermissionStatus(prev => ({
         ...prev,
         camera: true,
         microphone: true
       }));
       
-      console.log("Camera and microphone permissions granted");
-      toast.success("Camera and microphone permissions granted!");
-      
       // Step 2: Request screen sharing permission (mandatory)
       console.log("Requesting screen sharing permission...");
       try {
@@ -318,14 +429,10 @@ const CandidateExam = () => {
         
       } catch (screenError) {
         console.error("Screen sharing permission failed:", screenError);
-        userMediaStream.getTracks().forEach(track => track.stop());
         toast.error("Screen sharing is mandatory. You must share your entire screen to take the exam.");
         throw new Error("Screen sharing permission denied");
       }
       
-      // Stop the user media stream - VideoRecorder will request fresh streams
-      userMediaStream.getTracks().forEach(track => track.stop());
-      
       // All permissions granted, start the exam
       console.log("All permissions granted, starting exam...");
       setExamStarted(true);
@@ -347,23 +454,71 @@ const CandidateExam = () => {
     }
   };
 
+  const handleSessionControl = (control: SessionControl, fromAction: boolean) => {
+    if (finishingRef.current) return;
+
+    if (control.status === 'terminated' || control.status === 'abandoned') {
+      if (intervalRef.current) clearInterval(intervalRef.current);
+      setAbandoned(control.status === 'abandoned');
+      setTerminatedReason(control.status_reason ?? '');
+      return;
+    }
+
+    if (control.status === 'completed') {
+      handleForcedSubmit(control.status_reason);
+      return;
+    }
+
+    const paused = !!control.paused_at;
+    const resumed = pausedRef.current && !paused;
+    pausedRef.current = paused;
+    setPauseReason(paused ? control.status_reason ?? '' : null);
+
+    if (paused) {
+      if (intervalRef.current) clearInterval(intervalRef.current);
+    } else if ((resumed || fromAction) && currentSection < sections.length) {
+      // Resuming and added time both move the deadline; read it again from the server
+      startSectionTimer();
+    }
+  };
+
+  const handleForcedSubmit = async (reason: string | null) => {
+    finishingRef.current = true;
+    if (intervalRef.current) clearInterval(intervalRef.current);
+
+    // The proctor already closed the exam; answers saved right away still count
+    await saveAnswers();
+    toast.info(reason ? `Your exam was submitted by the proctor: ${reason}` : "Your exam was submitted by the proctor");
+    navigate("/candidate/exam-complete");
+  };
+
   const submitExam = async () => {
+    finishingRef.current = true;
     setSubmitting(true);
     
     try {
       console.log("Starting exam submission...");
       
-      // Save final answers
-      await saveAnswers();
+      // Save final answers; submitting with answers still on this device would lose them
+      if (!await saveAnswers()) {
+        throw new Error("Some answers are not saved yet. Check your connection");
+      }
       console.log("Answers saved successfully");
 
+      if (intervalRef.current) clearInterval(intervalRef.current);
+      if (sessionId) await completeSection(sessionId, sections[currentSection].id);
+      gradeCodeAnswers(currentSection);
+
+      // Events are only accepted while the session is in progress
+      await integrityLoggerRef.current?.flush();
+
       // Update session status with better error handling
       const { error: sessionError } = await supabase
         .from("candidate_sessions")
         .update({
           status: 'completed',
           submitted_at: new Date().toISOString()
-          // Do not overwrite recording_url here; VideoRecorder already saved the storage path
+          // Recording chunks and the manifest checksum are saved by VideoRecorder as they upload
         })
         .eq("id", sessionId);
 
@@ -379,6 +534,7 @@ const CandidateExam = () => {
       console.error("Error submitting exam:", error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to submit exam';
       toast.error(`Failed to submit exam: ${errorMessage}. Please try again.`);
+      finishingRef.current = false;
     } finally {
       setSubmitting(false);
     }
@@ -404,6 +560,11 @@ const CandidateExam = () => {
     }
   };
 
+  // Devices the candidate chose and tested on the system check page
+  const systemCheck = parseSystemCheck(session?.system_check);
+  // Sections of such an exam cannot start until the clip is uploaded
+  const roomScanPending = !!exam?.room_scan_required && !session?.room_scan_path;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
@@ -434,6 +595,31 @@ const CandidateExam = () => {
     );
   }
 
+  // A proctor ended the session; leaving the exam view also stops the recording
+  if (terminatedReason !== null) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center px-6">
+        <Card className="w-full max-w-md">
+          <CardContent className="text-center py-8">
+            <Ban className="mx-auto h-12 w-12 text-destructive mb-4" />
+            <h3 className="text-lg font-semibold mb-2">{abandoned ? 'Session Closed' : 'Exam Terminated'}</h3>
+            <p className="text-muted-foreground mb-2">
+              {abandoned
+                ? 'Your exam session was closed because the connection was lost for too long.'
+                : 'Your exam session was ended by the proctor.'}
+            </p>
+            {terminatedReason && (
+              <p className="text-sm mb-4">Reason: {terminatedReason}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Please contact the exam organizer if you believe this was a mistake.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   // Show permission dialog if recording is required but not started
   if (recordingRequired && !examStarted) {
     return (
@@ -480,13 +666,40 @@ const CandidateExam = () => {
             </div>
 
             <div className="flex justify-center">
-              <Button 
-                onClick={requestPermissions} 
-                size="lg"
-                className="w-full"
-              >
-                Enable Monitoring & Start Exam
-              </Button>
+              {identityStatus === null || identityStatus === 'rejected' ? (
+                <Button
+                  onClick={() => navigate(`/candidate/exam/${sessionId}/identity`)}
+                  size="lg"
+                  className="w-full"
+                >
+                  Verify Identity
+                </Button>
+              ) : systemCheck?.passed && roomScanPending ? (
+                <div className="w-full">
+                  <RoomScanRecorder
+                    sessionId={sessionId!}
+                    cameraId={systemCheck.devices.camera_id}
+                    microphoneId={systemCheck.devices.microphone_id}
+                    onUploaded={(path) => setSession({ ...session, room_scan_path: path })}
+                  />
+                </div>
+              ) : systemCheck?.passed ? (
+                <Button 
+                  onClick={requestPermissions} 
+                  size="lg"
+                  className="w-full"
+                >
+                  Enable Monitoring & Start Exam
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => navigate(`/candidate/exam/${sessionId}/system-check`)}
+                  size="lg"
+                  className="w-full"
+                >
+                  Run System Check
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -496,6 +709,9 @@ const CandidateExam = () => {
 
   const currentSectionData = sections[currentSection];
   const progress = ((currentSection + 1) / sections.length) * 100;
+  const lockedOut = exam.lockdown_mode && !fullscreen;
+  // Question content cannot be selected under lockdown
+  const contentClass = exam.lockdown_mode ? "select-none" : "";
 
   return (
     <div className="min-h-screen bg-gradient-subtle">
@@ -510,13 +726,22 @@ const CandidateExam = () => {
               </p>
             </div>
             <div className="flex items-center gap-4">
+              <div
+                className={`flex items-center gap-1 text-xs ${saveStatus === 'offline' ? 'text-orange-600' : 'text-muted-foreground'}`}
+                title={getSaveStatusLabel(saveStatus)}
+              >
+                {saveStatus === 'saved' && <Cloud className="h-4 w-4" />}
+                {saveStatus === 'pending' && <RefreshCw className="h-4 w-4 animate-spin" />}
+                {saveStatus === 'offline' && <CloudOff className="h-4 w-4" />}
+                <span className="hidden md:inline">{getSaveStatusLabel(saveStatus)}</span>
+              </div>
               <Badge className={getSectionTypeColor(currentSectionData.section_type)}>
                 {currentSectionData.section_type.toUpperCase()}
               </Badge>
               <div className="text-right">
                 <div className="flex items-center gap-2 text-lg font-mono">
                   <Clock className="h-5 w-5" />
-                  {formatTime(timeRemaining)}
+                  {lockedOut ? "--:--" : formatTime(timeRemaining)}
                 </div>
                 <div className="text-xs text-muted-foreground">
                   {currentSectionData.timer_minutes} minutes
@@ -534,9 +759,22 @@ const CandidateExam = () => {
           <div className="lg:col-span-1 space-y-4">
             <VideoRecorder
               sessionId={sessionId!}
-              candidateName={(session?.full_name as string) || "Candidate"}
               onRecordingStart={handleRecordingStart}
               onRecordingStop={handleRecordingStop}
+              onStreamEnded={(source) =>
+                integrityLoggerRef.current?.log(source === 'screen' ? 'screen_share_ended' : 'camera_ended')
+              }
+              faceMonitoring={pickFaceMonitoring(exam)}
+              onFaceEvent={(event) => integrityLoggerRef.current?.log(event.type, event.detail)}
+              audioMonitoring={pickAudioMonitoring(exam)}
+              onSpeechInterval={(interval) =>
+                integrityLoggerRef.current?.log(interval.type, `${interval.duration_seconds} seconds`, {
+                  at: interval.started_at,
+                  duration_seconds: interval.duration_seconds
+                })
+              }
+              cameraId={systemCheck?.devices.camera_id}
+              microphoneId={systemCheck?.devices.microphone_id}
               autoStart={recordingRequired}
               mandatory={recordingRequired}
             />
@@ -559,98 +797,156 @@ const CandidateExam = () => {
 
           {/* Exam Content */}
           <div className="lg:col-span-3">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  {currentSectionData.title}
-                  <Badge className={getSectionTypeColor(currentSectionData.section_type)}>
-                    {currentSectionData.questions.length} questions
-                  </Badge>
-                </CardTitle>
-                <CardDescription>
-                  {currentSectionData.section_type === 'mcq' && "Select the best answer for each question."}
-                  {currentSectionData.section_type === 'theoretical' && "Provide detailed written answers."}
-                  {currentSectionData.section_type === 'practical' && "Write code to solve the given problems."}
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                {currentSectionData.questions.map((question, index) => (
-                  <Card key={question.id} className="border-l-4 border-l-primary">
-                    <CardHeader className="pb-3">
-                      <CardTitle className="text-lg">
-                        Question {index + 1} ({question.points} point{question.points !== 1 ? 's' : ''})
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <p className="text-foreground">{question.question_text}</p>
-
-                      {currentSectionData.section_type === 'mcq' && question.options && (
-                        <RadioGroup
-                          value={answers[question.id]?.selected_option || ""}
-                          onValueChange={(value) => updateAnswer(question.id, "selected_option", value)}
-                        >
-                          {question.options.map((option, optionIndex) => (
-                            <div key={optionIndex} className="flex items-center space-x-2">
-                              <RadioGroupItem 
-                                value={String.fromCharCode(65 + optionIndex)} 
-                                id={`${question.id}-${optionIndex}`} 
-                              />
-                              <Label htmlFor={`${question.id}-${optionIndex}`} className="flex-1">
-                                {String.fromCharCode(65 + optionIndex)}. {option}
-                              </Label>
+            {lockedOut ? (
+              <Card>
+                <CardHeader className="text-center">
+                  <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-warning/20">
+                    <Lock className="h-8 w-8 text-warning" />
+                  </div>
+                  <CardTitle className="text-2xl font-bold">Fullscreen Required</CardTitle>
+                  <CardDescription>
+                    This exam runs in lockdown mode. Questions are only shown while your browser is fullscreen, and leaving fullscreen is recorded. Your time keeps running.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex justify-center">
+                  <Button size="lg" onClick={enterFullscreen}>
+                    Enter Fullscreen
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    {currentSectionData.title}
+                    <Badge className={getSectionTypeColor(currentSectionData.section_type)}>
+                      {currentSectionData.questions.length} questions
+                    </Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    {currentSectionData.section_type === 'mcq' && "Select the best answer for each question."}
+                    {currentSectionData.section_type === 'theoretical' && "Provide detailed written answers."}
+                    {currentSectionData.section_type === 'practical' && "Write code to solve the given problems."}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {currentSectionData.questions.map((question, index) => (
+                    <Card key={question.id} className="border-l-4 border-l-primary">
+                      <CardHeader className="pb-3">
+                        <CardTitle className="text-lg">
+                          Question {index + 1} ({question.points} point{question.points !== 1 ? 's' : ''})
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <p className={`text-foreground ${contentClass}`}>{question.question_text}</p>
+
+                        {currentSectionData.section_type === 'mcq' && question.choices.length > 0 && (
+                          <RadioGroup
+                            value={answers[question.id]?.selected_option || ""}
+                            onValueChange={(value) => updateAnswer(question.id, "selected_option", value)}
+                          >
+                            {/* Letters follow the order shown; the stored value is the authored key */}
+                            {question.choices.map((choice, optionIndex) => (
+                              <div key={choice.key} className="flex items-center space-x-2">
+                                <RadioGroupItem 
+                                  value={choice.key} 
+                                  id={`${question.id}-${choice.key}`} 
+                                />
+                                <Label htmlFor={`${question.id}-${choice.key}`} className={`flex-1 ${contentClass}`}>
+                                  {optionKey(optionIndex)}. {choice.text}
+                                </Label>
+                              </div>
+                            ))}
+                          </RadioGroup>
+                        )}
+
+                        {currentSectionData.section_type === 'theoretical' && (
+                          <div className="space-y-2">
+                            <Label htmlFor={`answer-${question.id}`}>Your Answer</Label>
+                            <Textarea
+                              id={`answer-${question.id}`}
+                              value={answers[question.id]?.answer_text || ""}
+                              onChange={(e) => updateAnswer(question.id, "answer_text", e.target.value)}
+                              placeholder="Type your answer here..."
+                              rows={5}
+                              className="font-mono"
+                            />
+                          </div>
+                        )}
+
+                        {currentSectionData.section_type === 'practical' && (
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <Label>Your Code</Label>
+                              <Badge variant="outline">{getLanguageLabel(question.language)}</Badge>
                             </div>
-                          ))}
-                        </RadioGroup>
-                      )}
+                            <CodeEditor
+                              value={answers[question.id]?.answer_text ?? question.starter_code ?? ""}
+                              language={question.language}
+                              onChange={(value) => updateAnswer(question.id, "answer_text", value)}
+                              placeholder="Write your code here..."
+                            />
+                          </div>
+                        )}
 
-                      {(currentSectionData.section_type === 'theoretical' || currentSectionData.section_type === 'practical') && (
-                        <div className="space-y-2">
-                          <Label htmlFor={`answer-${question.id}`}>
-                            {currentSectionData.section_type === 'theoretical' ? 'Your Answer' : 'Your Code'}
-                          </Label>
-                          <Textarea
-                            id={`answer-${question.id}`}
-                            value={answers[question.id]?.answer_text || ""}
-                            onChange={(e) => updateAnswer(question.id, "answer_text", e.target.value)}
-                            placeholder={
-                              currentSectionData.section_type === 'theoretical' 
-                                ? "Type your answer here..." 
-                                : "Write your code here..."
-                            }
-                            rows={currentSectionData.section_type === 'practical' ? 10 : 5}
-                            className="font-mono"
-                          />
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                ))}
-
-                <div className="flex justify-between pt-6">
-                  <Button
-                    variant="outline"
-                    onClick={() => saveAnswers()}
-                    className="flex items-center gap-2"
-                  >
-                    <Save className="h-4 w-4" />
-                    Save Progress
-                  </Button>
+                        {currentSectionData.section_type === 'practical' && question.language && (
+                          <div className="space-y-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={runningTestsFor !== null}
+                              onClick={() => handleRunTests(
+                                question.id,
+                                answers[question.id]?.answer_text ?? question.starter_code ?? ""
+                              )}
+                            >
+                              <Play className="mr-2 h-4 w-4" />
+                              {runningTestsFor === question.id ? "Running..." : "Run Tests"}
+                            </Button>
+
+                            {testRuns[question.id] && (
+                              <div className="space-y-2">
+                                <p className="text-sm font-medium">
+                                  {testRuns[question.id].passed} of {testRuns[question.id].total} visible tests passed
+                                </p>
+                                <TestResults results={testRuns[question.id].results} />
+                              </div>
+                            )}
+                            <p className="text-xs text-muted-foreground">
+                              Your saved code is also graded against hidden tests when the section closes.
+                            </p>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
 
-                  <div className="flex gap-2">
-                    {currentSection < sections.length - 1 ? (
-                      <Button onClick={nextSection}>
-                        Next Section
-                      </Button>
-                    ) : (
-                      <Button onClick={() => setShowSubmitDialog(true)}>
-                        <CheckCircle className="mr-2 h-4 w-4" />
-                        Submit Exam
-                      </Button>
-                    )}
+                  <div className="flex justify-between pt-6">
+                    <Button
+                      variant="outline"
+                      onClick={() => saveAnswers()}
+                      className="flex items-center gap-2"
+                    >
+                      <Save className="h-4 w-4" />
+                      Save Progress
+                    </Button>
+
+                    <div className="flex gap-2">
+                      {currentSection < sections.length - 1 ? (
+                        <Button onClick={nextSection}>
+                          Next Section
+                        </Button>
+                      ) : (
+                        <Button onClick={() => setShowSubmitDialog(true)}>
+                          <CheckCircle className="mr-2 h-4 w-4" />
+                          Submit Exam
+                        </Button>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </div>
       </div>
@@ -674,6 +970,27 @@ const CandidateExam = () => {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Paused by the proctor; the recording keeps running underneath */}
+      {pauseReason !== null && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-background/95 px-6">
+          <Card className="w-full max-w-md">
+            <CardContent className="text-center py-8">
+              <Pause className="mx-auto h-12 w-12 text-warning mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Exam Paused</h3>
+              <p className="text-muted-foreground mb-2">
+                The proctor has paused your exam. Your remaining time is kept until it resumes.
+              </p>
+              {pauseReason && <p className="text-sm">Reason: {pauseReason}</p>}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Warnings and instructions from the proctor; blocks the exam until acknowledged */}
+      {examStarted && sessionId && (
+        <ProctorMessageModal examId={exam.id} sessionId={sessionId} />
+      )}
+
       {/* Permission Request Dialog */}
       <Dialog open={showPermissionDialog} onOpenChange={setShowPermissionDialog}>
         <DialogContent className="max-w-md">
@@ -0,0 +1,252 @@
+import { useState, useEffect, useRef } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import {
+  captureFrame,
+  getIdentityStatus,
+  getIdentityStatusColor,
+  getIdentityStatusLabel,
+  submitIdentity
+} from "@/lib/identity";
+import { Camera, CreditCard, IdCard, RotateCcw, Upload } from "lucide-react";
+
+type PhotoKind = 'face' | 'id';
+
+interface Photo {
+  blob: Blob;
+  url: string;
+}
+
+const CandidateIdentity = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<{ status: string; review_note: string | null } | null>(null);
+  const [photos, setPhotos] = useState<Record<PhotoKind, Photo | null>>({ face: null, id: null });
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const photosRef = useRef(photos);
+
+  const systemCheckPath = `/candidate/exam/${sessionId}/system-check`;
+  // New photos can be taken until a proctor approved the identity
+  const canSubmit = status?.status !== 'approved' && status?.status !== 'pending';
+
+  useEffect(() => {
+    if (sessionId) loadStatus();
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (loading || !canSubmit) return;
+    let opened: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } } })
+      .then((media) => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        opened = media;
+        if (videoRef.current) videoRef.current.srcObject = media;
+      })
+      .catch((error) => {
+        console.error("Failed to open camera:", error);
+        setCameraError("Your camera could not be opened. Allow camera access and reload the page.");
+      });
+
+    return () => {
+      cancelled = true;
+      opened?.getTracks().forEach(track => track.stop());
+    };
+  }, [loading, canSubmit]);
+
+  useEffect(() => {
+    photosRef.current = photos;
+  }, [photos]);
+
+  // Preview links are released when the page closes
+  useEffect(() => {
+    return () => {
+      Object.values(photosRef.current).forEach(photo => photo && URL.revokeObjectURL(photo.url));
+    };
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await getIdentityStatus(sessionId!));
+    } catch (error) {
+      console.error("Error loading identity status:", error);
+      toast.error("Failed to load identity verification");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setPhoto = (kind: PhotoKind, blob: Blob) => {
+    const previous = photos[kind];
+    if (previous) URL.revokeObjectURL(previous.url);
+    setPhotos(prev => ({ ...prev, [kind]: { blob, url: URL.createObjectURL(blob) } }));
+  };
+
+  const takePhoto = async (kind: PhotoKind) => {
+    if (!videoRef.current) return;
+    try {
+      setPhoto(kind, await captureFrame(videoRef.current));
+    } catch (error) {
+      console.error("Snapshot failed:", error);
+      toast.error("Could not take the photo. Wait for the camera picture and try again.");
+    }
+  };
+
+  const handleIdFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      toast.error("Choose a photo of your ID card");
+      return;
+    }
+    setPhoto('id', file);
+  };
+
+  const handleSubmit = async () => {
+    if (!sessionId || !photos.face || !photos.id) return;
+    setSubmitting(true);
+    try {
+      await submitIdentity(sessionId, photos.face.blob, photos.id.blob);
+      toast.success("Photos submitted for review");
+      navigate(systemCheckPath);
+    } catch (error) {
+      console.error("Error submitting identity:", error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Failed to submit photos: ${message}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading identity verification...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const renderPhotoSlot = (kind: PhotoKind, title: string, hint: string) => (
+    <div className="space-y-2">
+      <Label>{title}</Label>
+      <div className="aspect-video rounded-lg border bg-muted flex items-center justify-center overflow-hidden">
+        {photos[kind] ? (
+          <img src={photos[kind]!.url} alt={title} className="w-full h-full object-cover" />
+        ) : (
+          <p className="text-xs text-muted-foreground text-center px-4">{hint}</p>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => takePhoto(kind)} disabled={!!cameraError}>
+          {photos[kind] ? <RotateCcw className="mr-2 h-4 w-4" /> : <Camera className="mr-2 h-4 w-4" />}
+          {photos[kind] ? "Retake" : "Take Photo"}
+        </Button>
+        {kind === 'id' && (
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} title="Upload a photo instead">
+            <Upload className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle px-6 py-12">
+      <div className="container mx-auto max-w-3xl">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-primary/10">
+              <IdCard className="h-8 w-8 text-primary" />
+            </div>
+            <CardTitle className="text-2xl font-bold">Verify Your Identity</CardTitle>
+            <CardDescription>
+              Take a photo of your face and of your ID card. A proctor compares them with you during the exam.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {status && (
+              <div className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <p className="text-sm font-medium">Your identity</p>
+                  {status.review_note && (
+                    <p className="text-sm text-muted-foreground">Proctor note: {status.review_note}</p>
+                  )}
+                </div>
+                <Badge className={getIdentityStatusColor(status.status)}>
+                  {getIdentityStatusLabel(status.status)}
+                </Badge>
+              </div>
+            )}
+
+            {canSubmit ? (
+              <>
+                {status?.status === 'rejected' && (
+                  <p className="text-sm text-destructive">Your photos were rejected. Please take new ones.</p>
+                )}
+
+                <div className="space-y-2">
+                  <video
+                    ref={videoRef}
+                    autoPlay
+                    muted
+                    playsInline
+                    className="w-full max-w-md mx-auto aspect-video rounded-lg bg-black object-cover"
+                  />
+                  {cameraError && <p className="text-sm text-destructive text-center">{cameraError}</p>}
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  {renderPhotoSlot('face', "Your face", "Look straight into the camera with your face fully visible")}
+                  {renderPhotoSlot('id', "Your ID card", "Hold your ID card close to the camera so the name and photo are readable")}
+                </div>
+
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  capture="environment"
+                  className="hidden"
+                  onChange={handleIdFile}
+                />
+
+                <Button
+                  className="w-full"
+                  size="lg"
+                  onClick={handleSubmit}
+                  disabled={submitting || !photos.face || !photos.id}
+                >
+                  <CreditCard className="mr-2 h-4 w-4" />
+                  {submitting ? "Submitting..." : "Submit Photos"}
+                </Button>
+              </>
+            ) : (
+              <Button className="w-full" size="lg" onClick={() => navigate(systemCheckPath)}>
+                Continue to System Check
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default CandidateIdentity;
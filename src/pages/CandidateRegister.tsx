@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -13,44 +13,51 @@ import { Shield, AlertTriangle } from "lucide-react";
 
 const CandidateRegister = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(false);
   const [consentGiven, setConsentGiven] = useState(false);
   const [location, setLocation] = useState("");
   const [customLocation, setCustomLocation] = useState("");
+  const [accessCode, setAccessCode] = useState(searchParams.get("code") || "");
 
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    
-    if (!consentGiven) {
-      toast.error("You must consent to recording and academic integrity rules to continue");
-      return;
-    }
+  // Invited candidates register with their roster details; the code can be used once
+  const registerWithAccessCode = async (gender: string) => {
+    const { data, error } = await supabase.rpc("register_with_access_code", {
+      _access_code: accessCode,
+      _gender: gender,
+      _exam_location: location,
+      _custom_location: location === "other" ? customLocation : undefined,
+      _consent_given: consentGiven
+    });
 
-    setLoading(true);
+    const result = data as { session_id?: string; error?: string } | null;
+    if (error || !result?.session_id) {
+      console.error("Registration error:", error || result?.error);
+      toast.error(result?.error || error?.message || "Failed to register for exam. Please try again.");
+      return null;
+    }
+    return result.session_id;
+  };
 
-    const formData = new FormData(e.currentTarget);
+  const registerOpen = async (formData: FormData, gender: string) => {
     const fullName = formData.get("full-name") as string;
     const email = formData.get("email") as string;
     const contact = formData.get("contact") as string;
-    const gender = formData.get("gender") as string;
 
-    // Get first active exam
-    const { data: exams, error: examError } = await supabase
-      .from("exams")
-      .select("id")
-      .eq("is_active", true)
-      .limit(1);
+    // The server picks the exam whose window is open now and checks the attempt limit
+    const { data: examId, error: examError } = await supabase
+      .rpc("get_open_exam", { _email: email });
 
-    if (examError || !exams || exams.length === 0) {
-      toast.error("No active exams available at this time");
-      setLoading(false);
-      return;
+    if (examError || !examId) {
+      console.error("No open exam:", examError);
+      toast.error(examError?.message || "No exams are open at this time");
+      return null;
     }
 
     const { data: session, error } = await supabase
       .from("candidate_sessions")
       .insert({
-        exam_id: exams[0].id,
+        exam_id: examId,
         full_name: fullName,
         email: email,
         contact: contact,
@@ -62,23 +69,42 @@ const CandidateRegister = () => {
       .select()
       .single();
 
-    setLoading(false);
-
     if (error) {
       console.error("Registration error:", error);
       toast.error(`Failed to register for exam: ${error.message || "Please try again."}`);
+      return null;
+    }
+    return session.id;
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    
+    if (!consentGiven) {
+      toast.error("You must consent to recording and academic integrity rules to continue");
       return;
     }
 
+    setLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const gender = formData.get("gender") as string;
+    const sessionId = accessCode.trim()
+      ? await registerWithAccessCode(gender)
+      : await registerOpen(formData, gender);
+
+    setLoading(false);
+    if (!sessionId) return;
+
     toast.success("Registration successful! Redirecting to exam setup...");
     
     // Update session to mark recording as required
     await supabase
       .from("candidate_sessions")
       .update({ recording_required: true })
-      .eq("id", session.id);
+      .eq("id", sessionId);
     
-    navigate(`/candidate/exam/${session.id}`);
+    navigate(`/candidate/exam/${sessionId}/identity`);
   };
 
   return (
@@ -96,42 +122,63 @@ const CandidateRegister = () => {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-6">
+              {/* Access Code */}
+              <div className="space-y-2">
+                <Label htmlFor="access-code">Access Code</Label>
+                <Input
+                  id="access-code"
+                  value={accessCode}
+                  onChange={(e) => setAccessCode(e.target.value.toUpperCase())}
+                  placeholder="Enter the code from your invitation, if you received one"
+                  className="font-mono"
+                />
+                {accessCode.trim() && (
+                  <p className="text-xs text-muted-foreground">
+                    Your name and contact details will be taken from your invitation.
+                  </p>
+                )}
+              </div>
+
               {/* Personal Information */}
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold text-foreground">Personal Information</h3>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="full-name">Full Name *</Label>
-                  <Input
-                    id="full-name"
-                    name="full-name"
-                    type="text"
-                    placeholder="John Doe"
-                    required
-                  />
-                </div>
+                {!accessCode.trim() && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="full-name">Full Name *</Label>
+                      <Input
+                        id="full-name"
+                        name="full-name"
+                        type="text"
+                        placeholder="John Doe"
+                        required
+                      />
+                    </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="email">Email Address *</Label>
-                  <Input
-                    id="email"
-                    name="email"
-                    type="email"
-                    placeholder="john.doe@example.com"
-                    required
-                  />
-                </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="email">Email Address *</Label>
+                      <Input
+                        id="email"
+                        name="email"
+                        type="email"
+                        placeholder="john.doe@example.com"
+                        required
+                      />
+                    </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="contact">Contact Number *</Label>
-                  <Input
-                    id="contact"
-                    name="contact"
-                    type="tel"
-                    placeholder="+1234567890"
-                    required
-                  />
-                </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="contact">Contact Number *</Label>
+                      <Input
+                        id="contact"
+                        name="contact"
+                        type="tel"
+                        placeholder="+1234567890"
+                        required
+                      />
+                    </div>
+                  </>
+                )}
 
                 <div className="space-y-2">
                   <Label>Gender Identification</Label>
@@ -0,0 +1,272 @@
+import { useState, useEffect, useRef } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import SystemCheckReport from "@/components/SystemCheckReport";
+import { createAudioMonitor, DEFAULT_AUDIO_MONITORING } from "@/lib/audioMonitor";
+import {
+  checkCamera,
+  checkCodec,
+  checkMicrophone,
+  checkRecordingUpload,
+  checkStorage,
+  listMediaDevices,
+  openMediaDevices,
+  parseSystemCheck,
+  saveSystemCheck,
+  type MediaDeviceOption,
+  type SystemCheckResult
+} from "@/lib/systemCheck";
+import { Camera, Mic, MonitorCheck, RefreshCw } from "lucide-react";
+
+const CandidateSystemCheck = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+
+  const [cameras, setCameras] = useState<MediaDeviceOption[]>([]);
+  const [microphones, setMicrophones] = useState<MediaDeviceOption[]>([]);
+  const [cameraId, setCameraId] = useState<string | null>(null);
+  const [microphoneId, setMicrophoneId] = useState<string | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  const [level, setLevel] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<SystemCheckResult | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Loudest microphone reading since the current microphone was opened
+  const peakLevelRef = useRef(0);
+
+  useEffect(() => {
+    if (sessionId) loadSession();
+  }, [sessionId]);
+
+  // Reopened whenever the candidate picks another device; the previous one is released first
+  useEffect(() => {
+    if (loading) return;
+    let opened: MediaStream | null = null;
+    let stopLevel: (() => void) | null = null;
+    let cancelled = false;
+
+    openMediaDevices(cameraId, microphoneId)
+      .then(async (media) => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        opened = media;
+        setStream(media);
+        setDeviceError(null);
+        if (videoRef.current) videoRef.current.srcObject = media;
+
+        peakLevelRef.current = 0;
+        if (media.getAudioTracks().length > 0) {
+          const monitor = createAudioMonitor(
+            new MediaStream(media.getAudioTracks()),
+            DEFAULT_AUDIO_MONITORING,
+            ({ level }) => {
+              peakLevelRef.current = Math.max(peakLevelRef.current, level);
+              setLevel(level);
+            },
+            () => {}
+          );
+          stopLevel = monitor.stop;
+        }
+
+        // Device names are only available once access was granted
+        const devices = await listMediaDevices();
+        setCameras(devices.cameras);
+        setMicrophones(devices.microphones);
+      })
+      .catch((error) => {
+        console.error("Failed to open camera and microphone:", error);
+        if (cancelled) return;
+        // A device chosen earlier may be unplugged; fall back to the browser's defaults
+        if (cameraId || microphoneId) {
+          toast.error("The chosen camera or microphone is not available, using the default devices");
+          setCameraId(null);
+          setMicrophoneId(null);
+          return;
+        }
+        setStream(null);
+        setDeviceError(error instanceof Error ? error.message : 'Camera and microphone could not be opened');
+      });
+
+    return () => {
+      cancelled = true;
+      stopLevel?.();
+      opened?.getTracks().forEach(track => track.stop());
+    };
+  }, [loading, cameraId, microphoneId]);
+
+  const loadSession = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("candidate_sessions")
+        .select("id, status, system_check")
+        .eq("id", sessionId)
+        .single();
+
+      if (error) throw error;
+      if (data.status !== 'in_progress') {
+        navigate(`/candidate/exam/${sessionId}`);
+        return;
+      }
+
+      // A rerun starts from the devices chosen last time
+      const previous = parseSystemCheck(data.system_check);
+      if (previous) {
+        setResult(previous);
+        setCameraId(previous.devices.camera_id);
+        setMicrophoneId(previous.devices.microphone_id);
+      }
+    } catch (error) {
+      console.error("Error loading session:", error);
+      toast.error("Failed to load exam session");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runChecks = async () => {
+    if (!sessionId) return;
+    setRunning(true);
+    try {
+      const videoTrack = stream?.getVideoTracks()[0];
+      const audioTrack = stream?.getAudioTracks()[0];
+      const checks = [
+        checkCamera(videoRef.current, stream),
+        checkMicrophone(stream, peakLevelRef.current),
+        checkCodec(),
+        await checkStorage(),
+        ...await checkRecordingUpload(sessionId, stream)
+      ];
+
+      const saved = await saveSystemCheck(sessionId, checks, {
+        camera_id: videoTrack?.getSettings().deviceId ?? cameraId,
+        camera_label: videoTrack?.label || null,
+        microphone_id: audioTrack?.getSettings().deviceId ?? microphoneId,
+        microphone_label: audioTrack?.label || null
+      });
+      setResult(saved);
+
+      if (saved.passed) toast.success("System check passed");
+      else toast.error("Some checks failed. Fix them and run the check again.");
+    } catch (error) {
+      console.error("System check failed:", error);
+      toast.error("Failed to save the system check");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading system check...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle px-6 py-12">
+      <div className="container mx-auto max-w-3xl">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-primary/10">
+              <MonitorCheck className="h-8 w-8 text-primary" />
+            </div>
+            <CardTitle className="text-2xl font-bold">System Check</CardTitle>
+            <CardDescription>
+              Choose your camera and microphone, then check that this browser can record and upload your exam. The results are shared with your proctor.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="system-check-camera" className="flex items-center gap-2">
+                    <Camera className="h-4 w-4" />
+                    Camera
+                  </Label>
+                  <Select value={cameraId ?? ""} onValueChange={setCameraId}>
+                    <SelectTrigger id="system-check-camera">
+                      <SelectValue placeholder="Default camera" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {cameras.map(camera => (
+                        <SelectItem key={camera.id} value={camera.id}>{camera.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="system-check-microphone" className="flex items-center gap-2">
+                    <Mic className="h-4 w-4" />
+                    Microphone
+                  </Label>
+                  <Select value={microphoneId ?? ""} onValueChange={setMicrophoneId}>
+                    <SelectTrigger id="system-check-microphone">
+                      <SelectValue placeholder="Default microphone" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {microphones.map(microphone => (
+                        <SelectItem key={microphone.id} value={microphone.id}>{microphone.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-sm font-normal">Microphone level - say a few words</Label>
+                  <Progress value={level * 100} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <video
+                  ref={videoRef}
+                  autoPlay
+                  muted
+                  playsInline
+                  className="w-full aspect-video rounded-lg bg-black object-cover"
+                />
+                {deviceError && (
+                  <p className="text-sm text-destructive">{deviceError}</p>
+                )}
+              </div>
+            </div>
+
+            {result && <SystemCheckReport checks={result.checks} />}
+
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Button variant="outline" className="flex-1" onClick={runChecks} disabled={running}>
+                <RefreshCw className={`mr-2 h-4 w-4 ${running ? 'animate-spin' : ''}`} />
+                {running ? "Checking..." : result ? "Run Check Again" : "Run System Check"}
+              </Button>
+              <Button
+                className="flex-1"
+                disabled={running || !result?.passed}
+                onClick={() => navigate(`/candidate/exam/${sessionId}`)}
+              >
+                Continue to Exam
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default CandidateSystemCheck;
@@ -8,12 +8,31 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import SectionPoolSettings, { type SectionPool } from "@/components/SectionPoolSettings";
+import ExamScheduleSettings from "@/components/ExamScheduleSettings";
+import FaceMonitoringSettings from "@/components/FaceMonitoringSettings";
+import AudioMonitoringSettings from "@/components/AudioMonitoringSettings";
+import HeartbeatSettings from "@/components/HeartbeatSettings";
+import LockdownSettings from "@/components/LockdownSettings";
+import RoomScanSettings from "@/components/RoomScanSettings";
+import RubricEditor from "@/components/RubricEditor";
+import TestCaseEditor from "@/components/TestCaseEditor";
+import CodeEditor from "@/components/CodeEditor";
+import { cleanRubric, type RubricCriterion } from "@/lib/grading";
+import { LANGUAGES, type TestCase } from "@/lib/codeRunner";
+import { DEFAULT_FACE_MONITORING, type FaceMonitoring } from "@/lib/faceMonitor";
+import { DEFAULT_AUDIO_MONITORING, type AudioMonitoring } from "@/lib/audioMonitor";
+import { DEFAULT_CONNECTION_SETTINGS, type ConnectionSettings } from "@/lib/heartbeat";
+import { DEFAULT_LOCKDOWN, type Lockdown } from "@/lib/lockdown";
+import { DEFAULT_ROOM_SCAN, type RoomScan } from "@/lib/roomScan";
+import { browserTimezone, DEFAULT_SCHEDULE, validateSchedule, type ExamSchedule } from "@/lib/schedule";
 import { ArrowLeft, Plus, Trash2, Save, Eye } from "lucide-react";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 
-interface ExamSection {
+interface ExamSection extends SectionPool {
   id: string;
   section_type: 'mcq' | 'theoretical' | 'practical';
   title: string;
@@ -29,14 +48,29 @@ interface ExamQuestion {
   options?: string[];
   correct_answer?: string;
   points: number;
+  rubric: RubricCriterion[];
+  language: string | null;
+  starter_code: string;
+  test_cases: TestCase[];
 }
 
+// Practical questions without a language are graded by hand only
+const NO_LANGUAGE = "none";
+
 const CreateExam = () => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [examTitle, setExamTitle] = useState("");
   const [examDescription, setExamDescription] = useState("");
-  const [rotationSlot, setRotationSlot] = useState(1);
+  const [schedule, setSchedule] = useState<ExamSchedule>({ ...DEFAULT_SCHEDULE, timezone: browserTimezone() });
+  const [faceMonitoring, setFaceMonitoring] = useState<FaceMonitoring>(DEFAULT_FACE_MONITORING);
+  const [audioMonitoring, setAudioMonitoring] = useState<AudioMonitoring>(DEFAULT_AUDIO_MONITORING);
+  const [connectionSettings, setConnectionSettings] = useState<ConnectionSettings>(DEFAULT_CONNECTION_SETTINGS);
+  const [lockdown, setLockdown] = useState<Lockdown>(DEFAULT_LOCKDOWN);
+  const [roomScan, setRoomScan] = useState<RoomScan>(DEFAULT_ROOM_SCAN);
+  const [shuffleQuestions, setShuffleQuestions] = useState(true);
+  const [shuffleOptions, setShuffleOptions] = useState(true);
+  const [gradingThreshold, setGradingThreshold] = useState(1);
   const [sections, setSections] = useState<ExamSection[]>([
     {
       id: "1",
@@ -44,7 +78,11 @@ const CreateExam = () => {
       title: "Multiple Choice Questions",
       timer_minutes: 30,
       section_order: 1,
-      questions: []
+      questions: [],
+      pool_draw_count: null,
+      pool_tags: [],
+      pool_difficulty: null,
+      pool_topic: null
     },
     {
       id: "2", 
@@ -52,7 +90,11 @@ const CreateExam = () => {
       title: "Theoretical Questions",
       timer_minutes: 45,
       section_order: 2,
-      questions: []
+      questions: [],
+      pool_draw_count: null,
+      pool_tags: [],
+      pool_difficulty: null,
+      pool_topic: null
     },
     {
       id: "3",
@@ -60,7 +102,11 @@ const CreateExam = () => {
       title: "Practical Coding",
       timer_minutes: 60,
       section_order: 3,
-      questions: []
+      questions: [],
+      pool_draw_count: null,
+      pool_tags: [],
+      pool_difficulty: null,
+      pool_topic: null
     }
   ]);
 
@@ -73,7 +119,11 @@ const CreateExam = () => {
           question_order: section.questions.length + 1,
           options: section.section_type === "mcq" ? ["", "", "", ""] : undefined,
           correct_answer: "",
-          points: 1
+          points: 1,
+          rubric: [],
+          language: null,
+          starter_code: "",
+          test_cases: []
         };
         return {
           ...section,
@@ -122,7 +172,13 @@ const CreateExam = () => {
       return;
     }
 
-    const totalQuestions = sections.reduce((sum, section) => sum + section.questions.length, 0);
+    const scheduleError = validateSchedule(schedule);
+    if (scheduleError) {
+      toast.error(scheduleError);
+      return;
+    }
+
+    const totalQuestions = sections.reduce((sum, section) => sum + (section.pool_draw_count ?? section.questions.length), 0);
     if (totalQuestions === 0) {
       toast.error("Please add at least one question to the exam");
       return;
@@ -130,6 +186,8 @@ const CreateExam = () => {
 
     // Validate questions
     for (const section of sections) {
+      // Pool sections draw from the bank at exam time; authored questions are not saved
+      if (section.pool_draw_count !== null) continue;
       for (const question of section.questions) {
         if (!question.question_text.trim()) {
           toast.error(`Please fill in all question texts in ${section.title}`);
@@ -155,7 +213,15 @@ const CreateExam = () => {
         .insert({
           title: examTitle,
           description: examDescription,
-          rotation_slot: rotationSlot,
+          ...schedule,
+          ...faceMonitoring,
+          ...audioMonitoring,
+          ...connectionSettings,
+          ...lockdown,
+          ...roomScan,
+          shuffle_questions: shuffleQuestions,
+          shuffle_options: shuffleOptions,
+          grading_threshold: gradingThreshold,
           is_active: true,
           created_by: (await supabase.auth.getUser()).data.user?.id
         })
@@ -173,27 +239,54 @@ const CreateExam = () => {
             section_type: section.section_type,
             section_order: section.section_order,
             title: section.title,
-            timer_minutes: section.timer_minutes
+            timer_minutes: section.timer_minutes,
+            pool_draw_count: section.pool_draw_count,
+            pool_tags: section.pool_tags,
+            pool_difficulty: section.pool_difficulty,
+            pool_topic: section.pool_topic
           })
           .select()
           .single();
 
         if (sectionError) throw sectionError;
 
+        if (section.pool_draw_count !== null) continue;
+
         // Create questions
         for (const question of section.questions) {
-          const { error: questionError } = await supabase
+          const language = section.section_type === "practical" ? question.language : null;
+          const { data: examQuestion, error: questionError } = await supabase
             .from("exam_questions")
             .insert({
               section_id: examSection.id,
               question_text: question.question_text,
               question_order: question.question_order,
+              section_type: section.section_type,
               options: question.options ? JSON.stringify(question.options) : null,
               correct_answer: question.correct_answer,
-              points: question.points
-            });
+              points: question.points,
+              rubric: section.section_type === "mcq" ? [] : cleanRubric(question.rubric),
+              language,
+              starter_code: language ? question.starter_code || null : null
+            })
+            .select()
+            .single();
 
           if (questionError) throw questionError;
+
+          if (language && question.test_cases.length > 0) {
+            const { error: testCasesError } = await supabase
+              .from("question_test_cases")
+              .insert(question.test_cases.map((testCase, index) => ({
+                question_id: examQuestion.id,
+                test_order: index + 1,
+                input: testCase.input,
+                expected_output: testCase.expected_output,
+                is_hidden: testCase.is_hidden
+              })));
+
+            if (testCasesError) throw testCasesError;
+          }
         }
       }
 
@@ -273,32 +366,50 @@ const CreateExam = () => {
                   />
                 </div>
 
+                <ExamScheduleSettings schedule={schedule} onChange={setSchedule} />
+
+                <FaceMonitoringSettings settings={faceMonitoring} onChange={setFaceMonitoring} />
+
+                <AudioMonitoringSettings settings={audioMonitoring} onChange={setAudioMonitoring} />
+
+                <HeartbeatSettings settings={connectionSettings} onChange={setConnectionSettings} />
+
+                <LockdownSettings settings={lockdown} onChange={setLockdown} />
+
+                <RoomScanSettings settings={roomScan} onChange={setRoomScan} />
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="shuffle-questions">Shuffle question order</Label>
+                    <Switch id="shuffle-questions" checked={shuffleQuestions} onCheckedChange={setShuffleQuestions} />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="shuffle-options">Shuffle answer options</Label>
+                    <Switch id="shuffle-options" checked={shuffleOptions} onCheckedChange={setShuffleOptions} />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Each candidate gets their own order, kept the same if they reload the exam
+                  </p>
+                </div>
+
                 <div className="space-y-2">
-                  <Label htmlFor="rotation">Rotation Slot</Label>
-                  <Select value={rotationSlot.toString()} onValueChange={(value) => setRotationSlot(parseInt(value))}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="1">Slot 1 (00:00-02:00)</SelectItem>
-                      <SelectItem value="2">Slot 2 (02:00-04:00)</SelectItem>
-                      <SelectItem value="3">Slot 3 (04:00-06:00)</SelectItem>
-                      <SelectItem value="4">Slot 4 (06:00-08:00)</SelectItem>
-                      <SelectItem value="5">Slot 5 (08:00-10:00)</SelectItem>
-                      <SelectItem value="6">Slot 6 (10:00-12:00)</SelectItem>
-                      <SelectItem value="7">Slot 7 (12:00-14:00)</SelectItem>
-                      <SelectItem value="8">Slot 8 (14:00-16:00)</SelectItem>
-                      <SelectItem value="9">Slot 9 (16:00-18:00)</SelectItem>
-                      <SelectItem value="10">Slot 10 (18:00-20:00)</SelectItem>
-                      <SelectItem value="11">Slot 11 (20:00-22:00)</SelectItem>
-                      <SelectItem value="12">Slot 12 (22:00-00:00)</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="grading-threshold">Grader Disagreement Threshold</Label>
+                  <Input
+                    id="grading-threshold"
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={gradingThreshold}
+                    onChange={(e) => setGradingThreshold(Math.max(0, parseFloat(e.target.value) || 0))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Written answers are marked by two graders; a larger difference in points sends the answer to a third grader
+                  </p>
                 </div>
 
                 <div className="pt-4 border-t">
                   <div className="text-sm text-muted-foreground">
-                    <p><strong>Total Questions:</strong> {sections.reduce((sum, section) => sum + section.questions.length, 0)}</p>
+                    <p><strong>Total Questions:</strong> {sections.reduce((sum, section) => sum + (section.pool_draw_count ?? section.questions.length), 0)}</p>
                     <p><strong>Total Time:</strong> {sections.reduce((sum, section) => sum + section.timer_minutes, 0)} minutes</p>
                   </div>
                 </div>
@@ -333,17 +444,21 @@ const CreateExam = () => {
                             </Badge>
                           </CardTitle>
                           <CardDescription>
-                            {section.questions.length} questions • {section.timer_minutes} minutes
+                            {section.pool_draw_count !== null
+                              ? `${section.pool_draw_count} questions drawn per candidate`
+                              : `${section.questions.length} questions`} • {section.timer_minutes} minutes
                           </CardDescription>
                         </div>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => addQuestion(section.id)}
-                        >
-                          <Plus className="mr-2 h-4 w-4" />
-                          Add Question
-                        </Button>
+                        {section.pool_draw_count === null && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => addQuestion(section.id)}
+                          >
+                            <Plus className="mr-2 h-4 w-4" />
+                            Add Question
+                          </Button>
+                        )}
                       </div>
                     </CardHeader>
                     <CardContent className="space-y-4">
@@ -370,8 +485,15 @@ const CreateExam = () => {
                         </div>
                       </div>
 
+                      <SectionPoolSettings
+                        sectionId={section.id}
+                        sectionType={section.section_type}
+                        pool={section}
+                        onChange={(field, value) => updateSection(section.id, field, value)}
+                      />
+
                       {/* Questions */}
-                      {section.questions.map((question, index) => (
+                      {section.pool_draw_count === null && section.questions.map((question, index) => (
                         <Card key={question.id} className="border-l-4 border-l-primary">
                           <CardHeader className="pb-3">
                             <div className="flex items-center justify-between">
@@ -450,11 +572,60 @@ const CreateExam = () => {
                                 />
                               </div>
                             </div>
+
+                            {section.section_type === "practical" && (
+                              <div className="space-y-4">
+                                <div className="space-y-2">
+                                  <Label>Language</Label>
+                                  <Select
+                                    value={question.language || NO_LANGUAGE}
+                                    onValueChange={(value) => updateQuestion(section.id, question.id, "language", value === NO_LANGUAGE ? null : value)}
+                                  >
+                                    <SelectTrigger className="w-48">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value={NO_LANGUAGE}>No tests</SelectItem>
+                                      {LANGUAGES.map(language => (
+                                        <SelectItem key={language.value} value={language.value}>{language.label}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+
+                                {question.language && (
+                                  <>
+                                    <div className="space-y-2">
+                                      <Label>Starter Code</Label>
+                                      <CodeEditor
+                                        value={question.starter_code}
+                                        language={question.language}
+                                        onChange={(value) => updateQuestion(section.id, question.id, "starter_code", value)}
+                                        placeholder="Code the candidate starts from (optional)"
+                                        minHeight="120px"
+                                      />
+                                    </div>
+                                    <TestCaseEditor
+                                      testCases={question.test_cases}
+                                      onChange={(testCases) => updateQuestion(section.id, question.id, "test_cases", testCases)}
+                                    />
+                                  </>
+                                )}
+                              </div>
+                            )}
+
+                            {section.section_type !== "mcq" && (
+                              <RubricEditor
+                                rubric={question.rubric}
+                                maxPoints={question.points}
+                                onChange={(rubric) => updateQuestion(section.id, question.id, "rubric", rubric)}
+                              />
+                            )}
                           </CardContent>
                         </Card>
                       ))}
 
-                      {section.questions.length === 0 && (
+                      {section.pool_draw_count === null && section.questions.length === 0 && (
                         <div className="text-center py-8 text-muted-foreground">
                           <p>No questions added yet.</p>
                           <p className="text-sm">Click "Add Question" to get started.</p>
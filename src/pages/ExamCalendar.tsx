@@ -0,0 +1,204 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { formatInTimezone, getLateEntryCutoff, getWindowStatus, getWindowStatusColor, getWindowStatusLabel, type ExamSchedule } from "@/lib/schedule";
+import { eachDayOfInterval, endOfDay, format, startOfDay } from "date-fns";
+import { ArrowLeft, CalendarDays, Edit } from "lucide-react";
+
+interface ScheduledExam extends ExamSchedule {
+  id: string;
+  title: string;
+  is_active: boolean;
+  opens_at: string;
+}
+
+// A sitting with no closing time is shown on its opening day only
+const sittingDays = (exam: ScheduledExam) =>
+  eachDayOfInterval({
+    start: startOfDay(new Date(exam.opens_at)),
+    end: startOfDay(new Date(exam.closes_at ?? exam.opens_at))
+  });
+
+const overlapsDay = (exam: ScheduledExam, day: Date) =>
+  new Date(exam.opens_at) <= endOfDay(day) &&
+  new Date(exam.closes_at ?? exam.opens_at) >= startOfDay(day);
+
+const ExamCalendar = () => {
+  const navigate = useNavigate();
+  const [exams, setExams] = useState<ScheduledExam[]>([]);
+  const [selectedDay, setSelectedDay] = useState<Date>(new Date());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSchedule();
+  }, []);
+
+  const loadSchedule = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("exams")
+        .select("id, title, is_active, opens_at, closes_at, timezone, late_entry_minutes, max_attempts")
+        .not("opens_at", "is", null)
+        .order("opens_at");
+
+      if (error) throw error;
+      setExams((data as ScheduledExam[]) || []);
+    } catch (error) {
+      console.error("Error loading exam schedule:", error);
+      toast.error("Failed to load exam schedule");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading calendar...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const upcoming = exams.filter(exam => !exam.closes_at || new Date(exam.closes_at) > now);
+  const dayExams = exams.filter(exam => overlapsDay(exam, selectedDay));
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      {/* Header */}
+      <header className="border-b border-border bg-card shadow-sm">
+        <div className="container mx-auto flex items-center gap-4 px-6 py-4">
+          <Button variant="outline" size="sm" onClick={() => navigate("/admin/manage-exams")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Exam Calendar</h1>
+            <p className="text-sm text-muted-foreground">Scheduled sitting windows, in each exam's own timezone</p>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <div className="grid gap-6 lg:grid-cols-[auto_1fr]">
+          <Card>
+            <CardContent className="p-2">
+              <Calendar
+                mode="single"
+                selected={selectedDay}
+                onSelect={(day) => day && setSelectedDay(day)}
+                modifiers={{ sitting: exams.filter(exam => exam.is_active).flatMap(sittingDays) }}
+                modifiersClassNames={{ sitting: "bg-primary/15 font-semibold" }}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="h-5 w-5" />
+                {format(selectedDay, "EEEE d MMMM yyyy")}
+              </CardTitle>
+              <CardDescription>Sittings open on this day</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {dayExams.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">No sittings on this day</p>
+              ) : (
+                <div className="space-y-3">
+                  {dayExams.map(exam => (
+                    <div key={exam.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="space-y-1">
+                        <p className="font-medium">{exam.title}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatInTimezone(exam.opens_at, exam.timezone)}
+                          {exam.closes_at && ` – ${formatInTimezone(exam.closes_at, exam.timezone)}`}
+                          {` (${exam.timezone})`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {!exam.is_active && <Badge variant="secondary">Inactive</Badge>}
+                        <Badge className={getWindowStatusColor(getWindowStatus(exam, now))}>
+                          {getWindowStatusLabel(getWindowStatus(exam, now))}
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Upcoming Sittings</CardTitle>
+            <CardDescription>Windows that are open now or have not opened yet</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {upcoming.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No upcoming sittings scheduled</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Exam</TableHead>
+                    <TableHead>Opens</TableHead>
+                    <TableHead>Closes</TableHead>
+                    <TableHead>Late Entry Until</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {upcoming.map(exam => {
+                    const cutoff = getLateEntryCutoff(exam);
+                    return (
+                      <TableRow key={exam.id}>
+                        <TableCell>
+                          <p className="font-medium">{exam.title}</p>
+                          <p className="text-xs text-muted-foreground">{exam.timezone}</p>
+                        </TableCell>
+                        <TableCell>{formatInTimezone(exam.opens_at, exam.timezone)}</TableCell>
+                        <TableCell>{exam.closes_at ? formatInTimezone(exam.closes_at, exam.timezone) : '-'}</TableCell>
+                        <TableCell>{cutoff ? formatInTimezone(cutoff.toISOString(), exam.timezone) : 'Until close'}</TableCell>
+                        <TableCell>{exam.max_attempts ?? 'Unlimited'}</TableCell>
+                        <TableCell>
+                          {exam.is_active ? (
+                            <Badge className={getWindowStatusColor(getWindowStatus(exam, now))}>
+                              {getWindowStatusLabel(getWindowStatus(exam, now))}
+                            </Badge>
+                          ) : (
+                            <Badge variant="secondary">Inactive</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => navigate(`/admin/exam/${exam.id}/edit`)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default ExamCalendar;
@@ -0,0 +1,439 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import ProctorPoolCard from "@/components/ProctorPoolCard";
+import type { AssignmentMode } from "@/lib/proctorAssignment";
+import {
+  accessLink,
+  getRosterStatus,
+  getRosterStatusColor,
+  getRosterStatusLabel,
+  parseRosterCsv,
+  toCsv,
+  type RosterParseResult
+} from "@/lib/roster";
+import { ArrowLeft, Copy, Download, ShieldAlert, Trash2, Upload, Users } from "lucide-react";
+
+interface RosterEntry {
+  id: string;
+  full_name: string;
+  email: string;
+  contact: string;
+  access_code: string;
+  created_at: string;
+  session: {
+    id: string;
+    status: string;
+    started_at: string;
+  } | null;
+}
+
+interface RegistrationAttempt {
+  id: string;
+  access_code: string | null;
+  reason: string;
+  created_at: string;
+  roster_entry: {
+    full_name: string;
+    email: string;
+  } | null;
+}
+
+const ExamRoster = () => {
+  const navigate = useNavigate();
+  const { examId } = useParams<{ examId: string }>();
+  const [examTitle, setExamTitle] = useState("");
+  const [requiresAccessCode, setRequiresAccessCode] = useState(false);
+  const [assignmentMode, setAssignmentMode] = useState<AssignmentMode>('round_robin');
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [attempts, setAttempts] = useState<RegistrationAttempt[]>([]);
+  const [upload, setUpload] = useState<RosterParseResult | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (examId) loadRoster();
+  }, [examId]);
+
+  const loadRoster = async () => {
+    try {
+      const { data: examData, error: examError } = await supabase
+        .from("exams")
+        .select("title, requires_access_code, proctor_assignment")
+        .eq("id", examId)
+        .single();
+
+      if (examError) throw examError;
+      setExamTitle(examData.title);
+      setRequiresAccessCode(examData.requires_access_code);
+      setAssignmentMode(examData.proctor_assignment as AssignmentMode);
+
+      const { data: rosterData, error: rosterError } = await supabase
+        .from("exam_roster")
+        .select(`
+          *,
+          session:candidate_sessions(id, status, started_at)
+        `)
+        .eq("exam_id", examId)
+        .order("full_name");
+
+      if (rosterError) throw rosterError;
+      setRoster((rosterData as unknown as RosterEntry[]) || []);
+
+      const { data: attemptsData, error: attemptsError } = await supabase
+        .from("registration_attempts")
+        .select(`
+          id,
+          access_code,
+          reason,
+          created_at,
+          roster_entry:exam_roster(full_name, email)
+        `)
+        .eq("exam_id", examId)
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      if (attemptsError) throw attemptsError;
+      setAttempts((attemptsData as unknown as RegistrationAttempt[]) || []);
+    } catch (error) {
+      console.error("Error loading roster:", error);
+      toast.error("Failed to load roster");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleAccessCode = async (checked: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("exams")
+        .update({ requires_access_code: checked })
+        .eq("id", examId);
+
+      if (error) throw error;
+      setRequiresAccessCode(checked);
+      toast.success(checked ? "Only roster candidates can now register" : "Open registration enabled");
+    } catch (error) {
+      console.error("Error updating access code setting:", error);
+      toast.error("Failed to update registration setting");
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseRosterCsv(await file.text());
+
+    // Candidates already on the roster keep their existing code
+    const existing = new Set(roster.map(entry => entry.email.toLowerCase()));
+    const duplicates = result.candidates.filter(candidate => existing.has(candidate.email));
+    setUpload({
+      candidates: result.candidates.filter(candidate => !existing.has(candidate.email)),
+      errors: [
+        ...result.errors,
+        ...duplicates.map(candidate => `${candidate.email} is already on the roster`)
+      ]
+    });
+  };
+
+  const importRoster = async () => {
+    if (!upload || upload.candidates.length === 0) return;
+
+    setImporting(true);
+    try {
+      const { error } = await supabase
+        .from("exam_roster")
+        .insert(upload.candidates.map(candidate => ({ ...candidate, exam_id: examId! })));
+
+      if (error) throw error;
+
+      toast.success(`${upload.candidates.length} candidate(s) added to the roster`);
+      if (!requiresAccessCode) await toggleAccessCode(true);
+      setUpload(null);
+      await loadRoster();
+    } catch (error) {
+      console.error("Error importing roster:", error);
+      toast.error("Failed to import roster");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const removeEntry = async (entryId: string) => {
+    try {
+      const { error } = await supabase
+        .from("exam_roster")
+        .delete()
+        .eq("id", entryId);
+
+      if (error) throw error;
+      setRoster(prev => prev.filter(entry => entry.id !== entryId));
+      toast.success("Candidate removed from the roster");
+    } catch (error) {
+      console.error("Error removing roster entry:", error);
+      toast.error("Failed to remove candidate");
+    }
+  };
+
+  const copyLink = async (accessCode: string) => {
+    try {
+      await navigator.clipboard.writeText(accessLink(accessCode));
+      toast.success("Access link copied");
+    } catch (error) {
+      console.error("Error copying link:", error);
+      toast.error("Failed to copy link");
+    }
+  };
+
+  const exportRoster = () => {
+    const csv = toCsv([
+      ["name", "email", "contact", "access_code", "link", "status"],
+      ...roster.map(entry => [
+        entry.full_name,
+        entry.email,
+        entry.contact,
+        entry.access_code,
+        accessLink(entry.access_code),
+        getRosterStatusLabel(getRosterStatus(entry.session?.status))
+      ])
+    ]);
+
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `roster_${examTitle.replace(/\W+/g, '_')}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading roster...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const startedCount = roster.filter(entry => entry.session).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      {/* Header */}
+      <header className="border-b border-border bg-card shadow-sm">
+        <div className="container mx-auto flex items-center justify-between px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => navigate("/admin/manage-exams")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Candidate Roster</h1>
+              <p className="text-sm text-muted-foreground">{examTitle}</p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={exportRoster} disabled={roster.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export Codes
+          </Button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-sm font-medium text-muted-foreground">On Roster</p>
+              <p className="text-2xl font-bold">{roster.length}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-sm font-medium text-muted-foreground">Started</p>
+              <p className="text-2xl font-bold">{startedCount}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-sm font-medium text-muted-foreground">Not Started</p>
+              <p className="text-2xl font-bold">{roster.length - startedCount}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Registration</CardTitle>
+              <CardDescription>Who may start a session of this exam</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="requires-access-code">Require an access code</Label>
+                <Switch id="requires-access-code" checked={requiresAccessCode} onCheckedChange={toggleAccessCode} />
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                When on, only candidates on this roster can register, each once, using their code or link.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Upload className="h-5 w-5" />
+                Upload Roster
+              </CardTitle>
+              <CardDescription>CSV with name, email and contact columns</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+              {upload && (
+                <>
+                  {upload.errors.length > 0 && (
+                    <div className="p-2 border border-destructive/50 rounded text-sm space-y-1">
+                      {upload.errors.map((message, index) => (
+                        <p key={index} className="text-destructive">{message}</p>
+                      ))}
+                    </div>
+                  )}
+                  <Button onClick={importRoster} disabled={importing || upload.candidates.length === 0}>
+                    {importing ? "Adding..." : `Add ${upload.candidates.length} Candidate(s)`}
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <ProctorPoolCard examId={examId!} mode={assignmentMode} onModeChange={setAssignmentMode} />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Candidates
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {roster.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No candidates on the roster yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Access Code</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roster.map(entry => {
+                    const status = getRosterStatus(entry.session?.status);
+                    return (
+                      <TableRow key={entry.id}>
+                        <TableCell className="font-medium">{entry.full_name}</TableCell>
+                        <TableCell>{entry.email}</TableCell>
+                        <TableCell>{entry.contact || '-'}</TableCell>
+                        <TableCell className="font-mono">{entry.access_code}</TableCell>
+                        <TableCell>
+                          <Badge className={getRosterStatusColor(status)}>{getRosterStatusLabel(status)}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {entry.session ? new Date(entry.session.started_at).toLocaleString() : '-'}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center justify-end gap-2">
+                            {entry.session ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => navigate(`/admin/session/${entry.session!.id}/review`)}
+                              >
+                                Review
+                              </Button>
+                            ) : (
+                              <>
+                                <Button variant="outline" size="sm" onClick={() => copyLink(entry.access_code)} title="Copy access link">
+                                  <Copy className="h-4 w-4" />
+                                </Button>
+                                <Button variant="outline" size="sm" onClick={() => removeEntry(entry.id)} title="Remove">
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Refused Registrations
+            </CardTitle>
+            <CardDescription>Reused codes and attempts outside the exam window</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {attempts.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No refused registrations</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Candidate</TableHead>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {attempts.map(attempt => (
+                    <TableRow key={attempt.id}>
+                      <TableCell>{new Date(attempt.created_at).toLocaleString()}</TableCell>
+                      <TableCell>
+                        {attempt.roster_entry ? (
+                          <>
+                            <p className="font-medium">{attempt.roster_entry.full_name}</p>
+                            <p className="text-xs text-muted-foreground">{attempt.roster_entry.email}</p>
+                          </>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell className="font-mono">{attempt.access_code || '-'}</TableCell>
+                      <TableCell>{attempt.reason}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default ExamRoster;
@@ -8,6 +8,9 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import CodeEditor from "@/components/CodeEditor";
+import { describeOption } from "@/lib/examPaper";
+import { countSessionFlags } from "@/lib/integrity";
 import { 
   ArrowLeft, 
   Eye, 
@@ -24,7 +27,8 @@ import {
   Mail,
   Phone,
   Calendar,
-  Timer
+  Timer,
+  Ban
 } from "lucide-react";
 
 interface ExamSession {
@@ -34,10 +38,11 @@ interface ExamSession {
   contact: string;
   exam_location: string;
   custom_location: string | null;
-  status: 'in_progress' | 'completed' | 'abandoned';
+  status: 'in_progress' | 'completed' | 'abandoned' | 'terminated';
   started_at: string;
   submitted_at: string | null;
   recording_url: string | null;
+  recording_chunk_count: number;
   recording_started_at: string | null;
   flags: any;
   exam: {
@@ -53,15 +58,17 @@ interface AnswerData {
   selected_option: string | null;
   code_submission: any;
   submitted_at: string;
+  is_late: boolean;
   question: {
     question_text: string;
     options: any;
     correct_answer: string | null;
     points: number;
+    section_type: string;
+    language: string | null;
     section: {
-      section_type: string;
       title: string;
-    };
+    } | null;
   };
 }
 
@@ -126,8 +133,9 @@ const ExamSessions = () => {
             options,
             correct_answer,
             points,
+            section_type,
+            language,
             section:exam_sections(
-              section_type,
               title
             )
           )
@@ -203,6 +211,7 @@ const ExamSessions = () => {
       case 'in_progress': return 'bg-blue-100 text-blue-800';
       case 'completed': return 'bg-green-100 text-green-800';
       case 'abandoned': return 'bg-red-100 text-red-800';
+      case 'terminated': return 'bg-red-200 text-red-900';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -212,6 +221,7 @@ const ExamSessions = () => {
       case 'in_progress': return <Clock className="h-4 w-4" />;
       case 'completed': return <CheckCircle className="h-4 w-4" />;
       case 'abandoned': return <AlertTriangle className="h-4 w-4" />;
+      case 'terminated': return <Ban className="h-4 w-4" />;
       default: return null;
     }
   };
@@ -249,7 +259,7 @@ const ExamSessions = () => {
   const groupAnswersBySection = (answers: AnswerData[]) => {
     const sections: { [key: string]: AnswerData[] } = {};
     answers.forEach(answer => {
-      const sectionType = answer.question.section.section_type;
+      const sectionType = answer.question.section_type;
       if (!sections[sectionType]) {
         sections[sectionType] = [];
       }
@@ -433,9 +443,9 @@ const ExamSessions = () => {
 
                           {/* Flags Column */}
                           <TableCell>
-                            {session.flags && Array.isArray(session.flags) && session.flags.length > 0 ? (
+                            {countSessionFlags(session.flags) > 0 ? (
                               <Badge variant="destructive">
-                                {session.flags.length} flag{session.flags.length !== 1 ? 's' : ''}
+                                {countSessionFlags(session.flags)} flag{countSessionFlags(session.flags) !== 1 ? 's' : ''}
                               </Badge>
                             ) : (
                               <Badge variant="secondary">No flags</Badge>
@@ -490,7 +500,7 @@ const ExamSessions = () => {
                                           <CardContent className="p-4">
                                             <h3 className="font-semibold">MCQ Questions</h3>
                                             <p className="text-2xl font-bold">
-                                              {sessionAnswers.filter(a => a.question.section.section_type === 'mcq').length}
+                                              {sessionAnswers.filter(a => a.question.section_type === 'mcq').length}
                                             </p>
                                           </CardContent>
                                         </Card>
@@ -498,7 +508,7 @@ const ExamSessions = () => {
                                           <CardContent className="p-4">
                                             <h3 className="font-semibold">Written Questions</h3>
                                             <p className="text-2xl font-bold">
-                                              {sessionAnswers.filter(a => a.question.section.section_type === 'theoretical').length}
+                                              {sessionAnswers.filter(a => a.question.section_type === 'theoretical').length}
                                             </p>
                                           </CardContent>
                                         </Card>
@@ -511,13 +521,18 @@ const ExamSessions = () => {
                                           {sectionType} Section Questions
                                         </h3>
                                         {sessionAnswers
-                                          .filter(answer => answer.question.section.section_type === sectionType)
+                                          .filter(answer => answer.question.section_type === sectionType)
                                           .map((answer, index) => (
                                             <Card key={answer.id}>
                                               <CardContent className="p-4">
                                                 <div className="flex items-start justify-between mb-3">
                                                   <h4 className="font-medium">Question {index + 1}</h4>
-                                                  <Badge variant="outline">{answer.question.points} points</Badge>
+                                                  <div className="flex items-center gap-2">
+                                                    {answer.is_late && (
+                                                      <Badge variant="destructive" title="Written after the section closed">Late</Badge>
+                                                    )}
+                                                    <Badge variant="outline">{answer.question.points} points</Badge>
+                                                  </div>
                                                 </div>
                                                 
                                                 <p className="text-sm text-muted-foreground mb-4">
@@ -528,11 +543,11 @@ const ExamSessions = () => {
                                                   <div>
                                                     <p className="text-sm font-medium mb-2">Selected Answer:</p>
                                                     <p className="text-sm bg-muted p-2 rounded">
-                                                      {answer.selected_option || 'No answer selected'}
+                                                      {describeOption(answer.question.options, answer.selected_option) || 'No answer selected'}
                                                     </p>
                                                     {answer.question.correct_answer && (
                                                       <p className="text-xs text-muted-foreground mt-1">
-                                                        Correct Answer: {answer.question.correct_answer}
+                                                        Correct Answer: {describeOption(answer.question.options, answer.question.correct_answer)}
                                                       </p>
                                                     )}
                                                   </div>
@@ -547,12 +562,10 @@ const ExamSessions = () => {
                                                   </div>
                                                 )}
 
-                                                {sectionType === 'practical' && answer.code_submission && (
+                                                {sectionType === 'practical' && answer.answer_text && (
                                                   <div>
                                                     <p className="text-sm font-medium mb-2">Code Submission:</p>
-                                                    <pre className="text-sm bg-muted p-2 rounded overflow-x-auto">
-                                                      {JSON.stringify(answer.code_submission, null, 2)}
-                                                    </pre>
+                                                    <CodeEditor value={answer.answer_text} language={answer.question.language} readOnly />
                                                   </div>
                                                 )}
 
@@ -609,6 +622,23 @@ const ExamSessions = () => {
                                     </p>
                                   )}
                                 </div>
+                              ) : session.recording_chunk_count > 0 ? (
+                                <div className="space-y-2">
+                                  <div className="flex items-center gap-2">
+                                    <Video className="h-4 w-4 text-green-600" />
+                                    <span className="text-sm text-green-600">
+                                      {session.recording_chunk_count} chunk{session.recording_chunk_count !== 1 ? 's' : ''}
+                                    </span>
+                                  </div>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => navigate(`/admin/session/${session.id}/review`)}
+                                  >
+                                    <Play className="h-3 w-3 mr-1" />
+                                    Watch in Review
+                                  </Button>
+                                </div>
                               ) : (
                                 <div className="flex items-center gap-2">
                                   <Video className="h-4 w-4 text-muted-foreground" />
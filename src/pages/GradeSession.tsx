@@ -0,0 +1,426 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import CodeEditor from "@/components/CodeEditor";
+import { loadSessionPaper, type PaperQuestion } from "@/lib/examPaper";
+import { candidateCode, isAutoGraded, isManuallyGraded, loadAnswerResults, type AnswerGrade, type AnswerResult } from "@/lib/grading";
+import { ArrowLeft, ChevronLeft, ChevronRight, CheckCircle, ClipboardCheck, Save, Scale } from "lucide-react";
+
+interface GradingAnswer {
+  id: string;
+  question_id: string;
+  answer_text: string | null;
+  code_submission: unknown;
+  is_late: boolean;
+}
+
+interface GradingItem {
+  question: PaperQuestion;
+  sectionTitle: string;
+  answer: GradingAnswer;
+}
+
+interface GradeDraft {
+  criterion_points: number[];
+  points_awarded: number;
+  comment: string;
+}
+
+const GradeSession = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const [examTitle, setExamTitle] = useState("");
+  const [items, setItems] = useState<GradingItem[]>([]);
+  const [grades, setGrades] = useState<Record<string, AnswerGrade>>({});
+  const [results, setResults] = useState<Record<string, AnswerResult>>({});
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [draft, setDraft] = useState<GradeDraft>({ criterion_points: [], points_awarded: 0, comment: "" });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (sessionId) {
+      loadGradingData();
+    }
+  }, [sessionId]);
+
+  const currentItem = items[currentIndex];
+
+  useEffect(() => {
+    if (!currentItem) return;
+    const grade = grades[currentItem.answer.id];
+    setDraft({
+      criterion_points: currentItem.question.rubric.map((_, i) => grade?.criterion_points[i] ?? 0),
+      points_awarded: grade?.points_awarded ?? 0,
+      comment: grade?.comment || ""
+    });
+  }, [currentItem, grades]);
+
+  const loadGradingData = async () => {
+    try {
+      // Marking is blind: candidate details are never loaded here
+      const { data: sessionData, error: sessionError } = await supabase
+        .from("candidate_sessions")
+        .select(`
+          id,
+          exam_id,
+          exam:exams(title)
+        `)
+        .eq("id", sessionId)
+        .single();
+
+      if (sessionError) throw sessionError;
+      setExamTitle(sessionData.exam?.title || "");
+
+      const { data: answersData, error: answersError } = await supabase
+        .from("candidate_answers")
+        .select("id, question_id, answer_text, code_submission, is_late")
+        .eq("session_id", sessionId);
+
+      if (answersError) throw answersError;
+
+      // Graders only ever read their own grades
+      const userId = (await supabase.auth.getUser()).data.user?.id;
+      const answerIds = answersData.map(answer => answer.id);
+      const { data: gradesData, error: gradesError } = answerIds.length > 0 && userId
+        ? await supabase.from("answer_grades").select("*").in("answer_id", answerIds).eq("grader_id", userId)
+        : { data: [], error: null };
+
+      if (gradesError) throw gradesError;
+
+      const paperData = await loadSessionPaper(sessionData.id, sessionData.exam_id, true);
+      const answersByQuestion = new Map(answersData.map(answer => [answer.question_id, answer]));
+
+      const manualItems = paperData.flatMap(section =>
+        section.questions
+          .filter(question =>
+            isManuallyGraded(question.section_type) &&
+            answersByQuestion.has(question.id) &&
+            !isAutoGraded(answersByQuestion.get(question.id)!)
+          )
+          .map(question => ({
+            question,
+            sectionTitle: section.title,
+            answer: answersByQuestion.get(question.id)!
+          }))
+      );
+
+      const resultsMap: Record<string, AnswerResult> = {};
+      (await loadAnswerResults(manualItems.map(item => item.answer.id))).forEach(result => {
+        resultsMap[result.answer_id] = result;
+      });
+
+      // Answers this grader marked, plus those still waiting for another grade
+      const gradingItems = manualItems.filter(item => {
+        const result = resultsMap[item.answer.id];
+        return result && (result.graded_by_me || ['ungraded', 'awaiting_second', 'conflict'].includes(result.status));
+      });
+
+      const gradesMap: Record<string, AnswerGrade> = {};
+      (gradesData || []).forEach(grade => {
+        gradesMap[grade.answer_id] = {
+          ...grade,
+          criterion_points: Array.isArray(grade.criterion_points) ? (grade.criterion_points as number[]) : []
+        };
+      });
+
+      setItems(gradingItems);
+      setGrades(gradesMap);
+      setResults(resultsMap);
+
+      const firstUngraded = gradingItems.findIndex(item => !gradesMap[item.answer.id]);
+      setCurrentIndex(firstUngraded === -1 ? 0 : firstUngraded);
+    } catch (error) {
+      console.error("Error loading grading data:", error);
+      toast.error("Failed to load answers for grading");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateCriterionPoints = (index: number, value: number) => {
+    const max = currentItem.question.rubric[index].points;
+    const criterionPoints = draft.criterion_points.map((points, i) =>
+      i === index ? Math.min(Math.max(0, value), max) : points
+    );
+    setDraft(prev => ({
+      ...prev,
+      criterion_points: criterionPoints,
+      points_awarded: criterionPoints.reduce((sum, points) => sum + points, 0)
+    }));
+  };
+
+  const saveGrade = async () => {
+    if (!currentItem) return;
+
+    const maxPoints = currentItem.question.points;
+    if (draft.points_awarded < 0 || draft.points_awarded > maxPoints) {
+      toast.error(`Points must be between 0 and ${maxPoints}`);
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { data: gradeData, error } = await supabase
+        .from("answer_grades")
+        .upsert({
+          answer_id: currentItem.answer.id,
+          grader_id: (await supabase.auth.getUser()).data.user?.id,
+          points_awarded: draft.points_awarded,
+          criterion_points: draft.criterion_points,
+          comment: draft.comment.trim() || null
+        }, { onConflict: "answer_id,grader_id" })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const updatedGrades = {
+        ...grades,
+        [gradeData.answer_id]: { ...gradeData, criterion_points: draft.criterion_points }
+      };
+      setGrades(updatedGrades);
+
+      const [result] = await loadAnswerResults([gradeData.answer_id]);
+      if (result) setResults(prev => ({ ...prev, [result.answer_id]: result }));
+      toast.success(result?.status === 'conflict'
+        ? "Grade saved. It differs from the other grader's, so the answer goes to a third grader."
+        : "Grade saved");
+
+      // Move on to the next answer that still needs a grade
+      const nextUngraded = items.findIndex((item, i) => i > currentIndex && !updatedGrades[item.answer.id]);
+      if (nextUngraded !== -1) setCurrentIndex(nextUngraded);
+    } catch (error) {
+      console.error("Error saving grade:", error);
+      toast.error("Failed to save grade. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading answers...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const gradedCount = items.filter(item => grades[item.answer.id]).length;
+  const isModeration = (item: GradingItem) =>
+    !grades[item.answer.id] && results[item.answer.id]?.status === 'conflict';
+  // The server rejects changes to the grades behind an agreed or resolved mark
+  const isFinal = (item: GradingItem) =>
+    ['agreed', 'resolved'].includes(results[item.answer.id]?.status ?? '');
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      {/* Header */}
+      <header className="border-b border-border bg-card shadow-sm">
+        <div className="container mx-auto flex items-center justify-between px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => navigate("/admin/grading")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Grade Answers</h1>
+              <p className="text-sm text-muted-foreground">
+                Candidate {sessionId && candidateCode(sessionId)} · {examTitle}
+              </p>
+            </div>
+          </div>
+          <p className="text-sm font-medium">{gradedCount} of {items.length} graded by you</p>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-6 py-8">
+        {items.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <ClipboardCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No answers in this session are waiting for your grade</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-4">
+            {/* Answer list */}
+            <div className="lg:col-span-1">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Answers</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {items.map((item, index) => (
+                    <button
+                      key={item.answer.id}
+                      onClick={() => setCurrentIndex(index)}
+                      className={`w-full flex items-center justify-between rounded-lg border p-2 text-left text-sm ${index === currentIndex ? 'border-primary bg-primary/5' : ''}`}
+                    >
+                      <span className="truncate">{index + 1}. {item.sectionTitle}</span>
+                      {grades[item.answer.id] ? (
+                        <CheckCircle className="h-4 w-4 text-success flex-shrink-0" />
+                      ) : isModeration(item) ? (
+                        <Badge variant="destructive">Third grade</Badge>
+                      ) : (
+                        <Badge variant="outline">Pending</Badge>
+                      )}
+                    </button>
+                  ))}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Current answer */}
+            <div className="lg:col-span-3">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <CardTitle>Question {currentIndex + 1}</CardTitle>
+                      <CardDescription>{currentItem.sectionTitle}</CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {currentItem.answer.is_late && (
+                        <Badge variant="destructive" title="Written after the section closed">Late</Badge>
+                      )}
+                      <Badge variant="outline">{currentItem.question.points} points</Badge>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {isModeration(currentItem) && (
+                    <div className="flex items-center gap-2 p-3 bg-warning/10 border border-warning/20 rounded-lg text-sm">
+                      <Scale className="h-4 w-4" />
+                      The two independent grades for this answer disagree. Your grade will be final.
+                    </div>
+                  )}
+
+                  <p className="text-foreground">{currentItem.question.question_text}</p>
+
+                  <div>
+                    <p className="text-sm font-medium mb-2">
+                      {currentItem.question.section_type === 'practical' ? 'Code Submission:' : 'Answer:'}
+                    </p>
+                    {currentItem.question.section_type === 'practical' && currentItem.answer.answer_text ? (
+                      <CodeEditor value={currentItem.answer.answer_text} language={currentItem.question.language} readOnly />
+                    ) : (
+                      <pre className="text-sm bg-muted p-3 rounded whitespace-pre-wrap overflow-x-auto">
+                        {currentItem.answer.answer_text || 'No answer provided'}
+                      </pre>
+                    )}
+                  </div>
+
+                  <div className="space-y-3 border-t pt-4">
+                    {currentItem.question.rubric.length > 0 ? (
+                      <>
+                        <Label>Rubric</Label>
+                        {currentItem.question.rubric.map((criterion, index) => (
+                          <div key={index} className="flex items-center justify-between gap-4">
+                            <span className="text-sm">{criterion.criterion}</span>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                type="number"
+                                min="0"
+                                max={criterion.points}
+                                step="0.5"
+                                value={draft.criterion_points[index] ?? 0}
+                                onChange={(e) => updateCriterionPoints(index, parseFloat(e.target.value) || 0)}
+                                className="w-20"
+                              />
+                              <span className="text-sm text-muted-foreground w-12">/ {criterion.points}</span>
+                            </div>
+                          </div>
+                        ))}
+                        <p className="text-sm font-medium text-right">
+                          Total: {draft.points_awarded} / {currentItem.question.points}
+                        </p>
+                      </>
+                    ) : (
+                      <div className="flex items-center justify-between gap-4">
+                        <Label htmlFor="grade-points">Points awarded</Label>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            id="grade-points"
+                            type="number"
+                            min="0"
+                            max={currentItem.question.points}
+                            step="0.5"
+                            value={draft.points_awarded}
+                            onChange={(e) => setDraft(prev => ({ ...prev, points_awarded: parseFloat(e.target.value) || 0 }))}
+                            className="w-20"
+                          />
+                          <span className="text-sm text-muted-foreground w-12">/ {currentItem.question.points}</span>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="grade-comment">Comments</Label>
+                    <Textarea
+                      id="grade-comment"
+                      value={draft.comment}
+                      onChange={(e) => setDraft(prev => ({ ...prev, comment: e.target.value }))}
+                      placeholder="Feedback on this answer"
+                      rows={3}
+                    />
+                  </div>
+
+                  {grades[currentItem.answer.id] && (
+                    <p className="text-xs text-muted-foreground">
+                      Last graded: {new Date(grades[currentItem.answer.id].updated_at).toLocaleString()}
+                    </p>
+                  )}
+                  {isFinal(currentItem) && (
+                    <p className="text-xs text-muted-foreground">
+                      The final mark for this answer is set, so this grade can no longer be changed.
+                    </p>
+                  )}
+
+                  <div className="flex justify-between">
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => setCurrentIndex(prev => prev - 1)}
+                        disabled={currentIndex === 0}
+                      >
+                        <ChevronLeft className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => setCurrentIndex(prev => prev + 1)}
+                        disabled={currentIndex === items.length - 1}
+                      >
+                        <ChevronRight className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Button onClick={saveGrade} disabled={saving || isFinal(currentItem)}>
+                      <Save className="mr-2 h-4 w-4" />
+                      {saving ? "Saving..." : "Save Grade"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default GradeSession;
@@ -0,0 +1,286 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { candidateCode } from "@/lib/grading";
+import { ArrowLeft, ClipboardCheck, Scale } from "lucide-react";
+
+interface QueueEntry {
+  session_id: string;
+  exam_title: string;
+  submitted_at: string | null;
+  to_grade: number;
+  conflicts: number;
+}
+
+interface GraderAgreement {
+  grader_id: string;
+  full_name: string | null;
+  email: string | null;
+  double_marked: number;
+  agreed: number;
+  mean_difference: number;
+  bias: number;
+}
+
+interface QuestionAgreement {
+  question_id: string;
+  question_text: string;
+  double_marked: number;
+  agreed: number;
+  mean_difference: number;
+}
+
+interface AgreementStats {
+  graders: GraderAgreement[];
+  questions: QuestionAgreement[];
+}
+
+const ALL_EXAMS = "all";
+
+const formatRate = (agreed: number, total: number) =>
+  total > 0 ? `${((agreed / total) * 100).toFixed(0)}%` : "-";
+
+const GradingQueue = () => {
+  const navigate = useNavigate();
+  const [queue, setQueue] = useState<QueueEntry[]>([]);
+  const [exams, setExams] = useState<{ id: string; title: string }[]>([]);
+  const [examFilter, setExamFilter] = useState<string>(ALL_EXAMS);
+  const [agreement, setAgreement] = useState<AgreementStats>({ graders: [], questions: [] });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  useEffect(() => {
+    loadAgreement();
+  }, [examFilter]);
+
+  const loadQueue = async () => {
+    try {
+      const { data, error } = await supabase.rpc("get_grading_queue");
+      if (error) throw error;
+      setQueue((data as unknown as QueueEntry[]) || []);
+
+      const { data: examsData, error: examsError } = await supabase
+        .from("exams")
+        .select("id, title")
+        .order("title");
+
+      if (examsError) throw examsError;
+      setExams(examsData || []);
+    } catch (error) {
+      console.error("Error loading grading queue:", error);
+      toast.error("Failed to load grading queue");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAgreement = async () => {
+    try {
+      const { data, error } = await supabase.rpc("get_grading_agreement", {
+        _exam_id: examFilter === ALL_EXAMS ? undefined : examFilter
+      });
+      if (error) throw error;
+      setAgreement((data as unknown as AgreementStats) || { graders: [], questions: [] });
+    } catch (error) {
+      console.error("Error loading grading agreement:", error);
+      toast.error("Failed to load grader agreement");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading grading queue...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      {/* Header */}
+      <header className="border-b border-border bg-card shadow-sm">
+        <div className="container mx-auto flex items-center gap-4 px-6 py-4">
+          <Button variant="outline" size="sm" onClick={() => navigate("/admin/dashboard")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Grading</h1>
+            <p className="text-sm text-muted-foreground">Blind double marking of theoretical and practical answers</p>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-6 py-8">
+        <Tabs defaultValue="queue" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="queue">My Queue ({queue.length})</TabsTrigger>
+            <TabsTrigger value="agreement">Grader Agreement</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="queue">
+            <Card>
+              <CardHeader>
+                <CardTitle>Sessions to Grade</CardTitle>
+                <CardDescription>
+                  Candidates are shown by code only. You will not see other graders' marks.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {queue.length === 0 ? (
+                  <div className="text-center py-8">
+                    <ClipboardCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">Nothing is waiting for your grade</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Candidate</TableHead>
+                        <TableHead>Exam</TableHead>
+                        <TableHead>Submitted</TableHead>
+                        <TableHead>To Grade</TableHead>
+                        <TableHead>Third Grade Needed</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {queue.map(entry => (
+                        <TableRow key={entry.session_id}>
+                          <TableCell className="font-mono">{candidateCode(entry.session_id)}</TableCell>
+                          <TableCell>{entry.exam_title}</TableCell>
+                          <TableCell>{entry.submitted_at ? new Date(entry.submitted_at).toLocaleString() : '-'}</TableCell>
+                          <TableCell>{entry.to_grade}</TableCell>
+                          <TableCell>
+                            {entry.conflicts > 0 ? (
+                              <Badge variant="destructive">{entry.conflicts}</Badge>
+                            ) : (
+                              <span className="text-muted-foreground">0</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button size="sm" onClick={() => navigate(`/admin/session/${entry.session_id}/grade`)}>
+                              Grade
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="agreement" className="space-y-4">
+            <div className="flex justify-end">
+              <Select value={examFilter} onValueChange={setExamFilter}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_EXAMS}>All exams</SelectItem>
+                  {exams.map(exam => (
+                    <SelectItem key={exam.id} value={exam.id}>{exam.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Scale className="h-5 w-5" />
+                  Per Grader
+                </CardTitle>
+                <CardDescription>
+                  Bias is the grader's average mark minus their co-grader's on the same answers
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {agreement.graders.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">No double-marked answers yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Grader</TableHead>
+                        <TableHead>Double Marked</TableHead>
+                        <TableHead>Agreement</TableHead>
+                        <TableHead>Mean Difference</TableHead>
+                        <TableHead>Bias</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {agreement.graders.map(grader => (
+                        <TableRow key={grader.grader_id}>
+                          <TableCell>
+                            <p className="font-medium">{grader.full_name || 'Unknown grader'}</p>
+                            <p className="text-xs text-muted-foreground">{grader.email}</p>
+                          </TableCell>
+                          <TableCell>{grader.double_marked}</TableCell>
+                          <TableCell>{formatRate(grader.agreed, grader.double_marked)}</TableCell>
+                          <TableCell>{grader.mean_difference}</TableCell>
+                          <TableCell>{grader.bias > 0 ? `+${grader.bias}` : grader.bias}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Per Question</CardTitle>
+                <CardDescription>Questions with the lowest agreement first; their rubrics may need work</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {agreement.questions.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">No double-marked answers yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Question</TableHead>
+                        <TableHead>Double Marked</TableHead>
+                        <TableHead>Agreement</TableHead>
+                        <TableHead>Mean Difference</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {agreement.questions.map(question => (
+                        <TableRow key={question.question_id}>
+                          <TableCell className="max-w-md truncate">{question.question_text}</TableCell>
+                          <TableCell>{question.double_marked}</TableCell>
+                          <TableCell>{formatRate(question.agreed, question.double_marked)}</TableCell>
+                          <TableCell>{question.mean_difference}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+};
+
+export default GradingQueue;
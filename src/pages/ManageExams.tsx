@@ -6,15 +6,16 @@ import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
-import { ArrowLeft, Plus, Edit, Eye, Trash2, Users, Clock, FileText } from "lucide-react";
+import { formatInTimezone, getWindowStatus, getWindowStatusColor, getWindowStatusLabel, type ExamSchedule } from "@/lib/schedule";
+import { ArrowLeft, Plus, Edit, Eye, Trash2, Users, Clock, FileText, CalendarDays } from "lucide-react";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 
-interface Exam {
+interface Exam extends ExamSchedule {
   id: string;
   title: string;
   description: string | null;
-  rotation_slot: number;
   is_active: boolean;
+  requires_access_code: boolean;
   created_at: string;
   updated_at: string;
   sections_count?: number;
@@ -119,12 +120,6 @@ const ManageExams = () => {
     }
   };
 
-  const getRotationTime = (slot: number) => {
-    const startHour = (slot - 1) * 2;
-    const endHour = startHour + 2;
-    return `${startHour.toString().padStart(2, '0')}:00-${endHour.toString().padStart(2, '0')}:00`;
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
@@ -148,10 +143,16 @@ const ManageExams = () => {
             </Button>
             <h1 className="text-2xl font-bold text-foreground">Manage Exams</h1>
           </div>
-          <Button onClick={() => navigate("/admin/create-exam")}>
-            <Plus className="mr-2 h-4 w-4" />
-            Create New Exam
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/admin/calendar")}>
+              <CalendarDays className="mr-2 h-4 w-4" />
+              Calendar
+            </Button>
+            <Button onClick={() => navigate("/admin/create-exam")}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create New Exam
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -237,7 +238,7 @@ const ManageExams = () => {
                     <TableRow>
                       <TableHead>Exam Title</TableHead>
                       <TableHead>Status</TableHead>
-                      <TableHead>Rotation Slot</TableHead>
+                      <TableHead>Window</TableHead>
                       <TableHead>Sections</TableHead>
                       <TableHead>Questions</TableHead>
                       <TableHead>Sessions</TableHead>
@@ -259,14 +260,29 @@ const ManageExams = () => {
                           </div>
                         </TableCell>
                         <TableCell>
-                          <Badge variant={exam.is_active ? "default" : "secondary"}>
-                            {exam.is_active ? "Active" : "Inactive"}
-                          </Badge>
+                          <div className="flex flex-col items-start gap-1">
+                            <Badge variant={exam.is_active ? "default" : "secondary"}>
+                              {exam.is_active ? "Active" : "Inactive"}
+                            </Badge>
+                            {exam.requires_access_code && (
+                              <Badge variant="outline">Roster only</Badge>
+                            )}
+                          </div>
                         </TableCell>
                         <TableCell>
-                          <div className="text-sm">
-                            <p className="font-medium">Slot {exam.rotation_slot}</p>
-                            <p className="text-muted-foreground">{getRotationTime(exam.rotation_slot)}</p>
+                          <div className="text-sm space-y-1">
+                            <Badge className={getWindowStatusColor(getWindowStatus(exam))}>
+                              {getWindowStatusLabel(getWindowStatus(exam))}
+                            </Badge>
+                            {exam.opens_at && (
+                              <p>Opens {formatInTimezone(exam.opens_at, exam.timezone)}</p>
+                            )}
+                            {exam.closes_at && (
+                              <p>Closes {formatInTimezone(exam.closes_at, exam.timezone)}</p>
+                            )}
+                            {(exam.opens_at || exam.closes_at) && (
+                              <p className="text-muted-foreground">{exam.timezone}</p>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>
@@ -310,6 +326,14 @@ const ManageExams = () => {
                             >
                               <Eye className="h-4 w-4" />
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => navigate(`/admin/exam/${exam.id}/roster`)}
+                              title="Candidate Roster"
+                            >
+                              <Users className="h-4 w-4" />
+                            </Button>
                             <AlertDialog>
                               <AlertDialogTrigger asChild>
                                 <Button variant="outline" size="sm">
@@ -0,0 +1,545 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { parseOptions, type SectionType } from "@/lib/examPaper";
+import { DIFFICULTIES, formatTags, getDifficultyColor, parseTags } from "@/lib/questionBank";
+import { cleanRubric, parseRubric, type RubricCriterion } from "@/lib/grading";
+import RubricEditor from "@/components/RubricEditor";
+import { ArrowLeft, Plus, Edit, Trash2, Library, Search } from "lucide-react";
+
+interface BankQuestion {
+  id: string;
+  section_type: SectionType;
+  question_text: string;
+  options?: string[];
+  correct_answer?: string;
+  points: number;
+  rubric: RubricCriterion[];
+  tags: string[];
+  difficulty: string | null;
+  topic: string | null;
+  updated_at: string;
+}
+
+interface QuestionForm {
+  id?: string;
+  section_type: SectionType;
+  question_text: string;
+  options: string[];
+  correct_answer: string;
+  points: number;
+  rubric: RubricCriterion[];
+  tags: string;
+  difficulty: string | null;
+  topic: string;
+}
+
+const ALL = "all";
+const NO_DIFFICULTY = "none";
+
+const emptyForm = (): QuestionForm => ({
+  section_type: "mcq",
+  question_text: "",
+  options: ["", "", "", ""],
+  correct_answer: "",
+  points: 1,
+  rubric: [],
+  tags: "",
+  difficulty: null,
+  topic: ""
+});
+
+const QuestionBank = () => {
+  const navigate = useNavigate();
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [search, setSearch] = useState("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [typeFilter, setTypeFilter] = useState<string>(ALL);
+  const [difficultyFilter, setDifficultyFilter] = useState<string>(ALL);
+  const [form, setForm] = useState<QuestionForm | null>(null);
+
+  useEffect(() => {
+    loadQuestions();
+  }, []);
+
+  const loadQuestions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("exam_questions")
+        .select("*")
+        .is("section_id", null)
+        .order("updated_at", { ascending: false });
+
+      if (error) throw error;
+
+      setQuestions((data || []).map(q => ({
+        ...q,
+        options: parseOptions(q.options),
+        correct_answer: q.correct_answer ?? undefined,
+        rubric: parseRubric(q.rubric)
+      })));
+    } catch (error) {
+      console.error("Error loading question bank:", error);
+      toast.error("Failed to load question bank");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (question?: BankQuestion) => {
+    if (!question) {
+      setForm(emptyForm());
+      return;
+    }
+    setForm({
+      id: question.id,
+      section_type: question.section_type,
+      question_text: question.question_text,
+      options: question.options || ["", "", "", ""],
+      correct_answer: question.correct_answer || "",
+      points: question.points,
+      rubric: question.rubric,
+      tags: formatTags(question.tags),
+      difficulty: question.difficulty,
+      topic: question.topic || ""
+    });
+  };
+
+  const updateForm = <K extends keyof QuestionForm>(field: K, value: QuestionForm[K]) => {
+    setForm(prev => prev ? { ...prev, [field]: value } : prev);
+  };
+
+  const handleSaveQuestion = async () => {
+    if (!form) return;
+
+    if (!form.question_text.trim()) {
+      toast.error("Please enter the question text");
+      return;
+    }
+    if (form.section_type === "mcq" && form.options.some(opt => !opt.trim())) {
+      toast.error("Please fill in all MCQ options");
+      return;
+    }
+    if (form.section_type === "mcq" && !form.correct_answer) {
+      toast.error("Please select the correct answer");
+      return;
+    }
+
+    setSaving(true);
+
+    const payload = {
+      section_id: null,
+      section_type: form.section_type,
+      question_text: form.question_text,
+      question_order: 0,
+      options: form.section_type === "mcq" ? JSON.stringify(form.options) : null,
+      correct_answer: form.section_type === "mcq" ? form.correct_answer : null,
+      points: form.points,
+      rubric: form.section_type === "mcq" ? [] : cleanRubric(form.rubric),
+      tags: parseTags(form.tags),
+      difficulty: form.difficulty,
+      topic: form.topic.trim() || null
+    };
+
+    try {
+      if (form.id) {
+        const { error } = await supabase
+          .from("exam_questions")
+          .update(payload)
+          .eq("id", form.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("exam_questions")
+          .insert({
+            ...payload,
+            created_by: (await supabase.auth.getUser()).data.user?.id
+          });
+
+        if (error) throw error;
+      }
+
+      toast.success(form.id ? "Question updated" : "Question added to bank");
+      setForm(null);
+      await loadQuestions();
+    } catch (error) {
+      console.error("Error saving question:", error);
+      toast.error("Failed to save question. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteQuestion = async (questionId: string) => {
+    try {
+      const { error } = await supabase
+        .from("exam_questions")
+        .delete()
+        .eq("id", questionId);
+
+      if (error) throw error;
+
+      setQuestions(prev => prev.filter(q => q.id !== questionId));
+      toast.success("Question deleted");
+    } catch (error) {
+      console.error("Error deleting question:", error);
+      toast.error("Failed to delete question. It may already have been answered in an exam.");
+    }
+  };
+
+  const getSectionTypeColor = (type: string) => {
+    switch (type) {
+      case "mcq": return "bg-blue-100 text-blue-800";
+      case "theoretical": return "bg-green-100 text-green-800";
+      case "practical": return "bg-purple-100 text-purple-800";
+      default: return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  const requiredTags = parseTags(tagFilter);
+  const filteredQuestions = questions.filter(q =>
+    (typeFilter === ALL || q.section_type === typeFilter) &&
+    (difficultyFilter === ALL || q.difficulty === difficultyFilter) &&
+    requiredTags.every(tag => q.tags.includes(tag)) &&
+    (!search.trim() ||
+      q.question_text.toLowerCase().includes(search.toLowerCase()) ||
+      (q.topic || "").toLowerCase().includes(search.toLowerCase()))
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading question bank...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      {/* Header */}
+      <header className="border-b border-border bg-card shadow-sm">
+        <div className="container mx-auto flex items-center justify-between px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => navigate("/admin/dashboard")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Question Bank</h1>
+              <p className="text-sm text-muted-foreground">Reusable questions that exam sections can draw from</p>
+            </div>
+          </div>
+          <Button onClick={() => openEditor()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Question
+          </Button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-6 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Library className="h-5 w-5" />
+              Questions
+              <Badge variant="outline">{filteredQuestions.length} of {questions.length}</Badge>
+            </CardTitle>
+            <CardDescription>
+              Tag questions by subject so sections can draw a random set for each candidate
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Filters */}
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search text or topic"
+                  className="pl-9"
+                />
+              </div>
+              <Input
+                value={tagFilter}
+                onChange={(e) => setTagFilter(e.target.value)}
+                placeholder="Tags, e.g. sql, joins"
+              />
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  <SelectItem value="mcq">MCQ</SelectItem>
+                  <SelectItem value="theoretical">Theoretical</SelectItem>
+                  <SelectItem value="practical">Practical</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All difficulties</SelectItem>
+                  {DIFFICULTIES.map(difficulty => (
+                    <SelectItem key={difficulty} value={difficulty} className="capitalize">
+                      {difficulty}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {filteredQuestions.length === 0 ? (
+              <div className="text-center py-12">
+                <Library className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">
+                  {questions.length === 0 ? "The question bank is empty." : "No questions match these filters."}
+                </p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Question</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Difficulty</TableHead>
+                    <TableHead>Topic</TableHead>
+                    <TableHead>Tags</TableHead>
+                    <TableHead>Points</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredQuestions.map((question) => (
+                    <TableRow key={question.id}>
+                      <TableCell>
+                        <p className="max-w-md truncate">{question.question_text}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getSectionTypeColor(question.section_type)}>
+                          {question.section_type.toUpperCase()}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {question.difficulty ? (
+                          <Badge className={`${getDifficultyColor(question.difficulty)} capitalize`}>
+                            {question.difficulty}
+                          </Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{question.topic || "—"}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {question.tags.map(tag => (
+                            <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{question.points}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openEditor(question)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Question</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete this question from the bank? Candidates who already drew it will lose their answer to it.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => deleteQuestion(question.id)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Question Editor Dialog */}
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Edit Question" : "Add Question"}</DialogTitle>
+            <DialogDescription>
+              Bank questions can be drawn by any exam section of the same type
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Question Type</Label>
+                  <Select
+                    value={form.section_type}
+                    onValueChange={(value) => updateForm("section_type", value as SectionType)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mcq">MCQ</SelectItem>
+                      <SelectItem value="theoretical">Theoretical</SelectItem>
+                      <SelectItem value="practical">Practical</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Difficulty</Label>
+                  <Select
+                    value={form.difficulty || NO_DIFFICULTY}
+                    onValueChange={(value) => updateForm("difficulty", value === NO_DIFFICULTY ? null : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_DIFFICULTY}>Not set</SelectItem>
+                      {DIFFICULTIES.map(difficulty => (
+                        <SelectItem key={difficulty} value={difficulty} className="capitalize">
+                          {difficulty}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="bank-question-text">Question Text *</Label>
+                <Textarea
+                  id="bank-question-text"
+                  value={form.question_text}
+                  onChange={(e) => updateForm("question_text", e.target.value)}
+                  placeholder="Enter your question here..."
+                  rows={3}
+                />
+              </div>
+
+              {form.section_type === "mcq" && (
+                <div className="space-y-3">
+                  <Label>Answer Options *</Label>
+                  {form.options.map((option, optionIndex) => (
+                    <div key={optionIndex} className="flex items-center gap-2">
+                      <Input
+                        value={option}
+                        onChange={(e) => {
+                          const newOptions = [...form.options];
+                          newOptions[optionIndex] = e.target.value;
+                          updateForm("options", newOptions);
+                        }}
+                        placeholder={`Option ${String.fromCharCode(65 + optionIndex)}`}
+                      />
+                      <input
+                        type="radio"
+                        name="bank-correct-answer"
+                        checked={form.correct_answer === String.fromCharCode(65 + optionIndex)}
+                        onChange={() => updateForm("correct_answer", String.fromCharCode(65 + optionIndex))}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="bank-topic">Topic</Label>
+                  <Input
+                    id="bank-topic"
+                    value={form.topic}
+                    onChange={(e) => updateForm("topic", e.target.value)}
+                    placeholder="e.g. Databases"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bank-tags">Tags</Label>
+                  <Input
+                    id="bank-tags"
+                    value={form.tags}
+                    onChange={(e) => updateForm("tags", e.target.value)}
+                    placeholder="sql, joins"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bank-points">Points</Label>
+                  <Input
+                    id="bank-points"
+                    type="number"
+                    min="1"
+                    max="10"
+                    value={form.points}
+                    onChange={(e) => updateForm("points", parseInt(e.target.value))}
+                  />
+                </div>
+              </div>
+
+              {form.section_type !== "mcq" && (
+                <RubricEditor
+                  rubric={form.rubric}
+                  maxPoints={form.points}
+                  onChange={(rubric) => updateForm("rubric", rubric)}
+                />
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveQuestion} disabled={saving}>
+              {saving ? "Saving..." : "Save Question"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default QuestionBank;
@@ -8,6 +8,23 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { describeOption, loadSessionPaper, type PaperSection } from "@/lib/examPaper";
+import { calculateScore, getGradeStatusColor, getGradeStatusLabel, isAutoGraded, isManuallyGraded, loadAnswerResults, type AnswerResult } from "@/lib/grading";
+import { parseCodeSubmission } from "@/lib/codeRunner";
+import TestResults from "@/components/TestResults";
+import CodeEditor from "@/components/CodeEditor";
+import ChunkedRecordingPlayer from "@/components/ChunkedRecordingPlayer";
+import IntegrityEventLog from "@/components/IntegrityEventLog";
+import SystemCheckReport from "@/components/SystemCheckReport";
+import TimelineVideo from "@/components/TimelineVideo";
+import RoomScanDialog, { type RoomScanClip } from "@/components/RoomScanDialog";
+import RecordingVerificationBadge from "@/components/RecordingVerificationBadge";
+import { addReviewNote, buildTimelineMarkers, loadTimelineData, type TimelineData } from "@/lib/timeline";
+import { parseSystemCheck } from "@/lib/systemCheck";
+import { verifyRecordings } from "@/lib/recordingVerification";
+import { getIdentityPhotoUrls, getIdentityStatusColor, getIdentityStatusLabel, loadIdentityVerification, type IdentityPhotoUrls, type IdentityVerification } from "@/lib/identity";
+import { countFlaggedEvents, formatExamOffset, getIntegrityEventLabel, getTalkingIntervals, parseIntegrityEvents } from "@/lib/integrity";
 import { 
   ArrowLeft, 
   User, 
@@ -19,11 +36,16 @@ import {
   AlertTriangle,
   CheckCircle,
   Eye,
-  Video
+  Video,
+  Ban,
+  IdCard,
+  ScanLine,
+  ShieldCheck
 } from "lucide-react";
 
 interface SessionData {
   id: string;
+  exam_id: string;
   full_name: string;
   email: string;
   contact: string;
@@ -34,7 +56,15 @@ interface SessionData {
   submitted_at: string | null;
   recording_url: string | null;
   recording_started_at: string | null;
+  recording_chunk_count: number;
+  recording_verification: string | null;
+  recording_verified_at: string | null;
+  recording_verification_detail: string | null;
   flags: any;
+  system_check: Json | null;
+  system_checked_at: string | null;
+  room_scan_path: string | null;
+  room_scan_uploaded_at: string | null;
   exam: {
     title: string;
     description: string;
@@ -48,14 +78,14 @@ interface AnswerData {
   selected_option: string | null;
   code_submission: any;
   submitted_at: string;
+  is_late: boolean;
   question: {
     question_text: string;
     options: any;
     correct_answer: string | null;
     points: number;
-    section: {
-      section_type: string;
-    };
+    section_type: string;
+    language: string | null;
   };
 }
 
@@ -64,9 +94,16 @@ const SessionReview = () => {
   const navigate = useNavigate();
   const [session, setSession] = useState<SessionData | null>(null);
   const [answers, setAnswers] = useState<AnswerData[]>([]);
+  const [paper, setPaper] = useState<PaperSection[]>([]);
+  const [results, setResults] = useState<AnswerResult[]>([]);
   const [loading, setLoading] = useState(true);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [showVideoPreview, setShowVideoPreview] = useState(false);
+  const [timeline, setTimeline] = useState<TimelineData | null>(null);
+  const [identity, setIdentity] = useState<IdentityVerification | null>(null);
+  const [roomScanClip, setRoomScanClip] = useState<RoomScanClip | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [identityPhotos, setIdentityPhotos] = useState<IdentityPhotoUrls | null>(null);
 
   useEffect(() => {
     if (sessionId) {
@@ -99,9 +136,8 @@ const SessionReview = () => {
             options,
             correct_answer,
             points,
-            section:exam_sections(
-              section_type
-            )
+            section_type,
+            language
           )
         `)
         .eq("session_id", sessionId)
@@ -110,6 +146,32 @@ const SessionReview = () => {
       if (answersError) throw answersError;
       setAnswers(answersData || []);
 
+      // Load the marking outcome of theoretical and practical answers
+      const manualAnswerIds = (answersData || [])
+        .filter(answer => isManuallyGraded(answer.question.section_type) && !isAutoGraded(answer))
+        .map(answer => answer.id);
+      setResults(await loadAnswerResults(manualAnswerIds));
+
+      // Load the paper this candidate sat so unanswered and drawn questions are graded too
+      const paperData = await loadSessionPaper(sessionData.id, sessionData.exam_id, true);
+      setPaper(paperData);
+
+      // Sections, saves, answer changes, proctor messages and notes for the recording timeline
+      try {
+        setTimeline(await loadTimelineData(sessionData));
+      } catch (error) {
+        console.error("Error loading session timeline:", error);
+      }
+
+      // Face and ID card photos the candidate submitted before the exam
+      try {
+        const verification = await loadIdentityVerification(sessionData.id);
+        setIdentity(verification);
+        if (verification) setIdentityPhotos(await getIdentityPhotoUrls(verification));
+      } catch (error) {
+        console.error("Error loading identity verification:", error);
+      }
+
       // Load video URL - recording_url now stores just the storage path
       if (sessionData.recording_url) {
         try {
@@ -136,6 +198,35 @@ const SessionReview = () => {
     }
   };
 
+  const handleAddNote = async (notedAt: string, note: string) => {
+    if (!sessionId) return;
+    const saved = await addReviewNote(sessionId, notedAt, note);
+    setTimeline(prev => prev && { ...prev, notes: [...prev.notes, saved] });
+  };
+
+  const verifyRecording = async () => {
+    if (!session) return;
+    setVerifying(true);
+    try {
+      const [result] = await verifyRecordings([session.id]);
+      if (result?.error) throw new Error(result.error);
+      setSession({
+        ...session,
+        recording_verification: result?.status ?? null,
+        recording_verified_at: new Date().toISOString(),
+        recording_verification_detail: result?.detail ?? null
+      });
+      if (result?.status === 'verified') toast.success("Recording matches its checksum");
+      else toast.warning(result?.detail ?? "Recording could not be verified");
+    } catch (error) {
+      console.error("Error verifying recording:", error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Failed to verify recording: ${message}`);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
   const downloadRecording = async () => {
     if (!session?.recording_url) {
       toast.error("No recording available for download");
@@ -174,6 +265,7 @@ const SessionReview = () => {
       case 'in_progress': return 'bg-blue-100 text-blue-800';
       case 'completed': return 'bg-green-100 text-green-800';
       case 'abandoned': return 'bg-red-100 text-red-800';
+      case 'terminated': return 'bg-red-200 text-red-900';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -183,6 +275,7 @@ const SessionReview = () => {
       case 'in_progress': return <Clock className="h-4 w-4" />;
       case 'completed': return <CheckCircle className="h-4 w-4" />;
       case 'abandoned': return <AlertTriangle className="h-4 w-4" />;
+      case 'terminated': return <Ban className="h-4 w-4" />;
       default: return null;
     }
   };
@@ -217,26 +310,6 @@ const SessionReview = () => {
     }
   };
 
-  const calculateScore = () => {
-    let totalPoints = 0;
-    let earnedPoints = 0;
-
-    answers.forEach(answer => {
-      const question = answer.question;
-      totalPoints += question.points;
-
-      if (question.section.section_type === 'mcq' && answer.selected_option === question.correct_answer) {
-        earnedPoints += question.points;
-      } else if (question.section.section_type === 'theoretical' && answer.answer_text) {
-        // For theoretical questions, we'll assume partial credit for now
-        // In a real system, this would need manual grading
-        earnedPoints += question.points * 0.5; // 50% for having an answer
-      }
-    });
-
-    return { earned: earnedPoints, total: totalPoints, percentage: totalPoints > 0 ? (earnedPoints / totalPoints) * 100 : 0 };
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
@@ -264,7 +337,13 @@ const SessionReview = () => {
     );
   }
 
-  const score = calculateScore();
+  const score = calculateScore(paper, answers, results);
+  const resultsByAnswer = new Map(results.map(result => [result.answer_id, result]));
+  const integrityEvents = parseIntegrityEvents(session.flags);
+  const systemCheck = parseSystemCheck(session.system_check);
+  const timelineMarkers = timeline ? buildTimelineMarkers(session.flags, timeline, paper) : [];
+  const flaggedCount = countFlaggedEvents(integrityEvents);
+  const talkingIntervals = getTalkingIntervals(integrityEvents);
 
   return (
     <div className="min-h-screen bg-gradient-subtle">
@@ -320,10 +399,10 @@ const SessionReview = () => {
                   Duration: {formatDuration(session.started_at, session.submitted_at)}
                 </div>
 
-                {session.flags && Array.isArray(session.flags) && session.flags.length > 0 && (
+                {flaggedCount > 0 && (
                   <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
                     <p className="text-sm font-medium text-destructive mb-1">
-                      {session.flags.length} Flag{session.flags.length !== 1 ? 's' : ''} Raised
+                      {flaggedCount} Flag{flaggedCount !== 1 ? 's' : ''} Raised
                     </p>
                     <p className="text-xs text-destructive/80">
                       Review the recording for suspicious activity
@@ -331,6 +410,42 @@ const SessionReview = () => {
                   </div>
                 )}
 
+                {/* Identity Section */}
+                <div className="border-t pt-4">
+                  <h4 className="font-medium mb-2 flex items-center gap-2">
+                    <IdCard className="h-4 w-4" />
+                    Identity
+                  </h4>
+
+                  {identity ? (
+                    <div className="space-y-2">
+                      <Badge className={getIdentityStatusColor(identity.status)}>
+                        {getIdentityStatusLabel(identity.status)}
+                      </Badge>
+                      <div className="grid grid-cols-2 gap-2">
+                        {identityPhotos?.face && (
+                          <a href={identityPhotos.face} target="_blank" rel="noreferrer">
+                            <img src={identityPhotos.face} alt="Face photo" className="w-full aspect-square object-cover rounded" />
+                          </a>
+                        )}
+                        {identityPhotos?.id_document && (
+                          <a href={identityPhotos.id_document} target="_blank" rel="noreferrer">
+                            <img src={identityPhotos.id_document} alt="ID card photo" className="w-full aspect-square object-cover rounded" />
+                          </a>
+                        )}
+                      </div>
+                      {identity.review_note && (
+                        <p className="text-xs text-muted-foreground">Note: {identity.review_note}</p>
+                      )}
+                      {identity.reviewed_at && (
+                        <p className="text-xs text-muted-foreground">Reviewed {new Date(identity.reviewed_at).toLocaleString()}</p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No identity photos submitted</p>
+                  )}
+                </div>
+
                 {/* Recording Section */}
                 <div className="border-t pt-4">
                   <h4 className="font-medium mb-2 flex items-center gap-2">
@@ -360,9 +475,67 @@ const SessionReview = () => {
                         </Button>
                       </div>
                     </div>
+                  ) : session.recording_chunk_count > 0 ? (
+                    <div className="space-y-2">
+                      <p className="text-sm text-muted-foreground">
+                        Recording uploaded in {session.recording_chunk_count} chunk{session.recording_chunk_count !== 1 ? 's' : ''}
+                        {session.status !== 'completed' && ' (session did not complete; playable up to the last uploaded chunk)'}
+                      </p>
+                      <Button size="sm" variant="outline" onClick={() => setShowVideoPreview(true)}>
+                        <Eye className="mr-2 h-4 w-4" />
+                        Preview
+                      </Button>
+                    </div>
                   ) : (
                     <p className="text-sm text-muted-foreground">No recording available</p>
                   )}
+
+                  {(session.recording_url || session.recording_chunk_count > 0) && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <RecordingVerificationBadge
+                        status={session.recording_verification}
+                        verifiedAt={session.recording_verified_at}
+                        detail={session.recording_verification_detail}
+                      />
+                      <Button size="sm" variant="ghost" onClick={verifyRecording} disabled={verifying}>
+                        <ShieldCheck className="mr-2 h-4 w-4" />
+                        {verifying ? "Verifying..." : "Verify"}
+                      </Button>
+                    </div>
+                  )}
+                  {session.recording_verification_detail && session.recording_verification !== 'verified' && (
+                    <p className="text-xs text-destructive mt-1">{session.recording_verification_detail}</p>
+                  )}
+                </div>
+
+                {/* Room Scan Section */}
+                <div className="border-t pt-4">
+                  <h4 className="font-medium mb-2 flex items-center gap-2">
+                    <ScanLine className="h-4 w-4" />
+                    Room Scan
+                  </h4>
+
+                  {session.room_scan_path ? (
+                    <div className="space-y-2">
+                      <p className="text-sm text-muted-foreground">
+                        Uploaded {session.room_scan_uploaded_at ? new Date(session.room_scan_uploaded_at).toLocaleString() : 'before the exam started'}
+                      </p>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setRoomScanClip({
+                          candidateName: session.full_name,
+                          path: session.room_scan_path!,
+                          uploadedAt: session.room_scan_uploaded_at
+                        })}
+                      >
+                        <Eye className="mr-2 h-4 w-4" />
+                        Watch
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No room scan recorded</p>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -374,6 +547,7 @@ const SessionReview = () => {
               <TabsList>
                 <TabsTrigger value="answers">Answers ({answers.length})</TabsTrigger>
                 <TabsTrigger value="summary">Summary</TabsTrigger>
+                <TabsTrigger value="integrity">Integrity ({flaggedCount})</TabsTrigger>
               </TabsList>
 
               <TabsContent value="answers">
@@ -396,28 +570,33 @@ const SessionReview = () => {
                           <div key={answer.id} className="border rounded-lg p-4">
                             <div className="flex items-start justify-between mb-3">
                               <h4 className="font-medium">Question {index + 1}</h4>
-                              <Badge variant="outline">{answer.question.points} points</Badge>
+                              <div className="flex items-center gap-2">
+                                {answer.is_late && (
+                                  <Badge variant="destructive" title="Written after the section closed">Late</Badge>
+                                )}
+                                <Badge variant="outline">{answer.question.points} points</Badge>
+                              </div>
                             </div>
                             
                             <p className="text-sm text-muted-foreground mb-4">
                               {answer.question.question_text}
                             </p>
 
-                            {answer.question.section.section_type === 'mcq' && (
+                            {answer.question.section_type === 'mcq' && (
                               <div>
                                 <p className="text-sm font-medium mb-2">Selected Answer:</p>
                                 <p className="text-sm bg-muted p-2 rounded">
-                                  {answer.selected_option || 'No answer selected'}
+                                  {describeOption(answer.question.options, answer.selected_option) || 'No answer selected'}
                                 </p>
                                 {answer.question.correct_answer && (
                                   <p className="text-xs text-muted-foreground mt-1">
-                                    Correct Answer: {answer.question.correct_answer}
+                                    Correct Answer: {describeOption(answer.question.options, answer.question.correct_answer)}
                                   </p>
                                 )}
                               </div>
                             )}
 
-                            {answer.question.section.section_type === 'theoretical' && (
+                            {answer.question.section_type === 'theoretical' && (
                               <div>
                                 <p className="text-sm font-medium mb-2">Answer:</p>
                                 <p className="text-sm bg-muted p-2 rounded whitespace-pre-wrap">
@@ -426,12 +605,44 @@ const SessionReview = () => {
                               </div>
                             )}
 
-                            {answer.question.section.section_type === 'practical' && answer.code_submission && (
+                            {answer.question.section_type === 'practical' && answer.answer_text && (
                               <div>
                                 <p className="text-sm font-medium mb-2">Code Submission:</p>
-                                <pre className="text-sm bg-muted p-2 rounded overflow-x-auto">
-                                  {JSON.stringify(answer.code_submission, null, 2)}
-                                </pre>
+                                <CodeEditor value={answer.answer_text} language={answer.question.language} readOnly />
+                              </div>
+                            )}
+
+                            {isAutoGraded(answer) && (
+                              <div className="mt-3 p-2 border rounded text-sm space-y-2">
+                                <div className="flex items-center justify-between">
+                                  <Badge className="bg-blue-100 text-blue-800">
+                                    Tests: {parseCodeSubmission(answer.code_submission)!.passed}/{parseCodeSubmission(answer.code_submission)!.total} passed
+                                  </Badge>
+                                  <span className="font-medium">
+                                    Grade: {parseCodeSubmission(answer.code_submission)!.score} / {answer.question.points}
+                                  </span>
+                                </div>
+                                <TestResults results={parseCodeSubmission(answer.code_submission)!.results} />
+                              </div>
+                            )}
+
+                            {isManuallyGraded(answer.question.section_type) && resultsByAnswer.has(answer.id) && (
+                              <div className="mt-3 p-2 border rounded text-sm space-y-1">
+                                <div className="flex items-center justify-between">
+                                  <Badge className={getGradeStatusColor(resultsByAnswer.get(answer.id)!.status)}>
+                                    {getGradeStatusLabel(resultsByAnswer.get(answer.id)!.status)}
+                                  </Badge>
+                                  {resultsByAnswer.get(answer.id)!.final_points !== null && (
+                                    <span className="font-medium">
+                                      Grade: {resultsByAnswer.get(answer.id)!.final_points} / {answer.question.points}
+                                    </span>
+                                  )}
+                                </div>
+                                {resultsByAnswer.get(answer.id)!.comments.map((comment, commentIndex) => (
+                                  <p key={commentIndex} className="text-muted-foreground whitespace-pre-wrap">
+                                    {comment}
+                                  </p>
+                                ))}
                               </div>
                             )}
 
@@ -470,18 +681,103 @@ const SessionReview = () => {
                       </div>
                     </div>
 
+                    {score.pending > 0 && (
+                      <p className="mt-4 text-sm text-warning flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4" />
+                        {score.pending} answer{score.pending !== 1 ? 's' : ''} awaiting grading; the score is provisional
+                      </p>
+                    )}
+
                     <div className="mt-6">
                       <h4 className="font-medium mb-2">Exam Details</h4>
                       <div className="space-y-2 text-sm">
                         <p><span className="font-medium">Started:</span> {new Date(session.started_at).toLocaleString()}</p>
                         <p><span className="font-medium">Submitted:</span> {session.submitted_at ? new Date(session.submitted_at).toLocaleString() : 'Not submitted'}</p>
                         <p><span className="font-medium">Status:</span> {session.status}</p>
-                        <p><span className="font-medium">Recording:</span> {session.recording_url ? 'Available' : 'Not available'}</p>
+                        <p><span className="font-medium">Recording:</span> {session.recording_url || session.recording_chunk_count > 0 ? 'Available' : 'Not available'}</p>
                       </div>
                     </div>
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              <TabsContent value="integrity">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Integrity Events</CardTitle>
+                    <CardDescription>
+                      Browser events captured during the exam, timed from the start of the session
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <IntegrityEventLog events={integrityEvents} />
+                  </CardContent>
+                </Card>
+
+                <Card className="mt-4">
+                  <CardHeader>
+                    <CardTitle>Talking Intervals</CardTitle>
+                    <CardDescription>
+                      Sustained speech picked up by the candidate's microphone
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {talkingIntervals.length === 0 ? (
+                      <p className="text-center py-4 text-muted-foreground">No talking was detected</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>From</TableHead>
+                            <TableHead>To</TableHead>
+                            <TableHead>Duration</TableHead>
+                            <TableHead>Detected</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {talkingIntervals.map((interval, index) => (
+                            <TableRow key={index}>
+                              <TableCell className="font-mono">{formatExamOffset(interval.exam_seconds)}</TableCell>
+                              <TableCell className="font-mono">{formatExamOffset(interval.exam_seconds + Math.round(interval.duration_seconds ?? 0))}</TableCell>
+                              <TableCell>{interval.duration_seconds}s</TableCell>
+                              <TableCell>
+                                <Badge variant={interval.type === 'multiple_speakers' ? 'destructive' : 'secondary'}>
+                                  {getIntegrityEventLabel(interval.type)}
+                                </Badge>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="mt-4">
+                  <CardHeader>
+                    <CardTitle>System Check</CardTitle>
+                    <CardDescription>
+                      {systemCheck
+                        ? `Run before the exam on ${new Date(session.system_checked_at).toLocaleString()}`
+                        : "The candidate's browser and devices, as checked before the exam"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {!systemCheck ? (
+                      <p className="text-center py-4 text-muted-foreground">No system check was run</p>
+                    ) : (
+                      <>
+                        <div className="text-sm space-y-1">
+                          <p><span className="font-medium">Camera:</span> {systemCheck.devices.camera_label || 'Default'}</p>
+                          <p><span className="font-medium">Microphone:</span> {systemCheck.devices.microphone_label || 'Default'}</p>
+                          <p className="text-muted-foreground break-words">{systemCheck.user_agent}</p>
+                        </div>
+                        <SystemCheckReport checks={systemCheck.checks} />
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
             </Tabs>
           </div>
         </div>
@@ -489,28 +785,26 @@ const SessionReview = () => {
 
       {/* Video Preview Dialog */}
       <Dialog open={showVideoPreview} onOpenChange={setShowVideoPreview}>
-        <DialogContent className="max-w-5xl max-h-[90vh]">
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Video className="h-5 w-5" />
               Recording Preview - {session?.full_name}
             </DialogTitle>
             <DialogDescription>
-              Preview the exam recording. This video includes screen capture with the candidate's webcam overlay.
+              Preview the exam recording. This video includes screen capture with the candidate's webcam overlay. Click a marker on the timeline to jump to it.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
             {videoUrl ? (
               <div className="relative">
-                <video
-                  controls
-                  className="w-full rounded-lg border"
-                  style={{ maxHeight: '70vh' }}
+                <TimelineVideo
                   src={videoUrl}
-                  preload="metadata"
-                >
-                  Your browser does not support video playback.
-                </video>
+                  origin={session?.recording_started_at ?? session?.started_at ?? ''}
+                  markers={timelineMarkers}
+                  onAddNote={handleAddNote}
+                  maxHeight="50vh"
+                />
                 <div className="mt-4 flex gap-2 justify-end">
                   <Button
                     variant="outline"
@@ -524,6 +818,13 @@ const SessionReview = () => {
                   </Button>
                 </div>
               </div>
+            ) : session && !session.recording_url && session.recording_chunk_count > 0 ? (
+              <ChunkedRecordingPlayer
+                sessionId={session.id}
+                candidateName={session.full_name}
+                markers={timelineMarkers}
+                onAddNote={handleAddNote}
+              />
             ) : (
               <div className="text-center py-8">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
@@ -533,6 +834,8 @@ const SessionReview = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      <RoomScanDialog clip={roomScanClip} onClose={() => setRoomScanClip(null)} />
     </div>
   );
 };
@@ -8,6 +8,11 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import CodeEditor from "@/components/CodeEditor";
+import RecordingVerificationBadge from "@/components/RecordingVerificationBadge";
+import { describeOption } from "@/lib/examPaper";
+import { countSessionFlags } from "@/lib/integrity";
+import { verifyRecordings } from "@/lib/recordingVerification";
 import { 
   ArrowLeft, 
   Eye, 
@@ -25,7 +30,9 @@ import {
   Phone,
   Calendar,
   Timer,
-  Users
+  Users,
+  Ban,
+  ShieldCheck
 } from "lucide-react";
 
 interface ExamSession {
@@ -35,11 +42,15 @@ interface ExamSession {
   contact: string;
   exam_location: string;
   custom_location: string | null;
-  status: 'in_progress' | 'completed' | 'abandoned';
+  status: 'in_progress' | 'completed' | 'abandoned' | 'terminated';
   started_at: string;
   submitted_at: string | null;
   recording_url: string | null;
+  recording_chunk_count: number;
   recording_started_at: string | null;
+  recording_verification: string | null;
+  recording_verified_at: string | null;
+  recording_verification_detail: string | null;
   flags: any;
   exam: {
     title: string;
@@ -54,15 +65,17 @@ interface AnswerData {
   selected_option: string | null;
   code_submission: any;
   submitted_at: string;
+  is_late: boolean;
   question: {
     question_text: string;
     options: any;
     correct_answer: string | null;
     points: number;
+    section_type: string;
+    language: string | null;
     section: {
-      section_type: string;
       title: string;
-    };
+    } | null;
   };
 }
 
@@ -76,6 +89,8 @@ const Submissions = () => {
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [showVideoPreview, setShowVideoPreview] = useState(false);
   const [previewSession, setPreviewSession] = useState<ExamSession | null>(null);
+  // Sessions re-verified so far while a bulk verification runs
+  const [verifyProgress, setVerifyProgress] = useState<{ done: number; total: number } | null>(null);
 
   useEffect(() => {
     loadAllSessions();
@@ -114,8 +129,9 @@ const Submissions = () => {
             options,
             correct_answer,
             points,
+            section_type,
+            language,
             section:exam_sections(
-              section_type,
               title
             )
           )
@@ -192,11 +208,39 @@ const Submissions = () => {
     }
   };
 
+  // Finished sessions only; a session still recording changes with every chunk
+  const verifiableSessions = sessions.filter(s =>
+    s.status !== 'in_progress' && (s.recording_url || s.recording_chunk_count > 0)
+  );
+
+  const reverifyRecordings = async () => {
+    const ids = verifiableSessions.map(s => s.id);
+    setVerifyProgress({ done: 0, total: ids.length });
+    try {
+      const results = await verifyRecordings(ids, (done, total) => setVerifyProgress({ done, total }));
+      const count = (status: string) => results.filter(r => r.status === status).length;
+      const failed = results.filter(r => r.error).length;
+      const summary = `${count('verified')} verified, ${count('mismatch')} mismatched, ${count('missing')} missing`;
+      if (count('mismatch') > 0 || count('missing') > 0 || failed > 0) {
+        toast.warning(`Recordings checked: ${summary}${failed > 0 ? `, ${failed} could not be checked` : ''}`);
+      } else {
+        toast.success(`Recordings checked: ${summary}`);
+      }
+    } catch (error) {
+      console.error("Error verifying recordings:", error);
+      toast.error("Failed to verify recordings");
+    } finally {
+      setVerifyProgress(null);
+      loadAllSessions();
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'in_progress': return 'bg-blue-100 text-blue-800';
       case 'completed': return 'bg-green-100 text-green-800';
       case 'abandoned': return 'bg-red-100 text-red-800';
+      case 'terminated': return 'bg-red-200 text-red-900';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -206,6 +250,7 @@ const Submissions = () => {
       case 'in_progress': return <Clock className="h-4 w-4" />;
       case 'completed': return <CheckCircle className="h-4 w-4" />;
       case 'abandoned': return <AlertTriangle className="h-4 w-4" />;
+      case 'terminated': return <Ban className="h-4 w-4" />;
       default: return null;
     }
   };
@@ -243,7 +288,7 @@ const Submissions = () => {
   const groupAnswersBySection = (answers: AnswerData[]) => {
     const sections: { [key: string]: AnswerData[] } = {};
     answers.forEach(answer => {
-      const sectionType = answer.question.section.section_type;
+      const sectionType = answer.question.section_type;
       if (!sections[sectionType]) {
         sections[sectionType] = [];
       }
@@ -278,6 +323,16 @@ const Submissions = () => {
               <p className="text-sm text-muted-foreground">All candidate exam submissions and recordings</p>
             </div>
           </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={reverifyRecordings}
+            disabled={verifyProgress !== null || verifiableSessions.length === 0}
+            title="Re-hash every stored recording on the server and compare it with its checksum"
+          >
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            {verifyProgress ? `Verifying ${verifyProgress.done}/${verifyProgress.total}...` : "Re-verify Recordings"}
+          </Button>
         </div>
       </header>
 
@@ -427,9 +482,9 @@ const Submissions = () => {
 
                           {/* Flags Column */}
                           <TableCell>
-                            {session.flags && Array.isArray(session.flags) && session.flags.length > 0 ? (
+                            {countSessionFlags(session.flags) > 0 ? (
                               <Badge variant="destructive">
-                                {session.flags.length} flag{session.flags.length !== 1 ? 's' : ''}
+                                {countSessionFlags(session.flags)} flag{countSessionFlags(session.flags) !== 1 ? 's' : ''}
                               </Badge>
                             ) : (
                               <Badge variant="secondary">No flags</Badge>
@@ -484,7 +539,7 @@ const Submissions = () => {
                                           <CardContent className="p-4">
                                             <h3 className="font-semibold">MCQ Questions</h3>
                                             <p className="text-2xl font-bold">
-                                              {sessionAnswers.filter(a => a.question.section.section_type === 'mcq').length}
+                                              {sessionAnswers.filter(a => a.question.section_type === 'mcq').length}
                                             </p>
                                           </CardContent>
                                         </Card>
@@ -492,7 +547,7 @@ const Submissions = () => {
                                           <CardContent className="p-4">
                                             <h3 className="font-semibold">Written Questions</h3>
                                             <p className="text-2xl font-bold">
-                                              {sessionAnswers.filter(a => a.question.section.section_type === 'theoretical').length}
+                                              {sessionAnswers.filter(a => a.question.section_type === 'theoretical').length}
                                             </p>
                                           </CardContent>
                                         </Card>
@@ -505,13 +560,18 @@ const Submissions = () => {
                                           {sectionType} Section Questions
                                         </h3>
                                         {sessionAnswers
-                                          .filter(answer => answer.question.section.section_type === sectionType)
+                                          .filter(answer => answer.question.section_type === sectionType)
                                           .map((answer, index) => (
                                             <Card key={answer.id}>
                                               <CardContent className="p-4">
                                                 <div className="flex items-start justify-between mb-3">
                                                   <h4 className="font-medium">Question {index + 1}</h4>
-                                                  <Badge variant="outline">{answer.question.points} points</Badge>
+                                                  <div className="flex items-center gap-2">
+                                                    {answer.is_late && (
+                                                      <Badge variant="destructive" title="Written after the section closed">Late</Badge>
+                                                    )}
+                                                    <Badge variant="outline">{answer.question.points} points</Badge>
+                                                  </div>
                                                 </div>
                                                 
                                                 <p className="text-sm text-muted-foreground mb-4">
@@ -522,11 +582,11 @@ const Submissions = () => {
                                                   <div>
                                                     <p className="text-sm font-medium mb-2">Selected Answer:</p>
                                                     <p className="text-sm bg-muted p-2 rounded">
-                                                      {answer.selected_option || 'No answer selected'}
+                                                      {describeOption(answer.question.options, answer.selected_option) || 'No answer selected'}
                                                     </p>
                                                     {answer.question.correct_answer && (
                                                       <p className="text-xs text-muted-foreground mt-1">
-                                                        Correct Answer: {answer.question.correct_answer}
+                                                        Correct Answer: {describeOption(answer.question.options, answer.question.correct_answer)}
                                                       </p>
                                                     )}
                                                   </div>
@@ -541,12 +601,10 @@ const Submissions = () => {
                                                   </div>
                                                 )}
 
-                                                {sectionType === 'practical' && answer.code_submission && (
+                                                {sectionType === 'practical' && answer.answer_text && (
                                                   <div>
                                                     <p className="text-sm font-medium mb-2">Code Submission:</p>
-                                                    <pre className="text-sm bg-muted p-2 rounded overflow-x-auto">
-                                                      {JSON.stringify(answer.code_submission, null, 2)}
-                                                    </pre>
+                                                    <CodeEditor value={answer.answer_text} language={answer.question.language} readOnly />
                                                   </div>
                                                 )}
 
@@ -613,6 +671,33 @@ const Submissions = () => {
                                       Started: {new Date(session.recording_started_at).toLocaleString()}
                                     </p>
                                   )}
+                                  <RecordingVerificationBadge
+                                    status={session.recording_verification}
+                                    verifiedAt={session.recording_verified_at}
+                                    detail={session.recording_verification_detail}
+                                  />
+                                </div>
+                              ) : session.recording_chunk_count > 0 ? (
+                                <div className="space-y-2">
+                                  <div className="flex items-center gap-2">
+                                    <Video className="h-4 w-4 text-green-600" />
+                                    <span className="text-sm text-green-600">
+                                      {session.recording_chunk_count} chunk{session.recording_chunk_count !== 1 ? 's' : ''}
+                                    </span>
+                                  </div>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => navigate(`/admin/session/${session.id}/review`)}
+                                  >
+                                    <Play className="h-3 w-3 mr-1" />
+                                    Watch in Review
+                                  </Button>
+                                  <RecordingVerificationBadge
+                                    status={session.recording_verification}
+                                    verifiedAt={session.recording_verified_at}
+                                    detail={session.recording_verification_detail}
+                                  />
                                 </div>
                               ) : (
                                 <div className="flex items-center gap-2">
@@ -0,0 +1,354 @@
+// Supabase Edge Function that runs practical answers against their test cases
+// Each test runs the candidate's program in its own Deno process with the test
+// input on stdin and compares stdout with the expected output. The process gets
+// an empty environment and no Deno permissions: no filesystem, network,
+// environment or subprocesses, so the secrets below never reach it. JavaScript
+// and TypeScript run directly; Python runs under Pyodide (WebAssembly) through
+// python-runner.js, which may only read the Pyodide distribution. V8 flags cap
+// the heap and WebAssembly memory, the process is killed after TEST_TIMEOUT_MS
+// or once it prints more than MAX_OUTPUT_BYTES. Subprocesses need a self-hosted
+// runtime, so deploy this function to the execution container rather than the
+// hosted edge runtime.
+//
+// Expects secrets:
+// - SUPABASE_URL
+// - SUPABASE_ANON_KEY: checks whether the caller is an admin
+// - SUPABASE_SERVICE_ROLE_KEY: writes test results to candidate_answers.code_submission
+// - PYODIDE_DIR: directory holding the Pyodide distribution (pyodide.mjs and its files)
+//
+// Body: { session_id, question_id, mode: "run", code } runs the visible tests on unsaved
+//         code, while the question's section is open for the session
+//       { session_id, question_id, mode: "submit" } grades the saved answer on every test.
+//         Candidates can only have an on-time answer graded once, after its section
+//         closed, and get no results back; admins and the service role can regrade
+//         any answer and get the results
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+type Language = "javascript" | "typescript" | "python";
+
+type TestCase = {
+  id: string;
+  input: string;
+  expected_output: string;
+  is_hidden: boolean;
+};
+
+type TestResult = {
+  test_id: string;
+  hidden: boolean;
+  passed: boolean;
+  duration_ms: number;
+  input?: string;
+  expected_output?: string;
+  actual_output?: string;
+  error?: string;
+};
+
+type SessionRow = {
+  id: string;
+  exam_id: string;
+  status: string;
+  question_set: Record<string, string[]> | null;
+};
+
+const TEST_TIMEOUT_MS = 5000;
+const MAX_OUTPUT_BYTES = 10000;
+const MAX_HEAP_MB = 128;
+// 64 KiB pages: 256 MiB of WebAssembly memory, enough for Pyodide
+const MAX_WASM_PAGES = 4096;
+const V8_FLAGS = `--v8-flags=--max-old-space-size=${MAX_HEAP_MB},--wasm-max-mem-pages=${MAX_WASM_PAGES}`;
+const PYTHON_RUNNER = new URL("./python-runner.js", import.meta.url).pathname;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+}
+
+// Deno without --allow-* flags denies every permission; the Python runner may only read Pyodide
+function argsFor(language: Language, file: string, pyodideDir: string): string[] {
+  switch (language) {
+    case "javascript":
+    case "typescript":
+      return ["run", "--quiet", "--no-prompt", V8_FLAGS, file];
+    case "python":
+      return ["run", "--quiet", "--no-prompt", `--allow-read=${pyodideDir}`, V8_FLAGS, PYTHON_RUNNER, pyodideDir];
+  }
+}
+
+// The Python runner takes the program with its input instead of reading a file
+function stdinFor(language: Language, code: string, input: string): string {
+  return language === "python" ? JSON.stringify({ code, input }) : input;
+}
+
+const EXTENSIONS: Record<Language, string> = { javascript: ".js", typescript: ".ts", python: ".py" };
+
+// Reads a stream up to `limit` bytes; past that `onOverflow` is called once and the rest is dropped
+async function readCapped(stream: ReadableStream<Uint8Array>, limit: number, onOverflow: () => void): Promise<string> {
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  let overflowed = false;
+  for await (const part of stream) {
+    if (overflowed) continue;
+    if (size + part.length > limit) {
+      parts.push(part.subarray(0, limit - size));
+      overflowed = true;
+      onOverflow();
+      continue;
+    }
+    parts.push(part);
+    size += part.length;
+  }
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+// Trailing whitespace and blank lines at the end are not significant
+function normalizeOutput(output: string): string {
+  return output.split("\n").map(line => line.trimEnd()).join("\n").trimEnd();
+}
+
+async function runTest(language: Language, code: string, file: string, dir: string, pyodideDir: string, test: TestCase): Promise<TestResult> {
+  const started = performance.now();
+  const result: TestResult = { test_id: test.id, hidden: test.is_hidden, passed: false, duration_ms: 0 };
+  let timedOut = false;
+  let outputExceeded = false;
+
+  try {
+    const child = new Deno.Command(Deno.execPath(), {
+      args: argsFor(language, file, pyodideDir),
+      cwd: dir,
+      // Deno keeps its cache next to the program, never in the runner's home
+      clearEnv: true,
+      env: { DENO_DIR: `${dir}/.deno`, NO_COLOR: "1" },
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "piped",
+    }).spawn();
+
+    const kill = () => {
+      try {
+        child.kill("SIGKILL");
+      } catch {
+        // Already exited
+      }
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, TEST_TIMEOUT_MS);
+
+    try {
+      const writer = child.stdin.getWriter();
+      await writer.write(new TextEncoder().encode(stdinFor(language, code, test.input))).catch(() => {});
+      await writer.close().catch(() => {});
+
+      // Output is read as it arrives so a print loop is stopped at the cap, not buffered
+      const overflow = () => {
+        outputExceeded = true;
+        kill();
+      };
+      const [actual, errors, status] = await Promise.all([
+        readCapped(child.stdout, MAX_OUTPUT_BYTES, overflow),
+        readCapped(child.stderr, MAX_OUTPUT_BYTES, overflow),
+        child.status,
+      ]);
+
+      result.actual_output = actual;
+      if (timedOut) {
+        result.error = `Timed out after ${TEST_TIMEOUT_MS / 1000}s`;
+      } else if (outputExceeded) {
+        result.error = `Printed more than ${MAX_OUTPUT_BYTES} bytes`;
+      } else {
+        result.passed = status.code === 0 && normalizeOutput(actual) === normalizeOutput(test.expected_output);
+        if (status.code !== 0) result.error = errors || `Exited with code ${status.code}`;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  } catch (e) {
+    result.error = (e as Error).message;
+  }
+
+  result.duration_ms = Math.round(performance.now() - started);
+
+  // Candidates can read their answers, so hidden tests only report pass or fail
+  if (!test.is_hidden) {
+    result.input = test.input;
+    result.expected_output = test.expected_output;
+  } else {
+    delete result.actual_output;
+    if (result.error) result.error = "Hidden test failed to run";
+  }
+  return result;
+}
+
+async function runTests(language: Language, code: string, tests: TestCase[], pyodideDir: string): Promise<TestResult[]> {
+  const dir = await Deno.makeTempDir({ prefix: "run-code-" });
+  try {
+    const file = `${dir}/main${EXTENSIONS[language]}`;
+    await Deno.writeTextFile(file, code);
+    const results: TestResult[] = [];
+    for (const test of tests) results.push(await runTest(language, code, file, dir, pyodideDir, test));
+    return results;
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+async function isAdmin(url: string, anonKey: string, authorization: string): Promise<boolean> {
+  const caller = createClient(url, anonKey, { global: { headers: { Authorization: authorization } } });
+  const { data, error } = await caller.rpc("is_current_user_admin");
+  return !error && data === true;
+}
+
+// Where the question sits in this session's paper: its own section, or the pool section it was drawn into
+async function findSessionSection(
+  supabase: SupabaseClient,
+  session: SessionRow,
+  questionId: string,
+  sectionId: string | null
+): Promise<string | null> {
+  if (!sectionId) {
+    const drawn = Object.entries(session.question_set ?? {}).find(([, ids]) => ids.includes(questionId));
+    return drawn ? drawn[0] : null;
+  }
+  const { data: section } = await supabase
+    .from("exam_sections")
+    .select("id")
+    .eq("id", sectionId)
+    .eq("exam_id", session.exam_id)
+    .maybeSingle();
+  return section?.id ?? null;
+}
+
+// open: started and before its deadline; closed: completed or past its deadline
+async function getSectionState(supabase: SupabaseClient, sessionId: string, sectionId: string) {
+  const { data: progress, error } = await supabase
+    .from("session_section_progress")
+    .select("deadline_at, completed_at")
+    .eq("session_id", sessionId)
+    .eq("section_id", sectionId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!progress) return "not_started";
+  return progress.completed_at || new Date(progress.deadline_at) <= new Date() ? "closed" : "open";
+}
+
+export default async function handler(req: Request): Promise<Response> {
+  try {
+    if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+    if (req.method !== "POST") return new Response("Method Not Allowed", { status: 405, headers: corsHeaders });
+
+    const { session_id, question_id, mode, code } = await req.json();
+    if (!session_id || !question_id || (mode !== "run" && mode !== "submit")) {
+      return json({ error: "session_id, question_id and a mode of run or submit are required" }, 400);
+    }
+
+    const url = Deno.env.get("SUPABASE_URL");
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const pyodideDir = Deno.env.get("PYODIDE_DIR");
+    if (!url || !anonKey || !serviceKey || !pyodideDir) return json({ error: "Supabase secrets not configured" }, 500);
+    const supabase = createClient(url, serviceKey);
+
+    const authorization = req.headers.get("Authorization") ?? "";
+    const privileged = authorization === `Bearer ${serviceKey}` || await isAdmin(url, anonKey, authorization);
+
+    const { data: session, error: sessionError } = await supabase
+      .from("candidate_sessions")
+      .select("id, exam_id, status, question_set")
+      .eq("id", session_id)
+      .single();
+    if (sessionError || !session) return json({ error: "Session not found" }, 404);
+    if (mode === "run" && session.status !== "in_progress") return json({ error: "Session is no longer in progress" }, 409);
+
+    const { data: question, error: questionError } = await supabase
+      .from("exam_questions")
+      .select("language, points, section_type, section_id")
+      .eq("id", question_id)
+      .single();
+    if (questionError || !question) return json({ error: "Question not found" }, 404);
+    if (question.section_type !== "practical" || !question.language) {
+      return json({ error: "Question has no code tests" }, 400);
+    }
+
+    // The session id is the candidate's only credential, so it only reaches questions of its own paper
+    const sectionId = await findSessionSection(supabase, session as SessionRow, question_id, question.section_id);
+    if (!sectionId) return json({ error: "Question is not part of this session" }, 403);
+    const sectionState = await getSectionState(supabase, session_id, sectionId);
+
+    if (mode === "run" && sectionState !== "open") {
+      return json({ error: "Tests can only be run while the section is open" }, 409);
+    }
+    // Grading an open section would let a candidate probe the hidden tests before submitting
+    if (mode === "submit" && !privileged && sectionState !== "closed" && session.status === "in_progress") {
+      return json({ error: "Answers are graded once their section has closed" }, 409);
+    }
+
+    let testsQuery = supabase
+      .from("question_test_cases")
+      .select("id, input, expected_output, is_hidden")
+      .eq("question_id", question_id)
+      .order("test_order");
+    if (mode === "run") testsQuery = testsQuery.eq("is_hidden", false);
+
+    const { data: tests, error: testsError } = await testsQuery;
+    if (testsError) throw testsError;
+
+    if (mode === "run") {
+      if (typeof code !== "string") return json({ error: "code is required" }, 400);
+      const results = await runTests(question.language, code, tests ?? [], pyodideDir);
+      return json({ results, passed: results.filter(r => r.passed).length, total: results.length });
+    }
+
+    // Submissions grade the saved answer, never code sent with the request
+    const { data: answer, error: answerError } = await supabase
+      .from("candidate_answers")
+      .select("id, answer_text, is_late, code_submission")
+      .eq("session_id", session_id)
+      .eq("question_id", question_id)
+      .maybeSingle();
+    if (answerError) throw answerError;
+    if (!answer?.answer_text) return json({ error: "No saved answer to grade" }, 404);
+
+    // Candidates get one grading of the answer they had when the section closed; edits
+    // after that are late, so they cannot be graded again to learn about hidden tests
+    if (!privileged) {
+      if (answer.is_late) return json({ error: "Late answers are graded by an admin" }, 409);
+      if (answer.code_submission) return json({ graded: true });
+    }
+
+    const results = await runTests(question.language, answer.answer_text, tests ?? [], pyodideDir);
+    const passed = results.filter(r => r.passed).length;
+    const codeSubmission = {
+      language: question.language,
+      passed,
+      total: results.length,
+      score: results.length > 0 ? Math.round((question.points * passed / results.length) * 100) / 100 : 0,
+      results,
+      graded_at: new Date().toISOString(),
+    };
+
+    const { error: updateError } = await supabase
+      .from("candidate_answers")
+      .update({ code_submission: codeSubmission })
+      .eq("id", answer.id);
+    if (updateError) throw updateError;
+
+    return json(privileged ? codeSubmission : { graded: true });
+  } catch (e) {
+    return json({ error: (e as Error).message }, 500);
+  }
+}
+
+Deno.serve(handler);
@@ -0,0 +1,43 @@
+// Runs one Python program under Pyodide for run-code.
+// run-code starts this script in its own Deno process with an empty environment
+// and no permissions except reading the Pyodide distribution, so the program
+// has no host filesystem, network, environment variables or subprocesses; even
+// `import js` only reaches this unprivileged Deno. Memory is capped by the V8
+// flags run-code passes, time by run-code killing the process.
+//
+// Usage: deno run --allow-read=<pyodide dir> python-runner.js <pyodide dir>
+// Reads { code, input } as JSON on stdin. The program's stdout and stderr go
+// to this process's stdout and stderr; an uncaught exception exits with 1.
+
+const pyodideDir = Deno.args[0];
+const request = JSON.parse(await new Response(Deno.stdin.readable).text());
+const input = new TextEncoder().encode(request.input ?? "");
+
+const writeAll = (file, buffer) => {
+  let written = 0;
+  while (written < buffer.length) written += file.writeSync(buffer.subarray(written));
+  return buffer.length;
+};
+
+const { loadPyodide } = await import(`file://${pyodideDir}/pyodide.mjs`);
+const pyodide = await loadPyodide({ indexURL: `${pyodideDir}/` });
+
+// The test input is the program's whole stdin
+let offset = 0;
+pyodide.setStdin({
+  read(buffer) {
+    const length = Math.min(buffer.length, input.length - offset);
+    buffer.set(input.subarray(offset, offset + length));
+    offset += length;
+    return length;
+  },
+});
+pyodide.setStdout({ write: (buffer) => writeAll(Deno.stdout, buffer) });
+pyodide.setStderr({ write: (buffer) => writeAll(Deno.stderr, buffer) });
+
+try {
+  await pyodide.runPythonAsync(request.code);
+} catch (e) {
+  writeAll(Deno.stderr, new TextEncoder().encode(String(e?.message ?? e)));
+  Deno.exit(1);
+}
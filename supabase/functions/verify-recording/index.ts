@@ -0,0 +1,187 @@
+// Supabase Edge Function that re-hashes stored exam recordings
+// Chunked recordings are checked chunk by chunk against the SHA-256 in
+// recording_chunks, and the manifest digest against recording_checksum.
+// Recordings uploaded as a single file are hashed whole. The result is stored
+// on the session through record_recording_verification.
+//
+// Expects secrets:
+// - SUPABASE_URL
+// - SUPABASE_ANON_KEY: checks that the caller is an admin
+// - SUPABASE_SERVICE_ROLE_KEY: reads the recordings and stores the results
+//
+// Body: { session_ids: [...] } verifies those sessions (admins, from the dashboard)
+//       {} verifies the next batch of finished sessions never verified (a scheduler,
+//          called with the service role key)
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+type VerificationStatus = "verified" | "mismatch" | "missing";
+
+type SessionRecording = {
+  id: string;
+  recording_url: string | null;
+  recording_checksum: string | null;
+  recording_chunk_count: number;
+};
+
+type VerificationResult = {
+  session_id: string;
+  status?: VerificationStatus;
+  detail?: string;
+  error?: string;
+};
+
+const RECORDING_BUCKET = "exam-recordings";
+// Sessions per request; the dashboard sends larger re-verifications in batches
+const MAX_SESSIONS = 10;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+}
+
+async function sha256Hex(bytes: ArrayBuffer | Uint8Array): Promise<string> {
+  const hash = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(hash)).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function listSequences(sequences: number[]): string {
+  return `${sequences.length === 1 ? "Chunk" : "Chunks"} ${sequences.join(", ")}`;
+}
+
+// Resolves to null when the object is gone; other storage errors are thrown so
+// a flaky connection is not mistaken for a missing recording
+async function download(supabase: SupabaseClient, path: string): Promise<ArrayBuffer | null> {
+  const { data, error } = await supabase.storage.from(RECORDING_BUCKET).download(path);
+  if (error) {
+    const status = (error as { status?: number; statusCode?: string }).status ?? Number((error as { statusCode?: string }).statusCode);
+    if (status === 400 || status === 404 || /not.?found/i.test(error.message)) return null;
+    throw error;
+  }
+  return data ? await data.arrayBuffer() : null;
+}
+
+async function verifyChunks(supabase: SupabaseClient, session: SessionRecording): Promise<VerificationResult> {
+  const { data: chunks, error } = await supabase
+    .from("recording_chunks")
+    .select("sequence, storage_path, sha256")
+    .eq("session_id", session.id)
+    .order("sequence");
+  if (error) throw error;
+
+  const missing: number[] = [];
+  const mismatched: number[] = [];
+  // One chunk in memory at a time
+  for (const chunk of chunks ?? []) {
+    const bytes = await download(supabase, chunk.storage_path);
+    if (!bytes) missing.push(chunk.sequence);
+    else if ((await sha256Hex(bytes)) !== chunk.sha256) mismatched.push(chunk.sequence);
+  }
+
+  // Same digest as update_recording_manifest: the chunk hashes concatenated in sequence order
+  const digest = await sha256Hex(new TextEncoder().encode((chunks ?? []).map(c => c.sha256).join("")));
+  const manifestChanged = digest !== session.recording_checksum;
+
+  const problems: string[] = [];
+  if (manifestChanged) problems.push("The chunk manifest does not match the recording checksum");
+  if (mismatched.length > 0) problems.push(`${listSequences(mismatched)} do not match their checksums`);
+  if (missing.length > 0) problems.push(`${listSequences(missing)} missing from storage`);
+
+  if (manifestChanged || mismatched.length > 0) {
+    return { session_id: session.id, status: "mismatch", detail: problems.join("; ") };
+  }
+  if (missing.length > 0) {
+    return { session_id: session.id, status: "missing", detail: problems.join("; ") };
+  }
+  return { session_id: session.id, status: "verified", detail: `All ${chunks?.length ?? 0} chunks match their checksums` };
+}
+
+async function verifyFile(supabase: SupabaseClient, session: SessionRecording): Promise<VerificationResult> {
+  if (!session.recording_checksum) {
+    return { session_id: session.id, status: "missing", detail: "No checksum was stored for the recording" };
+  }
+  const bytes = await download(supabase, session.recording_url!);
+  if (!bytes) {
+    return { session_id: session.id, status: "missing", detail: "The recording file is missing from storage" };
+  }
+  return (await sha256Hex(bytes)) === session.recording_checksum
+    ? { session_id: session.id, status: "verified", detail: "The recording file matches its checksum" }
+    : { session_id: session.id, status: "mismatch", detail: "The recording file does not match its checksum" };
+}
+
+async function verifySession(supabase: SupabaseClient, session: SessionRecording): Promise<VerificationResult> {
+  const result = session.recording_chunk_count > 0
+    ? await verifyChunks(supabase, session)
+    : session.recording_url
+      ? await verifyFile(supabase, session)
+      : { session_id: session.id, status: "missing" as const, detail: "No recording was uploaded" };
+
+  const { error } = await supabase.rpc("record_recording_verification", {
+    _session_id: session.id,
+    _status: result.status,
+    _detail: result.detail,
+  });
+  if (error) throw error;
+  return result;
+}
+
+async function isAdmin(url: string, anonKey: string, authorization: string): Promise<boolean> {
+  const caller = createClient(url, anonKey, { global: { headers: { Authorization: authorization } } });
+  const { data, error } = await caller.rpc("is_current_user_admin");
+  return !error && data === true;
+}
+
+export default async function handler(req: Request): Promise<Response> {
+  try {
+    if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+    if (req.method !== "POST") return new Response("Method Not Allowed", { status: 405, headers: corsHeaders });
+
+    const url = Deno.env.get("SUPABASE_URL");
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!url || !anonKey || !serviceKey) return json({ error: "Supabase secrets not configured" }, 500);
+
+    const authorization = req.headers.get("Authorization") ?? "";
+    const isScheduler = authorization === `Bearer ${serviceKey}`;
+    if (!isScheduler && !(await isAdmin(url, anonKey, authorization))) {
+      return json({ error: "Only admins can verify recordings" }, 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const sessionIds = body?.session_ids;
+    if (sessionIds !== undefined && (!Array.isArray(sessionIds) || sessionIds.length > MAX_SESSIONS)) {
+      return json({ error: `session_ids must be a list of at most ${MAX_SESSIONS} sessions` }, 400);
+    }
+
+    const supabase = createClient(url, serviceKey);
+    let query = supabase
+      .from("candidate_sessions")
+      .select("id, recording_url, recording_checksum, recording_chunk_count");
+    query = sessionIds
+      ? query.in("id", sessionIds)
+      // Sessions still recording would be cleared again by their next chunk
+      : query.is("recording_verification", null).not("recording_checksum", "is", null)
+        .neq("status", "in_progress").order("started_at").limit(MAX_SESSIONS);
+
+    const { data: sessions, error } = await query;
+    if (error) throw error;
+
+    const results: VerificationResult[] = [];
+    for (const session of sessions ?? []) {
+      try {
+        results.push(await verifySession(supabase, session));
+      } catch (e) {
+        results.push({ session_id: session.id, error: (e as Error).message });
+      }
+    }
+    return json({ results });
+  } catch (e) {
+    return json({ error: (e as Error).message }, 500);
+  }
+}
+
+Deno.serve(handler);
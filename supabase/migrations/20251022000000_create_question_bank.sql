@@ -0,0 +1,136 @@
+-- Question Bank and Per-Candidate Question Draws
+-- This migration lets questions live outside a single exam section and lets
+-- sections draw a random set of bank questions for every candidate session
+
+-- 1. Allow exam_questions rows without a section (these rows form the bank)
+ALTER TABLE public.exam_questions
+ALTER COLUMN section_id DROP NOT NULL;
+
+-- 2. Bank questions need their own section type since there is no parent section
+ALTER TABLE public.exam_questions
+ADD COLUMN IF NOT EXISTS section_type section_type;
+
+UPDATE public.exam_questions q
+SET section_type = s.section_type
+FROM public.exam_sections s
+WHERE q.section_id = s.id AND q.section_type IS NULL;
+
+ALTER TABLE public.exam_questions
+ALTER COLUMN section_type SET NOT NULL;
+
+-- 3. Tagging metadata used to filter the bank
+ALTER TABLE public.exam_questions
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS difficulty TEXT CHECK (difficulty IN ('easy', 'medium', 'hard')),
+ADD COLUMN IF NOT EXISTS topic TEXT,
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS exam_questions_bank_tags_idx
+  ON public.exam_questions USING GIN (tags)
+  WHERE section_id IS NULL;
+
+DROP TRIGGER IF EXISTS update_exam_questions_updated_at ON public.exam_questions;
+CREATE TRIGGER update_exam_questions_updated_at
+  BEFORE UPDATE ON public.exam_questions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 4. Pool settings on sections. A NULL pool_draw_count keeps the authored questions.
+ALTER TABLE public.exam_sections
+ADD COLUMN IF NOT EXISTS pool_draw_count INTEGER CHECK (pool_draw_count > 0),
+ADD COLUMN IF NOT EXISTS pool_tags TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS pool_difficulty TEXT CHECK (pool_difficulty IN ('easy', 'medium', 'hard')),
+ADD COLUMN IF NOT EXISTS pool_topic TEXT;
+
+-- 5. Each session keeps the questions it drew, keyed by section id
+ALTER TABLE public.candidate_sessions
+ADD COLUMN IF NOT EXISTS question_set JSONB;
+
+-- Only draw_session_questions fills the set, so a new session cannot bring its own
+CREATE OR REPLACE FUNCTION public.clear_session_question_set()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.question_set := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_session_question_set_trigger ON public.candidate_sessions;
+CREATE TRIGGER clear_session_question_set_trigger
+  BEFORE INSERT ON public.candidate_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.clear_session_question_set();
+
+-- 6. Draw the questions for a session. Runs once; later calls return the stored set
+CREATE OR REPLACE FUNCTION public.draw_session_questions(_session_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _exam_id UUID;
+  _question_set JSONB;
+  _section RECORD;
+  _drawn JSONB;
+BEGIN
+  SELECT exam_id, question_set INTO _exam_id, _question_set
+  FROM public.candidate_sessions
+  WHERE id = _session_id
+  FOR UPDATE;
+
+  IF _exam_id IS NULL THEN
+    RAISE EXCEPTION 'Session % not found', _session_id;
+  END IF;
+
+  IF _question_set IS NOT NULL THEN
+    RETURN _question_set;
+  END IF;
+
+  _question_set := '{}'::jsonb;
+
+  FOR _section IN
+    SELECT id, section_type, pool_draw_count, pool_tags, pool_difficulty, pool_topic
+    FROM public.exam_sections
+    WHERE exam_id = _exam_id AND pool_draw_count IS NOT NULL
+  LOOP
+    SELECT COALESCE(jsonb_agg(drawn.id), '[]'::jsonb) INTO _drawn
+    FROM (
+      SELECT q.id
+      FROM public.exam_questions q
+      WHERE q.section_id IS NULL
+        AND q.section_type = _section.section_type
+        AND q.tags @> _section.pool_tags
+        AND (_section.pool_difficulty IS NULL OR q.difficulty = _section.pool_difficulty)
+        AND (_section.pool_topic IS NULL OR q.topic = _section.pool_topic)
+      ORDER BY random()
+      LIMIT _section.pool_draw_count
+    ) drawn;
+
+    _question_set := _question_set || jsonb_build_object(_section.id::text, _drawn);
+  END LOOP;
+
+  PERFORM set_config('app.proctor_action', 'on', true);
+
+  UPDATE public.candidate_sessions
+  SET question_set = _question_set
+  WHERE id = _session_id;
+
+  PERFORM set_config('app.proctor_action', 'off', true);
+
+  RETURN _question_set;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.draw_session_questions(UUID) TO anon, authenticated;
+
+-- 7. Add helpful comments
+COMMENT ON COLUMN public.exam_questions.section_id IS 'Owning section, or NULL for question bank entries';
+COMMENT ON COLUMN public.exam_sections.pool_draw_count IS 'Number of bank questions drawn per candidate; NULL uses the authored questions';
+COMMENT ON COLUMN public.candidate_sessions.question_set IS 'Bank question ids drawn for this session, keyed by section id';
+COMMENT ON FUNCTION public.draw_session_questions(UUID) IS 'Draws (once) and returns the bank questions for a candidate session';
+
+-- 8. Verify the setup
+SELECT 'Question bank and per-session draws created successfully' as status;
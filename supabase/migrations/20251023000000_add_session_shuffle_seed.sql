@@ -0,0 +1,38 @@
+-- Per-Candidate Question and Option Shuffling
+-- This migration stores a shuffle seed on every session so the candidate's
+-- question and option order is reproducible across reloads and during review
+
+-- 1. Seed used to shuffle question order and MCQ option order for a session
+ALTER TABLE public.candidate_sessions
+ADD COLUMN IF NOT EXISTS shuffle_seed INTEGER NOT NULL DEFAULT floor(random() * 2147483647)::integer;
+
+-- The server picks the seed, so a new session cannot choose its own order
+CREATE OR REPLACE FUNCTION public.reset_session_shuffle_seed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.shuffle_seed := floor(random() * 2147483647)::integer;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_session_shuffle_seed_trigger ON public.candidate_sessions;
+CREATE TRIGGER reset_session_shuffle_seed_trigger
+  BEFORE INSERT ON public.candidate_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.reset_session_shuffle_seed();
+
+-- 2. Per-exam switches so authors can keep an intentional order
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS shuffle_questions BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS shuffle_options BOOLEAN NOT NULL DEFAULT true;
+
+-- 3. Add helpful comments
+COMMENT ON COLUMN public.candidate_sessions.shuffle_seed IS 'Seed for the per-session shuffle of question and MCQ option order';
+COMMENT ON COLUMN public.candidate_answers.selected_option IS 'Key of the chosen option in authored order (A = first authored option), independent of the order shown';
+COMMENT ON COLUMN public.exams.shuffle_questions IS 'Shuffle question order within each section per candidate';
+COMMENT ON COLUMN public.exams.shuffle_options IS 'Shuffle MCQ option order per candidate';
+
+-- 4. Verify the setup
+SELECT 'Session shuffle seed and exam shuffle settings added successfully' as status;
@@ -0,0 +1,206 @@
+-- Server-Authoritative Section Timers
+-- This migration records when each candidate starts every exam section and when
+-- it must end, so reloading the page or changing the device clock cannot reset
+-- a section timer, and answers written after a section closed are marked late
+
+-- 1. Per-session section start and deadline timestamps
+CREATE TABLE IF NOT EXISTS public.session_section_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.candidate_sessions(id) ON DELETE CASCADE NOT NULL,
+  section_id UUID REFERENCES public.exam_sections(id) ON DELETE CASCADE NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deadline_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ,
+  UNIQUE (session_id, section_id)
+);
+
+ALTER TABLE public.session_section_progress ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written through the functions below, which use the server clock
+DROP POLICY IF EXISTS "Allow section progress selection" ON public.session_section_progress;
+CREATE POLICY "Allow section progress selection" ON public.session_section_progress
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- 2. One answer row per question per session, so late marking applies to the answer of record.
+-- Earlier auto-saves inserted a new row on every save; keep only the latest one.
+DELETE FROM public.candidate_answers a
+USING public.candidate_answers b
+WHERE a.session_id = b.session_id
+  AND a.question_id = b.question_id
+  AND (a.submitted_at, a.id) < (b.submitted_at, b.id);
+
+ALTER TABLE public.candidate_answers
+DROP CONSTRAINT IF EXISTS candidate_answers_session_question_key;
+
+ALTER TABLE public.candidate_answers
+ADD CONSTRAINT candidate_answers_session_question_key UNIQUE (session_id, question_id);
+
+ALTER TABLE public.candidate_answers
+ADD COLUMN IF NOT EXISTS is_late BOOLEAN NOT NULL DEFAULT false;
+
+-- 3. Start a section (idempotent) and close every earlier section of the session
+CREATE OR REPLACE FUNCTION public.start_session_section(_session_id UUID, _section_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status session_status;
+  _exam_id UUID;
+  _section RECORD;
+  _progress RECORD;
+BEGIN
+  SELECT status, exam_id INTO _status, _exam_id
+  FROM public.candidate_sessions
+  WHERE id = _session_id;
+
+  IF _exam_id IS NULL THEN
+    RAISE EXCEPTION 'Session % not found', _session_id;
+  END IF;
+
+  IF _status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Session % is no longer in progress', _session_id;
+  END IF;
+
+  SELECT id, timer_minutes, section_order INTO _section
+  FROM public.exam_sections
+  WHERE id = _section_id AND exam_id = _exam_id;
+
+  IF _section.id IS NULL THEN
+    RAISE EXCEPTION 'Section % does not belong to this exam', _section_id;
+  END IF;
+
+  INSERT INTO public.session_section_progress (session_id, section_id, started_at, deadline_at)
+  VALUES (_session_id, _section_id, NOW(), NOW() + make_interval(mins => _section.timer_minutes))
+  ON CONFLICT (session_id, section_id) DO NOTHING;
+
+  -- Sections are taken in order; starting one closes the ones before it
+  UPDATE public.session_section_progress p
+  SET completed_at = LEAST(NOW(), p.deadline_at)
+  FROM public.exam_sections s
+  WHERE p.section_id = s.id
+    AND p.session_id = _session_id
+    AND p.completed_at IS NULL
+    AND s.exam_id = _exam_id
+    AND s.section_order < _section.section_order;
+
+  SELECT * INTO _progress
+  FROM public.session_section_progress
+  WHERE session_id = _session_id AND section_id = _section_id;
+
+  RETURN jsonb_build_object(
+    'section_id', _progress.section_id,
+    'started_at', _progress.started_at,
+    'deadline_at', _progress.deadline_at,
+    'completed_at', _progress.completed_at,
+    'server_now', NOW()
+  );
+END;
+$$;
+
+-- 4. Close a section early when the candidate moves on or submits
+CREATE OR REPLACE FUNCTION public.complete_session_section(_session_id UUID, _section_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.session_section_progress
+  SET completed_at = LEAST(NOW(), deadline_at)
+  WHERE session_id = _session_id
+    AND section_id = _section_id
+    AND completed_at IS NULL;
+END;
+$$;
+
+-- 5. Progress of every started section together with the server time, used to resume after a reload
+CREATE OR REPLACE FUNCTION public.get_session_progress(_session_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'server_now', NOW(),
+    'sections', COALESCE(jsonb_agg(jsonb_build_object(
+      'section_id', section_id,
+      'started_at', started_at,
+      'deadline_at', deadline_at,
+      'completed_at', completed_at
+    )), '[]'::jsonb)
+  )
+  FROM public.session_section_progress
+  WHERE session_id = _session_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_session_section(UUID, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_session_section(UUID, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_session_progress(UUID) TO anon, authenticated;
+
+-- 6. Stamp answers with the server time and mark those written after their section closed.
+-- A 30 second grace period absorbs the final save racing the deadline.
+CREATE OR REPLACE FUNCTION public.check_answer_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _section_id UUID;
+  _closes_at TIMESTAMPTZ;
+BEGIN
+  -- Re-saving an unchanged answer keeps its original timing
+  IF TG_OP = 'UPDATE'
+    AND NEW.answer_text IS NOT DISTINCT FROM OLD.answer_text
+    AND NEW.selected_option IS NOT DISTINCT FROM OLD.selected_option
+    AND NEW.code_submission IS NOT DISTINCT FROM OLD.code_submission THEN
+    NEW.submitted_at := OLD.submitted_at;
+    NEW.is_late := OLD.is_late;
+    RETURN NEW;
+  END IF;
+
+  SELECT section_id INTO _section_id
+  FROM public.exam_questions
+  WHERE id = NEW.question_id;
+
+  -- Bank questions have no section of their own; use the section they were drawn into
+  IF _section_id IS NULL THEN
+    SELECT drawn.key::uuid INTO _section_id
+    FROM public.candidate_sessions s, jsonb_each(s.question_set) drawn
+    WHERE s.id = NEW.session_id AND drawn.value ? NEW.question_id::text;
+  END IF;
+
+  SELECT LEAST(deadline_at, COALESCE(completed_at, deadline_at)) INTO _closes_at
+  FROM public.session_section_progress
+  WHERE session_id = NEW.session_id AND section_id = _section_id;
+
+  IF _closes_at IS NULL THEN
+    RAISE EXCEPTION 'Section for question % has not been started', NEW.question_id;
+  END IF;
+
+  NEW.submitted_at := NOW();
+  NEW.is_late := NOW() > _closes_at + INTERVAL '30 seconds';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_candidate_answer_deadline ON public.candidate_answers;
+CREATE TRIGGER check_candidate_answer_deadline
+  BEFORE INSERT OR UPDATE ON public.candidate_answers
+  FOR EACH ROW EXECUTE FUNCTION public.check_answer_deadline();
+
+-- 7. Add helpful comments
+COMMENT ON TABLE public.session_section_progress IS 'Server-side start and deadline of each section for a candidate session';
+COMMENT ON COLUMN public.session_section_progress.completed_at IS 'When the section was closed, either by moving on or by the deadline';
+COMMENT ON COLUMN public.candidate_answers.is_late IS 'Answer was written after its section closed and is not counted by auto-scoring';
+COMMENT ON FUNCTION public.start_session_section(UUID, UUID) IS 'Starts a section for a session (once) and returns its deadline with the server time';
+COMMENT ON FUNCTION public.complete_session_section(UUID, UUID) IS 'Closes a section for a session before its deadline';
+COMMENT ON FUNCTION public.get_session_progress(UUID) IS 'Returns the section progress of a session with the server time';
+
+-- 8. Verify the setup
+SELECT 'Section progress and answer deadlines created successfully' as status;
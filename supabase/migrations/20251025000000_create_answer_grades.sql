@@ -0,0 +1,41 @@
+-- Manual Grading with Rubrics
+-- This migration adds a rubric to every question and stores the points a
+-- grader awards to theoretical and practical answers
+
+-- 1. Rubric criteria, e.g. [{"criterion": "Explains the trade-off", "points": 2}]
+ALTER TABLE public.exam_questions
+ADD COLUMN IF NOT EXISTS rubric JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- 2. Grades awarded to candidate answers
+CREATE TABLE IF NOT EXISTS public.answer_grades (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  answer_id UUID REFERENCES public.candidate_answers(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  grader_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  points_awarded NUMERIC NOT NULL CHECK (points_awarded >= 0),
+  criterion_points JSONB NOT NULL DEFAULT '[]'::jsonb,
+  comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.answer_grades ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage grades" ON public.answer_grades;
+CREATE POLICY "Admins can manage grades" ON public.answer_grades
+  FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP TRIGGER IF EXISTS update_answer_grades_updated_at ON public.answer_grades;
+CREATE TRIGGER update_answer_grades_updated_at
+  BEFORE UPDATE ON public.answer_grades
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. Add helpful comments
+COMMENT ON COLUMN public.exam_questions.rubric IS 'Grading criteria for theoretical and practical questions: [{criterion, points}]';
+COMMENT ON TABLE public.answer_grades IS 'Points awarded by a grader to a theoretical or practical answer';
+COMMENT ON COLUMN public.answer_grades.criterion_points IS 'Points awarded per rubric criterion, in rubric order';
+
+-- 4. Verify the setup
+SELECT 'Question rubrics and answer grades created successfully' as status;
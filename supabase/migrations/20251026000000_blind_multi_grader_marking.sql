@@ -0,0 +1,336 @@
+-- Blind Multi-Grader Marking
+-- This migration lets two graders mark every theoretical and practical answer
+-- independently. Graders only ever read their own grades; outcomes are exposed
+-- through functions that reveal a final mark once the graders agree, and
+-- answers whose marks differ by more than the exam's threshold go to a third grader
+
+-- 1. Per-exam tolerance between the two independent marks
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS grading_threshold NUMERIC NOT NULL DEFAULT 1 CHECK (grading_threshold >= 0);
+
+-- 2. One grade per grader per answer; the third grade on a conflict is the moderation grade
+ALTER TABLE public.answer_grades
+DROP CONSTRAINT IF EXISTS answer_grades_answer_id_key;
+
+ALTER TABLE public.answer_grades
+DROP CONSTRAINT IF EXISTS answer_grades_answer_grader_key;
+
+ALTER TABLE public.answer_grades
+ADD CONSTRAINT answer_grades_answer_grader_key UNIQUE (answer_id, grader_id);
+
+ALTER TABLE public.answer_grades
+ADD COLUMN IF NOT EXISTS is_moderation BOOLEAN NOT NULL DEFAULT false;
+
+-- 3. Graders can only see and change their own grades
+DROP POLICY IF EXISTS "Admins can manage grades" ON public.answer_grades;
+DROP POLICY IF EXISTS "Graders can view own grades" ON public.answer_grades;
+DROP POLICY IF EXISTS "Graders can insert own grades" ON public.answer_grades;
+DROP POLICY IF EXISTS "Graders can update own grades" ON public.answer_grades;
+
+CREATE POLICY "Graders can view own grades" ON public.answer_grades
+  FOR SELECT
+  TO authenticated
+  USING (grader_id = auth.uid() AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Graders can insert own grades" ON public.answer_grades
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (grader_id = auth.uid() AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Graders can update own grades" ON public.answer_grades
+  FOR UPDATE
+  TO authenticated
+  USING (grader_id = auth.uid() AND public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (grader_id = auth.uid() AND public.has_role(auth.uid(), 'admin'));
+
+-- 4. Outcome of the marking of one answer
+-- ungraded / awaiting_second: fewer than two independent grades, no mark yet
+-- agreed: two grades within the threshold, final mark is their average
+-- conflict: two grades beyond the threshold, waiting for a third grader
+-- resolved: the third grader's mark is final
+CREATE OR REPLACE FUNCTION public.answer_grade_outcome(_answer_id UUID)
+RETURNS TABLE (status TEXT, final_points NUMERIC, grade_count INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _threshold NUMERIC;
+  _moderation NUMERIC;
+  _count INTEGER;
+  _min NUMERIC;
+  _max NUMERIC;
+  _avg NUMERIC;
+BEGIN
+  SELECT e.grading_threshold INTO _threshold
+  FROM public.candidate_answers a
+  JOIN public.candidate_sessions s ON s.id = a.session_id
+  JOIN public.exams e ON e.id = s.exam_id
+  WHERE a.id = _answer_id;
+
+  SELECT count(*), min(points_awarded), max(points_awarded), avg(points_awarded)
+  INTO _count, _min, _max, _avg
+  FROM public.answer_grades
+  WHERE answer_id = _answer_id AND NOT is_moderation;
+
+  SELECT points_awarded INTO _moderation
+  FROM public.answer_grades
+  WHERE answer_id = _answer_id AND is_moderation;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'resolved'::TEXT, _moderation, _count + 1;
+  ELSIF _count = 0 THEN
+    RETURN QUERY SELECT 'ungraded'::TEXT, NULL::NUMERIC, 0;
+  ELSIF _count = 1 THEN
+    RETURN QUERY SELECT 'awaiting_second'::TEXT, NULL::NUMERIC, 1;
+  ELSIF _max - _min <= _threshold THEN
+    RETURN QUERY SELECT 'agreed'::TEXT, round(_avg, 2), _count;
+  ELSE
+    RETURN QUERY SELECT 'conflict'::TEXT, NULL::NUMERIC, _count;
+  END IF;
+END;
+$$;
+
+-- 5. Stamp the grader and decide whether a new grade is independent or moderation
+CREATE OR REPLACE FUNCTION public.assign_grade_round()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _existing BOOLEAN;
+  _status TEXT;
+BEGIN
+  NEW.grader_id := auth.uid();
+
+  -- An upsert of the grader's own grade keeps its round
+  SELECT is_moderation INTO _existing
+  FROM public.answer_grades
+  WHERE answer_id = NEW.answer_id AND grader_id = NEW.grader_id;
+
+  IF FOUND THEN
+    NEW.is_moderation := _existing;
+    RETURN NEW;
+  END IF;
+
+  SELECT status INTO _status FROM public.answer_grade_outcome(NEW.answer_id);
+
+  IF _status IN ('ungraded', 'awaiting_second') THEN
+    NEW.is_moderation := false;
+  ELSIF _status = 'conflict' THEN
+    NEW.is_moderation := true;
+  ELSE
+    RAISE EXCEPTION 'This answer already has a final grade';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_answer_grade_round ON public.answer_grades;
+CREATE TRIGGER assign_answer_grade_round
+  BEFORE INSERT ON public.answer_grades
+  FOR EACH ROW EXECUTE FUNCTION public.assign_grade_round();
+
+-- Once the mark is agreed or resolved, the grades behind it can no longer change,
+-- and a grade always stays with its answer, grader and round
+CREATE OR REPLACE FUNCTION public.lock_final_grade()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+BEGIN
+  SELECT status INTO _status FROM public.answer_grade_outcome(OLD.answer_id);
+
+  IF _status IN ('agreed', 'resolved') THEN
+    RAISE EXCEPTION 'This answer already has a final grade';
+  END IF;
+
+  NEW.answer_id := OLD.answer_id;
+  NEW.grader_id := OLD.grader_id;
+  NEW.is_moderation := OLD.is_moderation;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lock_final_answer_grade ON public.answer_grades;
+CREATE TRIGGER lock_final_answer_grade
+  BEFORE UPDATE ON public.answer_grades
+  FOR EACH ROW EXECUTE FUNCTION public.lock_final_grade();
+
+-- 6. Marking outcome for a set of answers. Comments are only shared once the mark is final
+CREATE OR REPLACE FUNCTION public.get_answer_results(_answer_ids UUID[])
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _result JSONB;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view grading results';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'answer_id', a.id,
+    'status', o.status,
+    'final_points', o.final_points,
+    'grade_count', o.grade_count,
+    'graded_by_me', EXISTS (
+      SELECT 1 FROM public.answer_grades g
+      WHERE g.answer_id = a.id AND g.grader_id = auth.uid()
+    ),
+    'comments', CASE WHEN o.status IN ('agreed', 'resolved') THEN (
+      SELECT COALESCE(jsonb_agg(g.comment), '[]'::jsonb)
+      FROM public.answer_grades g
+      WHERE g.answer_id = a.id
+        AND g.comment IS NOT NULL
+        AND (o.status = 'agreed' OR g.is_moderation)
+    ) ELSE '[]'::jsonb END
+  )), '[]'::jsonb) INTO _result
+  FROM public.candidate_answers a
+  CROSS JOIN LATERAL public.answer_grade_outcome(a.id) o
+  WHERE a.id = ANY(_answer_ids);
+
+  RETURN _result;
+END;
+$$;
+
+-- 7. Submitted sessions with answers the current grader still has to mark, without candidate details
+CREATE OR REPLACE FUNCTION public.get_grading_queue()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _result JSONB;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can grade answers';
+  END IF;
+
+  WITH open_answers AS (
+    SELECT a.session_id, o.status
+    FROM public.candidate_answers a
+    JOIN public.exam_questions q ON q.id = a.question_id
+    JOIN public.candidate_sessions s ON s.id = a.session_id
+    CROSS JOIN LATERAL public.answer_grade_outcome(a.id) o
+    WHERE s.status = 'completed'
+      AND q.section_type IN ('theoretical', 'practical')
+      AND o.status IN ('ungraded', 'awaiting_second', 'conflict')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.answer_grades g
+        WHERE g.answer_id = a.id AND g.grader_id = auth.uid()
+      )
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'session_id', s.id,
+    'exam_title', e.title,
+    'submitted_at', s.submitted_at,
+    'to_grade', q.to_grade,
+    'conflicts', q.conflicts
+  ) ORDER BY s.submitted_at), '[]'::jsonb) INTO _result
+  FROM (
+    SELECT session_id,
+           count(*) FILTER (WHERE status <> 'conflict') AS to_grade,
+           count(*) FILTER (WHERE status = 'conflict') AS conflicts
+    FROM open_answers
+    GROUP BY session_id
+  ) q
+  JOIN public.candidate_sessions s ON s.id = q.session_id
+  JOIN public.exams e ON e.id = s.exam_id;
+
+  RETURN _result;
+END;
+$$;
+
+-- 8. Agreement between independent graders, per grader and per question, for calibration.
+-- bias is the grader's average mark minus their co-grader's on the same answers.
+CREATE OR REPLACE FUNCTION public.get_grading_agreement(_exam_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _result JSONB;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view grading statistics';
+  END IF;
+
+  WITH pairs AS (
+    SELECT a.question_id,
+           g1.grader_id AS grader_a,
+           g2.grader_id AS grader_b,
+           g1.points_awarded - g2.points_awarded AS difference,
+           abs(g1.points_awarded - g2.points_awarded) <= e.grading_threshold AS agreed
+    FROM public.answer_grades g1
+    JOIN public.answer_grades g2
+      ON g2.answer_id = g1.answer_id AND g1.grader_id < g2.grader_id AND NOT g2.is_moderation
+    JOIN public.candidate_answers a ON a.id = g1.answer_id
+    JOIN public.candidate_sessions s ON s.id = a.session_id
+    JOIN public.exams e ON e.id = s.exam_id
+    WHERE NOT g1.is_moderation
+      AND (_exam_id IS NULL OR s.exam_id = _exam_id)
+  ),
+  grader_sides AS (
+    SELECT grader_a AS grader_id, difference, agreed FROM pairs
+    UNION ALL
+    SELECT grader_b AS grader_id, -difference, agreed FROM pairs
+  ),
+  grader_stats AS (
+    SELECT gs.grader_id,
+           p.full_name,
+           p.email,
+           count(*) AS double_marked,
+           count(*) FILTER (WHERE gs.agreed) AS agreed,
+           round(avg(abs(gs.difference)), 2) AS mean_difference,
+           round(avg(gs.difference), 2) AS bias
+    FROM grader_sides gs
+    LEFT JOIN public.profiles p ON p.id = gs.grader_id
+    GROUP BY gs.grader_id, p.full_name, p.email
+  ),
+  question_stats AS (
+    SELECT pr.question_id,
+           q.question_text,
+           count(*) AS double_marked,
+           count(*) FILTER (WHERE pr.agreed) AS agreed,
+           round(avg(abs(pr.difference)), 2) AS mean_difference
+    FROM pairs pr
+    JOIN public.exam_questions q ON q.id = pr.question_id
+    GROUP BY pr.question_id, q.question_text
+  )
+  SELECT jsonb_build_object(
+    'graders', COALESCE((SELECT jsonb_agg(to_jsonb(grader_stats) ORDER BY double_marked DESC) FROM grader_stats), '[]'::jsonb),
+    'questions', COALESCE((SELECT jsonb_agg(to_jsonb(question_stats) ORDER BY agreed::NUMERIC / double_marked) FROM question_stats), '[]'::jsonb)
+  ) INTO _result;
+
+  RETURN _result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_answer_results(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_grading_queue() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_grading_agreement(UUID) TO authenticated;
+
+-- 9. Add helpful comments
+COMMENT ON COLUMN public.exams.grading_threshold IS 'Largest difference in points between two independent grades that still counts as agreement';
+COMMENT ON COLUMN public.answer_grades.is_moderation IS 'Third grade given after the two independent grades disagreed; it is final';
+COMMENT ON FUNCTION public.answer_grade_outcome(UUID) IS 'Marking status and final points of an answer from its grades';
+COMMENT ON FUNCTION public.get_answer_results(UUID[]) IS 'Marking outcome for answers without revealing individual grades';
+COMMENT ON FUNCTION public.get_grading_queue() IS 'Submitted sessions with answers the current grader still has to mark';
+COMMENT ON FUNCTION public.get_grading_agreement(UUID) IS 'Inter-grader agreement statistics per grader and per question';
+
+-- 10. Verify the setup
+SELECT 'Blind multi-grader marking created successfully' as status;
@@ -0,0 +1,169 @@
+-- Code Execution and Test Cases for Practical Questions
+-- This migration adds a language, starter code and test cases to practical
+-- questions. Test results are written to candidate_answers.code_submission by
+-- the run-code function only, and answers with test results are auto-graded
+
+-- 1. Language and starter code for practical questions
+ALTER TABLE public.exam_questions
+ADD COLUMN IF NOT EXISTS language TEXT CHECK (language IN ('javascript', 'typescript', 'python')),
+ADD COLUMN IF NOT EXISTS starter_code TEXT;
+
+-- 2. Test cases: the program gets `input` on stdin and must print `expected_output`
+CREATE TABLE IF NOT EXISTS public.question_test_cases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id UUID REFERENCES public.exam_questions(id) ON DELETE CASCADE NOT NULL,
+  test_order INTEGER NOT NULL DEFAULT 1,
+  input TEXT NOT NULL DEFAULT '',
+  expected_output TEXT NOT NULL,
+  is_hidden BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS question_test_cases_question_idx
+  ON public.question_test_cases (question_id, test_order);
+
+ALTER TABLE public.question_test_cases ENABLE ROW LEVEL SECURITY;
+
+-- Candidates may read visible tests; hidden tests are only read by admins and the run-code function
+DROP POLICY IF EXISTS "Allow visible test case selection" ON public.question_test_cases;
+CREATE POLICY "Allow visible test case selection" ON public.question_test_cases
+  FOR SELECT
+  TO anon, authenticated
+  USING (NOT is_hidden);
+
+DROP POLICY IF EXISTS "Admins can manage test cases" ON public.question_test_cases;
+CREATE POLICY "Admins can manage test cases" ON public.question_test_cases
+  FOR ALL
+  TO authenticated
+  USING (public.is_current_user_admin())
+  WITH CHECK (public.is_current_user_admin());
+
+-- 3. Only the run-code function (service role) may write test results. Editing the
+-- code afterwards clears them, so results always describe the saved code.
+CREATE OR REPLACE FUNCTION public.protect_code_results()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF TG_OP = 'INSERT' OR NEW.answer_text IS DISTINCT FROM OLD.answer_text THEN
+      NEW.code_submission := NULL;
+    ELSE
+      NEW.code_submission := OLD.code_submission;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_candidate_code_results ON public.candidate_answers;
+CREATE TRIGGER protect_candidate_code_results
+  BEFORE INSERT OR UPDATE ON public.candidate_answers
+  FOR EACH ROW EXECUTE FUNCTION public.protect_code_results();
+
+-- 4. Writing test results is not a change to the answer, so it keeps the answer's timing
+CREATE OR REPLACE FUNCTION public.check_answer_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _section_id UUID;
+  _closes_at TIMESTAMPTZ;
+BEGIN
+  -- Re-saving an unchanged answer keeps its original timing
+  IF TG_OP = 'UPDATE'
+    AND NEW.answer_text IS NOT DISTINCT FROM OLD.answer_text
+    AND NEW.selected_option IS NOT DISTINCT FROM OLD.selected_option THEN
+    NEW.submitted_at := OLD.submitted_at;
+    NEW.is_late := OLD.is_late;
+    RETURN NEW;
+  END IF;
+
+  SELECT section_id INTO _section_id
+  FROM public.exam_questions
+  WHERE id = NEW.question_id;
+
+  -- Bank questions have no section of their own; use the section they were drawn into
+  IF _section_id IS NULL THEN
+    SELECT drawn.key::uuid INTO _section_id
+    FROM public.candidate_sessions s, jsonb_each(s.question_set) drawn
+    WHERE s.id = NEW.session_id AND drawn.value ? NEW.question_id::text;
+  END IF;
+
+  SELECT LEAST(deadline_at, COALESCE(completed_at, deadline_at)) INTO _closes_at
+  FROM public.session_section_progress
+  WHERE session_id = NEW.session_id AND section_id = _section_id;
+
+  IF _closes_at IS NULL THEN
+    RAISE EXCEPTION 'Section for question % has not been started', NEW.question_id;
+  END IF;
+
+  NEW.submitted_at := NOW();
+  NEW.is_late := NOW() > _closes_at + INTERVAL '30 seconds';
+  RETURN NEW;
+END;
+$$;
+
+-- 5. Auto-graded answers (those with test results) do not go to graders
+CREATE OR REPLACE FUNCTION public.get_grading_queue()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _result JSONB;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can grade answers';
+  END IF;
+
+  WITH open_answers AS (
+    SELECT a.session_id, o.status
+    FROM public.candidate_answers a
+    JOIN public.exam_questions q ON q.id = a.question_id
+    JOIN public.candidate_sessions s ON s.id = a.session_id
+    CROSS JOIN LATERAL public.answer_grade_outcome(a.id) o
+    WHERE s.status = 'completed'
+      AND q.section_type IN ('theoretical', 'practical')
+      AND COALESCE((a.code_submission->>'total')::INTEGER, 0) = 0
+      AND o.status IN ('ungraded', 'awaiting_second', 'conflict')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.answer_grades g
+        WHERE g.answer_id = a.id AND g.grader_id = auth.uid()
+      )
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'session_id', s.id,
+    'exam_title', e.title,
+    'submitted_at', s.submitted_at,
+    'to_grade', q.to_grade,
+    'conflicts', q.conflicts
+  ) ORDER BY s.submitted_at), '[]'::jsonb) INTO _result
+  FROM (
+    SELECT session_id,
+           count(*) FILTER (WHERE status <> 'conflict') AS to_grade,
+           count(*) FILTER (WHERE status = 'conflict') AS conflicts
+    FROM open_answers
+    GROUP BY session_id
+  ) q
+  JOIN public.candidate_sessions s ON s.id = q.session_id
+  JOIN public.exams e ON e.id = s.exam_id;
+
+  RETURN _result;
+END;
+$$;
+
+-- 6. Add helpful comments
+COMMENT ON COLUMN public.exam_questions.language IS 'Programming language of a practical question';
+COMMENT ON COLUMN public.exam_questions.starter_code IS 'Code the candidate starts from';
+COMMENT ON TABLE public.question_test_cases IS 'stdin/stdout test cases for practical questions; hidden ones are only used for grading';
+COMMENT ON COLUMN public.candidate_answers.code_submission IS 'Test results written by the run-code function: {language, passed, total, score, results, graded_at}';
+
+-- 7. Verify the setup
+SELECT 'Code execution and test cases created successfully' as status;
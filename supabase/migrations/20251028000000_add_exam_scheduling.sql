@@ -0,0 +1,126 @@
+-- Scheduled Exam Windows
+-- This migration gives each exam an opening and closing time in its own
+-- timezone, a late-entry cutoff and an optional attempt limit per email.
+-- Registration is routed to the exam whose window is open on the server clock
+
+-- 1. Schedule columns. Exams without a window stay open while they are active.
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS opens_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS closes_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN IF NOT EXISTS late_entry_minutes INTEGER CHECK (late_entry_minutes >= 0),
+ADD COLUMN IF NOT EXISTS max_attempts INTEGER CHECK (max_attempts > 0);
+
+ALTER TABLE public.exams
+DROP CONSTRAINT IF EXISTS exams_window_check;
+
+ALTER TABLE public.exams
+ADD CONSTRAINT exams_window_check CHECK (closes_at IS NULL OR opens_at IS NULL OR closes_at > opens_at);
+
+CREATE INDEX IF NOT EXISTS exams_window_idx ON public.exams (opens_at, closes_at) WHERE is_active;
+
+-- 2. Raises a readable error when an email may not start a session of the exam now
+CREATE OR REPLACE FUNCTION public.check_exam_registration(_exam_id UUID, _email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _exam RECORD;
+  _attempts INTEGER;
+BEGIN
+  SELECT * INTO _exam FROM public.exams WHERE id = _exam_id;
+
+  IF _exam.id IS NULL OR NOT _exam.is_active THEN
+    RAISE EXCEPTION 'This exam is not available';
+  END IF;
+
+  IF _exam.opens_at IS NOT NULL AND NOW() < _exam.opens_at THEN
+    RAISE EXCEPTION 'This exam has not opened yet';
+  END IF;
+
+  IF _exam.closes_at IS NOT NULL AND NOW() >= _exam.closes_at THEN
+    RAISE EXCEPTION 'This exam has closed';
+  END IF;
+
+  IF _exam.opens_at IS NOT NULL AND _exam.late_entry_minutes IS NOT NULL
+    AND NOW() > _exam.opens_at + make_interval(mins => _exam.late_entry_minutes) THEN
+    RAISE EXCEPTION 'Late entry to this exam closed % minutes after it opened', _exam.late_entry_minutes;
+  END IF;
+
+  IF _exam.max_attempts IS NOT NULL THEN
+    SELECT count(*) INTO _attempts
+    FROM public.candidate_sessions
+    WHERE exam_id = _exam_id AND lower(email) = lower(_email);
+
+    IF _attempts >= _exam.max_attempts THEN
+      RAISE EXCEPTION 'You have used all % attempt(s) allowed for this exam', _exam.max_attempts;
+    END IF;
+  END IF;
+END;
+$$;
+
+-- 3. Every new session must fall inside its exam's window, whoever inserts it
+CREATE OR REPLACE FUNCTION public.enforce_exam_window()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.check_exam_registration(NEW.exam_id, NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_candidate_session_window ON public.candidate_sessions;
+CREATE TRIGGER enforce_candidate_session_window
+  BEFORE INSERT ON public.candidate_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_exam_window();
+
+-- 4. The exam a candidate registering now should sit: the open window closing soonest.
+-- Scheduled windows take precedence over unscheduled exams.
+CREATE OR REPLACE FUNCTION public.get_open_exam(_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _exam_id UUID;
+BEGIN
+  SELECT id INTO _exam_id
+  FROM public.exams
+  WHERE is_active
+    AND (opens_at IS NULL OR opens_at <= NOW())
+    AND (closes_at IS NULL OR closes_at > NOW())
+    AND (opens_at IS NULL OR late_entry_minutes IS NULL
+         OR NOW() <= opens_at + make_interval(mins => late_entry_minutes))
+  ORDER BY opens_at IS NULL, closes_at NULLS LAST, opens_at
+  LIMIT 1;
+
+  IF _exam_id IS NULL THEN
+    RAISE EXCEPTION 'No exam is open for registration right now';
+  END IF;
+
+  PERFORM public.check_exam_registration(_exam_id, _email);
+  RETURN _exam_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_exam_registration(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_open_exam(TEXT) TO anon, authenticated;
+
+-- 5. Add helpful comments
+COMMENT ON COLUMN public.exams.opens_at IS 'Start of the sitting window; NULL means open as soon as the exam is active';
+COMMENT ON COLUMN public.exams.closes_at IS 'End of the sitting window; no new sessions start after it';
+COMMENT ON COLUMN public.exams.timezone IS 'IANA timezone the window was scheduled in, used for display';
+COMMENT ON COLUMN public.exams.late_entry_minutes IS 'Minutes after opens_at during which candidates may still register';
+COMMENT ON COLUMN public.exams.max_attempts IS 'Maximum sessions per email for this exam; NULL means unlimited';
+COMMENT ON FUNCTION public.get_open_exam(TEXT) IS 'Routes a registering candidate to the exam whose window is open now';
+
+-- 6. Verify the setup
+SELECT 'Exam scheduling created successfully' as status;
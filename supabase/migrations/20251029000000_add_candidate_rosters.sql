@@ -0,0 +1,227 @@
+-- Candidate Rosters and Access Codes
+-- This migration lets admins pre-register candidates for an exam. Each roster
+-- entry gets a one-time access code; exams that require a code only accept
+-- sessions registered with an unused code, which binds the session to the
+-- roster entry. Failed registrations are logged for review, and clients or
+-- exams with too many recent failures are refused before any code is checked
+
+-- 1. Exams can be restricted to their roster
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS requires_access_code BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. Pre-registered candidates with their one-time access codes
+CREATE TABLE IF NOT EXISTS public.exam_roster (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE NOT NULL,
+  full_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  -- Registration requires a contact, so a roster entry without one could never be used
+  contact TEXT NOT NULL CHECK (length(trim(contact)) > 0),
+  access_code TEXT NOT NULL UNIQUE DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 10)),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS exam_roster_exam_email_idx
+  ON public.exam_roster (exam_id, lower(email));
+
+ALTER TABLE public.exam_roster ENABLE ROW LEVEL SECURITY;
+
+-- Codes are secrets; candidates only ever reach the roster through register_with_access_code
+DROP POLICY IF EXISTS "Admins can manage rosters" ON public.exam_roster;
+CREATE POLICY "Admins can manage rosters" ON public.exam_roster
+  FOR ALL
+  TO authenticated
+  USING (public.is_current_user_admin())
+  WITH CHECK (public.is_current_user_admin());
+
+-- 3. A code is used once it is bound to a session
+ALTER TABLE public.candidate_sessions
+ADD COLUMN IF NOT EXISTS roster_entry_id UUID REFERENCES public.exam_roster(id) ON DELETE SET NULL;
+
+ALTER TABLE public.candidate_sessions
+DROP CONSTRAINT IF EXISTS candidate_sessions_roster_entry_key;
+
+ALTER TABLE public.candidate_sessions
+ADD CONSTRAINT candidate_sessions_roster_entry_key UNIQUE (roster_entry_id);
+
+-- 4. Log of refused registrations: unknown codes, reused codes and closed windows
+CREATE TABLE IF NOT EXISTS public.registration_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE,
+  roster_entry_id UUID REFERENCES public.exam_roster(id) ON DELETE SET NULL,
+  access_code TEXT,
+  reason TEXT NOT NULL,
+  -- Address the request came from, for throttling guesses
+  client_ip TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS registration_attempts_exam_idx
+  ON public.registration_attempts (exam_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS registration_attempts_client_idx
+  ON public.registration_attempts (client_ip, created_at DESC);
+
+ALTER TABLE public.registration_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by register_with_access_code
+REVOKE INSERT, UPDATE, DELETE ON public.registration_attempts FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Admins can view registration attempts" ON public.registration_attempts;
+CREATE POLICY "Admins can view registration attempts" ON public.registration_attempts
+  FOR SELECT
+  TO authenticated
+  USING (public.is_current_user_admin());
+
+-- 5. Sessions of roster-only exams must come from a roster entry of that exam
+CREATE OR REPLACE FUNCTION public.enforce_exam_window()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.roster_entry_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.exam_roster
+      WHERE id = NEW.roster_entry_id AND exam_id = NEW.exam_id
+    ) THEN
+      RAISE EXCEPTION 'Roster entry does not belong to this exam';
+    END IF;
+  ELSIF EXISTS (SELECT 1 FROM public.exams WHERE id = NEW.exam_id AND requires_access_code) THEN
+    RAISE EXCEPTION 'This exam requires an access code';
+  END IF;
+
+  PERFORM public.check_exam_registration(NEW.exam_id, NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+-- 6. Open registration never routes to roster-only exams
+CREATE OR REPLACE FUNCTION public.get_open_exam(_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _exam_id UUID;
+BEGIN
+  SELECT id INTO _exam_id
+  FROM public.exams
+  WHERE is_active
+    AND NOT requires_access_code
+    AND (opens_at IS NULL OR opens_at <= NOW())
+    AND (closes_at IS NULL OR closes_at > NOW())
+    AND (opens_at IS NULL OR late_entry_minutes IS NULL
+         OR NOW() <= opens_at + make_interval(mins => late_entry_minutes))
+  ORDER BY opens_at IS NULL, closes_at NULLS LAST, opens_at
+  LIMIT 1;
+
+  IF _exam_id IS NULL THEN
+    RAISE EXCEPTION 'No exam is open for registration right now';
+  END IF;
+
+  PERFORM public.check_exam_registration(_exam_id, _email);
+  RETURN _exam_id;
+END;
+$$;
+
+-- 7. Register with an access code. The candidate's details come from the roster.
+-- Errors are returned rather than raised so the failed attempt stays logged.
+-- A client with 10 failures in 15 minutes is refused without checking the code,
+-- as is an exam with 50; unknown codes belong to no exam, so they share one
+-- budget of 100. Refused requests are not logged, which keeps the log bounded
+CREATE OR REPLACE FUNCTION public.register_with_access_code(
+  _access_code TEXT,
+  _gender TEXT,
+  _exam_location TEXT,
+  _consent_given BOOLEAN,
+  _custom_location TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code TEXT := upper(trim(_access_code));
+  -- The last hop is the one the API gateway appends; earlier hops come from the client
+  _client_ip TEXT := COALESCE(
+    NULLIF(trim(regexp_replace(current_setting('request.headers', true)::json->>'x-forwarded-for', '^.*,', '')), ''),
+    'unknown'
+  );
+  _window TIMESTAMPTZ := NOW() - INTERVAL '15 minutes';
+  _exam_limit INTEGER;
+  _entry RECORD;
+  _session_id UUID;
+  _error TEXT;
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM public.registration_attempts
+    WHERE client_ip = _client_ip AND created_at > _window
+  ) >= 10 THEN
+    RETURN jsonb_build_object('error', 'Too many failed attempts. Please try again later');
+  END IF;
+
+  SELECT * INTO _entry FROM public.exam_roster WHERE access_code = _code;
+
+  _exam_limit := CASE WHEN _entry.id IS NULL THEN 100 ELSE 50 END;
+  IF (
+    SELECT COUNT(*) FROM public.registration_attempts
+    WHERE exam_id IS NOT DISTINCT FROM _entry.exam_id AND created_at > _window
+  ) >= _exam_limit THEN
+    RETURN jsonb_build_object('error', 'Too many failed attempts. Please try again later');
+  END IF;
+
+  IF _entry.id IS NULL THEN
+    INSERT INTO public.registration_attempts (access_code, reason, client_ip)
+    VALUES (_code, 'Unknown access code', _client_ip);
+    RETURN jsonb_build_object('error', 'This access code is not valid');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.candidate_sessions WHERE roster_entry_id = _entry.id) THEN
+    INSERT INTO public.registration_attempts (exam_id, roster_entry_id, access_code, reason, client_ip)
+    VALUES (_entry.exam_id, _entry.id, _code, 'Access code already used', _client_ip);
+    RETURN jsonb_build_object('error', 'This access code has already been used');
+  END IF;
+
+  BEGIN
+    INSERT INTO public.candidate_sessions (
+      exam_id, roster_entry_id, full_name, email, contact, gender,
+      exam_location, custom_location, consent_given
+    )
+    VALUES (
+      _entry.exam_id, _entry.id, _entry.full_name, _entry.email, _entry.contact, _gender,
+      _exam_location, _custom_location, _consent_given
+    )
+    RETURNING id INTO _session_id;
+  EXCEPTION
+    WHEN unique_violation THEN
+      _error := 'This access code has already been used';
+    WHEN OTHERS THEN
+      _error := SQLERRM;
+  END;
+
+  IF _error IS NOT NULL THEN
+    INSERT INTO public.registration_attempts (exam_id, roster_entry_id, access_code, reason, client_ip)
+    VALUES (_entry.exam_id, _entry.id, _code, _error, _client_ip);
+    RETURN jsonb_build_object('error', _error);
+  END IF;
+
+  RETURN jsonb_build_object('session_id', _session_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.register_with_access_code(TEXT, TEXT, TEXT, BOOLEAN, TEXT) TO anon, authenticated;
+
+-- 8. Add helpful comments
+COMMENT ON COLUMN public.exams.requires_access_code IS 'Only candidates on the exam roster, registering with their access code, may sit the exam';
+COMMENT ON TABLE public.exam_roster IS 'Pre-registered candidates and their one-time access codes';
+COMMENT ON COLUMN public.candidate_sessions.roster_entry_id IS 'Roster entry whose access code created this session';
+COMMENT ON TABLE public.registration_attempts IS 'Refused registrations: unknown codes, reused codes and closed windows';
+COMMENT ON COLUMN public.registration_attempts.client_ip IS 'Address the attempt came from; recent failures per address are throttled';
+
+-- 9. Verify the setup
+SELECT 'Candidate rosters and access codes created successfully' as status;
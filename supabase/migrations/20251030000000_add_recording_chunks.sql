@@ -0,0 +1,136 @@
+-- Chunked Recording Uploads
+-- This migration records exam recordings as a manifest of chunks uploaded while
+-- the candidate is recording, instead of a single file uploaded at the end.
+-- Each recorder run is a segment; its chunks concatenate into a playable WebM.
+-- The session keeps a running chunk count and a digest of the manifest, so a
+-- session that ends abnormally still has everything uploaded up to that point
+
+-- 1. One row per uploaded chunk, with the SHA-256 of its bytes
+CREATE TABLE IF NOT EXISTS public.recording_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.candidate_sessions(id) ON DELETE CASCADE NOT NULL,
+  segment INTEGER NOT NULL CHECK (segment >= 1),
+  sequence INTEGER NOT NULL CHECK (sequence >= 1),
+  storage_path TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0),
+  sha256 TEXT NOT NULL CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  recorded_at TIMESTAMPTZ NOT NULL,
+  uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (session_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS recording_chunks_session_idx
+  ON public.recording_chunks (session_id, segment, sequence);
+
+ALTER TABLE public.recording_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Chunks go to a session that is still being recorded, under that session's own
+-- storage prefix. The last chunks finish uploading just after submission, so a
+-- session stays open to them for 5 minutes after its last section closed
+CREATE OR REPLACE FUNCTION public.can_add_recording_chunk(_session_id UUID, _storage_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _storage_path ~ ('^' || _session_id::text || '/chunks/[0-9]+-[0-9]+\.webm$')
+    AND EXISTS (
+      SELECT 1 FROM public.candidate_sessions s
+      WHERE s.id = _session_id
+        AND (
+          s.status = 'in_progress'
+          OR (
+            SELECT MAX(p.completed_at) FROM public.session_section_progress p
+            WHERE p.session_id = s.id
+          ) > NOW() - INTERVAL '5 minutes'
+        )
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_add_recording_chunk(UUID, TEXT) TO anon, authenticated;
+
+-- Candidates only add chunks; the manifest is read back through begin_recording_segment
+DROP POLICY IF EXISTS "Candidates can add recording chunks" ON public.recording_chunks;
+CREATE POLICY "Candidates can add recording chunks" ON public.recording_chunks
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (public.can_add_recording_chunk(session_id, storage_path));
+
+DROP POLICY IF EXISTS "Admins can manage recording chunks" ON public.recording_chunks;
+CREATE POLICY "Admins can manage recording chunks" ON public.recording_chunks
+  FOR ALL
+  TO authenticated
+  USING (public.is_current_user_admin())
+  WITH CHECK (public.is_current_user_admin());
+
+-- 2. Running totals on the session
+ALTER TABLE public.candidate_sessions
+ADD COLUMN IF NOT EXISTS recording_chunk_count INTEGER NOT NULL DEFAULT 0;
+
+-- 3. Keep the count and the manifest digest current as chunks arrive. The
+-- digest is the SHA-256 of the chunk hashes concatenated in sequence order
+CREATE OR REPLACE FUNCTION public.update_recording_manifest()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.candidate_sessions
+  SET
+    recording_chunk_count = manifest.chunk_count,
+    recording_checksum = manifest.digest
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS chunk_count,
+      encode(sha256(convert_to(string_agg(sha256, '' ORDER BY sequence), 'UTF8')), 'hex') AS digest
+    FROM public.recording_chunks
+    WHERE session_id = NEW.session_id
+  ) AS manifest
+  WHERE id = NEW.session_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_recording_manifest_trigger ON public.recording_chunks;
+CREATE TRIGGER update_recording_manifest_trigger
+  AFTER INSERT ON public.recording_chunks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_recording_manifest();
+
+-- 4. Start a new segment after whatever was already uploaded, so a recorder
+-- restarted after a reload or crash never collides with earlier chunks
+CREATE OR REPLACE FUNCTION public.begin_recording_segment(_session_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _segment INTEGER;
+  _sequence INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.candidate_sessions WHERE id = _session_id) THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  SELECT COALESCE(MAX(segment), 0) + 1, COALESCE(MAX(sequence), 0) + 1
+  INTO _segment, _sequence
+  FROM public.recording_chunks
+  WHERE session_id = _session_id;
+
+  RETURN jsonb_build_object('segment', _segment, 'next_sequence', _sequence);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.begin_recording_segment(UUID) TO anon, authenticated;
+
+-- 5. Add helpful comments
+COMMENT ON TABLE public.recording_chunks IS 'Manifest of recording chunks uploaded during the exam, with a SHA-256 per chunk';
+COMMENT ON COLUMN public.recording_chunks.segment IS 'Recorder run the chunk belongs to; the chunks of a segment concatenate into one WebM file';
+COMMENT ON COLUMN public.candidate_sessions.recording_chunk_count IS 'Number of recording chunks uploaded for this session';
+
+-- 6. Verify the setup
+SELECT 'Chunked recording uploads created successfully' as status;
@@ -0,0 +1,109 @@
+-- Integrity Event Log
+-- This migration turns candidate_sessions.flags into an append-only log of
+-- browser integrity events (tab switches, focus loss, leaving fullscreen,
+-- clipboard use, devtools, ended screen share). Candidates append through
+-- log_integrity_events, which stamps each event with the server receive time
+-- and its offset into the exam; existing entries can never be changed or removed
+
+-- 1. Reject any update that rewrites or drops earlier flags
+CREATE OR REPLACE FUNCTION public.protect_integrity_flags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB := COALESCE(OLD.flags, '[]'::jsonb);
+  _new JSONB := COALESCE(NEW.flags, '[]'::jsonb);
+  _prefix JSONB;
+BEGIN
+  IF _new = _old THEN
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_typeof(_new) <> 'array' OR jsonb_array_length(_new) < jsonb_array_length(_old) THEN
+    RAISE EXCEPTION 'Integrity flags are append-only';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(event ORDER BY position), '[]'::jsonb) INTO _prefix
+  FROM jsonb_array_elements(_new) WITH ORDINALITY AS entries(event, position)
+  WHERE position <= jsonb_array_length(_old);
+
+  IF _prefix <> _old THEN
+    RAISE EXCEPTION 'Integrity flags are append-only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_integrity_flags_trigger ON public.candidate_sessions;
+CREATE TRIGGER protect_integrity_flags_trigger
+  BEFORE UPDATE OF flags ON public.candidate_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_integrity_flags();
+
+-- 2. Append a batch of events to an in-progress session. Each event needs a
+-- known type and the client time it happened; the client time is clamped to
+-- the session so exam_seconds always falls within the sitting
+CREATE OR REPLACE FUNCTION public.log_integrity_events(_session_id UUID, _events JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _started_at TIMESTAMPTZ;
+  _stamped JSONB;
+BEGIN
+  SELECT started_at INTO _started_at
+  FROM public.candidate_sessions
+  WHERE id = _session_id AND status = 'in_progress';
+
+  IF _started_at IS NULL THEN
+    RAISE EXCEPTION 'Session is not in progress';
+  END IF;
+
+  IF jsonb_typeof(_events) <> 'array' THEN
+    RAISE EXCEPTION 'Events must be an array';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_events) AS event
+    WHERE event->>'type' NOT IN (
+      'visibility_hidden', 'visibility_visible', 'window_blur', 'window_focus',
+      'fullscreen_exit', 'copy', 'cut', 'paste', 'context_menu',
+      'devtools_open', 'screen_share_ended', 'camera_ended'
+    )
+    OR event->>'at' IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unknown integrity event';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'type', event->>'type',
+      'at', event->>'at',
+      'detail', event->'detail',
+      'received_at', NOW(),
+      'exam_seconds', FLOOR(EXTRACT(EPOCH FROM
+        LEAST(GREATEST((event->>'at')::timestamptz, _started_at), NOW()) - _started_at
+      ))::INTEGER
+    ) ORDER BY position
+  ), '[]'::jsonb) INTO _stamped
+  FROM jsonb_array_elements(_events) WITH ORDINALITY AS entries(event, position);
+
+  UPDATE public.candidate_sessions
+  SET flags = COALESCE(flags, '[]'::jsonb) || _stamped
+  WHERE id = _session_id;
+
+  RETURN jsonb_array_length(_stamped);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.log_integrity_events(UUID, JSONB) TO anon, authenticated;
+
+-- 3. Add helpful comments
+COMMENT ON COLUMN public.candidate_sessions.flags IS 'Append-only log of browser integrity events, written through log_integrity_events';
+
+-- 4. Verify the setup
+SELECT 'Integrity event log created successfully' as status;
@@ -0,0 +1,109 @@
+-- Review Timeline
+-- This migration records what a reviewer needs to line events up with the
+-- recording: every change to an answer, every save the candidate's browser
+-- made, and reviewer notes pinned to a moment of the session
+
+-- 1. History of answer contents; a row is added whenever the saved answer changes
+CREATE TABLE IF NOT EXISTS public.answer_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.candidate_sessions(id) ON DELETE CASCADE NOT NULL,
+  question_id UUID REFERENCES public.exam_questions(id) ON DELETE CASCADE NOT NULL,
+  answer_text TEXT,
+  selected_option TEXT,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS answer_revisions_session_idx
+  ON public.answer_revisions (session_id, changed_at);
+
+ALTER TABLE public.answer_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view answer revisions" ON public.answer_revisions;
+CREATE POLICY "Admins can view answer revisions" ON public.answer_revisions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_current_user_admin());
+
+-- 2. One row per save request. A save writes every open answer in a single
+-- statement, so the answers written in one transaction count as one save
+CREATE TABLE IF NOT EXISTS public.answer_saves (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.candidate_sessions(id) ON DELETE CASCADE NOT NULL,
+  transaction_id BIGINT NOT NULL,
+  answer_count INTEGER NOT NULL DEFAULT 1,
+  changed_count INTEGER NOT NULL DEFAULT 0,
+  saved_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (session_id, transaction_id)
+);
+
+ALTER TABLE public.answer_saves ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view answer saves" ON public.answer_saves;
+CREATE POLICY "Admins can view answer saves" ON public.answer_saves
+  FOR SELECT
+  TO authenticated
+  USING (public.is_current_user_admin());
+
+CREATE OR REPLACE FUNCTION public.record_answer_save()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _changed BOOLEAN := TG_OP = 'INSERT'
+    OR NEW.answer_text IS DISTINCT FROM OLD.answer_text
+    OR NEW.selected_option IS DISTINCT FROM OLD.selected_option;
+BEGIN
+  IF _changed THEN
+    INSERT INTO public.answer_revisions (session_id, question_id, answer_text, selected_option)
+    VALUES (NEW.session_id, NEW.question_id, NEW.answer_text, NEW.selected_option);
+  END IF;
+
+  INSERT INTO public.answer_saves (session_id, transaction_id, changed_count)
+  VALUES (NEW.session_id, txid_current(), CASE WHEN _changed THEN 1 ELSE 0 END)
+  ON CONFLICT (session_id, transaction_id) DO UPDATE
+  SET
+    answer_count = answer_saves.answer_count + 1,
+    changed_count = answer_saves.changed_count + EXCLUDED.changed_count;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_answer_save_trigger ON public.candidate_answers;
+CREATE TRIGGER record_answer_save_trigger
+  AFTER INSERT OR UPDATE OF answer_text, selected_option ON public.candidate_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_answer_save();
+
+-- 3. Reviewer notes pinned to a moment of the session
+CREATE TABLE IF NOT EXISTS public.review_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.candidate_sessions(id) ON DELETE CASCADE NOT NULL,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  noted_at TIMESTAMPTZ NOT NULL,
+  note TEXT NOT NULL CHECK (length(trim(note)) > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS review_notes_session_idx
+  ON public.review_notes (session_id, noted_at);
+
+ALTER TABLE public.review_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage review notes" ON public.review_notes;
+CREATE POLICY "Admins can manage review notes" ON public.review_notes
+  FOR ALL
+  TO authenticated
+  USING (public.is_current_user_admin())
+  WITH CHECK (public.is_current_user_admin());
+
+-- 4. Add helpful comments
+COMMENT ON TABLE public.answer_revisions IS 'Every distinct version of a candidate answer, in the order it was saved';
+COMMENT ON TABLE public.answer_saves IS 'Answer save requests made by the candidate''s browser, one row per transaction';
+COMMENT ON TABLE public.review_notes IS 'Reviewer notes pinned to a moment of the session, shown on the recording timeline';
+COMMENT ON COLUMN public.review_notes.noted_at IS 'Moment of the session the note refers to';
+
+-- 5. Verify the setup
+SELECT 'Review timeline created successfully' as status;
@@ -0,0 +1,77 @@
+-- Face Presence Monitoring
+-- This migration adds per-exam settings for on-device face detection. While
+-- recording, the candidate's browser samples the webcam and logs "no face",
+-- "multiple faces" and "looking away" episodes into the integrity event log
+
+-- 1. Per-exam thresholds
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS face_monitoring BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS face_absent_seconds INTEGER NOT NULL DEFAULT 5 CHECK (face_absent_seconds >= 1),
+ADD COLUMN IF NOT EXISTS face_away_seconds INTEGER NOT NULL DEFAULT 10 CHECK (face_away_seconds >= 1),
+ADD COLUMN IF NOT EXISTS face_warn_candidate BOOLEAN NOT NULL DEFAULT true;
+
+-- 2. Accept the face events in the integrity log
+CREATE OR REPLACE FUNCTION public.log_integrity_events(_session_id UUID, _events JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _started_at TIMESTAMPTZ;
+  _stamped JSONB;
+BEGIN
+  SELECT started_at INTO _started_at
+  FROM public.candidate_sessions
+  WHERE id = _session_id AND status = 'in_progress';
+
+  IF _started_at IS NULL THEN
+    RAISE EXCEPTION 'Session is not in progress';
+  END IF;
+
+  IF jsonb_typeof(_events) <> 'array' THEN
+    RAISE EXCEPTION 'Events must be an array';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_events) AS event
+    WHERE event->>'type' NOT IN (
+      'visibility_hidden', 'visibility_visible', 'window_blur', 'window_focus',
+      'fullscreen_exit', 'copy', 'cut', 'paste', 'context_menu',
+      'devtools_open', 'screen_share_ended', 'camera_ended',
+      'no_face', 'multiple_faces', 'looking_away'
+    )
+    OR event->>'at' IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unknown integrity event';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'type', event->>'type',
+      'at', event->>'at',
+      'detail', event->'detail',
+      'received_at', NOW(),
+      'exam_seconds', FLOOR(EXTRACT(EPOCH FROM
+        LEAST(GREATEST((event->>'at')::timestamptz, _started_at), NOW()) - _started_at
+      ))::INTEGER
+    ) ORDER BY position
+  ), '[]'::jsonb) INTO _stamped
+  FROM jsonb_array_elements(_events) WITH ORDINALITY AS entries(event, position);
+
+  UPDATE public.candidate_sessions
+  SET flags = COALESCE(flags, '[]'::jsonb) || _stamped
+  WHERE id = _session_id;
+
+  RETURN jsonb_array_length(_stamped);
+END;
+$$;
+
+-- 3. Add helpful comments
+COMMENT ON COLUMN public.exams.face_monitoring IS 'Sample the candidate webcam for face presence while recording';
+COMMENT ON COLUMN public.exams.face_absent_seconds IS 'Seconds without a detected face before a no_face event is logged';
+COMMENT ON COLUMN public.exams.face_away_seconds IS 'Seconds of looking away from the screen before a looking_away event is logged';
+COMMENT ON COLUMN public.exams.face_warn_candidate IS 'Show the candidate an on-screen warning when a face event is logged';
+
+-- 4. Verify the setup
+SELECT 'Face presence monitoring created successfully' as status;
@@ -0,0 +1,76 @@
+-- Audio Activity Monitoring
+-- This migration adds per-exam settings for voice-activity detection on the
+-- candidate microphone. Sustained speech and likely multiple speakers are
+-- logged as integrity events that span an interval, so the event log now
+-- carries an optional duration: the event time is when the interval started
+
+-- 1. Per-exam thresholds
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS audio_monitoring BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS audio_speech_seconds INTEGER NOT NULL DEFAULT 5 CHECK (audio_speech_seconds >= 1);
+
+-- 2. Accept speech events and their duration in the integrity log
+CREATE OR REPLACE FUNCTION public.log_integrity_events(_session_id UUID, _events JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _started_at TIMESTAMPTZ;
+  _stamped JSONB;
+BEGIN
+  SELECT started_at INTO _started_at
+  FROM public.candidate_sessions
+  WHERE id = _session_id AND status = 'in_progress';
+
+  IF _started_at IS NULL THEN
+    RAISE EXCEPTION 'Session is not in progress';
+  END IF;
+
+  IF jsonb_typeof(_events) <> 'array' THEN
+    RAISE EXCEPTION 'Events must be an array';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_events) AS event
+    WHERE event->>'type' NOT IN (
+      'visibility_hidden', 'visibility_visible', 'window_blur', 'window_focus',
+      'fullscreen_exit', 'copy', 'cut', 'paste', 'context_menu',
+      'devtools_open', 'screen_share_ended', 'camera_ended',
+      'no_face', 'multiple_faces', 'looking_away',
+      'speech', 'multiple_speakers'
+    )
+    OR event->>'at' IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unknown integrity event';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'type', event->>'type',
+      'at', event->>'at',
+      'detail', event->'detail',
+      'duration_seconds', (event->>'duration_seconds')::NUMERIC,
+      'received_at', NOW(),
+      'exam_seconds', FLOOR(EXTRACT(EPOCH FROM
+        LEAST(GREATEST((event->>'at')::timestamptz, _started_at), NOW()) - _started_at
+      ))::INTEGER
+    ) ORDER BY position
+  ), '[]'::jsonb) INTO _stamped
+  FROM jsonb_array_elements(_events) WITH ORDINALITY AS entries(event, position);
+
+  UPDATE public.candidate_sessions
+  SET flags = COALESCE(flags, '[]'::jsonb) || _stamped
+  WHERE id = _session_id;
+
+  RETURN jsonb_array_length(_stamped);
+END;
+$$;
+
+-- 3. Add helpful comments
+COMMENT ON COLUMN public.exams.audio_monitoring IS 'Log sustained speech and multiple speakers picked up by the candidate microphone';
+COMMENT ON COLUMN public.exams.audio_speech_seconds IS 'Seconds of continuous speech before a talking interval is logged';
+
+-- 4. Verify the setup
+SELECT 'Audio activity monitoring created successfully' as status;
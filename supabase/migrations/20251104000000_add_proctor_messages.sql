@@ -0,0 +1,113 @@
+-- Proctor Messages
+-- This migration lets proctors send warnings and instructions to a candidate,
+-- or to everyone taking an exam, while the exam is running. Candidates must
+-- acknowledge each message; both the message and the acknowledgement are kept
+-- for the session review
+
+-- 1. Messages; a message without a session goes to every candidate in the exam
+CREATE TABLE IF NOT EXISTS public.proctor_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE NOT NULL,
+  session_id UUID REFERENCES public.candidate_sessions(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'warning' CHECK (kind IN ('warning', 'instruction')),
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  sender_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS proctor_messages_exam_idx
+  ON public.proctor_messages (exam_id, sent_at);
+
+CREATE INDEX IF NOT EXISTS proctor_messages_session_idx
+  ON public.proctor_messages (session_id, sent_at);
+
+ALTER TABLE public.proctor_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage proctor messages" ON public.proctor_messages;
+CREATE POLICY "Admins can manage proctor messages" ON public.proctor_messages
+  FOR ALL
+  TO authenticated
+  USING (public.is_current_user_admin())
+  WITH CHECK (public.is_current_user_admin());
+
+-- 2. Acknowledgements, one per message and candidate session
+CREATE TABLE IF NOT EXISTS public.proctor_message_acks (
+  message_id UUID REFERENCES public.proctor_messages(id) ON DELETE CASCADE NOT NULL,
+  session_id UUID REFERENCES public.candidate_sessions(id) ON DELETE CASCADE NOT NULL,
+  acknowledged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (message_id, session_id)
+);
+
+ALTER TABLE public.proctor_message_acks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view proctor message acknowledgements" ON public.proctor_message_acks;
+CREATE POLICY "Admins can view proctor message acknowledgements" ON public.proctor_message_acks
+  FOR SELECT
+  TO authenticated
+  USING (public.is_current_user_admin());
+
+-- 3. Messages a candidate has not acknowledged yet. Broadcasts count from the
+-- moment the session started, so late joiners do not see earlier ones
+CREATE OR REPLACE FUNCTION public.get_pending_proctor_messages(_session_id UUID)
+RETURNS TABLE (id UUID, kind TEXT, body TEXT, sent_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.kind, m.body, m.sent_at
+  FROM public.proctor_messages m
+  JOIN public.candidate_sessions s ON s.id = _session_id
+  WHERE s.status = 'in_progress'
+    AND (
+      m.session_id = s.id
+      OR (m.session_id IS NULL AND m.exam_id = s.exam_id AND m.sent_at >= s.started_at)
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.proctor_message_acks a
+      WHERE a.message_id = m.id AND a.session_id = s.id
+    )
+  ORDER BY m.sent_at;
+$$;
+
+CREATE OR REPLACE FUNCTION public.acknowledge_proctor_message(_message_id UUID, _session_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _acknowledged_at TIMESTAMPTZ;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.proctor_messages m
+    JOIN public.candidate_sessions s ON s.id = _session_id
+    WHERE m.id = _message_id
+      AND (m.session_id = s.id OR (m.session_id IS NULL AND m.exam_id = s.exam_id))
+  ) THEN
+    RAISE EXCEPTION 'Message was not sent to this session';
+  END IF;
+
+  INSERT INTO public.proctor_message_acks (message_id, session_id)
+  VALUES (_message_id, _session_id)
+  ON CONFLICT (message_id, session_id) DO NOTHING;
+
+  SELECT acknowledged_at INTO _acknowledged_at
+  FROM public.proctor_message_acks
+  WHERE message_id = _message_id AND session_id = _session_id;
+
+  RETURN _acknowledged_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_pending_proctor_messages(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.acknowledge_proctor_message(UUID, UUID) TO anon, authenticated;
+
+-- 4. Add helpful comments
+COMMENT ON TABLE public.proctor_messages IS 'Warnings and instructions sent by proctors during a live exam';
+COMMENT ON COLUMN public.proctor_messages.session_id IS 'Recipient session; NULL sends the message to every candidate taking the exam';
+COMMENT ON TABLE public.proctor_message_acks IS 'When each candidate acknowledged a proctor message';
+
+-- 5. Verify the setup
+SELECT 'Proctor messages created successfully' as status;
@@ -0,0 +1,196 @@
+-- Proctor Actions
+-- This migration lets proctors act on a live session: pause and resume the
+-- section timer, add minutes to the open section, force submission, or
+-- terminate the session. Every action needs a reason and is audited with the
+-- proctor's user id. Pause and terminate state can only change through
+-- apply_proctor_action, since candidates can otherwise update their own session
+
+-- 1. New session status for sessions ended by a proctor
+ALTER TYPE public.session_status ADD VALUE IF NOT EXISTS 'terminated';
+
+-- 2. Pause state, visible to the candidate's browser
+ALTER TABLE public.candidate_sessions
+ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS status_reason TEXT;
+
+-- 3. Audit log of proctor actions
+CREATE TABLE IF NOT EXISTS public.proctor_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.candidate_sessions(id) ON DELETE CASCADE NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('pause', 'resume', 'extend_time', 'force_submit', 'terminate')),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  section_id UUID REFERENCES public.exam_sections(id) ON DELETE SET NULL,
+  minutes INTEGER,
+  proctor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS proctor_actions_session_idx
+  ON public.proctor_actions (session_id, created_at);
+
+ALTER TABLE public.proctor_actions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written through apply_proctor_action
+DROP POLICY IF EXISTS "Admins can view proctor actions" ON public.proctor_actions;
+CREATE POLICY "Admins can view proctor actions" ON public.proctor_actions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_current_user_admin());
+
+-- 4. Keep candidates from lifting a pause or undoing a termination themselves
+CREATE OR REPLACE FUNCTION public.protect_proctor_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.proctor_action', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status::text = 'terminated' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Session was terminated by a proctor';
+  END IF;
+
+  IF NEW.paused_at IS DISTINCT FROM OLD.paused_at OR NEW.status_reason IS DISTINCT FROM OLD.status_reason THEN
+    RAISE EXCEPTION 'Pause state can only be changed by a proctor';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_proctor_state_trigger ON public.candidate_sessions;
+CREATE TRIGGER protect_proctor_state_trigger
+  BEFORE UPDATE ON public.candidate_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_proctor_state();
+
+-- 5. Apply an action to an in-progress session and audit it
+CREATE OR REPLACE FUNCTION public.apply_proctor_action(
+  _session_id UUID,
+  _action TEXT,
+  _reason TEXT,
+  _minutes INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session RECORD;
+  _section_id UUID;
+  _audit public.proctor_actions;
+BEGIN
+  IF NOT public.is_current_user_admin() THEN
+    RAISE EXCEPTION 'Only proctors can act on sessions';
+  END IF;
+
+  IF _reason IS NULL OR length(trim(_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT id, status, paused_at INTO _session
+  FROM public.candidate_sessions
+  WHERE id = _session_id
+  FOR UPDATE;
+
+  IF _session.id IS NULL THEN
+    RAISE EXCEPTION 'Session % not found', _session_id;
+  END IF;
+
+  IF _session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Session % is no longer in progress', _session_id;
+  END IF;
+
+  PERFORM set_config('app.proctor_action', 'on', true);
+
+  IF _action = 'pause' THEN
+    IF _session.paused_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Session is already paused';
+    END IF;
+
+    UPDATE public.candidate_sessions
+    SET paused_at = NOW(), status_reason = trim(_reason)
+    WHERE id = _session_id;
+
+  ELSIF _action = 'resume' THEN
+    IF _session.paused_at IS NULL THEN
+      RAISE EXCEPTION 'Session is not paused';
+    END IF;
+
+    -- The open section gets back the time it was paused for
+    UPDATE public.session_section_progress
+    SET deadline_at = deadline_at + (NOW() - _session.paused_at)
+    WHERE session_id = _session_id
+      AND completed_at IS NULL
+      AND deadline_at > _session.paused_at;
+
+    UPDATE public.candidate_sessions
+    SET paused_at = NULL, status_reason = NULL
+    WHERE id = _session_id;
+
+  ELSIF _action = 'extend_time' THEN
+    IF _minutes IS NULL OR _minutes < 1 OR _minutes > 600 THEN
+      RAISE EXCEPTION 'Minutes must be between 1 and 600';
+    END IF;
+
+    SELECT section_id INTO _section_id
+    FROM public.session_section_progress
+    WHERE session_id = _session_id AND completed_at IS NULL
+    ORDER BY started_at DESC
+    LIMIT 1;
+
+    IF _section_id IS NULL THEN
+      RAISE EXCEPTION 'No section is open for this session';
+    END IF;
+
+    -- A section whose deadline just passed gets the minutes from now
+    UPDATE public.session_section_progress
+    SET deadline_at = GREATEST(deadline_at, NOW()) + make_interval(mins => _minutes)
+    WHERE session_id = _session_id AND section_id = _section_id;
+
+  ELSIF _action IN ('force_submit', 'terminate') THEN
+    UPDATE public.session_section_progress
+    SET completed_at = LEAST(NOW(), deadline_at)
+    WHERE session_id = _session_id AND completed_at IS NULL;
+
+    UPDATE public.candidate_sessions
+    SET
+      status = (CASE WHEN _action = 'terminate' THEN 'terminated' ELSE 'completed' END)::session_status,
+      submitted_at = NOW(),
+      paused_at = NULL,
+      status_reason = trim(_reason)
+    WHERE id = _session_id;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown proctor action %', _action;
+  END IF;
+
+  PERFORM set_config('app.proctor_action', 'off', true);
+
+  INSERT INTO public.proctor_actions (session_id, action, reason, section_id, minutes, proctor_id)
+  VALUES (
+    _session_id,
+    _action,
+    trim(_reason),
+    _section_id,
+    CASE WHEN _action = 'extend_time' THEN _minutes END,
+    auth.uid()
+  )
+  RETURNING * INTO _audit;
+
+  RETURN to_jsonb(_audit);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_proctor_action(UUID, TEXT, TEXT, INTEGER) TO authenticated;
+
+-- 6. Add helpful comments
+COMMENT ON COLUMN public.candidate_sessions.paused_at IS 'Set while a proctor has paused the session; the open section gets the paused time back on resume';
+COMMENT ON COLUMN public.candidate_sessions.status_reason IS 'Reason given by the proctor for the current pause, forced submission or termination';
+COMMENT ON TABLE public.proctor_actions IS 'Audit log of proctor actions on live sessions, with the acting proctor';
+
+-- 7. Verify the setup
+SELECT 'Proctor actions created successfully' as status;
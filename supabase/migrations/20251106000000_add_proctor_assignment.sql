@@ -0,0 +1,381 @@
+-- Proctor Assignment
+-- This migration splits live sessions between the proctors of an exam. Each
+-- exam has a pool of proctors and an assignment mode: by exam location, by
+-- round-robin, or by proctor capacity. A new session gets its proctor when it
+-- is created; supervisors can reassign sessions, and any proctor can escalate
+-- a session to a queue where a second proctor claims and resolves it
+
+-- 1. Supervisors oversee every proctor and can reassign sessions
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'supervisor';
+
+CREATE OR REPLACE FUNCTION public.is_current_user_supervisor()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.has_role(auth.uid(), 'supervisor'::app_role);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_current_user_supervisor() TO authenticated;
+
+-- 2. How sessions of an exam are assigned
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS proctor_assignment TEXT NOT NULL DEFAULT 'round_robin'
+  CHECK (proctor_assignment IN ('location', 'round_robin', 'capacity'));
+
+-- 3. Proctor pool of each exam
+CREATE TABLE IF NOT EXISTS public.exam_proctors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE NOT NULL,
+  proctor_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  location TEXT,
+  capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+  last_assigned_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (exam_id, proctor_id)
+);
+
+ALTER TABLE public.exam_proctors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage exam proctors" ON public.exam_proctors;
+CREATE POLICY "Admins can manage exam proctors" ON public.exam_proctors
+  FOR ALL
+  TO authenticated
+  USING (public.is_current_user_admin())
+  WITH CHECK (public.is_current_user_admin());
+
+-- 4. Assigned proctor of each session
+ALTER TABLE public.candidate_sessions
+ADD COLUMN IF NOT EXISTS proctor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS candidate_sessions_proctor_idx
+  ON public.candidate_sessions (proctor_id)
+  WHERE status = 'in_progress';
+
+-- 5. Choose a proctor from the exam's pool. Load is the number of in-progress
+-- sessions a proctor has across all exams. Returns NULL when the pool is empty
+-- or, in capacity mode, when every proctor is full
+CREATE OR REPLACE FUNCTION public.pick_session_proctor(_exam_id UUID, _location TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _mode TEXT;
+  _pool_id UUID;
+  _proctor_id UUID;
+BEGIN
+  SELECT proctor_assignment INTO _mode FROM public.exams WHERE id = _exam_id;
+
+  WITH pool AS (
+    SELECT
+      p.id,
+      p.proctor_id,
+      p.location,
+      p.capacity,
+      p.last_assigned_at,
+      p.created_at,
+      (
+        SELECT count(*) FROM public.candidate_sessions s
+        WHERE s.proctor_id = p.proctor_id AND s.status = 'in_progress'
+      ) AS load
+    FROM public.exam_proctors p
+    WHERE p.exam_id = _exam_id
+  ),
+  eligible AS (
+    SELECT * FROM pool
+    WHERE CASE _mode
+      -- Proctors of the candidate's location, or everyone when none match
+      WHEN 'location' THEN
+        lower(trim(location)) = lower(trim(_location))
+        OR NOT EXISTS (SELECT 1 FROM pool WHERE lower(trim(location)) = lower(trim(_location)))
+      WHEN 'capacity' THEN capacity IS NULL OR load < capacity
+      ELSE true
+    END
+  )
+  SELECT id, proctor_id INTO _pool_id, _proctor_id
+  FROM eligible
+  ORDER BY
+    CASE WHEN _mode = 'round_robin' THEN NULL ELSE
+      CASE WHEN _mode = 'capacity' AND capacity IS NOT NULL THEN load::NUMERIC / capacity ELSE load END
+    END NULLS FIRST,
+    last_assigned_at NULLS FIRST,
+    created_at
+  LIMIT 1;
+
+  IF _pool_id IS NOT NULL THEN
+    UPDATE public.exam_proctors SET last_assigned_at = NOW() WHERE id = _pool_id;
+  END IF;
+
+  RETURN _proctor_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_session_proctor()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.proctor_id := public.pick_session_proctor(
+    NEW.exam_id,
+    CASE WHEN NEW.exam_location = 'other' THEN COALESCE(NULLIF(NEW.custom_location, ''), NEW.exam_location) ELSE NEW.exam_location END
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_session_proctor_trigger ON public.candidate_sessions;
+CREATE TRIGGER assign_session_proctor_trigger
+  BEFORE INSERT ON public.candidate_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_session_proctor();
+
+-- 6. Candidates cannot change their proctor either
+CREATE OR REPLACE FUNCTION public.protect_proctor_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.proctor_action', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status::text = 'terminated' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Session was terminated by a proctor';
+  END IF;
+
+  IF NEW.paused_at IS DISTINCT FROM OLD.paused_at OR NEW.status_reason IS DISTINCT FROM OLD.status_reason THEN
+    RAISE EXCEPTION 'Pause state can only be changed by a proctor';
+  END IF;
+
+  IF NEW.proctor_id IS DISTINCT FROM OLD.proctor_id THEN
+    RAISE EXCEPTION 'Proctor assignment can only be changed by a supervisor';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 7. Reassignment by a supervisor, audited with the other proctor actions
+ALTER TABLE public.proctor_actions
+ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.proctor_actions
+DROP CONSTRAINT IF EXISTS proctor_actions_action_check;
+
+ALTER TABLE public.proctor_actions
+ADD CONSTRAINT proctor_actions_action_check
+  CHECK (action IN ('pause', 'resume', 'extend_time', 'force_submit', 'terminate', 'reassign'));
+
+CREATE OR REPLACE FUNCTION public.reassign_session(_session_id UUID, _proctor_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_current_user_supervisor() THEN
+    RAISE EXCEPTION 'Only supervisors can reassign sessions';
+  END IF;
+
+  IF _reason IS NULL OR length(trim(_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF NOT public.has_role(_proctor_id, 'admin') THEN
+    RAISE EXCEPTION 'User % is not a proctor', _proctor_id;
+  END IF;
+
+  PERFORM set_config('app.proctor_action', 'on', true);
+
+  UPDATE public.candidate_sessions
+  SET proctor_id = _proctor_id
+  WHERE id = _session_id AND status = 'in_progress';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % is not in progress', _session_id;
+  END IF;
+
+  PERFORM set_config('app.proctor_action', 'off', true);
+
+  INSERT INTO public.proctor_actions (session_id, action, reason, assigned_to, proctor_id)
+  VALUES (_session_id, 'reassign', trim(_reason), _proctor_id, auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reassign_session(UUID, UUID, TEXT) TO authenticated;
+
+-- 8. Pool members with their names and current load; profiles are otherwise private
+CREATE OR REPLACE FUNCTION public.get_exam_proctors(_exam_id UUID)
+RETURNS TABLE (
+  id UUID,
+  proctor_id UUID,
+  full_name TEXT,
+  email TEXT,
+  location TEXT,
+  capacity INTEGER,
+  active_sessions INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_current_user_admin() THEN
+    RAISE EXCEPTION 'Only proctors can view the proctor pool';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.proctor_id,
+    pr.full_name,
+    pr.email,
+    p.location,
+    p.capacity,
+    (
+      SELECT count(*)::INTEGER FROM public.candidate_sessions s
+      WHERE s.proctor_id = p.proctor_id AND s.status = 'in_progress'
+    )
+  FROM public.exam_proctors p
+  LEFT JOIN public.profiles pr ON pr.id = p.proctor_id
+  WHERE p.exam_id = _exam_id
+  ORDER BY pr.full_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_exam_proctor(_exam_id UUID, _email TEXT, _location TEXT DEFAULT NULL, _capacity INTEGER DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+  _id UUID;
+BEGIN
+  IF NOT public.is_current_user_admin() THEN
+    RAISE EXCEPTION 'Only proctors can manage the proctor pool';
+  END IF;
+
+  SELECT id INTO _user_id FROM auth.users WHERE lower(email) = lower(trim(_email));
+
+  IF _user_id IS NULL OR NOT public.has_role(_user_id, 'admin') THEN
+    RAISE EXCEPTION 'No proctor account found for %', _email;
+  END IF;
+
+  INSERT INTO public.exam_proctors (exam_id, proctor_id, location, capacity)
+  VALUES (_exam_id, _user_id, NULLIF(trim(_location), ''), _capacity)
+  ON CONFLICT (exam_id, proctor_id) DO UPDATE
+  SET location = EXCLUDED.location, capacity = EXCLUDED.capacity
+  RETURNING id INTO _id;
+
+  RETURN _id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_exam_proctors(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_exam_proctor(UUID, TEXT, TEXT, INTEGER) TO authenticated;
+
+-- 9. Escalation queue: a session that needs a second proctor
+CREATE TABLE IF NOT EXISTS public.session_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.candidate_sessions(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  raised_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'claimed', 'resolved')),
+  claimed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  claimed_at TIMESTAMPTZ,
+  resolution TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- At most one unresolved escalation per session
+CREATE UNIQUE INDEX IF NOT EXISTS session_escalations_unresolved_idx
+  ON public.session_escalations (session_id)
+  WHERE status <> 'resolved';
+
+ALTER TABLE public.session_escalations ENABLE ROW LEVEL SECURITY;
+
+-- Claiming and resolving go through the functions below, which stamp the proctor
+DROP POLICY IF EXISTS "Admins can view escalations" ON public.session_escalations;
+CREATE POLICY "Admins can view escalations" ON public.session_escalations
+  FOR SELECT
+  TO authenticated
+  USING (public.is_current_user_admin());
+
+DROP POLICY IF EXISTS "Admins can raise escalations" ON public.session_escalations;
+CREATE POLICY "Admins can raise escalations" ON public.session_escalations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_current_user_admin() AND raised_by = auth.uid() AND status = 'open');
+
+CREATE OR REPLACE FUNCTION public.claim_escalation(_escalation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_current_user_admin() THEN
+    RAISE EXCEPTION 'Only proctors can claim escalations';
+  END IF;
+
+  UPDATE public.session_escalations
+  SET status = 'claimed', claimed_by = auth.uid(), claimed_at = NOW()
+  WHERE id = _escalation_id AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Escalation was already claimed';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_escalation(_escalation_id UUID, _resolution TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _resolution IS NULL OR length(trim(_resolution)) = 0 THEN
+    RAISE EXCEPTION 'A resolution is required';
+  END IF;
+
+  -- The claiming proctor resolves; supervisors can resolve any escalation
+  UPDATE public.session_escalations
+  SET status = 'resolved', resolution = trim(_resolution), resolved_at = NOW()
+  WHERE id = _escalation_id
+    AND status <> 'resolved'
+    AND (claimed_by = auth.uid() OR public.is_current_user_supervisor());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Escalation cannot be resolved by you';
+  END IF;
+END;
+$$;
+
+-- The live monitoring queue refreshes on changes
+ALTER PUBLICATION supabase_realtime ADD TABLE public.session_escalations;
+
+GRANT EXECUTE ON FUNCTION public.claim_escalation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_escalation(UUID, TEXT) TO authenticated;
+
+-- 10. Add helpful comments
+COMMENT ON COLUMN public.exams.proctor_assignment IS 'How new sessions are assigned to the exam''s proctors: location, round_robin or capacity';
+COMMENT ON TABLE public.exam_proctors IS 'Proctor pool of an exam; location and capacity are used by the matching assignment modes';
+COMMENT ON COLUMN public.candidate_sessions.proctor_id IS 'Proctor watching this session; NULL when the exam has no pool or every proctor was full';
+COMMENT ON TABLE public.session_escalations IS 'Sessions a proctor asked a second proctor to look at';
+
+-- 11. Verify the setup
+SELECT 'Proctor assignment created successfully' as status;
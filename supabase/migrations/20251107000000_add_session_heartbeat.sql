@@ -0,0 +1,199 @@
+-- Session Heartbeat
+-- This migration replaces guessing abandonment from session age with candidate
+-- heartbeats. The candidate's browser calls record_heartbeat while the exam is
+-- open. sweep_stale_sessions marks a session disconnected once its heartbeat is
+-- older than the exam's disconnect threshold, and abandoned after the longer
+-- grace period. Drops, reconnects and abandonment are logged per session
+
+-- 1. Per-exam thresholds
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS disconnect_after_seconds INTEGER NOT NULL DEFAULT 45 CHECK (disconnect_after_seconds >= 30),
+ADD COLUMN IF NOT EXISTS abandon_after_minutes INTEGER NOT NULL DEFAULT 15 CHECK (abandon_after_minutes >= 1);
+
+-- 2. Connection state of each session
+ALTER TABLE public.candidate_sessions
+ADD COLUMN IF NOT EXISTS last_heartbeat_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS disconnected_at TIMESTAMPTZ;
+
+-- 3. Log of drops and reconnects
+CREATE TABLE IF NOT EXISTS public.session_connection_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.candidate_sessions(id) ON DELETE CASCADE NOT NULL,
+  event TEXT NOT NULL CHECK (event IN ('disconnected', 'reconnected', 'abandoned')),
+  -- For reconnects, how long the candidate was gone
+  gap_seconds INTEGER,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS session_connection_events_session_idx
+  ON public.session_connection_events (session_id, occurred_at);
+
+ALTER TABLE public.session_connection_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by record_heartbeat and sweep_stale_sessions
+DROP POLICY IF EXISTS "Admins can view connection events" ON public.session_connection_events;
+CREATE POLICY "Admins can view connection events" ON public.session_connection_events
+  FOR SELECT
+  TO authenticated
+  USING (public.is_current_user_admin());
+
+-- Live monitoring tells the proctor when a candidate drops
+ALTER PUBLICATION supabase_realtime ADD TABLE public.session_connection_events;
+
+-- 4. Candidates cannot fake their connection state either
+CREATE OR REPLACE FUNCTION public.protect_proctor_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.proctor_action', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status::text IN ('terminated', 'abandoned') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Session was ended by a proctor';
+  END IF;
+
+  IF NEW.paused_at IS DISTINCT FROM OLD.paused_at OR NEW.status_reason IS DISTINCT FROM OLD.status_reason THEN
+    RAISE EXCEPTION 'Pause state can only be changed by a proctor';
+  END IF;
+
+  IF NEW.proctor_id IS DISTINCT FROM OLD.proctor_id THEN
+    RAISE EXCEPTION 'Proctor assignment can only be changed by a supervisor';
+  END IF;
+
+  IF NEW.last_heartbeat_at IS DISTINCT FROM OLD.last_heartbeat_at OR NEW.disconnected_at IS DISTINCT FROM OLD.disconnected_at THEN
+    RAISE EXCEPTION 'Connection state can only be changed through record_heartbeat';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 5. Heartbeat from the candidate's browser. A heartbeat after a drop logs the
+-- reconnect with the time the candidate was gone
+CREATE OR REPLACE FUNCTION public.record_heartbeat(_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session RECORD;
+BEGIN
+  SELECT id, status, last_heartbeat_at, disconnected_at INTO _session
+  FROM public.candidate_sessions
+  WHERE id = _session_id
+  FOR UPDATE;
+
+  IF _session.id IS NULL OR _session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Session is not in progress';
+  END IF;
+
+  PERFORM set_config('app.proctor_action', 'on', true);
+
+  UPDATE public.candidate_sessions
+  SET last_heartbeat_at = NOW(), disconnected_at = NULL
+  WHERE id = _session_id;
+
+  PERFORM set_config('app.proctor_action', 'off', true);
+
+  IF _session.disconnected_at IS NOT NULL THEN
+    INSERT INTO public.session_connection_events (session_id, event, gap_seconds)
+    VALUES (
+      _session_id,
+      'reconnected',
+      FLOOR(EXTRACT(EPOCH FROM NOW() - COALESCE(_session.last_heartbeat_at, _session.disconnected_at)))::INTEGER
+    );
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_heartbeat(UUID) TO anon, authenticated;
+
+-- 6. Mark silent sessions disconnected, then abandoned. Heartbeats start with
+-- the exam, so sessions still on the pre-exam checks (no heartbeat yet) are left
+-- alone. Returns how many sessions changed
+CREATE OR REPLACE FUNCTION public.sweep_stale_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _disconnected INTEGER;
+  _abandoned INTEGER;
+BEGIN
+  -- Proctor dashboards call this as a fallback when no scheduler is set up
+  IF auth.uid() IS NOT NULL AND NOT public.is_current_user_admin() THEN
+    RAISE EXCEPTION 'Only proctors can sweep sessions';
+  END IF;
+
+  PERFORM set_config('app.proctor_action', 'on', true);
+
+  WITH stale AS (
+    UPDATE public.candidate_sessions s
+    SET disconnected_at = s.last_heartbeat_at
+    FROM public.exams e
+    WHERE e.id = s.exam_id
+      AND s.status = 'in_progress'
+      AND s.disconnected_at IS NULL
+      AND s.last_heartbeat_at < NOW() - make_interval(secs => e.disconnect_after_seconds)
+    RETURNING s.id
+  )
+  INSERT INTO public.session_connection_events (session_id, event)
+  SELECT id, 'disconnected' FROM stale;
+
+  GET DIAGNOSTICS _disconnected = ROW_COUNT;
+
+  -- The open section is closed where its time ran out, as on a forced submission
+  WITH abandoned AS (
+    UPDATE public.candidate_sessions s
+    SET
+      status = 'abandoned',
+      status_reason = 'No connection for ' || e.abandon_after_minutes || ' minutes',
+      paused_at = NULL
+    FROM public.exams e
+    WHERE e.id = s.exam_id
+      AND s.status = 'in_progress'
+      AND s.disconnected_at < NOW() - make_interval(mins => e.abandon_after_minutes)
+    RETURNING s.id
+  ),
+  closed AS (
+    UPDATE public.session_section_progress p
+    SET completed_at = LEAST(NOW(), p.deadline_at)
+    FROM abandoned
+    WHERE p.session_id = abandoned.id AND p.completed_at IS NULL
+  )
+  INSERT INTO public.session_connection_events (session_id, event)
+  SELECT id, 'abandoned' FROM abandoned;
+
+  GET DIAGNOSTICS _abandoned = ROW_COUNT;
+
+  PERFORM set_config('app.proctor_action', 'off', true);
+
+  RETURN _disconnected + _abandoned;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sweep_stale_sessions() TO authenticated;
+
+-- Run the sweep every minute where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('sweep-stale-sessions', '* * * * *', 'SELECT public.sweep_stale_sessions()');
+  END IF;
+END;
+$$;
+
+-- 7. Add helpful comments
+COMMENT ON COLUMN public.exams.disconnect_after_seconds IS 'Seconds without a heartbeat before a session is marked disconnected';
+COMMENT ON COLUMN public.exams.abandon_after_minutes IS 'Minutes a session may stay disconnected before it is marked abandoned';
+COMMENT ON COLUMN public.candidate_sessions.last_heartbeat_at IS 'Last heartbeat from the candidate''s browser';
+COMMENT ON COLUMN public.candidate_sessions.disconnected_at IS 'Set while the session is considered disconnected: when the last heartbeat arrived';
+COMMENT ON TABLE public.session_connection_events IS 'Drops, reconnects and abandonment of candidate sessions';
+
+-- 8. Verify the setup
+SELECT 'Session heartbeat created successfully' as status;
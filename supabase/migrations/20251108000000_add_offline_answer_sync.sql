@@ -0,0 +1,239 @@
+-- Offline Answer Sync
+-- This migration lets the candidate's browser replay answers it journaled
+-- while offline. Each answer carries the time the candidate changed it; a
+-- replay older than the stored answer is refused, so a stale tab or a retried
+-- batch cannot overwrite newer work. An answer changed before its section
+-- closed but delivered afterwards keeps its on-time status only when it was
+-- changed during a recorded outage and delivered by the first sync after the
+-- reconnect. Once the session has ended, one last sync may still deliver what
+-- was journaled before the end
+
+-- 1. When the candidate last changed the stored answer, by the browser's clock
+ALTER TABLE public.candidate_answers
+ADD COLUMN IF NOT EXISTS client_changed_at TIMESTAMPTZ;
+
+-- When sync_answers last delivered a batch for the session
+ALTER TABLE public.candidate_sessions
+ADD COLUMN IF NOT EXISTS answers_synced_at TIMESTAMPTZ;
+
+-- 2. Candidates cannot reset the sync time to get another trusted sync
+CREATE OR REPLACE FUNCTION public.protect_proctor_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.proctor_action', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status::text IN ('terminated', 'abandoned') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Session was ended by a proctor';
+  END IF;
+
+  IF NEW.paused_at IS DISTINCT FROM OLD.paused_at OR NEW.status_reason IS DISTINCT FROM OLD.status_reason THEN
+    RAISE EXCEPTION 'Pause state can only be changed by a proctor';
+  END IF;
+
+  IF NEW.proctor_id IS DISTINCT FROM OLD.proctor_id THEN
+    RAISE EXCEPTION 'Proctor assignment can only be changed by a supervisor';
+  END IF;
+
+  IF NEW.last_heartbeat_at IS DISTINCT FROM OLD.last_heartbeat_at OR NEW.disconnected_at IS DISTINCT FROM OLD.disconnected_at THEN
+    RAISE EXCEPTION 'Connection state can only be changed through record_heartbeat';
+  END IF;
+
+  IF NEW.answers_synced_at IS DISTINCT FROM OLD.answers_synced_at THEN
+    RAISE EXCEPTION 'Answer sync state can only be changed through sync_answers';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. Lateness goes by the change time for answers held back by a recorded outage
+CREATE OR REPLACE FUNCTION public.check_answer_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _section_id UUID;
+  _closes_at TIMESTAMPTZ;
+  _written_at TIMESTAMPTZ := NOW();
+BEGIN
+  -- Re-saving an unchanged answer keeps its original timing
+  IF TG_OP = 'UPDATE'
+    AND NEW.answer_text IS NOT DISTINCT FROM OLD.answer_text
+    AND NEW.selected_option IS NOT DISTINCT FROM OLD.selected_option THEN
+    NEW.submitted_at := OLD.submitted_at;
+    NEW.is_late := OLD.is_late;
+    RETURN NEW;
+  END IF;
+
+  SELECT section_id INTO _section_id
+  FROM public.exam_questions
+  WHERE id = NEW.question_id;
+
+  -- Bank questions have no section of their own; use the section they were drawn into
+  IF _section_id IS NULL THEN
+    SELECT drawn.key::uuid INTO _section_id
+    FROM public.candidate_sessions s, jsonb_each(s.question_set) drawn
+    WHERE s.id = NEW.session_id AND drawn.value ? NEW.question_id::text;
+  END IF;
+
+  SELECT LEAST(deadline_at, COALESCE(completed_at, deadline_at)) INTO _closes_at
+  FROM public.session_section_progress
+  WHERE session_id = NEW.session_id AND section_id = _section_id;
+
+  IF _closes_at IS NULL THEN
+    RAISE EXCEPTION 'Section for question % has not been started', NEW.question_id;
+  END IF;
+
+  -- The browser's clock is only trusted for a change made while the server saw
+  -- the candidate gone: after the last heartbeat before a drop and before the
+  -- reconnect. The write must come from the first sync since that reconnect;
+  -- later syncs and direct writes go by server time
+  IF NEW.client_changed_at IS NOT NULL
+    AND current_setting('app.answer_sync', true) = 'on'
+    AND (TG_OP = 'INSERT' OR NEW.client_changed_at IS DISTINCT FROM OLD.client_changed_at)
+    AND NEW.client_changed_at < _written_at
+    AND EXISTS (
+      SELECT 1
+      FROM public.session_connection_events e
+      JOIN public.candidate_sessions s ON s.id = e.session_id
+      WHERE e.session_id = NEW.session_id
+        AND e.event = 'reconnected'
+        AND e.occurred_at > COALESCE(s.answers_synced_at, '-infinity'::timestamptz)
+        AND NEW.client_changed_at BETWEEN e.occurred_at - make_interval(secs => e.gap_seconds) AND e.occurred_at
+    ) THEN
+    _written_at := NEW.client_changed_at;
+  END IF;
+
+  NEW.submitted_at := NOW();
+  NEW.is_late := _written_at > _closes_at + INTERVAL '30 seconds';
+  RETURN NEW;
+END;
+$$;
+
+-- 4. Replay a batch of journaled answers in one transaction, so it is one save
+-- on the review timeline. Returns, per answer, whether it was saved, refused
+-- as stale or refused as changed after the session ended; stale results carry
+-- the stored answer for the browser to adopt. Ended sessions get one final
+-- sync for answers journaled before the end
+CREATE OR REPLACE FUNCTION public.sync_answers(_session_id UUID, _answers JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session RECORD;
+  _answer RECORD;
+  _ended_at TIMESTAMPTZ;
+  _changed_at TIMESTAMPTZ;
+  _existing public.candidate_answers;
+  _results JSONB := '[]'::jsonb;
+BEGIN
+  SELECT id, status, started_at, answers_synced_at INTO _session
+  FROM public.candidate_sessions
+  WHERE id = _session_id
+  FOR UPDATE;
+
+  IF _session.id IS NULL THEN
+    RAISE EXCEPTION 'Session % not found', _session_id;
+  END IF;
+
+  IF jsonb_typeof(_answers) <> 'array' THEN
+    RAISE EXCEPTION 'Answers must be an array';
+  END IF;
+
+  _ended_at := NOW();
+  IF _session.status = 'in_progress' THEN
+    -- A sync is a sign of life too; logs the reconnect before its answers are checked
+    PERFORM public.record_heartbeat(_session_id);
+  ELSE
+    -- Every way a session ends closes its open section, so the last close is the end
+    SELECT COALESCE(MAX(completed_at), _session.started_at) INTO _ended_at
+    FROM public.session_section_progress
+    WHERE session_id = _session_id;
+
+    IF _session.answers_synced_at >= _ended_at THEN
+      RAISE EXCEPTION 'Session is closed';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.answer_sync', 'on', true);
+
+  FOR _answer IN
+    SELECT * FROM jsonb_to_recordset(_answers)
+      AS x(question_id UUID, answer_text TEXT, selected_option TEXT, changed_at TIMESTAMPTZ)
+  LOOP
+    -- Clamped to the session, like integrity event times
+    _changed_at := LEAST(GREATEST(COALESCE(_answer.changed_at, NOW()), _session.started_at), NOW());
+
+    IF _changed_at > _ended_at THEN
+      _results := _results || jsonb_build_object(
+        'question_id', _answer.question_id,
+        'status', 'closed'
+      );
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO _existing
+    FROM public.candidate_answers
+    WHERE session_id = _session_id AND question_id = _answer.question_id
+    FOR UPDATE;
+
+    IF _existing.id IS NOT NULL AND _existing.client_changed_at > _changed_at THEN
+      _results := _results || jsonb_build_object(
+        'question_id', _answer.question_id,
+        'status', 'stale',
+        'answer_text', _existing.answer_text,
+        'selected_option', _existing.selected_option,
+        'changed_at', _existing.client_changed_at
+      );
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.candidate_answers (
+      session_id, question_id, answer_text, selected_option, is_auto_saved, client_changed_at
+    )
+    VALUES (
+      _session_id, _answer.question_id, _answer.answer_text, _answer.selected_option, true, _changed_at
+    )
+    ON CONFLICT (session_id, question_id) DO UPDATE
+    SET
+      answer_text = EXCLUDED.answer_text,
+      selected_option = EXCLUDED.selected_option,
+      is_auto_saved = true,
+      client_changed_at = EXCLUDED.client_changed_at;
+
+    _results := _results || jsonb_build_object(
+      'question_id', _answer.question_id,
+      'status', 'saved'
+    );
+  END LOOP;
+
+  PERFORM set_config('app.answer_sync', 'off', true);
+  PERFORM set_config('app.proctor_action', 'on', true);
+
+  UPDATE public.candidate_sessions
+  SET answers_synced_at = NOW()
+  WHERE id = _session_id;
+
+  PERFORM set_config('app.proctor_action', 'off', true);
+
+  RETURN _results;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sync_answers(UUID, JSONB) TO anon, authenticated;
+
+-- 5. Add helpful comments
+COMMENT ON COLUMN public.candidate_answers.client_changed_at IS 'When the candidate changed this answer, by the browser clock clamped to the session; newer replays win';
+COMMENT ON COLUMN public.candidate_sessions.answers_synced_at IS 'When sync_answers last delivered answers; only the first sync after a reconnect may use browser times';
+
+-- 6. Verify the setup
+SELECT 'Offline answer sync created successfully' as status;
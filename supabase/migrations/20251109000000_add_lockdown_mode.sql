@@ -0,0 +1,77 @@
+-- Lockdown Mode
+-- This migration adds an opt-in lockdown policy per exam. Under lockdown the
+-- candidate page only shows questions while the browser is fullscreen, blocks
+-- clipboard, print, find, save and developer tools shortcuts, and disables text
+-- selection on question content. Every blocked shortcut is logged as an
+-- integrity event next to the existing fullscreen exits
+
+-- 1. Per-exam lockdown policy
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS lockdown_mode BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS lockdown_allow_clipboard BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. Accept blocked shortcuts in the integrity log
+CREATE OR REPLACE FUNCTION public.log_integrity_events(_session_id UUID, _events JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _started_at TIMESTAMPTZ;
+  _stamped JSONB;
+BEGIN
+  SELECT started_at INTO _started_at
+  FROM public.candidate_sessions
+  WHERE id = _session_id AND status = 'in_progress';
+
+  IF _started_at IS NULL THEN
+    RAISE EXCEPTION 'Session is not in progress';
+  END IF;
+
+  IF jsonb_typeof(_events) <> 'array' THEN
+    RAISE EXCEPTION 'Events must be an array';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_events) AS event
+    WHERE event->>'type' NOT IN (
+      'visibility_hidden', 'visibility_visible', 'window_blur', 'window_focus',
+      'fullscreen_exit', 'copy', 'cut', 'paste', 'context_menu',
+      'devtools_open', 'screen_share_ended', 'camera_ended',
+      'no_face', 'multiple_faces', 'looking_away',
+      'speech', 'multiple_speakers', 'blocked_shortcut'
+    )
+    OR event->>'at' IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unknown integrity event';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'type', event->>'type',
+      'at', event->>'at',
+      'detail', event->'detail',
+      'duration_seconds', (event->>'duration_seconds')::NUMERIC,
+      'received_at', NOW(),
+      'exam_seconds', FLOOR(EXTRACT(EPOCH FROM
+        LEAST(GREATEST((event->>'at')::timestamptz, _started_at), NOW()) - _started_at
+      ))::INTEGER
+    ) ORDER BY position
+  ), '[]'::jsonb) INTO _stamped
+  FROM jsonb_array_elements(_events) WITH ORDINALITY AS entries(event, position);
+
+  UPDATE public.candidate_sessions
+  SET flags = COALESCE(flags, '[]'::jsonb) || _stamped
+  WHERE id = _session_id;
+
+  RETURN jsonb_array_length(_stamped);
+END;
+$$;
+
+-- 3. Add helpful comments
+COMMENT ON COLUMN public.exams.lockdown_mode IS 'Require fullscreen while questions are shown and block clipboard, print, find and developer tools shortcuts';
+COMMENT ON COLUMN public.exams.lockdown_allow_clipboard IS 'Under lockdown, still allow copy, cut and paste inside the exam';
+
+-- 4. Verify the setup
+SELECT 'Lockdown mode created successfully' as status;
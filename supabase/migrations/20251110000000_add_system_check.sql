@@ -0,0 +1,42 @@
+-- Pre-exam System Check
+-- This migration stores the result of the system check a candidate runs
+-- before the exam starts: which camera and microphone were chosen, and how
+-- the browser did on codec support, upload bandwidth, a short record-and-upload
+-- round trip and free storage. Proctors see it on the session to tell why a
+-- candidate had trouble recording. A rerun replaces the previous result
+
+-- 1. Latest system check of each session
+ALTER TABLE public.candidate_sessions
+ADD COLUMN IF NOT EXISTS system_check JSONB,
+ADD COLUMN IF NOT EXISTS system_checked_at TIMESTAMPTZ;
+
+-- 2. Save a system check from the candidate's browser, stamped with server time
+CREATE OR REPLACE FUNCTION public.save_system_check(_session_id UUID, _results JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF jsonb_typeof(_results) <> 'object' OR jsonb_typeof(_results->'checks') <> 'array' THEN
+    RAISE EXCEPTION 'System check results must have a list of checks';
+  END IF;
+
+  UPDATE public.candidate_sessions
+  SET system_check = _results, system_checked_at = NOW()
+  WHERE id = _session_id AND status = 'in_progress';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session is not in progress';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_system_check(UUID, JSONB) TO anon, authenticated;
+
+-- 3. Add helpful comments
+COMMENT ON COLUMN public.candidate_sessions.system_check IS 'Latest pre-exam system check: chosen devices and the result of each check';
+COMMENT ON COLUMN public.candidate_sessions.system_checked_at IS 'When the latest system check was saved';
+
+-- 4. Verify the setup
+SELECT 'System check created successfully' as status;
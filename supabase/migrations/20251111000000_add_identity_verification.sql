@@ -0,0 +1,154 @@
+-- Candidate Identity Verification
+-- This migration adds an identity step before the exam. The candidate captures
+-- a webcam photo of their face and a photo of their ID card; both go to a
+-- private bucket next to exam-recordings. Proctors approve or reject them from
+-- a queue before or during the exam. A rejected candidate can submit new
+-- photos, which puts the session back in the queue
+
+-- 1. Private bucket for identity photos (if it doesn't exist)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'identity-photos',
+  'identity-photos',
+  false,
+  10485760, -- 10MB limit
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Candidates upload without signing in; only proctors can look at the photos
+DROP POLICY IF EXISTS "Allow anonymous identity uploads" ON storage.objects;
+CREATE POLICY "Allow anonymous identity uploads" ON storage.objects
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (bucket_id = 'identity-photos');
+
+DROP POLICY IF EXISTS "Allow admins to view identity photos" ON storage.objects;
+CREATE POLICY "Allow admins to view identity photos" ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'identity-photos' AND public.is_current_user_admin());
+
+-- 2. Latest identity submission of each session
+CREATE TABLE IF NOT EXISTS public.identity_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.candidate_sessions(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  face_path TEXT NOT NULL,
+  id_document_path TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS identity_verifications_pending_idx
+  ON public.identity_verifications (submitted_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.identity_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by submit_identity and review_identity
+DROP POLICY IF EXISTS "Admins can view identity verifications" ON public.identity_verifications;
+CREATE POLICY "Admins can view identity verifications" ON public.identity_verifications
+  FOR SELECT
+  TO authenticated
+  USING (public.is_current_user_admin());
+
+-- The proctor queue refreshes on changes
+ALTER PUBLICATION supabase_realtime ADD TABLE public.identity_verifications;
+
+-- 3. Submit or resubmit photos from the candidate's browser. The photos must
+-- have been uploaded under the session's folder
+CREATE OR REPLACE FUNCTION public.submit_identity(_session_id UUID, _face_path TEXT, _id_document_path TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.candidate_sessions
+    WHERE id = _session_id AND status = 'in_progress'
+  ) THEN
+    RAISE EXCEPTION 'Session is not in progress';
+  END IF;
+
+  IF _face_path NOT LIKE _session_id::text || '/%' OR _id_document_path NOT LIKE _session_id::text || '/%' THEN
+    RAISE EXCEPTION 'Photos must be stored under the session';
+  END IF;
+
+  -- An approved identity stays approved; new photos are only taken while it is not
+  INSERT INTO public.identity_verifications (session_id, face_path, id_document_path)
+  VALUES (_session_id, _face_path, _id_document_path)
+  ON CONFLICT (session_id) DO UPDATE
+  SET
+    face_path = EXCLUDED.face_path,
+    id_document_path = EXCLUDED.id_document_path,
+    status = 'pending',
+    submitted_at = NOW(),
+    reviewed_by = NULL,
+    reviewed_at = NULL,
+    review_note = NULL
+  WHERE public.identity_verifications.status <> 'approved';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Identity is already approved';
+  END IF;
+END;
+$$;
+
+-- 4. Where the candidate stands, without exposing the photos or the reviewer
+CREATE OR REPLACE FUNCTION public.get_identity_status(_session_id UUID)
+RETURNS TABLE (status TEXT, review_note TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT status, review_note
+  FROM public.identity_verifications
+  WHERE session_id = _session_id;
+$$;
+
+-- 5. Approve or reject a pending submission; a rejection needs a reason for the candidate
+CREATE OR REPLACE FUNCTION public.review_identity(_session_id UUID, _approve BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_current_user_admin() THEN
+    RAISE EXCEPTION 'Only proctors can review identities';
+  END IF;
+
+  IF NOT _approve AND (_note IS NULL OR length(trim(_note)) = 0) THEN
+    RAISE EXCEPTION 'A reason is required to reject an identity';
+  END IF;
+
+  UPDATE public.identity_verifications
+  SET
+    status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW(),
+    review_note = NULLIF(trim(_note), '')
+  WHERE session_id = _session_id AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending identity for this session';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_identity(UUID, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_identity_status(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.review_identity(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- 6. Add helpful comments
+COMMENT ON TABLE public.identity_verifications IS 'Face and ID card photos a candidate submitted before the exam, and the proctor''s decision';
+COMMENT ON COLUMN public.identity_verifications.face_path IS 'Webcam photo of the candidate in the identity-photos bucket';
+COMMENT ON COLUMN public.identity_verifications.id_document_path IS 'Photo of the candidate''s ID card in the identity-photos bucket';
+
+-- 7. Verify the setup
+SELECT 'Identity verification created successfully' as status;
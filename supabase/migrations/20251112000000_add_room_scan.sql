@@ -0,0 +1,130 @@
+-- Room Scan Before the Exam
+-- This migration adds an optional per-exam room scan. Before the first section
+-- starts, the candidate records a short guided webcam clip of the room around
+-- them. The clip is stored in exam-recordings under the session's room-scan
+-- folder, apart from the recording chunks, and proctors watch it live or on
+-- the session review. Sections of such an exam cannot start until it is uploaded
+
+-- 1. Per-exam setting and the clip of each session
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS room_scan_required BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.candidate_sessions
+ADD COLUMN IF NOT EXISTS room_scan_path TEXT,
+ADD COLUMN IF NOT EXISTS room_scan_uploaded_at TIMESTAMPTZ;
+
+-- 2. Record an uploaded clip once it is in storage. It can be replaced until the
+-- first section starts
+CREATE OR REPLACE FUNCTION public.save_room_scan(_session_id UUID, _path TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _path NOT LIKE _session_id::text || '/room-scan/%' THEN
+    RAISE EXCEPTION 'Room scan must be stored under the session';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM storage.objects
+    WHERE bucket_id = 'exam-recordings' AND name = _path
+  ) THEN
+    RAISE EXCEPTION 'Room scan has not been uploaded';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.session_section_progress WHERE session_id = _session_id) THEN
+    RAISE EXCEPTION 'The exam has already started';
+  END IF;
+
+  PERFORM set_config('app.proctor_action', 'on', true);
+
+  UPDATE public.candidate_sessions
+  SET room_scan_path = _path, room_scan_uploaded_at = NOW()
+  WHERE id = _session_id AND status = 'in_progress';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session is not in progress';
+  END IF;
+
+  PERFORM set_config('app.proctor_action', 'off', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_room_scan(UUID, TEXT) TO anon, authenticated;
+
+-- 3. Refuse to start a section while a required room scan is missing
+CREATE OR REPLACE FUNCTION public.start_session_section(_session_id UUID, _section_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status session_status;
+  _exam_id UUID;
+  _room_scan_path TEXT;
+  _section RECORD;
+  _progress RECORD;
+BEGIN
+  SELECT status, exam_id, room_scan_path INTO _status, _exam_id, _room_scan_path
+  FROM public.candidate_sessions
+  WHERE id = _session_id;
+
+  IF _exam_id IS NULL THEN
+    RAISE EXCEPTION 'Session % not found', _session_id;
+  END IF;
+
+  IF _status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Session % is no longer in progress', _session_id;
+  END IF;
+
+  IF _room_scan_path IS NULL AND EXISTS (
+    SELECT 1 FROM public.exams WHERE id = _exam_id AND room_scan_required
+  ) THEN
+    RAISE EXCEPTION 'Room scan has not been uploaded';
+  END IF;
+
+  SELECT id, timer_minutes, section_order INTO _section
+  FROM public.exam_sections
+  WHERE id = _section_id AND exam_id = _exam_id;
+
+  IF _section.id IS NULL THEN
+    RAISE EXCEPTION 'Section % does not belong to this exam', _section_id;
+  END IF;
+
+  INSERT INTO public.session_section_progress (session_id, section_id, started_at, deadline_at)
+  VALUES (_session_id, _section_id, NOW(), NOW() + make_interval(mins => _section.timer_minutes))
+  ON CONFLICT (session_id, section_id) DO NOTHING;
+
+  -- Sections are taken in order; starting one closes the ones before it
+  UPDATE public.session_section_progress p
+  SET completed_at = LEAST(NOW(), p.deadline_at)
+  FROM public.exam_sections s
+  WHERE p.section_id = s.id
+    AND p.session_id = _session_id
+    AND p.completed_at IS NULL
+    AND s.exam_id = _exam_id
+    AND s.section_order < _section.section_order;
+
+  SELECT * INTO _progress
+  FROM public.session_section_progress
+  WHERE session_id = _session_id AND section_id = _section_id;
+
+  RETURN jsonb_build_object(
+    'section_id', _progress.section_id,
+    'started_at', _progress.started_at,
+    'deadline_at', _progress.deadline_at,
+    'completed_at', _progress.completed_at,
+    'server_now', NOW()
+  );
+END;
+$$;
+
+-- 4. Add helpful comments
+COMMENT ON COLUMN public.exams.room_scan_required IS 'Candidates record a guided room scan clip before the first section starts';
+COMMENT ON COLUMN public.candidate_sessions.room_scan_path IS 'Room scan clip in the exam-recordings bucket, kept apart from the recording chunks';
+COMMENT ON COLUMN public.candidate_sessions.room_scan_uploaded_at IS 'When the room scan clip was uploaded';
+
+-- 5. Verify the setup
+SELECT 'Room scan created successfully' as status;
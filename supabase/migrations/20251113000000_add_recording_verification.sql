@@ -0,0 +1,156 @@
+-- Recording Integrity Verification
+-- This migration stores the result of re-hashing a session's recording on the
+-- server. The verify-recording edge function downloads every chunk from
+-- exam-recordings, compares its SHA-256 with the manifest and the manifest
+-- digest with recording_checksum; recordings uploaded as a single file are
+-- hashed whole. A session ends up verified, mismatch (bytes or manifest
+-- changed) or missing (objects or checksum gone). New chunks clear the result
+
+-- 1. Latest verification of each session
+ALTER TABLE public.candidate_sessions
+ADD COLUMN IF NOT EXISTS recording_verification TEXT CHECK (recording_verification IN ('verified', 'mismatch', 'missing')),
+ADD COLUMN IF NOT EXISTS recording_verified_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS recording_verification_detail TEXT;
+
+-- The scheduled run picks up recordings that were never verified
+CREATE INDEX IF NOT EXISTS candidate_sessions_unverified_recording_idx
+  ON public.candidate_sessions (started_at)
+  WHERE recording_verification IS NULL AND recording_checksum IS NOT NULL;
+
+-- 2. Candidates cannot mark their own recording verified
+CREATE OR REPLACE FUNCTION public.protect_proctor_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.proctor_action', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status::text IN ('terminated', 'abandoned') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Session was ended by a proctor';
+  END IF;
+
+  IF NEW.paused_at IS DISTINCT FROM OLD.paused_at OR NEW.status_reason IS DISTINCT FROM OLD.status_reason THEN
+    RAISE EXCEPTION 'Pause state can only be changed by a proctor';
+  END IF;
+
+  IF NEW.proctor_id IS DISTINCT FROM OLD.proctor_id THEN
+    RAISE EXCEPTION 'Proctor assignment can only be changed by a supervisor';
+  END IF;
+
+  IF NEW.last_heartbeat_at IS DISTINCT FROM OLD.last_heartbeat_at OR NEW.disconnected_at IS DISTINCT FROM OLD.disconnected_at THEN
+    RAISE EXCEPTION 'Connection state can only be changed through record_heartbeat';
+  END IF;
+
+  IF NEW.answers_synced_at IS DISTINCT FROM OLD.answers_synced_at THEN
+    RAISE EXCEPTION 'Answer sync state can only be changed through sync_answers';
+  END IF;
+
+  -- Moving a session to another exam would skip its roster, window and attempt checks.
+  -- An admin removing the roster entry clears the link through the foreign key
+  IF NEW.exam_id IS DISTINCT FROM OLD.exam_id THEN
+    RAISE EXCEPTION 'A session cannot be moved to another exam';
+  END IF;
+
+  IF NEW.roster_entry_id IS DISTINCT FROM OLD.roster_entry_id
+    AND NOT (NEW.roster_entry_id IS NULL AND public.is_current_user_admin()) THEN
+    RAISE EXCEPTION 'Roster entry of a session cannot be changed';
+  END IF;
+
+  IF NEW.shuffle_seed IS DISTINCT FROM OLD.shuffle_seed THEN
+    RAISE EXCEPTION 'Shuffle seed of a session cannot be changed';
+  END IF;
+
+  IF NEW.question_set IS DISTINCT FROM OLD.question_set THEN
+    RAISE EXCEPTION 'Questions of a session can only be drawn through draw_session_questions';
+  END IF;
+
+  IF NEW.room_scan_path IS DISTINCT FROM OLD.room_scan_path
+    OR NEW.room_scan_uploaded_at IS DISTINCT FROM OLD.room_scan_uploaded_at THEN
+    RAISE EXCEPTION 'Room scan can only be recorded through save_room_scan';
+  END IF;
+
+  IF NEW.recording_verification IS DISTINCT FROM OLD.recording_verification
+    OR NEW.recording_verified_at IS DISTINCT FROM OLD.recording_verified_at
+    OR NEW.recording_verification_detail IS DISTINCT FROM OLD.recording_verification_detail THEN
+    RAISE EXCEPTION 'Recording verification can only be changed by the verification job';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. A new chunk changes the manifest digest, so an earlier verification no longer applies
+CREATE OR REPLACE FUNCTION public.update_recording_manifest()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.proctor_action', 'on', true);
+
+  UPDATE public.candidate_sessions
+  SET
+    recording_chunk_count = manifest.chunk_count,
+    recording_checksum = manifest.digest,
+    recording_verification = NULL,
+    recording_verified_at = NULL,
+    recording_verification_detail = NULL
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS chunk_count,
+      encode(sha256(convert_to(string_agg(sha256, '' ORDER BY sequence), 'UTF8')), 'hex') AS digest
+    FROM public.recording_chunks
+    WHERE session_id = NEW.session_id
+  ) AS manifest
+  WHERE id = NEW.session_id;
+
+  PERFORM set_config('app.proctor_action', 'off', true);
+
+  RETURN NEW;
+END;
+$$;
+
+-- 4. Store a result from the edge function, stamped with server time
+CREATE OR REPLACE FUNCTION public.record_recording_verification(_session_id UUID, _status TEXT, _detail TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _status NOT IN ('verified', 'mismatch', 'missing') THEN
+    RAISE EXCEPTION 'Unknown verification status %', _status;
+  END IF;
+
+  PERFORM set_config('app.proctor_action', 'on', true);
+
+  UPDATE public.candidate_sessions
+  SET
+    recording_verification = _status,
+    recording_verified_at = NOW(),
+    recording_verification_detail = _detail
+  WHERE id = _session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', _session_id;
+  END IF;
+
+  PERFORM set_config('app.proctor_action', 'off', true);
+END;
+$$;
+
+-- Only the edge function, with the service role key, records results
+REVOKE EXECUTE ON FUNCTION public.record_recording_verification(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_recording_verification(UUID, TEXT, TEXT) TO service_role;
+
+-- 5. Add helpful comments
+COMMENT ON COLUMN public.candidate_sessions.recording_verification IS 'Result of re-hashing the stored recording on the server: verified, mismatch or missing';
+COMMENT ON COLUMN public.candidate_sessions.recording_verified_at IS 'When the recording was last verified';
+COMMENT ON COLUMN public.candidate_sessions.recording_verification_detail IS 'What the verification found, such as the chunks that did not match';
+
+-- 6. Verify the setup
+SELECT 'Recording verification created successfully' as status;